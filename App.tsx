@@ -7,47 +7,71 @@ import { BpmDisplay } from './components/BpmDisplay';
 import { MusicalInsights } from './components/MusicalInsights';
 import { BpmAnalysisVisualizer } from './components/BpmAnalysisVisualizer';
 import { WaveformVisualizer } from './components/WaveformVisualizer';
+import { TempoMapChart } from './components/TempoMapChart';
 import { TempoControls } from './components/TempoControls';
+import { ClickExportPanel } from './components/ClickExportPanel';
+import { DjExportPanel } from './components/DjExportPanel';
+import { TagExportPanel } from './components/TagExportPanel';
 import { FeedbackModal } from './components/FeedbackModal';
 import { DownloadIcon } from './components/icons/DownloadIcon';
 import { FileTypeBadge } from './components/FileTypeBadge';
 import { MetadataDisplay } from './components/MetadataDisplay';
 import { SettingsMenu } from './components/SettingsMenu';
+import { LargeFileWarning } from './components/LargeFileWarning';
+import { RegionAnalysisPanel } from './components/RegionAnalysisPanel';
+import { LiveTempoPanel } from './components/LiveTempoPanel';
 
 // Types
-import type { MusicalInsight, BpmCandidate, TrackMetadata, FileInfo, SongFact, Settings, AnalysisResult } from './types';
+import type { MusicalInsight, BpmCandidate, TrackMetadata, FileInfo, SongFact, Settings, AnalysisResult, BeatInfo, AnalysisProgress, AnalysisStage, TimeRange, BeatGridEdit } from './types';
+import type { PreparedAudio } from './services/bpmAnalysisEngine';
 
 // Services
 import { getMusicalInsights, getSongFacts } from './services/geminiService';
 import { logInfo, logError, downloadLogs, setVerboseLogging } from './services/loggingService';
+import { BpmAnalyser, isAbortError } from './services/bpmAnalyser';
+import { DEFAULT_TEMPO_SEARCH } from './services/bpmAnalysisEngine';
+import { probeAudioFile } from './services/audioSource';
 
-// The BpmAnalyser is attached to the window object from the script in index.html
+// Utils
+import { buildFixedGrid, findNearestBeatIndex, getEditedBeatInfo, resampleBeats, scaleGridEdit, shiftGridEdit, stretchGridEdit } from './utils/beatGrid';
+import { getTrackKey, loadGridEdit, saveGridEdit } from './services/gridEditStore';
+import { DEFAULT_METRONOME } from './services/metronome';
+import { resolveAnalysisOptions } from './utils/analysisPresets';
+
+// jsmediatags is attached to the window object by the script tag in index.html
 declare global {
   interface Window {
-    BpmAnalyser: {
-      analyse: (buffer: AudioBuffer) => Promise<AnalysisResult>;
-    }
     jsmediatags: any;
   }
 }
 
-const FLAVOR_TEXTS = [
-  'Analyzing the rhythm matrix...',
-  'Locating the groove...',
-  'Counting the beats...',
-  'Fun Fact: The average pop song has a tempo between 110 and 130 BPM.',
-  'Calibrating the metronome...',
-  'Decoding audio frequencies...',
-  'Synchronizing with the beat...',
-  'Hang tight, this track is a banger...',
-  'Did you know? The term "tempo" comes from the Italian word for "time".',
-  'Just a moment, finding the pulse...'
-];
+const STAGE_LABELS: Record<AnalysisStage, string> = {
+    decode: 'Decoding audio',
+    onsets: 'Detecting onsets',
+    autocorrelation: 'Running autocorrelation',
+    chunks: 'Building tempo map',
+    beats: 'Tracking beats and meter',
+    key: 'Detecting key',
+    structure: 'Finding sections',
+};
+
+const describeProgress = (progress: AnalysisProgress): string => {
+    const label = STAGE_LABELS[progress.stage];
+    return progress.chunk && progress.totalChunks ? `${label}: chunk ${progress.chunk} of ${progress.totalChunks}` : label;
+};
+
+/** Where a region's beat grid is pinned when it's promoted to the whole track. */
+const regionGridAnchor = (result: AnalysisResult, region: TimeRange): number =>
+    result.meter?.firstDownbeat ?? result.beats[0] ?? region.start;
 
 const DEFAULT_SETTINGS: Settings = {
     useGemini: true,
     debugMode: false,
     verboseLogging: false,
+    onsetMethod: 'envelope',
+    analysisPreset: 'default',
+    customTempoSearch: DEFAULT_TEMPO_SEARCH,
+    metronome: DEFAULT_METRONOME,
 };
 
 const HERO_FEATURES = [
@@ -122,7 +146,7 @@ const App: React.FC = () => {
     const [metadata, setMetadata] = useState<TrackMetadata | null>(null);
     const [audioBuffer, setAudioBuffer] = useState<AudioBuffer | null>(null);
     const [isLoading, setIsLoading] = useState(false);
-    const [loadingMessage, setLoadingMessage] = useState<string | null>(null);
+    const [analysisProgress, setAnalysisProgress] = useState<AnalysisProgress | null>(null);
     const [error, setError] = useState<string | null>(null);
     const [analysisResult, setAnalysisResult] = useState<AnalysisResult | null>(null);
     const [insights, setInsights] = useState<MusicalInsight | null>(null);
@@ -136,15 +160,37 @@ const App: React.FC = () => {
     const [settings, setSettings] = useState<Settings>(() => {
         try {
             const savedSettings = localStorage.getItem('ybcbpm-settings');
-            return savedSettings ? JSON.parse(savedSettings) : DEFAULT_SETTINGS;
+            // Merge over the defaults so settings added since the last visit get a value.
+            if (!savedSettings) return DEFAULT_SETTINGS;
+            const parsed = JSON.parse(savedSettings);
+            return { ...DEFAULT_SETTINGS, ...parsed, metronome: { ...DEFAULT_METRONOME, ...parsed.metronome } };
         } catch (e) {
             return DEFAULT_SETTINGS;
         }
     });
     const [isAdjustingBeat, setIsAdjustingBeat] = useState(false);
     const [userOverriddenBeat, setUserOverriddenBeat] = useState<number | null>(null);
+    // A hand-edited grid replaces the detected one, and userOverriddenBeat with it.
+    const [gridEdit, setGridEdit] = useState<BeatGridEdit | null>(null);
+    const [isReanalysing, setIsReanalysing] = useState(false);
+    // Large WAVs are analysed from the stream and only decoded for playback on request.
+    const [streamedAudio, setStreamedAudio] = useState<PreparedAudio | null>(null);
+    const [deferredPlayback, setDeferredPlayback] = useState<{ estimatedBytes: number; isLoading: boolean; error: string | null } | null>(null);
+    // A file we can't stream that's too large to decode without asking first.
+    const [pendingLargeFile, setPendingLargeFile] = useState<{ file: File; estimatedBytes: number } | null>(null);
+    const [selection, setSelection] = useState<TimeRange | null>(null);
+    const [loop, setLoop] = useState<TimeRange | null>(null);
+    const [isLiveMode, setIsLiveMode] = useState(false);
+    const [regionAnalysis, setRegionAnalysis] = useState<{ result: AnalysisResult | null; isAnalysing: boolean; error: string | null } | null>(null);
 
     const audioContextRef = useRef<AudioContext | null>(null);
+    // Key of the options the current result was computed with, to spot when they change.
+    const analysedOptionsKeyRef = useRef<string | null>(null);
+    // Aborts the in-flight file load; replaced for every new file.
+    const loadAbortRef = useRef<AbortController | null>(null);
+
+    const analysisOptions = React.useMemo(() => resolveAnalysisOptions(settings), [settings]);
+    const analysisOptionsKey = JSON.stringify(analysisOptions);
     
     useEffect(() => {
         if (!audioContextRef.current) {
@@ -171,12 +217,14 @@ const App: React.FC = () => {
     };
 
     const resetState = useCallback(() => {
+        loadAbortRef.current?.abort();
+        loadAbortRef.current = null;
         setFile(null);
         setFileType(null);
         setMetadata(null);
         setAudioBuffer(null);
         setIsLoading(false);
-        setLoadingMessage(null);
+        setAnalysisProgress(null);
         setError(null);
         setAnalysisResult(null);
         setInsights(null);
@@ -189,14 +237,27 @@ const App: React.FC = () => {
         setLoadingSongFacts(false);
         setIsAdjustingBeat(false);
         setUserOverriddenBeat(null);
+        setGridEdit(null);
+        setIsReanalysing(false);
+        setStreamedAudio(null);
+        setDeferredPlayback(null);
+        setPendingLargeFile(null);
+        setSelection(null);
+        setLoop(null);
+        setRegionAnalysis(null);
+        analysedOptionsKeyRef.current = null;
         logInfo("State has been reset.");
     }, []);
 
-    const handleFileSelect = useCallback(async (selectedFile: File) => {
+    const handleFileSelect = useCallback(async (selectedFile: File, allowFullDecode = false) => {
         resetState();
+        const controller = new AbortController();
+        loadAbortRef.current = controller;
+        const { signal } = controller;
         setIsLoading(true);
         setFile(selectedFile);
-        setLoadingMessage(FLAVOR_TEXTS[Math.floor(Math.random() * FLAVOR_TEXTS.length)]);
+        setGridEdit(loadGridEdit(getTrackKey(selectedFile)));
+        setAnalysisProgress({ stage: 'decode', progress: 0 });
 
         // Determine file type
         let determinedType = '';
@@ -275,25 +336,57 @@ const App: React.FC = () => {
         }
 
         try {
-            const arrayBuffer = await selectedFile.arrayBuffer();
-            const decodedAudioBuffer = await audioContextRef.current.decodeAudioData(arrayBuffer);
-            setAudioBuffer(decodedAudioBuffer);
-            logInfo("Audio decoding successful.");
-            
-            const calculatedFileInfo: FileInfo = {
-                duration: decodedAudioBuffer.duration,
-                sampleRate: decodedAudioBuffer.sampleRate,
-                channels: decodedAudioBuffer.numberOfChannels,
-                size: selectedFile.size,
-                bitrate: (selectedFile.size * 8) / decodedAudioBuffer.duration
-            };
-            setFileInfo(calculatedFileInfo);
-            logInfo("File info calculated", calculatedFileInfo);
-
-            const [parsedMetadata, result] = await Promise.all([
-                metadataPromise,
-                window.BpmAnalyser.analyse(decodedAudioBuffer)
-            ]);
+            const probe = await probeAudioFile(selectedFile, audioContextRef.current.sampleRate);
+            if (signal.aborted) return;
+            const { streamFormat } = probe;
+            if (probe.exceedsBudget && !streamFormat && !allowFullDecode) {
+                logInfo("File is too large to decode without asking.", { estimatedDecodedBytes: probe.estimatedDecodedBytes });
+                setPendingLargeFile({ file: selectedFile, estimatedBytes: probe.estimatedDecodedBytes });
+                return;
+            }
+
+            let decodedAudioBuffer: AudioBuffer | null = null;
+            let analysisPromise: Promise<AnalysisResult>;
+            if (streamFormat) {
+                logInfo("Streaming a large file instead of decoding it whole.", { estimatedDecodedBytes: probe.estimatedDecodedBytes });
+                setDeferredPlayback({ estimatedBytes: probe.estimatedDecodedBytes, isLoading: false, error: null });
+                const streamed = await BpmAnalyser.streamFile(selectedFile, streamFormat, { signal, onProgress: setAnalysisProgress });
+                if (signal.aborted) return;
+                setStreamedAudio(streamed.prepared);
+
+                const duration = streamFormat.frames / streamFormat.sampleRate;
+                const calculatedFileInfo: FileInfo = {
+                    duration,
+                    sampleRate: streamFormat.sampleRate,
+                    channels: streamFormat.channels,
+                    size: selectedFile.size,
+                    bitrate: (selectedFile.size * 8) / duration,
+                    loudness: streamed.loudness,
+                };
+                setFileInfo(calculatedFileInfo);
+                logInfo("File info calculated", { ...calculatedFileInfo, loudness: undefined });
+                analysisPromise = BpmAnalyser.analysePrepared(streamed.prepared, analysisOptions, { signal, onProgress: setAnalysisProgress });
+            } else {
+                const arrayBuffer = await selectedFile.arrayBuffer();
+                decodedAudioBuffer = await audioContextRef.current.decodeAudioData(arrayBuffer);
+                if (signal.aborted) return;
+                setAudioBuffer(decodedAudioBuffer);
+                logInfo("Audio decoding successful.");
+
+                const calculatedFileInfo: FileInfo = {
+                    duration: decodedAudioBuffer.duration,
+                    sampleRate: decodedAudioBuffer.sampleRate,
+                    channels: decodedAudioBuffer.numberOfChannels,
+                    size: selectedFile.size,
+                    bitrate: (selectedFile.size * 8) / decodedAudioBuffer.duration
+                };
+                setFileInfo(calculatedFileInfo);
+                logInfo("File info calculated", calculatedFileInfo);
+                analysisPromise = BpmAnalyser.analyse(decodedAudioBuffer, analysisOptions, { signal, onProgress: setAnalysisProgress });
+            }
+
+            const [parsedMetadata, result] = await Promise.all([metadataPromise, analysisPromise]);
+            if (signal.aborted) return;
 
             setMetadata(parsedMetadata);
 
@@ -301,7 +394,7 @@ const App: React.FC = () => {
                 setLoadingSongFacts(true);
                 getSongFacts(parsedMetadata.title, parsedMetadata.artist)
                     .then(facts => {
-                        if (facts && facts.facts.length > 0) {
+                        if (!signal.aborted && facts && facts.facts.length > 0) {
                             setSongFacts(facts);
                             logInfo("Song facts fetched", facts);
                         }
@@ -314,20 +407,38 @@ const App: React.FC = () => {
                     });
             }
 
-            logInfo("BPM analysis complete.", result);
+            logInfo("BPM analysis complete.", { options: analysisOptions, result });
             
             if (!result || result.candidates.length === 0) {
                 throw new Error("BPM analysis failed to produce results.");
             }
             
+            analysedOptionsKeyRef.current = JSON.stringify(analysisOptions);
             setAnalysisResult(result);
             const detectedBpm = result.candidates[0].tempo;
             setActiveBpm(detectedBpm);
 
+            // Loudness is independent of the BPM options, so it's measured once per file.
+            // Streamed files were metered on the way through.
+            if (decodedAudioBuffer) {
+                BpmAnalyser.measureLoudness(decodedAudioBuffer, { signal })
+                    .then(loudness => {
+                        if (signal.aborted) return;
+                        setFileInfo(prev => prev && { ...prev, loudness });
+                        logInfo("Loudness measured.", { ...loudness, shortTerm: `${loudness.shortTerm.length} points` });
+                    })
+                    .catch(loudnessError => {
+                        if (signal.aborted || isAbortError(loudnessError)) return;
+                        logError("Failed to measure loudness.", loudnessError);
+                        setFileInfo(prev => prev && { ...prev, loudness: null });
+                    });
+            }
+
             if (settings.useGemini) {
                 setLoadingInsights(true);
                 try {
-                    const fetchedInsights = await getMusicalInsights(detectedBpm, parsedMetadata);
+                    const fetchedInsights = await getMusicalInsights(detectedBpm, parsedMetadata, result.key?.key ?? null);
+                    if (signal.aborted) return;
                     setInsights(fetchedInsights);
                     logInfo("Musical insights fetched.", fetchedInsights);
                 } catch (insightError) {
@@ -338,15 +449,109 @@ const App: React.FC = () => {
             }
 
         } catch (e) {
+            if (signal.aborted || isAbortError(e)) {
+                logInfo(`Analysis of ${selectedFile.name} was cancelled.`);
+                return;
+            }
             const errorMessage = e instanceof Error ? e.message : "An unknown error occurred during analysis.";
             setError(`Failed to process audio file. Please ensure it's a valid, non-corrupted audio file. Error: ${errorMessage}`);
             logError("Error in handleFileSelect", e);
             setAudioBuffer(null);
         } finally {
-            setIsLoading(false);
+            // A newer file (or a cancel) has already reset the loading state.
+            if (loadAbortRef.current === controller) {
+                setIsLoading(false);
+                setAnalysisProgress(null);
+            }
+        }
+
+    }, [resetState, settings.useGemini, analysisOptions]);
+
+    /** Decodes a streamed file in full once the user accepts the memory cost. */
+    const handleLoadForPlayback = useCallback(async () => {
+        if (!file || !audioContextRef.current) return;
+        const signal = loadAbortRef.current?.signal;
+        setDeferredPlayback(prev => prev && { ...prev, isLoading: true, error: null });
+        try {
+            const decoded = await audioContextRef.current.decodeAudioData(await file.arrayBuffer());
+            if (signal?.aborted) return;
+            setAudioBuffer(decoded);
+            setDeferredPlayback(null);
+            logInfo("Large file decoded for playback.");
+        } catch (e) {
+            if (signal?.aborted) return;
+            logError("Failed to decode the file for playback", e);
+            const message = e instanceof Error ? e.message : "The browser couldn't decode the file.";
+            setDeferredPlayback(prev => prev && { ...prev, isLoading: false, error: `Playback isn't available: ${message}` });
         }
+    }, [file]);
 
-    }, [resetState, settings.useGemini]);
+    // Re-analyse the already-decoded buffer (or streamed signal) when the analysis options change.
+    useEffect(() => {
+        if ((!audioBuffer && !streamedAudio) || !analysedOptionsKeyRef.current || isLoading) return;
+        if (analysedOptionsKeyRef.current === analysisOptionsKey) return;
+
+        const controller = new AbortController();
+        const timeoutId = window.setTimeout(async () => {
+            setIsReanalysing(true);
+            logInfo("Re-analysing with new options.", analysisOptions);
+            try {
+                // The streamed signal is already at the analysis rate, so it's the cheaper source.
+                const result = streamedAudio
+                    ? await BpmAnalyser.analysePrepared(streamedAudio, analysisOptions, { signal: controller.signal })
+                    : await BpmAnalyser.analyse(audioBuffer!, analysisOptions, { signal: controller.signal });
+                if (result.candidates.length === 0) {
+                    throw new Error("BPM analysis failed to produce results.");
+                }
+                analysedOptionsKeyRef.current = analysisOptionsKey;
+                setAnalysisResult(result);
+                setActiveBpm(result.candidates[0].tempo);
+                logInfo("Re-analysis complete.", result);
+            } catch (e) {
+                if (!isAbortError(e)) logError("Re-analysis failed", e);
+            } finally {
+                if (!controller.signal.aborted) setIsReanalysing(false);
+            }
+        }, 400); // Debounce so typing a custom range doesn't queue an analysis per keystroke.
+
+        return () => {
+            controller.abort();
+            window.clearTimeout(timeoutId);
+            setIsReanalysing(false);
+        };
+    }, [audioBuffer, streamedAudio, analysisOptions, analysisOptionsKey, isLoading]);
+
+    // Analyse the selected region on its own, again whenever the options change.
+    useEffect(() => {
+        if (!selection || !audioBuffer) {
+            setRegionAnalysis(null);
+            return;
+        }
+
+        const controller = new AbortController();
+        setRegionAnalysis({ result: null, isAnalysing: true, error: null });
+        const timeoutId = window.setTimeout(async () => {
+            try {
+                const result = await BpmAnalyser.analyse(audioBuffer, analysisOptions, { signal: controller.signal, region: selection });
+                if (controller.signal.aborted) return;
+                if (result.candidates.length === 0) {
+                    throw new Error("No tempo was found in the selected region.");
+                }
+                setRegionAnalysis({ result, isAnalysing: false, error: null });
+                logInfo("Region analysis complete.", { region: selection, bpm: result.candidates[0].tempo });
+            } catch (e) {
+                if (controller.signal.aborted || isAbortError(e)) return;
+                logError("Region analysis failed", e);
+                const message = e instanceof Error ? e.message : "The region couldn't be analysed.";
+                setRegionAnalysis({ result: null, isAnalysing: false, error: message });
+            }
+        }, 400); // Same debounce as the whole-track re-analysis.
+
+        return () => {
+            controller.abort();
+            window.clearTimeout(timeoutId);
+        };
+    }, [selection, audioBuffer, analysisOptions]);
     
     const handleFeedbackSubmit = (feedback: { correctBpm: string; comments: string }) => {
         logInfo("Feedback submitted", { ...feedback, fileName: file?.name, detectedBpm: analysisResult?.candidates[0]?.tempo });
@@ -355,17 +560,52 @@ const App: React.FC = () => {
     };
 
     const detectedBpm = analysisResult?.candidates?.[0]?.tempo;
+    const trackDuration = audioBuffer?.duration ?? fileInfo?.duration ?? 0;
 
-    const beatInfo = React.useMemo(() => {
+    const beatInfo = React.useMemo((): BeatInfo => {
         if (!activeBpm || !analysisResult?.peaks || analysisResult.peaks.length === 0) {
-            return { phase: 0, interval: 0, firstBeat: 0, isUserDefined: false };
+            return { phase: 0, interval: 0, firstBeat: 0, isUserDefined: false, beatsPerBar: 0, firstDownbeat: 0, beats: [] };
         }
+        const duration = trackDuration;
         const beatInterval = 60.0 / activeBpm;
         const isUserDefined = userOverriddenBeat !== null;
 
+        // The meter is detected at the primary tempo; rescale the bar length when
+        // the user switches to half or double time.
+        const meter = analysisResult.meter;
+        const beatsPerBar = meter && detectedBpm
+            ? Math.max(1, Math.round(meter.beatsPerBar * activeBpm / detectedBpm))
+            : 0;
+
+        if (gridEdit) {
+            return getEditedBeatInfo(gridEdit, duration, beatsPerBar);
+        }
+
+        // Follow the tracked beats whenever the active tempo is an octave of the
+        // detected one; any other tempo falls back to a fixed grid.
+        const trackedBeats = detectedBpm
+            ? resampleBeats(analysisResult.beats, activeBpm / detectedBpm, meter?.firstDownbeat ?? analysisResult.beats[0])
+            : null;
+
         if (isUserDefined) {
             const phase = userOverriddenBeat % beatInterval;
-            return { phase, interval: beatInterval, firstBeat: userOverriddenBeat, isUserDefined };
+            let beats: number[];
+            if (trackedBeats) {
+                // Shift the tracked beats so the nearest one lands on the user's beat.
+                const shift = userOverriddenBeat - trackedBeats[findNearestBeatIndex(trackedBeats, userOverriddenBeat)];
+                beats = trackedBeats.map(beat => beat + shift);
+            } else {
+                beats = buildFixedGrid(phase, beatInterval, duration);
+            }
+            return { phase, interval: beatInterval, firstBeat: userOverriddenBeat, isUserDefined, beatsPerBar, firstDownbeat: userOverriddenBeat, beats };
+        }
+
+        if (trackedBeats) {
+            const firstBeat = trackedBeats[0];
+            const firstDownbeat = meter
+                ? trackedBeats[findNearestBeatIndex(trackedBeats, meter.firstDownbeat)]
+                : firstBeat;
+            return { phase: firstBeat % beatInterval, interval: beatInterval, firstBeat, isUserDefined: false, beatsPerBar, firstDownbeat, beats: trackedBeats };
         }
         
         const phase = findBestPhase(analysisResult.peaks, beatInterval);
@@ -386,16 +626,96 @@ const App: React.FC = () => {
             firstBeat = analysisResult.peaks[0] || 0;
         }
 
-        return { phase, interval: beatInterval, firstBeat, isUserDefined: false };
-    }, [analysisResult?.peaks, activeBpm, userOverriddenBeat]);
+        // Snap the detected downbeat onto this grid so bar lines coincide with beat lines.
+        const firstDownbeat = meter
+            ? phase + Math.round((meter.firstDownbeat - phase) / beatInterval) * beatInterval
+            : firstBeat;
+
+        const beats = buildFixedGrid(phase, beatInterval, duration);
+        return { phase, interval: beatInterval, firstBeat, isUserDefined: false, beatsPerBar, firstDownbeat, beats };
+    }, [analysisResult?.peaks, analysisResult?.meter, analysisResult?.beats, trackDuration, activeBpm, detectedBpm, userOverriddenBeat, gridEdit]);
+
+    const handleGridEditChange = (edit: BeatGridEdit | null) => {
+        setGridEdit(edit);
+        if (file) saveGridEdit(getTrackKey(file), edit);
+        if (edit) {
+            logInfo("Beat grid edited.", { anchors: edit.anchors.map(({ time, beat, locked }) => ({ time, beat, locked })) });
+        } else {
+            logInfo("Beat grid edits discarded.");
+        }
+    };
+
+    // The other ways of setting the grid start over from the detected one.
+    const discardGridEdit = () => {
+        if (gridEdit) handleGridEditChange(null);
+    };
+
+    const handleBpmChange = (bpm: number) => {
+        // An edited grid follows tempo changes: half and double time renumber its
+        // beats, anything else stretches it from its first anchor.
+        if (gridEdit && activeBpm > 0) {
+            const ratio = bpm / activeBpm;
+            const isOctave = Math.abs(Math.log2(ratio) - Math.round(Math.log2(ratio))) < 1e-6;
+            handleGridEditChange(isOctave ? scaleGridEdit(gridEdit, ratio) : stretchGridEdit(gridEdit, ratio));
+        }
+        setActiveBpm(bpm);
+    };
+
+    const handlePhaseNudge = (seconds: number) => {
+        if (gridEdit) {
+            handleGridEditChange(shiftGridEdit(gridEdit, seconds));
+            return;
+        }
+        if (beatInfo.beats.length === 0) return;
+        // The user's beat shifts tracked beats by the same amount, and sets the phase of a fixed grid.
+        const moved = (userOverriddenBeat ?? beatInfo.beats[0]) + seconds;
+        setUserOverriddenBeat(moved < 0 ? moved + beatInfo.interval : moved);
+    };
 
     const handleBeatAdjust = (time: number) => {
+        discardGridEdit();
         setUserOverriddenBeat(time);
         setIsAdjustingBeat(false);
         logInfo(`User adjusted first beat to ${time.toFixed(3)}s`);
     };
 
+    const regionResult = regionAnalysis?.result;
+    const isRegionPromoted = !!(selection && regionResult?.candidates[0]
+        && activeBpm === regionResult.candidates[0].tempo
+        && userOverriddenBeat === regionGridAnchor(regionResult, selection));
+
+    const handlePromoteRegion = () => {
+        if (!selection || !regionResult?.candidates[0]) return;
+        const bpm = regionResult.candidates[0].tempo;
+        const anchor = regionGridAnchor(regionResult, selection);
+        discardGridEdit();
+        setActiveBpm(bpm);
+        setUserOverriddenBeat(anchor);
+        logInfo(`Promoted the region's tempo (${bpm} BPM) with its grid anchored at ${anchor.toFixed(3)}s.`, { region: selection });
+    };
+
+    const handleSnapToTaps = (bpm: number, anchor: number | null) => {
+        discardGridEdit();
+        setActiveBpm(bpm);
+        if (anchor === null || !analysisResult) return;
+        // Tapping is only accurate to a few tens of milliseconds, so when the taps
+        // fall near a tracked beat keep the tracked grid and its sample accuracy;
+        // otherwise the detector was off by a fraction of a beat and the taps win.
+        const trackedBeats = detectedBpm
+            ? resampleBeats(analysisResult.beats, bpm / detectedBpm, analysisResult.meter?.firstDownbeat ?? analysisResult.beats[0])
+            : null;
+        const nearest = trackedBeats ? trackedBeats[findNearestBeatIndex(trackedBeats, anchor)] : undefined;
+        if (nearest !== undefined && Math.abs(nearest - anchor) <= 60 / bpm / 4) {
+            setUserOverriddenBeat(null);
+            logInfo(`Taps agree with the tracked beats at ${bpm} BPM.`);
+        } else {
+            setUserOverriddenBeat(anchor);
+            logInfo(`Beat grid moved to the tapped phase at ${anchor.toFixed(3)}s.`);
+        }
+    };
+
     const handleResetBeat = () => {
+        discardGridEdit();
         setUserOverriddenBeat(null);
         logInfo("User reset first beat adjustment.");
     };
@@ -420,7 +740,11 @@ const App: React.FC = () => {
             <main className="relative z-10 flex-grow w-full">
                 <div className="max-w-7xl mx-auto px-4 md:px-8 py-10 md:py-16">
                     <div className="w-full space-y-12">
-                    {!file && (
+                    {!file && isLiveMode && (
+                        <LiveTempoPanel options={analysisOptions} onClose={() => setIsLiveMode(false)} />
+                    )}
+
+                    {!file && !isLiveMode && (
                         <section className="glass-card relative overflow-hidden animate-fade-in">
                             <div className="hero-shimmer"></div>
                             <div className="relative z-10 px-6 md:px-12 py-10 md:py-14">
@@ -453,6 +777,12 @@ const App: React.FC = () => {
                                     </div>
                                     <div className="relative">
                                         <FileUpload onFileSelect={handleFileSelect} />
+                                        <button
+                                            onClick={() => setIsLiveMode(true)}
+                                            className="mt-4 w-full rounded-xl border border-white/10 bg-white/5 hover:bg-white/10 px-4 py-3 text-sm text-slate-200 transition-colors flex items-center justify-center gap-2"
+                                        >
+                                            <span role="img" aria-hidden="true">🎙️</span> Or measure live from a microphone or line-in
+                                        </button>
                                     </div>
                                 </div>
 
@@ -481,7 +811,42 @@ const App: React.FC = () => {
                         <div className="glass-card flex flex-col items-center justify-center gap-4 animate-fade-in p-10 md:p-14 text-center">
                             <Loader />
                             <p className="text-lg text-slate-200 font-semibold">Analyzing "{file?.name}"...</p>
-                            <p className="text-sm text-slate-400">{loadingMessage || "This might take a moment for larger files."}</p>
+                            {analysisProgress && (
+                                <div className="w-full max-w-sm">
+                                    <div className="flex justify-between text-xs text-slate-400 mb-1">
+                                        <span>{describeProgress(analysisProgress)}...</span>
+                                        <span className="font-mono text-slate-200">{Math.round(analysisProgress.progress * 100)}%</span>
+                                    </div>
+                                    <div className="h-2 rounded-full bg-slate-800/80 overflow-hidden" role="progressbar" aria-valuemin={0} aria-valuemax={100} aria-valuenow={Math.round(analysisProgress.progress * 100)}>
+                                        <div
+                                            className="h-full rounded-full bg-gradient-to-r from-sky-500 to-purple-500 transition-all duration-300"
+                                            style={{ width: `${analysisProgress.progress * 100}%` }}
+                                        ></div>
+                                    </div>
+                                </div>
+                            )}
+                            <button
+                                onClick={() => {
+                                    logInfo("Analysis cancelled by user.");
+                                    resetState();
+                                }}
+                                className="px-4 py-2 rounded-full border border-white/10 bg-white/5 text-slate-200 hover:border-red-400/40 hover:text-red-200 transition-colors text-sm"
+                            >
+                                Cancel
+                            </button>
+                        </div>
+                    )}
+
+                    {pendingLargeFile && !isLoading && (
+                        <div className="animate-fade-in glass-card max-w-2xl mx-auto p-6 md:p-8">
+                            <LargeFileWarning
+                                title={`"${pendingLargeFile.file.name}" is very large`}
+                                description="WAV files, and MP3, FLAC and AAC files in browsers that support WebCodecs, can be analysed without decoding them first; this one can't. Decoding it may slow the page down or fail if the browser runs out of memory."
+                                estimatedBytes={pendingLargeFile.estimatedBytes}
+                                actionLabel="Decode anyway"
+                                onAction={() => handleFileSelect(pendingLargeFile.file, true)}
+                                onCancel={resetState}
+                            />
                         </div>
                     )}
 
@@ -524,10 +889,20 @@ const App: React.FC = () => {
                                 {/* Right Column */}
                                 <div className="w-full space-y-8">
                                     <div className="glass-card rounded-3xl p-6 md:p-7 space-y-6">
+                                        {isReanalysing && (
+                                            <div className="flex items-center justify-center gap-2 text-sm text-slate-400">
+                                                <Loader small />
+                                                <span>Re-analysing with the new settings...</span>
+                                            </div>
+                                        )}
                                         <BpmDisplay
                                             bpm={detectedBpm}
                                             tempoVariability={analysisResult.tempoVariability}
                                             year={metadata?.year}
+                                            meter={analysisResult.meter}
+                                            keyDetection={analysisResult.key}
+                                            confidence={analysisResult.confidence}
+                                            octaveAmbiguity={analysisResult.octaveAmbiguity}
                                             firstBeatTime={beatInfo.firstBeat}
                                             isUserDefined={beatInfo.isUserDefined}
                                             isAdjusting={isAdjustingBeat}
@@ -536,29 +911,123 @@ const App: React.FC = () => {
                                             onResetBeat={handleResetBeat}
                                         />
 
-                                        <WaveformVisualizer
-                                            audioBuffer={audioBuffer}
-                                            peaks={analysisResult.peaks}
-                                            duration={audioBuffer?.duration || 0}
+                                        {selection && (
+                                            <RegionAnalysisPanel
+                                                region={selection}
+                                                result={regionResult ?? null}
+                                                wholeTrackBpm={detectedBpm}
+                                                isAnalysing={regionAnalysis?.isAnalysing ?? false}
+                                                error={regionAnalysis?.error ?? null}
+                                                isPromoted={isRegionPromoted}
+                                                onPromote={handlePromoteRegion}
+                                                onClear={() => setSelection(null)}
+                                            />
+                                        )}
+
+                                        {deferredPlayback && !audioBuffer && (
+                                            <LargeFileWarning
+                                                title="Analysed without loading the whole file"
+                                                description="This file was streamed from disk to keep memory use down. Load it to see the waveform and play it back."
+                                                estimatedBytes={deferredPlayback.estimatedBytes}
+                                                actionLabel="Load for playback"
+                                                onAction={handleLoadForPlayback}
+                                                isBusy={deferredPlayback.isLoading}
+                                                error={deferredPlayback.error}
+                                            />
+                                        )}
+
+                                        {audioBuffer && (
+                                            <WaveformVisualizer
+                                                audioBuffer={audioBuffer}
+                                                peaks={analysisResult.peaks}
+                                                duration={trackDuration}
+                                                currentTime={currentTime}
+                                                onSeek={(time) => setCurrentTime(time)}
+                                                beatInfo={beatInfo}
+                                                sections={analysisResult.sections}
+                                                selection={selection}
+                                                onSelect={setSelection}
+                                                isAdjusting={isAdjustingBeat}
+                                                onBeatAdjust={handleBeatAdjust}
+                                                gridEdit={gridEdit}
+                                                onGridEditChange={handleGridEditChange}
+                                                loop={loop}
+                                                onLoopChange={setLoop}
+                                            />
+                                        )}
+
+                                        <TempoMapChart
+                                            tempoMap={analysisResult.tempoMap}
+                                            primaryBpm={detectedBpm}
+                                            duration={trackDuration}
                                             currentTime={currentTime}
                                             onSeek={(time) => setCurrentTime(time)}
-                                            beatInfo={beatInfo}
-                                            isAdjusting={isAdjustingBeat}
-                                            onBeatAdjust={handleBeatAdjust}
                                         />
 
                                         <TempoControls
                                             audioBuffer={audioBuffer}
                                             detectedBpm={detectedBpm}
                                             activeBpm={activeBpm}
-                                            onBpmChange={setActiveBpm}
+                                            onBpmChange={handleBpmChange}
                                             currentTime={currentTime}
                                             onTimeUpdate={setCurrentTime}
                                             beatInfo={beatInfo}
+                                            candidates={analysisResult.candidates}
+                                            onSnapToTaps={handleSnapToTaps}
+                                            onPhaseNudge={handlePhaseNudge}
+                                            metronome={settings.metronome}
+                                            onMetronomeChange={(changes) => handleSettingsChange({ metronome: { ...settings.metronome, ...changes } })}
+                                            loop={loop}
+                                            onLoopChange={setLoop}
                                         />
+
+                                        {audioBuffer && file && (
+                                            <ClickExportPanel
+                                                audioBuffer={audioBuffer}
+                                                beatInfo={beatInfo}
+                                                metronome={settings.metronome}
+                                                fileName={file.name}
+                                            />
+                                        )}
+
+                                        {file && (
+                                            <DjExportPanel
+                                                file={file}
+                                                fileType={fileType}
+                                                metadata={metadata}
+                                                duration={trackDuration}
+                                                bpm={activeBpm}
+                                                beatInfo={beatInfo}
+                                                gridEdit={gridEdit}
+                                                keyDetection={analysisResult.key}
+                                                sections={analysisResult.sections}
+                                            />
+                                        )}
+
+                                        {file && (
+                                            <TagExportPanel
+                                                file={file}
+                                                bpm={activeBpm}
+                                                keyDetection={analysisResult.key}
+                                            />
+                                        )}
                                     </div>
 
-                                    <BpmAnalysisVisualizer candidates={analysisResult.candidates} detectedBpm={detectedBpm} />
+                                    <BpmAnalysisVisualizer
+                                        candidates={analysisResult.candidates}
+                                        detectedBpm={detectedBpm}
+                                        confidence={analysisResult.confidence}
+                                        octaveAmbiguity={analysisResult.octaveAmbiguity}
+                                    />
+
+                                    <div>
+                                        <h3 className="text-lg font-semibold text-slate-100 text-center mb-3">Analysis Settings</h3>
+                                        <SettingsMenu
+                                            settings={settings}
+                                            onSettingsChange={handleSettingsChange}
+                                            onOpenFeedback={() => setIsFeedbackModalOpen(true)}
+                                        />
+                                    </div>
 
                                     {loadingInsights && (
                                         <div className="glass-card p-6 md:p-8 flex flex-col items-center justify-center gap-3">
@@ -581,6 +1050,7 @@ const App: React.FC = () => {
                             </div>
                         </div>
                     )}
+                    </div>
                 </div>
             </main>
             
@@ -1,13 +1,15 @@
 import React from 'react';
-import type { BpmCandidate } from '../types';
+import type { BpmCandidate, OctaveAmbiguity } from '../types';
 import { formatBpm } from '../utils/formatters';
 
 interface BpmAnalysisVisualizerProps {
   candidates: BpmCandidate[];
   detectedBpm: number;
+  confidence: number;
+  octaveAmbiguity: OctaveAmbiguity | null;
 }
 
-export const BpmAnalysisVisualizer: React.FC<BpmAnalysisVisualizerProps> = ({ candidates, detectedBpm }) => {
+export const BpmAnalysisVisualizer: React.FC<BpmAnalysisVisualizerProps> = ({ candidates, detectedBpm, confidence, octaveAmbiguity }) => {
   if (!candidates || candidates.length === 0) {
     return null;
   }
@@ -16,26 +18,48 @@ export const BpmAnalysisVisualizer: React.FC<BpmAnalysisVisualizerProps> = ({ ca
   const topCandidates = candidates.slice(0, 7);
   const maxCount = Math.max(...topCandidates.map(c => c.count));
   const detectedBpmFormatted = formatBpm(detectedBpm);
+  const alternativeFormatted = octaveAmbiguity ? formatBpm(octaveAmbiguity.alternativeTempo) : null;
+  const confidencePercent = Math.round(confidence * 100);
 
   return (
     <div className="animate-fade-in">
         <h3 className="text-2xl font-bold text-center mb-6">Confidence Analysis</h3>
-        <div className="glass-card p-4 md:p-6 rounded-3xl flex justify-around items-end h-40 border border-white/10">
+        <div className="max-w-sm mx-auto mb-4">
+            <div className="flex justify-between text-xs text-slate-400 mb-1">
+                <span>Overall confidence</span>
+                <span className="font-mono text-slate-200">{confidencePercent}%</span>
+            </div>
+            <div className="h-2 rounded-full bg-slate-800/80 overflow-hidden">
+                <div
+                    className={`h-full rounded-full ${confidence >= 0.7 ? 'bg-emerald-400' : confidence >= 0.4 ? 'bg-amber-400' : 'bg-red-400'}`}
+                    style={{ width: `${confidencePercent}%` }}
+                ></div>
+            </div>
+        </div>
+        <div className="glass-card p-4 md:p-6 rounded-3xl flex justify-around items-end h-44 border border-white/10">
             {topCandidates.map((candidate) => {
                 const candidateBpmFormatted = formatBpm(candidate.tempo);
                 const isDetected = candidateBpmFormatted === detectedBpmFormatted;
+                const isAlternative = candidateBpmFormatted === alternativeFormatted;
+                const barClass = isDetected
+                    ? 'bg-gradient-to-t from-sky-500 via-blue-500 to-purple-500 shadow-[0_20px_35px_rgba(56,189,248,0.35)]'
+                    : isAlternative ? 'bg-amber-500/70' : 'bg-slate-600/70';
                 return (
-                    <div key={candidate.tempo} className="flex flex-col items-center h-full justify-end" title={`BPM: ${candidateBpmFormatted} | Score: ${candidate.count}`}>
+                    <div key={candidate.tempo} className="flex flex-col items-center h-full justify-end" title={`BPM: ${candidateBpmFormatted} | Score: ${candidate.count} | Beat alignment: ${Math.round(candidate.alignment * 100)}%`}>
                         <div
-                            className={`w-6 md:w-8 rounded-t-lg transition-all duration-500 ease-out hover:opacity-90 ${isDetected ? 'bg-gradient-to-t from-sky-500 via-blue-500 to-purple-500 shadow-[0_20px_35px_rgba(56,189,248,0.35)]' : 'bg-slate-600/70'}`}
+                            className={`w-6 md:w-8 rounded-t-lg transition-all duration-500 ease-out hover:opacity-90 ${barClass}`}
                             style={{ height: `${(candidate.count / maxCount) * 95}%` }}
                         ></div>
-                        <p className={`text-sm mt-2 font-semibold ${isDetected ? 'text-blue-200' : 'text-slate-400'}`}>{candidateBpmFormatted}</p>
+                        <p className={`text-sm mt-2 font-semibold ${isDetected ? 'text-blue-200' : isAlternative ? 'text-amber-200' : 'text-slate-400'}`}>{candidateBpmFormatted}</p>
+                        <p className="text-[10px] font-mono text-slate-500">{Math.round(candidate.alignment * 100)}%</p>
                     </div>
                 )
             })}
         </div>
-         <p className="text-center text-slate-500 text-xs mt-2">Visualization of the most likely BPM candidates.</p>
+         <p className="text-center text-slate-500 text-xs mt-2">
+            Bar height is the relative score; the percentage under each tempo is how well the track's onsets align to its beat grid.
+            {octaveAmbiguity && <> The amber bar is a plausible {octaveAmbiguity.relation}-time reading.</>}
+         </p>
     </div>
   );
-};
\ No newline at end of file
+};
@@ -1,10 +1,14 @@
 import React from 'react';
 import { formatBpm } from '../utils/formatters';
-import type { TempoVariability } from '../types';
+import type { KeyDetection, MeterInfo, OctaveAmbiguity, TempoVariability } from '../types';
 
 interface BpmDisplayProps {
   bpm: number;
   tempoVariability: TempoVariability | null;
+  meter: MeterInfo | null;
+  keyDetection: KeyDetection | null;
+  confidence: number;
+  octaveAmbiguity: OctaveAmbiguity | null;
   year?: string;
   firstBeatTime?: number;
   isUserDefined: boolean;
@@ -22,10 +26,12 @@ const InfoIcon = (props: React.SVGProps<SVGSVGElement>) => (
     </svg>
 );
 
-export const BpmDisplay: React.FC<BpmDisplayProps> = ({ bpm, tempoVariability, year, firstBeatTime, isUserDefined, isAdjusting, onAdjustClick, onCancelAdjust, onResetBeat }) => {
+export const BpmDisplay: React.FC<BpmDisplayProps> = ({ bpm, tempoVariability, meter, keyDetection, confidence, octaveAmbiguity, year, firstBeatTime, isUserDefined, isAdjusting, onAdjustClick, onCancelAdjust, onResetBeat }) => {
   const showVariability = tempoVariability && tempoVariability.stdDev > 1.2 && (tempoVariability.max - tempoVariability.min > 2.5);
   const isOldSong = year && parseInt(year, 10) < 1975;
-  const showExtraInfo = showVariability || (firstBeatTime && firstBeatTime > 0);
+  const showExtraInfo = showVariability || octaveAmbiguity || (firstBeatTime && firstBeatTime > 0);
+  const confidenceLabel = confidence >= 0.7 ? 'High' : confidence >= 0.4 ? 'Medium' : 'Low';
+  const confidenceClass = confidence >= 0.7 ? 'text-emerald-300' : confidence >= 0.4 ? 'text-amber-300' : 'text-red-300';
   
   return (
     <div className="text-center">
@@ -34,6 +40,36 @@ export const BpmDisplay: React.FC<BpmDisplayProps> = ({ bpm, tempoVariability, y
         {formatBpm(bpm)}
       </p>
       <p className="text-xl text-slate-300">BPM</p>
+      <div className="mt-3 flex flex-wrap justify-center gap-2">
+        <p
+          className="inline-flex items-center gap-2 rounded-full border border-white/10 bg-white/5 px-3 py-1 text-sm text-slate-300"
+          title="Combines beat alignment, the margin over other tempos and how steady the tempo is through the track."
+        >
+          <span className={`font-semibold ${confidenceClass}`}>{confidenceLabel}</span>
+          <span>confidence</span>
+          <span className="font-mono text-slate-400">{Math.round(confidence * 100)}%</span>
+        </p>
+        {keyDetection && (
+          <p
+            className="inline-flex items-center gap-2 rounded-full border border-white/10 bg-white/5 px-3 py-1 text-sm text-slate-300"
+            title={`Key confidence: ${Math.round(keyDetection.confidence * 100)}%. Runner-up: ${keyDetection.runnerUp.name} (${keyDetection.runnerUp.camelot}).`}
+          >
+            <span className="font-semibold text-slate-100">{keyDetection.key.name}</span>
+            <span className="font-mono text-purple-300">{keyDetection.key.camelot}</span>
+            {keyDetection.confidence < 0.4 && <span className="text-xs text-slate-500">(or {keyDetection.runnerUp.camelot}?)</span>}
+          </p>
+        )}
+        {meter && (
+          <p
+            className="inline-flex items-center gap-2 rounded-full border border-white/10 bg-white/5 px-3 py-1 text-sm text-slate-300"
+            title={`Meter confidence: ${Math.round(meter.confidence * 100)}%`}
+          >
+            <span className="font-mono font-semibold text-slate-100">{meter.timeSignature}</span>
+            <span>time</span>
+            {meter.confidence < 0.3 && <span className="text-xs text-slate-500">(uncertain)</span>}
+          </p>
+        )}
+      </div>
 
       {showExtraInfo && (
           <div className="mt-6 pt-4 border-t border-white/10 space-y-4 animate-fade-in text-sm text-center">
@@ -52,6 +88,18 @@ export const BpmDisplay: React.FC<BpmDisplayProps> = ({ bpm, tempoVariability, y
                         </p>
                       )}
                   </div>
+              )}
+              {octaveAmbiguity && (
+                  <div>
+                      <h4 className="font-bold text-slate-200 flex items-center justify-center gap-2">
+                          <InfoIcon className="text-amber-300" />
+                          Possible {octaveAmbiguity.relation === 'half' ? 'Half-Time' : 'Double-Time'} Reading
+                      </h4>
+                      <p className="text-slate-300 max-w-xs mx-auto">
+                          This track could also be <span className="font-semibold text-slate-100 font-mono">{formatBpm(octaveAmbiguity.alternativeTempo)}</span> BPM
+                          ({Math.round(octaveAmbiguity.strength * 100)}% as strong). Check it by ear against the metronome.
+                      </p>
+                  </div>
               )}
                {firstBeatTime && firstBeatTime > 0 && (
                 <div className="text-center">
@@ -0,0 +1,111 @@
+import React, { useEffect, useState } from 'react';
+import type { BeatInfo, MetronomeSettings } from '../types';
+import { renderClickAudio } from '../services/metronome';
+import type { ClickRenderContent } from '../services/metronome';
+import { encodeWav, WAV_BIT_DEPTHS } from '../services/wavWriter';
+import type { WavBitDepth } from '../services/wavWriter';
+import { logError, logInfo } from '../services/loggingService';
+import { downloadBlob, getBaseName } from '../utils/download';
+
+interface ClickExportPanelProps {
+  audioBuffer: AudioBuffer;
+  beatInfo: BeatInfo;
+  metronome: MetronomeSettings;
+  fileName: string;
+}
+
+const CONTENTS: { id: ClickRenderContent; label: string; suffix: string }[] = [
+  { id: 'click', label: 'Click only', suffix: 'click' },
+  { id: 'mix', label: 'Track + click', suffix: 'with click' },
+];
+
+const selectClasses = "rounded-lg border border-white/10 bg-slate-800/80 px-2 py-1 text-sm text-slate-200 focus:outline-none focus:ring-2 focus:ring-blue-400/70";
+
+/** Renders the metronome, alone or over the track, to a WAV file for rehearsal in a DAW. */
+export const ClickExportPanel: React.FC<ClickExportPanelProps> = ({ audioBuffer, beatInfo, metronome, fileName }) => {
+  const [content, setContent] = useState<ClickRenderContent>('click');
+  const [bitDepth, setBitDepth] = useState<WavBitDepth>(24);
+  const [balance, setBalance] = useState(metronome.balance);
+  const [isRendering, setIsRendering] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Follow the preview's balance until it's changed here.
+  useEffect(() => {
+    setBalance(metronome.balance);
+  }, [metronome.balance]);
+
+  const hasGrid = beatInfo.beats.length > 0;
+  const balancePercent = Math.round(balance * 100);
+
+  const handleExport = async () => {
+    setIsRendering(true);
+    setError(null);
+    try {
+      const beatsPerBar = metronome.beatsPerBar ?? beatInfo.beatsPerBar;
+      const rendered = await renderClickAudio(audioBuffer, beatInfo.beats, beatInfo.firstDownbeat, beatsPerBar, { ...metronome, balance }, content);
+      const blob = encodeWav(rendered, bitDepth);
+      const suffix = CONTENTS.find(c => c.id === content)?.suffix ?? content;
+      downloadBlob(blob, `${getBaseName(fileName)} (${suffix}).wav`);
+      logInfo("Exported the click track.", { content, bitDepth, balance, sampleRate: rendered.sampleRate, bytes: blob.size });
+    } catch (e) {
+      logError("Failed to render the click track.", e);
+      setError("Couldn't render the click track. The track may be too long to render in this browser.");
+    } finally {
+      setIsRendering(false);
+    }
+  };
+
+  return (
+    <div className="w-full rounded-2xl border border-white/10 bg-slate-900/60 p-4 text-sm text-slate-200">
+      <p className="text-xs uppercase tracking-[0.25em] text-slate-400 mb-3">Export click to WAV</p>
+      <div className="flex flex-wrap items-center gap-3">
+        <div className="flex gap-1 bg-slate-950/60 border border-white/10 p-1 rounded-lg">
+          {CONTENTS.map(option => (
+            <button
+              key={option.id}
+              onClick={() => setContent(option.id)}
+              className={`px-2 py-1 rounded-md text-xs transition-colors ${content === option.id ? 'bg-blue-500/80 text-white' : 'text-slate-300 hover:bg-white/10'}`}
+              aria-pressed={content === option.id}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        <label className="flex items-center gap-2">
+          <span className="text-slate-400">Bit depth</span>
+          <select value={bitDepth} onChange={(e) => setBitDepth(parseInt(e.target.value, 10) as WavBitDepth)} className={selectClasses}>
+            {WAV_BIT_DEPTHS.map(depth => <option key={depth} value={depth}>{depth}-bit</option>)}
+          </select>
+        </label>
+        {content === 'mix' && (
+          <label className="flex items-center gap-2" title="Fades the music out towards the right and the click out towards the left.">
+            <span className="text-slate-400">Music / click</span>
+            <input
+              type="range"
+              min={0}
+              max={1}
+              step={0.05}
+              value={balance}
+              onChange={(e) => setBalance(parseFloat(e.target.value))}
+              className="w-28 accent-blue-400"
+            />
+            <span className="font-mono text-xs text-slate-400 w-14">{100 - balancePercent}/{balancePercent}</span>
+          </label>
+        )}
+        <button
+          onClick={handleExport}
+          disabled={!hasGrid || isRendering}
+          className="ml-auto px-3 py-1.5 rounded-lg bg-blue-500/80 hover:bg-blue-500 disabled:bg-slate-800 disabled:text-slate-500 text-white text-xs font-semibold transition-colors"
+        >
+          {isRendering ? 'Rendering…' : 'Download WAV'}
+        </button>
+      </div>
+      <p className="mt-2 text-xs text-slate-500">
+        {hasGrid
+          ? `The full ${Math.round(audioBuffer.duration)} s at ${audioBuffer.sampleRate / 1000} kHz, with the metronome's sound, accents and subdivisions.`
+          : 'There is no beat grid to click along to yet.'}
+      </p>
+      {error && <p className="mt-2 text-xs text-red-300">{error}</p>}
+    </div>
+  );
+};
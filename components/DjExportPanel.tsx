@@ -0,0 +1,125 @@
+import React, { useState } from 'react';
+import type { BeatGridEdit, BeatInfo, KeyDetection, StructureSection, TrackMetadata } from '../types';
+import {
+  buildCuePoints,
+  buildTempoMarkers,
+  toBeatListCsv,
+  toBeatListJson,
+  toRekordboxXml,
+  toSeratoBeatGrid,
+  toSeratoMarkers2,
+  toTraktorNml,
+} from '../services/djExport';
+import type { DjExportFormat, DjTrack } from '../services/djExport';
+import { createGeobFrame, writeId3Frames } from '../services/id3Writer';
+import { logError, logInfo } from '../services/loggingService';
+import { downloadBlob, getBaseName } from '../utils/download';
+
+interface DjExportPanelProps {
+  file: File;
+  fileType: string | null;
+  metadata: TrackMetadata | null;
+  duration: number;
+  bpm: number;
+  beatInfo: BeatInfo;
+  gridEdit: BeatGridEdit | null;
+  keyDetection: KeyDetection | null;
+  sections: StructureSection[];
+}
+
+const FORMATS: { id: DjExportFormat; label: string; hint: string }[] = [
+  { id: 'rekordbox', label: 'rekordbox XML', hint: 'Add it under Preferences › Advanced › rekordbox xml, then import the track from the xml tree and relocate it.' },
+  { id: 'traktor', label: 'Traktor NML', hint: 'Import it as a collection in Traktor, then relocate the track.' },
+  { id: 'serato', label: 'Serato (MP3)', hint: 'A copy of the MP3 with the grid and cues in its tags. Replace the original with it and rescan in Serato.' },
+  { id: 'json', label: 'JSON', hint: 'Tempo markers, cues and every beat, for scripts and other tools.' },
+  { id: 'csv', label: 'CSV beats', hint: 'One row per beat with its bar, time and tempo.' },
+];
+
+/** Downloads the grid, tempo, key and section cues in DJ software formats. */
+export const DjExportPanel: React.FC<DjExportPanelProps> = ({ file, fileType, metadata, duration, bpm, beatInfo, gridEdit, keyDetection, sections }) => {
+  const [busyFormat, setBusyFormat] = useState<DjExportFormat | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const isMp3 = fileType === 'MP3';
+  const hasGrid = beatInfo.beats.length > 0 && bpm > 0;
+
+  const handleExport = async (format: DjExportFormat) => {
+    const track: DjTrack = {
+      fileName: file.name,
+      fileSize: file.size,
+      fileType,
+      title: metadata?.title,
+      artist: metadata?.artist,
+      album: metadata?.album,
+      genre: metadata?.genre,
+      duration,
+      bpm,
+      key: keyDetection?.key ?? null,
+      beatsPerBar: beatInfo.beatsPerBar,
+      markers: buildTempoMarkers(beatInfo, gridEdit, bpm),
+      cues: buildCuePoints(beatInfo, sections),
+      beats: beatInfo.beats,
+    };
+    const baseName = getBaseName(file.name);
+    setBusyFormat(format);
+    setError(null);
+    try {
+      switch (format) {
+        case 'rekordbox':
+          downloadBlob(new Blob([toRekordboxXml(track)], { type: 'application/xml' }), `${baseName} (rekordbox).xml`);
+          break;
+        case 'traktor':
+          downloadBlob(new Blob([toTraktorNml(track)], { type: 'application/xml' }), `${baseName}.nml`);
+          break;
+        case 'serato': {
+          const tagged = await writeId3Frames(file, [
+            createGeobFrame('Serato BeatGrid', toSeratoBeatGrid(track.markers)),
+            createGeobFrame('Serato Markers2', toSeratoMarkers2(track.cues)),
+          ]);
+          downloadBlob(tagged, file.name);
+          break;
+        }
+        case 'json':
+          downloadBlob(new Blob([toBeatListJson(track)], { type: 'application/json' }), `${baseName} (beats).json`);
+          break;
+        case 'csv':
+          downloadBlob(new Blob([toBeatListCsv(track)], { type: 'text/csv' }), `${baseName} (beats).csv`);
+          break;
+      }
+      logInfo(`Exported the beat grid as ${format}.`, { markers: track.markers.length, cues: track.cues.length });
+    } catch (e) {
+      logError(`Failed to export the beat grid as ${format}.`, e);
+      setError(e instanceof Error ? e.message : 'The export failed.');
+    } finally {
+      setBusyFormat(null);
+    }
+  };
+
+  return (
+    <div className="w-full rounded-2xl border border-white/10 bg-slate-900/60 p-4 text-sm text-slate-200">
+      <p className="text-xs uppercase tracking-[0.25em] text-slate-400 mb-3">Export to DJ software</p>
+      <div className="flex flex-wrap gap-2">
+        {FORMATS.map(format => {
+          const unavailable = !hasGrid || (format.id === 'serato' && !isMp3);
+          return (
+            <button
+              key={format.id}
+              onClick={() => handleExport(format.id)}
+              disabled={unavailable || busyFormat !== null}
+              className="px-3 py-1.5 rounded-lg border border-white/10 bg-white/5 hover:bg-white/10 disabled:opacity-40 disabled:hover:bg-white/5 text-xs font-semibold transition-colors"
+              title={format.id === 'serato' && !isMp3 ? 'Serato grids can only be written into MP3 files here.' : format.hint}
+            >
+              {busyFormat === format.id ? 'Exporting…' : format.label}
+            </button>
+          );
+        })}
+      </div>
+      <p className="mt-2 text-xs text-slate-500">
+        {hasGrid
+          ? `${gridEdit && gridEdit.anchors.length > 1 ? 'The edited grid, with a marker at each tempo change' : 'A steady grid from the first downbeat'}, the key and a cue at each section.`
+          : 'There is no beat grid to export yet.'}
+      </p>
+      {error && <p className="mt-2 text-xs text-red-300">{error}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,49 @@
+import React from 'react';
+import { Loader } from './Loader';
+import { formatFileSize } from '../utils/formatters';
+
+interface LargeFileWarningProps {
+  title: string;
+  description: string;
+  estimatedBytes: number;
+  actionLabel: string;
+  onAction: () => void;
+  onCancel?: () => void;
+  isBusy?: boolean;
+  error?: string | null;
+}
+
+/** Asks before a file is decoded whole when that would take more memory than we budget for. */
+export const LargeFileWarning: React.FC<LargeFileWarningProps> = ({ title, description, estimatedBytes, actionLabel, onAction, onCancel, isBusy = false, error }) => {
+  return (
+    <div className="rounded-2xl border border-amber-400/30 bg-amber-500/10 p-5 space-y-3" role="alert">
+      <div>
+        <h4 className="text-base font-semibold text-amber-100">{title}</h4>
+        <p className="mt-1 text-sm text-amber-100/80">{description}</p>
+        <p className="mt-2 text-xs text-amber-200/70">
+          Decoding it in full needs about <span className="font-mono text-amber-100">{formatFileSize(estimatedBytes)}</span> of memory.
+        </p>
+      </div>
+      {error && <p className="text-sm text-red-300">{error}</p>}
+      <div className="flex items-center gap-3">
+        <button
+          onClick={onAction}
+          disabled={isBusy}
+          className="px-4 py-2 rounded-lg bg-amber-500/80 hover:bg-amber-400 disabled:opacity-60 disabled:cursor-wait text-slate-950 text-sm font-semibold transition-colors flex items-center gap-2"
+        >
+          {isBusy && <Loader small />}
+          {actionLabel}
+        </button>
+        {onCancel && (
+          <button
+            onClick={onCancel}
+            disabled={isBusy}
+            className="px-4 py-2 rounded-lg border border-white/10 bg-white/5 text-slate-200 hover:bg-white/10 text-sm transition-colors"
+          >
+            Cancel
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
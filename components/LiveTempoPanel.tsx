@@ -0,0 +1,247 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Loader } from './Loader';
+import { logError, logInfo } from '../services/loggingService';
+import { listInputDevices, openDeviceInput, openFileInput, startLiveTempo } from '../services/liveTempo';
+import type { LiveInput, LiveTempoSession } from '../services/liveTempo';
+import { TARGET_SAMPLE_RATE } from '../services/bpmAnalysisEngine';
+import type { AnalysisOptions, LiveTempoEstimate } from '../types';
+
+interface LiveTempoPanelProps {
+  options: AnalysisOptions;
+  onClose: () => void;
+}
+
+type LiveStatus = 'idle' | 'starting' | 'listening' | 'error';
+
+const SCROLL_SECONDS = 8;
+const WAVEFORM_COLOR = 'rgba(125, 211, 252, 0.8)';
+
+/** Draws the last few seconds of input, scrolling right to left. */
+const ScrollingWaveform: React.FC<{ session: LiveTempoSession | null }> = ({ session }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !session) return;
+    let frame = 0;
+
+    const draw = () => {
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return;
+      const dpr = window.devicePixelRatio || 1;
+      const rect = canvas.getBoundingClientRect();
+      if (canvas.width !== rect.width * dpr || canvas.height !== rect.height * dpr) {
+        canvas.width = rect.width * dpr;
+        canvas.height = rect.height * dpr;
+      }
+      const width = rect.width;
+      const height = rect.height;
+      ctx.save();
+      ctx.scale(dpr, dpr);
+      ctx.clearRect(0, 0, width, height);
+
+      const samples = session.readRecent(SCROLL_SECONDS);
+      const samplesPerPixel = (SCROLL_SECONDS * TARGET_SAMPLE_RATE) / width;
+      // Until the window is full, the waveform grows in from the right.
+      const offsetX = width - samples.length / samplesPerPixel;
+      ctx.fillStyle = WAVEFORM_COLOR;
+      for (let x = Math.max(0, Math.ceil(offsetX)); x < width; x++) {
+        const start = Math.floor((x - offsetX) * samplesPerPixel);
+        const end = Math.min(samples.length, Math.floor((x + 1 - offsetX) * samplesPerPixel));
+        let min = 0, max = 0;
+        for (let i = start; i < end; i++) {
+          if (samples[i] < min) min = samples[i];
+          if (samples[i] > max) max = samples[i];
+        }
+        const top = (1 - max) * height / 2;
+        const bottom = (1 - min) * height / 2;
+        ctx.fillRect(x, top, 1, Math.max(1, bottom - top));
+      }
+      ctx.restore();
+      frame = requestAnimationFrame(draw);
+    };
+
+    frame = requestAnimationFrame(draw);
+    return () => cancelAnimationFrame(frame);
+  }, [session]);
+
+  return <canvas ref={canvasRef} className="w-full h-28 rounded-xl bg-slate-900/60 block" aria-label="Live input waveform" />;
+};
+
+/** Measures tempo from a microphone, a line input, or a file played as a stand-in. */
+export const LiveTempoPanel: React.FC<LiveTempoPanelProps> = ({ options, onClose }) => {
+  const [status, setStatus] = useState<LiveStatus>('idle');
+  const [error, setError] = useState<string | null>(null);
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+  const [deviceId, setDeviceId] = useState('');
+  const [inputLabel, setInputLabel] = useState<string | null>(null);
+  const [estimate, setEstimate] = useState<LiveTempoEstimate | null>(null);
+  const [session, setSession] = useState<LiveTempoSession | null>(null);
+  const inputRef = useRef<LiveInput | null>(null);
+  const sessionRef = useRef<LiveTempoSession | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  // Bumped on every start and stop, so a start that finishes after a stop is discarded.
+  const attemptRef = useRef(0);
+
+  const refreshDevices = useCallback(() => {
+    listInputDevices()
+      .then(setDevices)
+      .catch(e => logError("Failed to list audio inputs.", e));
+  }, []);
+
+  useEffect(() => {
+    refreshDevices();
+  }, [refreshDevices]);
+
+  const stop = useCallback(() => {
+    attemptRef.current++;
+    sessionRef.current?.stop();
+    inputRef.current?.stop();
+    sessionRef.current = null;
+    inputRef.current = null;
+    setSession(null);
+    setEstimate(null);
+    setInputLabel(null);
+    setStatus('idle');
+  }, []);
+
+  useEffect(() => stop, [stop]);
+
+  useEffect(() => {
+    sessionRef.current?.setOptions(options);
+  }, [options]);
+
+  const start = async (file?: File) => {
+    stop();
+    const attempt = ++attemptRef.current;
+    setStatus('starting');
+    setError(null);
+    let input: LiveInput | null = null;
+    try {
+      input = file ? await openFileInput(file) : await openDeviceInput(deviceId || undefined);
+      const started = await startLiveTempo(input.stream, options, setEstimate);
+      if (attempt !== attemptRef.current) {
+        started.stop();
+        input.stop();
+        return;
+      }
+      inputRef.current = input;
+      sessionRef.current = started;
+      setSession(started);
+      setInputLabel(input.label);
+      setStatus('listening');
+      logInfo(`Live mode listening to ${input.label}.`);
+      // Device names are only visible once the user has granted access.
+      if (!file) refreshDevices();
+    } catch (e) {
+      input?.stop();
+      if (attempt !== attemptRef.current) return;
+      logError("Failed to start live mode.", e);
+      const message = e instanceof DOMException && e.name === 'NotAllowedError'
+        ? 'Microphone access was denied. Allow it in the browser to use live mode.'
+        : e instanceof Error ? e.message : "Live mode couldn't start.";
+      setError(message);
+      setStatus('error');
+    }
+  };
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (file) start(file);
+  };
+
+  const isListening = status === 'listening';
+  const confidence = estimate?.confidence ?? 0;
+  const confidenceClass = confidence >= 0.7 ? 'bg-emerald-400' : confidence >= 0.4 ? 'bg-amber-400' : 'bg-red-400';
+
+  return (
+    <section className="glass-card relative overflow-hidden animate-fade-in px-6 md:px-12 py-10 space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h2 className="text-2xl md:text-3xl font-bold tracking-tight">Live tempo</h2>
+          <p className="text-sm text-slate-400">Measure a turntable, a band or anything else the browser can hear.</p>
+        </div>
+        <button onClick={() => { stop(); onClose(); }} className="text-blue-300 hover:text-blue-200 transition-colors text-sm flex items-center gap-2">
+          <span aria-hidden>&larr;</span> Back to file analysis
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <select
+          value={deviceId}
+          onChange={(e) => setDeviceId(e.target.value)}
+          disabled={status === 'starting' || isListening}
+          className="bg-slate-900/80 border border-white/10 rounded-lg px-3 py-2 text-sm text-slate-200 min-w-[14rem]"
+          aria-label="Audio input"
+        >
+          <option value="">Default input</option>
+          {devices.map((device, i) => (
+            <option key={device.deviceId || i} value={device.deviceId}>{device.label || `Input ${i + 1}`}</option>
+          ))}
+        </select>
+        {isListening ? (
+          <button onClick={stop} className="px-4 py-2 rounded-lg bg-red-500/80 hover:bg-red-400 text-white text-sm font-semibold transition-colors">
+            Stop
+          </button>
+        ) : (
+          <button
+            onClick={() => start()}
+            disabled={status === 'starting'}
+            className="px-4 py-2 rounded-lg bg-sky-500/80 hover:bg-sky-400 disabled:opacity-60 text-white text-sm font-semibold transition-colors"
+          >
+            Start listening
+          </button>
+        )}
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={status === 'starting'}
+          className="px-4 py-2 rounded-lg border border-white/10 bg-white/5 hover:bg-white/10 text-slate-200 text-sm transition-colors"
+          title="Plays a recording and listens to it as if it were the microphone."
+        >
+          Use a recording instead
+        </button>
+        <input ref={fileInputRef} type="file" accept="audio/*" className="hidden" onChange={handleFileChange} />
+      </div>
+
+      {error && <p className="text-sm text-red-300">{error}</p>}
+
+      <div className="grid md:grid-cols-[14rem,1fr] gap-6 items-center">
+        <div className="text-center">
+          {status === 'starting' && <Loader />}
+          {status !== 'starting' && (
+            <>
+              <p className="text-6xl font-bold tracking-tighter bg-gradient-to-r from-blue-300 via-sky-300 to-purple-400 text-transparent bg-clip-text">
+                {estimate?.bpm ? estimate.bpm.toFixed(1) : '—'}
+              </p>
+              <p className="text-lg text-slate-300">BPM</p>
+              {isListening && (
+                <div className="mt-3 mx-auto w-40">
+                  <div className="flex justify-between text-xs text-slate-400 mb-1">
+                    <span>Confidence</span>
+                    <span className="font-mono text-slate-200">{Math.round(confidence * 100)}%</span>
+                  </div>
+                  <div className="h-1.5 rounded-full bg-slate-800 overflow-hidden">
+                    <div className={`h-full rounded-full transition-all duration-500 ${confidenceClass}`} style={{ width: `${confidence * 100}%` }}></div>
+                  </div>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+        <div className="space-y-2">
+          <ScrollingWaveform session={session} />
+          <p className="text-xs text-slate-400">
+            {isListening
+              ? estimate === null
+                ? `Listening to ${inputLabel}... the first reading takes a few seconds.`
+                : estimate.bpm === null
+                  ? `Too quiet to measure (${isFinite(estimate.level) ? estimate.level.toFixed(0) : '-∞'} dBFS).`
+                  : `Listening to ${inputLabel}.`
+              : 'Not listening.'}
+          </p>
+        </div>
+      </div>
+    </section>
+  );
+};
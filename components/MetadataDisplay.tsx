@@ -1,8 +1,8 @@
 import React from 'react';
-import type { TrackMetadata, FileInfo, SongFact } from '../types';
+import type { TrackMetadata, FileInfo, SongFact, LoudnessInfo } from '../types';
 import { MusicIcon } from './icons/MusicIcon';
 import { Loader } from './Loader';
-import { formatDuration, formatFileSize, formatSampleRate, formatBitrate } from '../utils/formatters';
+import { formatDuration, formatFileSize, formatSampleRate, formatBitrate, formatLufs, formatDecibels } from '../utils/formatters';
 
 interface MetadataDisplayProps {
     metadata: TrackMetadata | null;
@@ -21,6 +21,69 @@ const MetadataRow: React.FC<{ label: string; value?: string | number }> = ({ lab
     );
 };
 
+// Short-term loudness is drawn between these levels.
+const SPARKLINE_FLOOR_LUFS = -40;
+const SPARKLINE_CEILING_LUFS = 0;
+
+const LoudnessSparkline: React.FC<{ loudness: LoudnessInfo }> = ({ loudness }) => {
+    const { shortTerm, integratedLufs } = loudness;
+    if (shortTerm.length < 2) return null;
+    const duration = shortTerm[shortTerm.length - 1].time;
+    const toY = (lufs: number) => {
+        const clamped = Math.max(SPARKLINE_FLOOR_LUFS, Math.min(SPARKLINE_CEILING_LUFS, lufs));
+        return 100 - ((clamped - SPARKLINE_FLOOR_LUFS) / (SPARKLINE_CEILING_LUFS - SPARKLINE_FLOOR_LUFS)) * 100;
+    };
+    const points = shortTerm.map(p => `${(p.time / duration) * 300},${toY(p.lufs)}`).join(' ');
+
+    return (
+        <svg viewBox="0 0 300 100" preserveAspectRatio="none" className="w-full h-12 mt-2 rounded-lg bg-slate-900/50" role="img" aria-label="Short-term loudness over time">
+            {integratedLufs !== null && (
+                <line x1={0} x2={300} y1={toY(integratedLufs)} y2={toY(integratedLufs)} stroke="rgba(148, 163, 184, 0.5)" strokeDasharray="4 4" vectorEffect="non-scaling-stroke" />
+            )}
+            <polyline points={points} fill="none" stroke="rgb(56, 189, 248)" strokeWidth={1.5} vectorEffect="non-scaling-stroke" />
+        </svg>
+    );
+};
+
+const LoudnessDisplay: React.FC<{ loudness: LoudnessInfo | null | undefined }> = ({ loudness }) => {
+    if (loudness === undefined) {
+        return (
+            <div>
+                <h4 className="text-lg font-bold mb-3 text-slate-200">Loudness & Dynamics</h4>
+                <div className="flex items-center gap-2 text-sm text-slate-400">
+                    <Loader small />
+                    <span>Measuring...</span>
+                </div>
+            </div>
+        );
+    }
+    if (!loudness) return null;
+
+    const truePeakClass = loudness.truePeakDbtp > 0 ? 'text-red-300' : loudness.truePeakDbtp > -1 ? 'text-amber-300' : 'text-slate-100';
+    return (
+        <div>
+            <h4 className="text-lg font-bold mb-3 text-slate-200">Loudness & Dynamics</h4>
+            <div className="space-y-1">
+                <MetadataRow label="Integrated" value={formatLufs(loudness.integratedLufs)} />
+                <MetadataRow label="Max Short-Term" value={formatLufs(loudness.maxShortTermLufs)} />
+                <MetadataRow label="Loudness Range" value={loudness.loudnessRange === null ? '—' : `${loudness.loudnessRange.toFixed(1)} LU`} />
+                <div className="flex justify-between items-baseline gap-4" title="4x oversampled. Streaming services recommend staying at or below -1 dBTP.">
+                    <p className="text-sm text-slate-400 flex-shrink-0">True Peak</p>
+                    <p className={`text-sm font-mono text-right ${truePeakClass}`}>{formatDecibels(loudness.truePeakDbtp, 'dBTP')}</p>
+                </div>
+                <MetadataRow label="Sample Peak" value={formatDecibels(loudness.samplePeakDbfs, 'dBFS')} />
+                <div className="flex justify-between items-baseline gap-4" title="Samples at full scale; runs are three or more in a row, typical of hard clipping.">
+                    <p className="text-sm text-slate-400 flex-shrink-0">Clipping</p>
+                    <p className={`text-sm font-mono text-right ${loudness.clippingEvents > 0 ? 'text-red-300' : 'text-slate-100'}`}>
+                        {loudness.clippedSamples === 0 ? 'None' : `${loudness.clippedSamples.toLocaleString()} samples, ${loudness.clippingEvents.toLocaleString()} runs`}
+                    </p>
+                </div>
+            </div>
+            <LoudnessSparkline loudness={loudness} />
+        </div>
+    );
+};
+
 const SongFactsDisplay: React.FC<{ facts: SongFact | null; isLoading: boolean }> = ({ facts, isLoading }) => {
     if (isLoading) {
         return (
@@ -119,6 +182,7 @@ export const MetadataDisplay: React.FC<MetadataDisplayProps> = ({ metadata, file
                         </div>
                     </div>
                 )}
+                {fileInfo && <LoudnessDisplay loudness={fileInfo.loudness} />}
                 <SongFactsDisplay facts={songFacts} isLoading={isLoadingFacts} />
             </div>
         </div>
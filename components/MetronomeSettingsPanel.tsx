@@ -0,0 +1,107 @@
+import React from 'react';
+import type { ClickSound, MetronomeSettings, MetronomeSubdivision } from '../types';
+import { ToggleSwitch } from './ToggleSwitch';
+import { CLICK_SOUNDS, SUBDIVISIONS } from '../services/metronome';
+
+interface MetronomeSettingsPanelProps {
+  settings: MetronomeSettings;
+  detectedBeatsPerBar: number;
+  onChange: (changes: Partial<MetronomeSettings>) => void;
+}
+
+const BAR_LENGTHS = [2, 3, 4, 5, 6, 7, 12];
+const COUNT_IN_BARS = [0, 1, 2];
+
+const selectClasses = "rounded-lg border border-white/10 bg-slate-800/80 px-2 py-1 text-sm text-slate-200 focus:outline-none focus:ring-2 focus:ring-blue-400/70";
+
+export const MetronomeSettingsPanel: React.FC<MetronomeSettingsPanelProps> = ({ settings, detectedBeatsPerBar, onChange }) => {
+  const balancePercent = Math.round(settings.balance * 100);
+
+  return (
+    <div className="w-full rounded-2xl border border-white/10 bg-slate-900/60 p-4 grid sm:grid-cols-2 gap-x-6 gap-y-3 text-sm text-slate-200">
+      <ToggleSwitch
+        label="Click"
+        checked={settings.enabled}
+        onChange={(enabled) => onChange({ enabled })}
+        title="Play the metronome along with the preview."
+      />
+      <label className="flex items-center justify-between gap-3">
+        <span className="text-slate-400">Sound</span>
+        <select value={settings.sound} onChange={(e) => onChange({ sound: e.target.value as ClickSound })} className={selectClasses}>
+          {CLICK_SOUNDS.map(sound => <option key={sound.id} value={sound.id}>{sound.label}</option>)}
+        </select>
+      </label>
+
+      <ToggleSwitch
+        label="Accent downbeats"
+        checked={settings.accentDownbeats}
+        onChange={(accentDownbeats) => onChange({ accentDownbeats })}
+        title="Play the first beat of each bar higher and louder."
+      />
+      <label className="flex items-center justify-between gap-3" title="Bar length used for accents and the count-in.">
+        <span className="text-slate-400">Beats per bar</span>
+        <select
+          value={settings.beatsPerBar ?? ''}
+          onChange={(e) => onChange({ beatsPerBar: e.target.value ? parseInt(e.target.value, 10) : null })}
+          className={selectClasses}
+        >
+          <option value="">{detectedBeatsPerBar > 0 ? `Detected (${detectedBeatsPerBar})` : 'Detected (none)'}</option>
+          {BAR_LENGTHS.map(length => <option key={length} value={length}>{length}</option>)}
+        </select>
+      </label>
+
+      <div className="sm:col-span-2 flex items-center justify-between gap-3">
+        <span className="text-slate-400">Subdivision</span>
+        <div className="flex gap-1 bg-slate-950/60 border border-white/10 p-1 rounded-lg">
+          {SUBDIVISIONS.map(subdivision => (
+            <button
+              key={subdivision.id}
+              onClick={() => onChange({ subdivision: subdivision.id as MetronomeSubdivision })}
+              className={`px-2 py-1 rounded-md text-xs transition-colors ${settings.subdivision === subdivision.id ? 'bg-blue-500/80 text-white' : 'text-slate-300 hover:bg-white/10'}`}
+              aria-pressed={settings.subdivision === subdivision.id}
+            >
+              {subdivision.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <label className="flex items-center justify-between gap-3">
+        <span className="text-slate-400">Click volume</span>
+        <input
+          type="range"
+          min={0}
+          max={1}
+          step={0.05}
+          value={settings.volume}
+          onChange={(e) => onChange({ volume: parseFloat(e.target.value) })}
+          className="w-28 accent-blue-400"
+        />
+      </label>
+      <label className="flex items-center justify-between gap-3" title="Fades the music out towards the right and the click out towards the left.">
+        <span className="text-slate-400">Music / click</span>
+        <input
+          type="range"
+          min={0}
+          max={1}
+          step={0.05}
+          value={settings.balance}
+          onChange={(e) => onChange({ balance: parseFloat(e.target.value) })}
+          className="w-28 accent-blue-400"
+        />
+        <span className="font-mono text-xs text-slate-400 w-14 text-right">{100 - balancePercent}/{balancePercent}</span>
+      </label>
+
+      <label className="flex items-center justify-between gap-3" title="Clicks before the preview starts, leading into the next beat.">
+        <span className="text-slate-400">Count-in</span>
+        <select
+          value={settings.countInBars}
+          onChange={(e) => onChange({ countInBars: parseInt(e.target.value, 10) })}
+          className={selectClasses}
+        >
+          {COUNT_IN_BARS.map(bars => <option key={bars} value={bars}>{bars === 0 ? 'Off' : `${bars} bar${bars > 1 ? 's' : ''}`}</option>)}
+        </select>
+      </label>
+    </div>
+  );
+};
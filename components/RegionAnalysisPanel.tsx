@@ -0,0 +1,77 @@
+import React from 'react';
+import { Loader } from './Loader';
+import { formatBpm, formatDuration } from '../utils/formatters';
+import type { AnalysisResult, TimeRange } from '../types';
+
+interface RegionAnalysisPanelProps {
+  region: TimeRange;
+  result: AnalysisResult | null;
+  wholeTrackBpm: number;
+  isAnalysing: boolean;
+  error: string | null;
+  isPromoted: boolean;
+  onPromote: () => void;
+  onClear: () => void;
+}
+
+/** The tempo of a selected stretch of the track, shown beside the whole-track reading. */
+export const RegionAnalysisPanel: React.FC<RegionAnalysisPanelProps> = ({ region, result, wholeTrackBpm, isAnalysing, error, isPromoted, onPromote, onClear }) => {
+  const bpm = result?.candidates[0]?.tempo;
+  const difference = bpm !== undefined ? bpm - wholeTrackBpm : 0;
+
+  return (
+    <div className="rounded-2xl border border-yellow-300/20 bg-yellow-400/5 p-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <p className="text-xs uppercase tracking-[0.25em] text-yellow-200/80">Selected region</p>
+          <p className="text-sm font-mono text-slate-300">
+            {formatDuration(region.start)}–{formatDuration(region.end)}
+            <span className="text-slate-500"> ({Math.round(region.end - region.start)} s)</span>
+          </p>
+        </div>
+
+        <div className="flex items-baseline gap-2">
+          {isAnalysing && <Loader small />}
+          {!isAnalysing && bpm !== undefined && (
+            <>
+              <span className="text-3xl font-bold text-yellow-100">{formatBpm(bpm)}</span>
+              <span className="text-sm text-slate-400">BPM</span>
+              {Math.abs(difference) >= 0.05 && (
+                <span className="text-xs font-mono text-slate-400" title={`Whole track: ${formatBpm(wholeTrackBpm)} BPM`}>
+                  ({difference > 0 ? '+' : ''}{difference.toFixed(2)} vs whole track)
+                </span>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+
+      {error && <p className="mt-2 text-sm text-red-300">{error}</p>}
+
+      {!isAnalysing && result && bpm !== undefined && (
+        <p className="mt-2 text-xs text-slate-400">
+          Confidence <span className="font-mono text-slate-300">{Math.round(result.confidence * 100)}%</span>
+          {result.meter && <> · Meter <span className="font-mono text-slate-300">{result.meter.timeSignature}</span></>}
+          {result.key && <> · Key <span className="text-slate-300">{result.key.key.name}</span></>}
+        </p>
+      )}
+
+      <div className="mt-3 flex flex-wrap gap-2">
+        <button
+          onClick={onPromote}
+          disabled={isAnalysing || bpm === undefined || isPromoted}
+          className="px-3 py-1.5 rounded-lg bg-yellow-400/80 hover:bg-yellow-300 disabled:opacity-50 disabled:cursor-not-allowed text-slate-950 text-sm font-semibold transition-colors"
+          title="Use this tempo, and a beat grid anchored in this region, for playback and the metronome."
+        >
+          {isPromoted ? 'In use' : 'Use this BPM and grid'}
+        </button>
+        <button
+          onClick={onClear}
+          className="px-3 py-1.5 rounded-lg border border-white/10 bg-white/5 hover:bg-white/10 text-slate-200 text-sm transition-colors"
+        >
+          Clear selection
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -1,6 +1,7 @@
-import React from 'react';
-import type { Settings } from '../types';
+import React, { useState } from 'react';
+import type { AnalysisPresetId, OnsetMethod, Settings, TempoSearchParameters } from '../types';
 import { ToggleSwitch } from './ToggleSwitch';
+import { ANALYSIS_PRESETS, getTempoSearch } from '../utils/analysisPresets';
 
 interface SettingsMenuProps {
     settings: Settings;
@@ -8,7 +9,42 @@ interface SettingsMenuProps {
     onOpenFeedback: () => void;
 }
 
+const selectClasses = "rounded-lg border border-white/10 bg-slate-800/80 px-2 py-1 text-sm text-slate-200 focus:outline-none focus:ring-2 focus:ring-blue-400/70";
+const numberInputClasses = "w-20 rounded-lg border border-white/10 bg-slate-800/80 px-2 py-1 text-sm text-slate-200 font-mono focus:outline-none focus:ring-2 focus:ring-blue-400/70";
+
+const NumberField: React.FC<{ label: string; value: number; step: number; onChange: (value: number) => void; title?: string }> = ({ label, value, step, onChange, title }) => (
+    <label className="flex items-center justify-between gap-3" title={title}>
+        <span className="text-slate-400">{label}</span>
+        <input
+            type="number"
+            step={step}
+            value={value}
+            onChange={(e) => {
+                const parsed = parseFloat(e.target.value);
+                if (!isNaN(parsed)) onChange(parsed);
+            }}
+            className={numberInputClasses}
+        />
+    </label>
+);
+
 export const SettingsMenu: React.FC<SettingsMenuProps> = ({ settings, onSettingsChange, onOpenFeedback }) => {
+    const [showAdvanced, setShowAdvanced] = useState(settings.analysisPreset === 'custom');
+    // Show the raw custom values so half-typed numbers aren't clamped under the cursor;
+    // the analysis itself always uses the sanitised values.
+    const tempoSearch = settings.analysisPreset === 'custom' ? settings.customTempoSearch : getTempoSearch(settings);
+    const activePreset = ANALYSIS_PRESETS.find(p => p.id === settings.analysisPreset);
+
+    // Editing any advanced field forks the current preset into the custom slot.
+    const updateTempoSearch = (changes: Partial<TempoSearchParameters>) => {
+        onSettingsChange({
+            analysisPreset: 'custom',
+            customTempoSearch: { ...tempoSearch, ...changes },
+        });
+    };
+
+    const spansOctave = tempoSearch.maxBpm >= tempoSearch.minBpm * 2;
+
     return (
         <div className="rounded-2xl border border-white/10 bg-slate-900/40 px-5 py-6 flex flex-wrap justify-center items-center gap-5 text-sm text-slate-200 shadow-lg shadow-blue-900/20">
             <ToggleSwitch
@@ -29,12 +65,83 @@ export const SettingsMenu: React.FC<SettingsMenuProps> = ({ settings, onSettings
                 onChange={(checked) => onSettingsChange({ verboseLogging: checked })}
                 title="Prints detailed logs to the browser console."
             />
+            <label className="flex items-center gap-3 group" title="Which onset detector feeds the tempo analysis.">
+                <span className="text-sm font-medium text-slate-300 group-hover:text-white transition-colors">Onset Detection</span>
+                <select
+                    value={settings.onsetMethod}
+                    onChange={(e) => onSettingsChange({ onsetMethod: e.target.value as OnsetMethod })}
+                    className={selectClasses}
+                >
+                    <option value="envelope">Amplitude envelope</option>
+                    <option value="spectralFlux">Spectral flux (multi-band)</option>
+                </select>
+            </label>
+            <label className="flex items-center gap-3 group" title={activePreset?.description || 'Your own tempo search range and weights.'}>
+                <span className="text-sm font-medium text-slate-300 group-hover:text-white transition-colors">Genre Preset</span>
+                <select
+                    value={settings.analysisPreset}
+                    onChange={(e) => onSettingsChange({ analysisPreset: e.target.value as AnalysisPresetId })}
+                    className={selectClasses}
+                >
+                    {ANALYSIS_PRESETS.map(preset => (
+                        <option key={preset.id} value={preset.id}>{preset.label}</option>
+                    ))}
+                    <option value="custom">Custom</option>
+                </select>
+            </label>
+            <button
+                onClick={() => setShowAdvanced(!showAdvanced)}
+                className="px-3 py-1 rounded-full text-xs border border-white/10 bg-white/5 text-slate-300 hover:text-blue-200 transition-colors"
+                aria-expanded={showAdvanced}
+            >
+                {showAdvanced ? 'Hide advanced' : 'Advanced…'}
+            </button>
             <button
                 onClick={onOpenFeedback}
                 className="px-4 py-2 rounded-full border border-white/10 bg-white/5 text-slate-200 hover:border-blue-400/40 hover:text-blue-200 transition-colors"
             >
                 Feedback?
             </button>
+
+            {showAdvanced && (
+                <div className="basis-full grid sm:grid-cols-2 gap-x-8 gap-y-2 border-t border-white/10 pt-4 max-w-xl">
+                    <NumberField label="Min BPM" step={1} value={tempoSearch.minBpm} onChange={(minBpm) => updateTempoSearch({ minBpm })} />
+                    <NumberField label="Max BPM" step={1} value={tempoSearch.maxBpm} onChange={(maxBpm) => updateTempoSearch({ maxBpm })} />
+                    <NumberField
+                        label="Preferred from"
+                        step={1}
+                        value={tempoSearch.preferredMinBpm}
+                        onChange={(preferredMinBpm) => updateTempoSearch({ preferredMinBpm })}
+                        title="Candidates inside the preferred range get a score bonus."
+                    />
+                    <NumberField label="Preferred to" step={1} value={tempoSearch.preferredMaxBpm} onChange={(preferredMaxBpm) => updateTempoSearch({ preferredMaxBpm })} />
+                    <NumberField
+                        label="Peak threshold (σ)"
+                        step={0.1}
+                        value={tempoSearch.peakThreshold}
+                        onChange={(peakThreshold) => updateTempoSearch({ peakThreshold })}
+                        title="Onsets must rise this many standard deviations above the mean. Lower it for soft attacks."
+                    />
+                    <label className="flex items-center justify-between gap-3" title="Balance between peak-interval (visual) and autocorrelation (audial) evidence.">
+                        <span className="text-slate-400">Visual / audial</span>
+                        <input
+                            type="range"
+                            min={0}
+                            max={1}
+                            step={0.05}
+                            value={tempoSearch.visualWeight}
+                            onChange={(e) => updateTempoSearch({ visualWeight: parseFloat(e.target.value) })}
+                            className="w-28 accent-blue-400"
+                        />
+                        <span className="font-mono text-xs text-slate-400 w-16 text-right">{Math.round(tempoSearch.visualWeight * 100)}/{Math.round((1 - tempoSearch.visualWeight) * 100)}</span>
+                    </label>
+                    {!spansOctave && (
+                        <p className="sm:col-span-2 text-xs text-amber-300/90">
+                            This range is narrower than an octave, so some tempo evidence can't be folded into it and will be ignored.
+                        </p>
+                    )}
+                </div>
+            )}
         </div>
     );
-};
\ No newline at end of file
+};
@@ -0,0 +1,88 @@
+import React, { useEffect, useState } from 'react';
+import type { KeyDetection } from '../types';
+import { TAG_FIELDS, detectTagContainer, writeTempoTags } from '../services/tagWriter';
+import type { TagContainer } from '../services/tagWriter';
+import { logError, logInfo } from '../services/loggingService';
+import { downloadBlob } from '../utils/download';
+import { formatBpm } from '../utils/formatters';
+
+interface TagExportPanelProps {
+  file: File;
+  bpm: number;
+  keyDetection: KeyDetection | null;
+}
+
+/** Downloads a copy of the track with the BPM, and optionally the key, written into its tags. */
+export const TagExportPanel: React.FC<TagExportPanelProps> = ({ file, bpm, keyDetection }) => {
+  const [includeKey, setIncludeKey] = useState(true);
+  const [isWriting, setIsWriting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // undefined while the file's first bytes are being read.
+  const [container, setContainer] = useState<TagContainer | null | undefined>(undefined);
+
+  useEffect(() => {
+    let isCurrent = true;
+    setContainer(undefined);
+    detectTagContainer(file)
+      .then(detected => { if (isCurrent) setContainer(detected); })
+      .catch(e => {
+        logError("Failed to read the file's container.", e);
+        if (isCurrent) setContainer(null);
+      });
+    return () => { isCurrent = false; };
+  }, [file]);
+
+  const fields = container ? TAG_FIELDS[container] : null;
+  const key = keyDetection?.key ?? null;
+  const writesKey = includeKey && key !== null && fields?.key != null;
+
+  const handleDownload = async () => {
+    setIsWriting(true);
+    setError(null);
+    try {
+      const tagged = await writeTempoTags(file, { bpm, key: writesKey ? key : null });
+      downloadBlob(tagged, file.name);
+      logInfo("Downloaded a tagged copy of the track.", { bpm, key: writesKey ? key?.name : null, container });
+    } catch (e) {
+      logError("Failed to write the tags.", e);
+      setError(e instanceof Error ? e.message : 'The tags could not be written.');
+    } finally {
+      setIsWriting(false);
+    }
+  };
+
+  return (
+    <div className="w-full rounded-2xl border border-white/10 bg-slate-900/60 p-4 text-sm text-slate-200">
+      <p className="text-xs uppercase tracking-[0.25em] text-slate-400 mb-3">Write tags</p>
+      <div className="flex flex-wrap items-center gap-3">
+        <button
+          onClick={handleDownload}
+          disabled={!fields || bpm <= 0 || isWriting}
+          className="px-3 py-1.5 rounded-lg border border-white/10 bg-white/5 hover:bg-white/10 disabled:opacity-40 disabled:hover:bg-white/5 text-xs font-semibold transition-colors"
+        >
+          {isWriting ? 'Writing…' : 'Download tagged copy'}
+        </button>
+        {fields?.key && (
+          <label className={`flex items-center gap-2 text-xs ${key ? 'text-slate-300' : 'text-slate-500'}`}>
+            <input
+              type="checkbox"
+              checked={includeKey && key !== null}
+              disabled={!key}
+              onChange={e => setIncludeKey(e.target.checked)}
+              className="accent-blue-400"
+            />
+            Include key{key ? ` (${key.name})` : ''}
+          </label>
+        )}
+      </div>
+      <p className="mt-2 text-xs text-slate-500">
+        {container === undefined
+          ? 'Reading the file…'
+          : fields
+          ? `Sets ${fields.bpm} to ${container === 'mp3' || container === 'mp4' ? Math.round(bpm) : formatBpm(bpm)}${writesKey ? ` and ${fields.key}` : ''}; everything else in the file is left as it is.`
+          : "Tags can't be written into this kind of file."}
+      </p>
+      {error && <p className="mt-2 text-xs text-red-300">{error}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,180 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { formatBpm } from '../utils/formatters';
+import { logInfo } from '../services/loggingService';
+import { isEditableTarget } from '../utils/keyboard';
+import { appendTap, compareTapToCandidates, estimateTapTempo, findBestTapMatch, MIN_TAPS, TAP_MATCH_TOLERANCE, TAP_RESET_SECONDS } from '../utils/tapTempo';
+import type { Tap, TapMatch } from '../utils/tapTempo';
+import type { BpmCandidate } from '../types';
+
+interface TapTempoPadProps {
+  candidates: BpmCandidate[];
+  activeBpm: number;
+  /** Taps during playback follow the stretched tempo, so they're divided by this. */
+  playbackRate: number;
+  /** The current playback position, or null when the track isn't playing. */
+  getSongTime: () => number | null;
+  onSnap: (bpm: number, anchor: number | null) => void;
+}
+
+const SHOWN_CANDIDATES = 5;
+
+const factorLabel = (factor: number) => factor === 0.5 ? '½×' : factor === 2 ? '2×' : '';
+
+/** Tap along with the track to check the detected tempo, and snap to the candidate the taps agree with. */
+export const TapTempoPad: React.FC<TapTempoPadProps> = ({ candidates, activeBpm, playbackRate, getSongTime, onSnap }) => {
+  const [taps, setTaps] = useState<Tap[]>([]);
+  const tapsRef = useRef<Tap[]>([]);
+  const padRef = useRef<HTMLButtonElement>(null);
+  const logTimerRef = useRef<number | null>(null);
+  const pendingLogRef = useRef<(() => void) | null>(null);
+
+  const estimate = estimateTapTempo(taps, playbackRate);
+  const matches = estimate ? compareTapToCandidates(estimate.bpm, candidates.slice(0, SHOWN_CANDIDATES)) : [];
+  const best = findBestTapMatch(matches);
+
+  // Each run is logged once it goes quiet, so submitted feedback includes what the user tapped.
+  const flushLog = useCallback(() => {
+    if (logTimerRef.current !== null) {
+      clearTimeout(logTimerRef.current);
+      logTimerRef.current = null;
+    }
+    pendingLogRef.current?.();
+    pendingLogRef.current = null;
+  }, []);
+
+  useEffect(() => flushLog, [flushLog]);
+
+  const tap = useCallback((timeStamp: number) => {
+    const next = appendTap(tapsRef.current, { at: timeStamp / 1000, songTime: getSongTime() });
+    tapsRef.current = next;
+    setTaps(next);
+    if (next.length === 1) flushLog();
+    const runEstimate = estimateTapTempo(next, playbackRate);
+    if (!runEstimate) return;
+    pendingLogRef.current = () => logInfo("Tap tempo run.", {
+      bpm: runEstimate.bpm,
+      playbackRate: runEstimate.playbackRate,
+      stability: runEstimate.stability,
+      anchor: runEstimate.anchor,
+      intervals: next.slice(1).map((t, i) => Number((t.at - next[i].at).toFixed(4))),
+      candidates: compareTapToCandidates(runEstimate.bpm, candidates.slice(0, SHOWN_CANDIDATES))
+        .map(m => ({ tempo: m.candidate.tempo, factor: m.factor, deviation: m.deviation })),
+    });
+    if (logTimerRef.current !== null) clearTimeout(logTimerRef.current);
+    logTimerRef.current = window.setTimeout(flushLog, TAP_RESET_SECONDS * 1000);
+  }, [getSongTime, playbackRate, candidates, flushLog]);
+
+  // T taps from anywhere on the page, as long as the user isn't typing.
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.repeat || e.ctrlKey || e.metaKey || e.altKey || e.key.toLowerCase() !== 't') return;
+      if (isEditableTarget(e.target) || e.target === padRef.current) return;
+      tap(e.timeStamp);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [tap]);
+
+  const handlePadKeyDown = (e: React.KeyboardEvent<HTMLButtonElement>) => {
+    if (e.repeat) return;
+    if (e.key === ' ' || e.key === 'Enter' || e.key.toLowerCase() === 't') {
+      e.preventDefault();
+      tap(e.timeStamp);
+    }
+  };
+
+  const handleReset = () => {
+    flushLog();
+    tapsRef.current = [];
+    setTaps([]);
+  };
+
+  const handleSnap = (match: TapMatch) => {
+    flushLog();
+    logInfo(`Snapped to ${formatBpm(match.tempo)} BPM from taps.`, {
+      tappedBpm: estimate?.bpm,
+      candidate: match.candidate.tempo,
+      factor: match.factor,
+      anchor: estimate?.anchor ?? null,
+    });
+    onSnap(match.tempo, estimate?.anchor ?? null);
+  };
+
+  const tapsNeeded = Math.max(0, MIN_TAPS - taps.length);
+
+  return (
+    <div className="w-full rounded-2xl border border-white/10 bg-slate-900/60 p-4 space-y-4">
+      <div className="flex items-center gap-4">
+        <button
+          ref={padRef}
+          onPointerDown={(e) => { e.preventDefault(); padRef.current?.focus(); tap(e.timeStamp); }}
+          onKeyDown={handlePadKeyDown}
+          className="w-24 h-24 shrink-0 rounded-2xl bg-gradient-to-br from-sky-500/30 to-purple-500/30 border border-sky-300/30 hover:from-sky-500/40 hover:to-purple-500/40 active:scale-95 text-sky-100 font-semibold transition-all touch-manipulation select-none focus:outline-none focus:ring-2 focus:ring-sky-400/70"
+          aria-label="Tap tempo"
+          title="Tap along with the beat. The T key also taps."
+        >
+          Tap
+        </button>
+        <div className="min-w-0 flex-1">
+          <p className="text-xs uppercase tracking-[0.25em] text-slate-400">Tap tempo</p>
+          {estimate ? (
+            <>
+              <p className="text-3xl font-bold text-slate-100">{estimate.bpm.toFixed(1)} <span className="text-sm font-normal text-slate-400">BPM</span></p>
+              <p className="text-xs text-slate-400">
+                {estimate.tapCount} taps · steadiness <span className="font-mono text-slate-300">{Math.round(estimate.stability * 100)}%</span>
+                {estimate.playbackRate !== 1 && ` · adjusted for ${estimate.playbackRate.toFixed(3)}× playback`}
+                {estimate.anchor === null && ' · play the track to line up the beat too'}
+              </p>
+            </>
+          ) : (
+            <p className="text-sm text-slate-400">
+              {taps.length === 0
+                ? 'Tap along with the beat, or press T.'
+                : `Keep going, ${tapsNeeded} more tap${tapsNeeded === 1 ? '' : 's'}...`}
+            </p>
+          )}
+        </div>
+        {taps.length > 0 && (
+          <button onClick={handleReset} className="text-xs text-slate-400 hover:text-slate-200 transition-colors self-start">
+            Reset
+          </button>
+        )}
+      </div>
+
+      {estimate && matches.length > 0 && (
+        <ul className="space-y-1 text-sm">
+          {matches.map(match => {
+            const isBest = match === best;
+            const percent = match.deviation * 100;
+            return (
+              <li key={match.candidate.tempo} className={`flex items-center justify-between gap-3 rounded-lg px-2 py-1 ${isBest ? 'bg-emerald-400/10' : ''}`}>
+                <span className={isBest ? 'text-emerald-200' : 'text-slate-300'}>
+                  {formatBpm(match.tempo)} BPM
+                  {match.factor !== 1 && <span className="text-xs text-slate-500"> ({factorLabel(match.factor)} {formatBpm(match.candidate.tempo)})</span>}
+                </span>
+                <span className={`font-mono text-xs ${Math.abs(match.deviation) <= TAP_MATCH_TOLERANCE ? 'text-emerald-300' : 'text-slate-500'}`}>
+                  {percent > 0 ? '+' : ''}{percent.toFixed(1)}%
+                </span>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {estimate && (
+        best ? (
+          <button
+            onClick={() => handleSnap(best)}
+            disabled={best.tempo === activeBpm && estimate.anchor === null}
+            className="w-full px-4 py-2 rounded-lg bg-emerald-500/80 hover:bg-emerald-400 disabled:opacity-50 disabled:cursor-not-allowed text-slate-950 text-sm font-semibold transition-colors"
+            title={estimate.anchor !== null ? 'Use this tempo and line the beat grid up with your taps.' : 'Use this tempo.'}
+          >
+            Snap to {formatBpm(best.tempo)} BPM{estimate.anchor !== null ? ' and beat' : ''}
+          </button>
+        ) : (
+          <p className="text-xs text-slate-400">Your taps don't match any detected tempo closely. Try tapping a little longer.</p>
+        )
+      )}
+    </div>
+  );
+};
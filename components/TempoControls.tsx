@@ -2,7 +2,16 @@ import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { PlayIcon } from './icons/PlayIcon';
 import { PauseIcon } from './icons/PauseIcon';
 import { formatBpm } from '../utils/formatters';
-import { logError } from '../services/loggingService';
+import { logError, logInfo } from '../services/loggingService';
+import type { BeatInfo, BpmCandidate, MetronomeSettings, TimeRange } from '../types';
+import { findBeatIndexAtOrAfter } from '../utils/beatGrid';
+import { LOOP_LENGTHS, countLoopBeats, createBeatLoop, getLoopPosition } from '../utils/loop';
+import { buildClickTrack, buildCountIn, getMixLevels, getSubdivisionSteps, scheduleClick } from '../services/metronome';
+import { createTimeStretcher } from '../services/timeStretch';
+import type { TimeStretcher } from '../services/timeStretch';
+import { MetronomeSettingsPanel } from './MetronomeSettingsPanel';
+import { isEditableTarget } from '../utils/keyboard';
+import { TapTempoPad } from './TapTempoPad';
 
 interface TempoControlsProps {
   audioBuffer: AudioBuffer | null;
@@ -11,26 +20,86 @@ interface TempoControlsProps {
   onBpmChange: (newBpm: number) => void;
   currentTime: number;
   onTimeUpdate: (time: number) => void;
-  beatInfo: { phase: number; interval: number; firstBeat: number };
+  beatInfo: BeatInfo;
+  candidates: BpmCandidate[];
+  onSnapToTaps: (bpm: number, anchor: number | null) => void;
+  onPhaseNudge: (seconds: number) => void;
+  metronome: MetronomeSettings;
+  onMetronomeChange: (changes: Partial<MetronomeSettings>) => void;
+  loop: TimeRange | null;
+  onLoopChange: (loop: TimeRange | null) => void;
 }
 
-export const TempoControls: React.FC<TempoControlsProps> = ({ audioBuffer, detectedBpm, activeBpm, onBpmChange, currentTime, onTimeUpdate, beatInfo }) => {
+const MIN_BPM = 20;
+const MAX_BPM = 400;
+const BPM_STEPS = [1, 0.1, 0.01];
+const PHASE_NUDGES_MS = [10, 1];
+const PHASE_NUDGE_BEATS = 1 / 8;
+
+const MIN_PLAYBACK_RATE = 0.5;
+const MAX_PLAYBACK_RATE = 2;
+
+const roundBpm = (bpm: number) => Math.min(MAX_BPM, Math.max(MIN_BPM, Math.round(bpm * 100) / 100));
+
+export const TempoControls: React.FC<TempoControlsProps> = ({ audioBuffer, detectedBpm, activeBpm, onBpmChange, currentTime, onTimeUpdate, beatInfo, candidates, onSnapToTaps, onPhaseNudge, metronome, onMetronomeChange, loop, onLoopChange }) => {
     const [isPlaying, setIsPlaying] = useState(false);
     const [showPrecise, setShowPrecise] = useState(false);
+    const [bpmInput, setBpmInput] = useState(() => activeBpm.toFixed(2));
+    const [showMetronome, setShowMetronome] = useState(false);
+    // Playback speed, as a multiple of the track's own tempo. With master tempo
+    // on the pitch is kept; off, it rises and falls with the speed like vinyl.
+    const [playbackRate, setPlaybackRate] = useState(1);
+    const [masterTempo, setMasterTempo] = useState(true);
+    const [targetBpmInput, setTargetBpmInput] = useState('');
+    const [stretchError, setStretchError] = useState<string | null>(null);
     
     const audioContextRef = useRef<AudioContext | null>(null);
-    const audioSourceRef = useRef<AudioBufferSourceNode | null>(null);
+    // Stops whatever is currently playing the track: a buffer source or the time-stretcher.
+    const stopSourceRef = useRef<(() => void) | null>(null);
+    const stretcherRef = useRef<Promise<TimeStretcher> | null>(null);
+    // Bumped on every start and stop, so a start still loading the stretcher is dropped after a stop.
+    const playbackAttemptRef = useRef(0);
+    const playbackRateRef = useRef(1); // the rate the current playback started with
+    const speedRef = useRef({ playbackRate, masterTempo });
+    const loopRef = useRef(loop);
+    // The loop the current playback goes round, once it gets there.
+    const playbackLoopRef = useRef<TimeRange | null>(null);
 
     const gainNodeRef = useRef<GainNode | null>(null);
+    const clickGainRef = useRef<GainNode | null>(null);
+    // Count-in clicks are scheduled up front, through their own gain so stopping can silence them.
+    const countInGainRef = useRef<GainNode | null>(null);
     const playbackStartTimeRef = useRef(0);
     const startOffsetRef = useRef(0);
     const animationFrameRef = useRef<number | null>(null);
     const internalTimeRef = useRef(0); // Used to differentiate internal time updates from external seeks
 
+    const beatsPerBar = metronome.beatsPerBar ?? beatInfo.beatsPerBar;
+    const clickTrack = React.useMemo(() => {
+        const clicks = buildClickTrack(beatInfo.beats, beatInfo.firstDownbeat, beatsPerBar, metronome);
+        return { clicks, times: clicks.map(click => click.time), spacing: beatInfo.interval / getSubdivisionSteps(metronome.subdivision) };
+    }, [beatInfo, beatsPerBar, metronome]);
+
     const schedulerIntervalRef = useRef<number | null>(null);
-    const nextNoteTimeRef = useRef<number>(0);
+    const nextClickIndexRef = useRef<number>(0);
+    // The scheduler reads the clicks through refs so grid and metronome changes
+    // are heard without restarting playback.
+    const clickTrackRef = useRef(clickTrack);
+    const beatInfoRef = useRef(beatInfo);
+    const metronomeRef = useRef(metronome);
+    // Clicks are scheduled on the unlooped timeline: each time round the loop
+    // adds its length to the song times of the clicks inside it.
+    const loopPassRef = useRef(0);
+    const lastScheduledClickRef = useRef<number | null>(null);
+
+    // Song time runs `rate` times faster than the context clock, and holds at the
+    // offset during a count-in, before the track has started.
+    const unloopedTimeAt = (contextTime: number) =>
+        startOffsetRef.current + Math.max(0, contextTime - playbackStartTimeRef.current) * playbackRateRef.current;
+    const songTimeAt = (contextTime: number) => getLoopPosition(unloopedTimeAt(contextTime), playbackLoopRef.current).time;
 
     const stopPlayback = useCallback((updateState = true) => {
+        playbackAttemptRef.current++;
         if (animationFrameRef.current) {
             cancelAnimationFrame(animationFrameRef.current);
             animationFrameRef.current = null;
@@ -39,14 +108,14 @@ export const TempoControls: React.FC<TempoControlsProps> = ({ audioBuffer, detec
             clearInterval(schedulerIntervalRef.current);
             schedulerIntervalRef.current = null;
         }
+        if (countInGainRef.current) {
+            countInGainRef.current.disconnect();
+            countInGainRef.current = null;
+        }
 
-        if (audioSourceRef.current) {
-            try {
-                audioSourceRef.current.onended = null;
-                audioSourceRef.current.stop(0);
-            } catch (e) {}
-            audioSourceRef.current.disconnect();
-            audioSourceRef.current = null;
+        if (stopSourceRef.current) {
+            stopSourceRef.current();
+            stopSourceRef.current = null;
         }
         
         if (updateState) {
@@ -62,6 +131,8 @@ export const TempoControls: React.FC<TempoControlsProps> = ({ audioBuffer, detec
                 audioContextRef.current = context;
                 gainNodeRef.current = context.createGain();
                 gainNodeRef.current.connect(context.destination);
+                clickGainRef.current = context.createGain();
+                clickGainRef.current.connect(context.destination);
             } catch (e) {
                 logError('Web Audio API is not supported in this browser.', e);
             }
@@ -76,8 +147,7 @@ export const TempoControls: React.FC<TempoControlsProps> = ({ audioBuffer, detec
 
     const tick = useCallback(() => {
         if (audioContextRef.current) {
-            const elapsedTime = audioContextRef.current.currentTime - playbackStartTimeRef.current;
-            const newTime = startOffsetRef.current + elapsedTime;
+            const newTime = songTimeAt(audioContextRef.current.currentTime);
             internalTimeRef.current = newTime;
             onTimeUpdate(newTime);
 
@@ -91,73 +161,198 @@ export const TempoControls: React.FC<TempoControlsProps> = ({ audioBuffer, detec
         }
     }, [onTimeUpdate, audioBuffer, stopPlayback]);
 
-    const scheduleClick = useCallback((time: number) => {
+    const scheduler = useCallback(() => {
         const context = audioContextRef.current;
-        if (!context) return;
-        const osc = context.createOscillator();
-        const gain = context.createGain();
-        osc.type = 'sine';
-        osc.frequency.setValueAtTime(880, time);
-        gain.gain.setValueAtTime(0.3, time);
-        gain.gain.exponentialRampToValueAtTime(0.001, time + 0.1);
-        osc.connect(gain);
-        gain.connect(context.destination);
-        osc.start(time);
-        osc.stop(time + 0.1);
+        const destination = clickGainRef.current;
+        if (!context || !destination) return;
+        const { clicks, times } = clickTrackRef.current;
+        const loop = playbackLoopRef.current;
+        const scheduleAheadTime = 0.1; // seconds
+        while (true) {
+            if (loop && (nextClickIndexRef.current >= clicks.length || clicks[nextClickIndexRef.current].time >= loop.end)) {
+                // Go round again from the loop's first click, if it has any.
+                const first = findBeatIndexAtOrAfter(times, loop.start);
+                if (first >= clicks.length || clicks[first].time >= loop.end) break;
+                loopPassRef.current++;
+                nextClickIndexRef.current = first;
+            }
+            if (nextClickIndexRef.current >= clicks.length) break;
+            const click = clicks[nextClickIndexRef.current];
+            const time = click.time + (loop ? loopPassRef.current * (loop.end - loop.start) : 0);
+            // Map the click's song time onto the AudioContext clock.
+            const clickTime = playbackStartTimeRef.current + (time - startOffsetRef.current) / playbackRateRef.current;
+            if (clickTime >= context.currentTime + scheduleAheadTime) break;
+            scheduleClick(context, destination, Math.max(clickTime, context.currentTime), metronomeRef.current.sound, click.level);
+            lastScheduledClickRef.current = time;
+            nextClickIndexRef.current++;
+        }
     }, []);
 
-    const scheduler = useCallback(() => {
+    useEffect(() => {
+        beatInfoRef.current = beatInfo;
+        metronomeRef.current = metronome;
+    }, [beatInfo, metronome]);
+
+    // When the clicks change mid-playback, carry on from the first new one that
+    // isn't just a nudged copy of a click already scheduled.
+    useEffect(() => {
+        clickTrackRef.current = clickTrack;
         const context = audioContextRef.current;
-        if (!context || activeBpm <= 0) return;
-        const scheduleAheadTime = 0.1; // seconds
-        while (nextNoteTimeRef.current < context.currentTime + scheduleAheadTime) {
-            scheduleClick(nextNoteTimeRef.current);
-            nextNoteTimeRef.current += 60.0 / activeBpm;
+        if (!context || !stopSourceRef.current) return;
+        const now = unloopedTimeAt(context.currentTime);
+        const from = lastScheduledClickRef.current !== null
+            ? Math.max(lastScheduledClickRef.current + clickTrack.spacing / 2, now)
+            : now;
+        const position = getLoopPosition(from, playbackLoopRef.current);
+        loopPassRef.current = position.pass;
+        nextClickIndexRef.current = findBeatIndexAtOrAfter(clickTrack.times, position.time);
+    }, [clickTrack]);
+
+    useEffect(() => {
+        const context = audioContextRef.current;
+        if (!context || !gainNodeRef.current || !clickGainRef.current) return;
+        const levels = getMixLevels(metronome);
+        gainNodeRef.current.gain.setTargetAtTime(levels.music, context.currentTime, 0.02);
+        clickGainRef.current.gain.setTargetAtTime(levels.click, context.currentTime, 0.02);
+    }, [metronome]);
+
+    useEffect(() => {
+        setBpmInput(activeBpm.toFixed(2));
+    }, [activeBpm]);
+
+    /**
+     * Schedules a count-in that leads into the first beat after `offset`.
+     * @returns When the track should start on the AudioContext clock.
+     */
+    const scheduleCountIn = useCallback((context: AudioContext, offset: number, rate: number): number => {
+        const start = context.currentTime + 0.05;
+        const { beats, beatsPerBar: detectedBeatsPerBar } = beatInfoRef.current;
+        const { countInBars, sound, beatsPerBar: chosenBeatsPerBar } = metronomeRef.current;
+        const index = findBeatIndexAtOrAfter(beats, offset);
+        if (countInBars <= 0 || beats.length < 2 || index >= beats.length || !clickGainRef.current) return start;
+
+        // Both measured on the context clock, so a stretched track counts in at its new tempo.
+        const interval = (index + 1 < beats.length ? beats[index + 1] - beats[index] : beats[index] - beats[index - 1]) / rate;
+        const perBar = chosenBeatsPerBar ?? (detectedBeatsPerBar || 4);
+        const toFirstBeat = (beats[index] - offset) / rate;
+        const trackStart = Math.max(start, start + countInBars * perBar * interval - toFirstBeat);
+        const countInGain = context.createGain();
+        countInGain.connect(clickGainRef.current);
+        countInGainRef.current = countInGain;
+        for (const click of buildCountIn(trackStart + toFirstBeat, interval, perBar, countInBars)) {
+            if (click.time >= context.currentTime) scheduleClick(context, countInGain, click.time, sound, click.level);
+        }
+        return trackStart;
+    }, []);
+
+    const getStretcher = useCallback((context: AudioContext): Promise<TimeStretcher> => {
+        if (!stretcherRef.current) {
+            stretcherRef.current = createTimeStretcher(context).then(stretcher => {
+                if (gainNodeRef.current) stretcher.node.connect(gainNodeRef.current);
+                return stretcher;
+            });
+            // Let a failed load be retried next time.
+            stretcherRef.current.catch(() => { stretcherRef.current = null; });
         }
-    }, [activeBpm, scheduleClick]);
+        return stretcherRef.current;
+    }, []);
 
-    const startPlayback = useCallback(async (offset: number) => {
+    const startPlayback = useCallback(async (offset: number, withCountIn = false) => {
         const context = audioContextRef.current;
-        if (!context || !audioBuffer || !gainNodeRef.current) return;
+        const musicGain = gainNodeRef.current;
+        if (!context || !audioBuffer || !musicGain) return;
+        const attempt = ++playbackAttemptRef.current;
         if (context.state === 'suspended') await context.resume();
 
+        const { playbackRate: rate, masterTempo: keepPitch } = speedRef.current;
+        let stretcher: TimeStretcher | null = null;
+        if (rate !== 1 && keepPitch) {
+            try {
+                stretcher = await getStretcher(context);
+                await stretcher.load(audioBuffer);
+                setStretchError(null);
+            } catch (e) {
+                logError("Time-stretching is unavailable; falling back to varispeed.", e);
+                setStretchError("Pitch-preserving playback isn't available here, so the pitch changes with the speed.");
+                stretcher = null;
+            }
+        }
+        if (attempt !== playbackAttemptRef.current) return;
+
         stopPlayback(false);
-        const source = context.createBufferSource();
-        source.buffer = audioBuffer;
-        source.connect(gainNodeRef.current);
-        source.start(0, offset);
+        playbackRateRef.current = rate;
+        // Starting before the loop runs on into it; starting after it plays on without it.
+        const activeLoop = loopRef.current && offset < loopRef.current.end ? loopRef.current : null;
+        playbackLoopRef.current = activeLoop;
+        const startAt = withCountIn ? scheduleCountIn(context, offset, rate) : context.currentTime;
+        let stop: () => void;
+        if (stretcher) {
+            const activeStretcher = stretcher;
+            activeStretcher.start(offset, rate, startAt, activeLoop);
+            stop = () => activeStretcher.stop();
+            activeStretcher.setOnEnded(() => {
+                if (stopSourceRef.current === stop) stopPlayback();
+            });
+        } else {
+            const source = context.createBufferSource();
+            source.buffer = audioBuffer;
+            source.playbackRate.value = rate;
+            if (activeLoop) {
+                source.loop = true;
+                source.loopStart = activeLoop.start;
+                source.loopEnd = activeLoop.end;
+            }
+            source.connect(musicGain);
+            source.start(startAt, offset);
+            stop = () => {
+                source.onended = null;
+                try {
+                    source.stop(0);
+                } catch (e) {}
+                source.disconnect();
+            };
+            source.onended = () => {
+                if (stopSourceRef.current === stop) stopPlayback();
+            };
+        }
         
-        audioSourceRef.current = source;
+        stopSourceRef.current = stop;
         startOffsetRef.current = offset;
         internalTimeRef.current = offset; // Sync internal time on start
-        playbackStartTimeRef.current = context.currentTime;
-
-        // Metronome Synchronization
-        if (activeBpm > 0 && beatInfo && beatInfo.interval > 0) {
-            const { phase, interval: beatInterval } = beatInfo;
-            
-            const timeSincePhase = offset - phase;
-            // Find the next beat that should occur after the current playback offset
-            const beatsSincePhase = Math.ceil(timeSincePhase / beatInterval);
-            const firstClickSongTime = phase + beatsSincePhase * beatInterval;
-            
-            // Calculate how long until that beat happens from now
-            const firstClickDelay = firstClickSongTime - offset;
-            nextNoteTimeRef.current = context.currentTime + firstClickDelay;
-
-            schedulerIntervalRef.current = window.setInterval(scheduler, 25);
-        }
+        playbackStartTimeRef.current = startAt;
+
+        // Metronome Synchronization: start from the next click after the playback offset.
+        // It runs even without a grid, so one that appears during playback is picked up.
+        nextClickIndexRef.current = findBeatIndexAtOrAfter(clickTrackRef.current.times, offset);
+        loopPassRef.current = 0;
+        lastScheduledClickRef.current = null;
+        schedulerIntervalRef.current = window.setInterval(scheduler, 25);
         
         setIsPlaying(true);
         animationFrameRef.current = requestAnimationFrame(tick);
+    }, [audioBuffer, tick, scheduler, scheduleCountIn, getStretcher, stopPlayback]);
 
-        source.onended = () => {
-            if (audioSourceRef.current === source) {
-                 stopPlayback();
-            }
-        };
+    // A speed change mid-playback restarts from the current position at the new rate.
+    useEffect(() => {
+        speedRef.current = { playbackRate, masterTempo };
+        if (playbackRate === 1 || !masterTempo) setStretchError(null);
+        const context = audioContextRef.current;
+        if (!context || !stopSourceRef.current) return;
+        startPlayback(songTimeAt(context.currentTime));
+    }, [playbackRate, masterTempo]);
 
-    }, [audioBuffer, tick, scheduler, stopPlayback, activeBpm, beatInfo]);
+    // Likewise a new loop, jumping to its start if the playhead is outside it.
+    useEffect(() => {
+        loopRef.current = loop;
+        const context = audioContextRef.current;
+        if (!context || !stopSourceRef.current) return;
+        const position = songTimeAt(context.currentTime);
+        startPlayback(loop && (position < loop.start || position >= loop.end) ? loop.start : position);
+    }, [loop]);
+
+    useEffect(() => {
+        setTargetBpmInput(activeBpm > 0 ? (activeBpm * playbackRate).toFixed(2) : '');
+    }, [activeBpm, playbackRate]);
     
     // This effect handles seeking. It detects an external change to `currentTime`
     // and restarts playback if active.
@@ -178,8 +373,7 @@ export const TempoControls: React.FC<TempoControlsProps> = ({ audioBuffer, detec
         if (isPlaying) {
             // Update offset before stopping
             if (audioContextRef.current) {
-                const elapsedTime = audioContextRef.current.currentTime - playbackStartTimeRef.current;
-                startOffsetRef.current = startOffsetRef.current + elapsedTime;
+                startOffsetRef.current = songTimeAt(audioContextRef.current.currentTime);
             }
             stopPlayback();
         } else {
@@ -188,10 +382,78 @@ export const TempoControls: React.FC<TempoControlsProps> = ({ audioBuffer, detec
                 offset = 0;
             }
             onTimeUpdate(offset);
-            startPlayback(offset);
+            startPlayback(offset, true);
         }
     }, [isPlaying, audioBuffer, stopPlayback, startPlayback, onTimeUpdate]);
     
+    // Read straight from the audio clock so taps are timed more finely than the rAF updates.
+    const getSongTime = useCallback((): number | null => {
+        const context = audioContextRef.current;
+        if (!context || !stopSourceRef.current || context.currentTime < playbackStartTimeRef.current) return null;
+        return songTimeAt(context.currentTime);
+    }, []);
+
+    const stepBpm = useCallback((step: number) => {
+        if (activeBpm > 0) onBpmChange(roundBpm(activeBpm + step));
+    }, [activeBpm, onBpmChange]);
+
+    const nudgePhase = useCallback((seconds: number) => {
+        if (beatInfo.beats.length > 0) onPhaseNudge(seconds);
+    }, [beatInfo.beats.length, onPhaseNudge]);
+
+    const setTargetBpm = (bpm: number) => {
+        if (activeBpm <= 0 || !isFinite(bpm) || bpm <= 0) return;
+        const rate = Math.min(MAX_PLAYBACK_RATE, Math.max(MIN_PLAYBACK_RATE, bpm / activeBpm));
+        // Snap to normal speed when the target rounds to the track's own tempo.
+        setPlaybackRate(Math.abs(rate - 1) < 0.00005 ? 1 : rate);
+        logInfo(`Playback tempo set to ${formatBpm(activeBpm * rate)} BPM.`, { rate });
+    };
+
+    const handleTargetBpmCommit = () => {
+        const bpm = parseFloat(targetBpmInput);
+        if (isFinite(bpm) && bpm > 0) {
+            setTargetBpm(bpm);
+        } else {
+            setTargetBpmInput((activeBpm * playbackRate).toFixed(2));
+        }
+    };
+
+    // A quick loop starts on the current beat, or resizes the loop already set.
+    const handleQuickLoop = (length: number) => {
+        if (!audioBuffer) return;
+        const next = createBeatLoop(beatInfo.beats, loop ? loop.start : currentTime, length, audioBuffer.duration);
+        if (!next) return;
+        logInfo(`Looping ${length} beat${length > 1 ? 's' : ''}.`, next);
+        onLoopChange(next);
+    };
+
+    const handleBpmInputCommit = () => {
+        const bpm = parseFloat(bpmInput);
+        if (isFinite(bpm) && bpm > 0 && roundBpm(bpm) !== roundBpm(activeBpm)) {
+            onBpmChange(roundBpm(bpm));
+        } else {
+            setBpmInput(activeBpm.toFixed(2));
+        }
+    };
+
+    // Up/Down step the tempo by 0.1 BPM (Shift: 1, Alt: 0.01); Left/Right move
+    // the grid by 10 ms (Alt: 1 ms, Shift: an eighth of a beat). Only while
+    // focus is inside the controls, so the arrows still scroll the page and a
+    // stray key press elsewhere can't edit the saved grid.
+    const handleShortcutKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+        if (e.ctrlKey || e.metaKey || isEditableTarget(e.target)) return;
+        const bpmStep = e.shiftKey ? 1 : e.altKey ? 0.01 : 0.1;
+        const phaseStep = e.shiftKey ? PHASE_NUDGE_BEATS * beatInfo.interval : e.altKey ? 0.001 : 0.01;
+        switch (e.key) {
+            case 'ArrowUp': stepBpm(bpmStep); break;
+            case 'ArrowDown': stepBpm(-bpmStep); break;
+            case 'ArrowRight': nudgePhase(phaseStep); break;
+            case 'ArrowLeft': nudgePhase(-phaseStep); break;
+            default: return;
+        }
+        e.preventDefault();
+    };
+
     const getButtonClass = (isActive: boolean) =>
         `px-4 py-2 rounded-lg transition-all text-sm font-semibold ${
             isActive
@@ -199,6 +461,9 @@ export const TempoControls: React.FC<TempoControlsProps> = ({ audioBuffer, detec
                 : 'bg-slate-800/80 hover:bg-slate-700 text-slate-200'
         }`;
 
+    const fineButtonClass = 'px-2 py-1 rounded-md bg-slate-800/80 hover:bg-slate-700 text-slate-200 font-mono text-xs transition-colors disabled:opacity-50';
+    const loopBeats = loop ? countLoopBeats(beatInfo.beats, loop) : 0;
+
     const variations = [
       { label: '½ Time', value: detectedBpm / 2},
       { label: 'x1', value: detectedBpm },
@@ -211,7 +476,12 @@ export const TempoControls: React.FC<TempoControlsProps> = ({ audioBuffer, detec
     const displayValue = showPrecise ? preciseActiveBpm : roundedActiveBpm;
 
     return (
-        <div className="mt-4 flex flex-col items-center gap-4">
+        <div
+            tabIndex={0}
+            onKeyDown={handleShortcutKeyDown}
+            aria-label="Tempo controls"
+            className="mt-4 flex flex-col items-center gap-4 rounded-2xl focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-400/50"
+        >
              <div
                 className={`text-center ${hasDecimal ? 'cursor-pointer' : ''}`}
                 onClick={() => hasDecimal && setShowPrecise(!showPrecise)}
@@ -237,6 +507,97 @@ export const TempoControls: React.FC<TempoControlsProps> = ({ audioBuffer, detec
                   </button>
                ))}
             </div>
+            <div className="w-full rounded-2xl border border-white/10 bg-slate-900/60 p-4 space-y-3 text-sm">
+                <div className="flex flex-wrap items-center justify-center gap-1.5">
+                    {BPM_STEPS.map(step => (
+                        <button key={`-${step}`} onClick={() => stepBpm(-step)} className={fineButtonClass} title={`${step} BPM slower`}>−{step}</button>
+                    ))}
+                    <input
+                        type="number"
+                        step="0.01"
+                        min={MIN_BPM}
+                        max={MAX_BPM}
+                        value={bpmInput}
+                        onChange={(e) => setBpmInput(e.target.value)}
+                        onBlur={handleBpmInputCommit}
+                        onKeyDown={(e) => e.key === 'Enter' && handleBpmInputCommit()}
+                        className="w-24 mx-1 bg-slate-950/80 border border-white/10 rounded-md px-2 py-1 text-center font-mono text-slate-100"
+                        aria-label="Exact BPM"
+                    />
+                    {[...BPM_STEPS].reverse().map(step => (
+                        <button key={`+${step}`} onClick={() => stepBpm(step)} className={fineButtonClass} title={`${step} BPM faster`}>+{step}</button>
+                    ))}
+                </div>
+                <div className="flex flex-wrap items-center justify-center gap-1.5">
+                    <span className="text-xs text-slate-400 mr-1">Grid</span>
+                    <button onClick={() => nudgePhase(-PHASE_NUDGE_BEATS * beatInfo.interval)} className={fineButtonClass} title="Move the grid an eighth of a beat earlier">−⅛ beat</button>
+                    {PHASE_NUDGES_MS.map(ms => (
+                        <button key={`-${ms}`} onClick={() => nudgePhase(-ms / 1000)} className={fineButtonClass} title={`Move the grid ${ms} ms earlier`}>−{ms} ms</button>
+                    ))}
+                    {[...PHASE_NUDGES_MS].reverse().map(ms => (
+                        <button key={`+${ms}`} onClick={() => nudgePhase(ms / 1000)} className={fineButtonClass} title={`Move the grid ${ms} ms later`}>+{ms} ms</button>
+                    ))}
+                    <button onClick={() => nudgePhase(PHASE_NUDGE_BEATS * beatInfo.interval)} className={fineButtonClass} title="Move the grid an eighth of a beat later">+⅛ beat</button>
+                </div>
+                <p className="text-center text-xs text-slate-500">
+                    With the tempo controls focused: <kbd className="font-mono">↑</kbd>/<kbd className="font-mono">↓</kbd> ±0.1 BPM (Shift ±1, Alt ±0.01) · <kbd className="font-mono">←</kbd>/<kbd className="font-mono">→</kbd> ±10 ms (Alt ±1 ms, Shift ±⅛ beat)
+                </p>
+            </div>
+            <div className="w-full rounded-2xl border border-white/10 bg-slate-900/60 p-4 space-y-2 text-sm">
+                <div className="flex flex-wrap items-center justify-center gap-1.5">
+                    <span className="text-xs text-slate-400 mr-1">Play at</span>
+                    <button onClick={() => setTargetBpm(activeBpm * playbackRate - 1)} disabled={activeBpm <= 0} className={fineButtonClass}>−1</button>
+                    <input
+                        type="number"
+                        step="0.01"
+                        value={targetBpmInput}
+                        onChange={(e) => setTargetBpmInput(e.target.value)}
+                        onBlur={handleTargetBpmCommit}
+                        onKeyDown={(e) => e.key === 'Enter' && handleTargetBpmCommit()}
+                        disabled={activeBpm <= 0}
+                        className="w-24 mx-1 bg-slate-950/80 border border-white/10 rounded-md px-2 py-1 text-center font-mono text-slate-100"
+                        aria-label="Playback BPM"
+                    />
+                    <button onClick={() => setTargetBpm(activeBpm * playbackRate + 1)} disabled={activeBpm <= 0} className={fineButtonClass}>+1</button>
+                    <span className="font-mono text-xs text-slate-400 w-16 text-center">{(playbackRate * 100).toFixed(1)}%</span>
+                    <button
+                        onClick={() => setPlaybackRate(1)}
+                        disabled={playbackRate === 1}
+                        className="text-xs text-slate-400 hover:text-slate-200 disabled:opacity-40 transition-colors"
+                    >
+                        Original speed
+                    </button>
+                </div>
+                <div className="flex flex-wrap items-center justify-center gap-1.5">
+                    <span className="text-xs text-slate-400 mr-1">Loop</span>
+                    {LOOP_LENGTHS.map(length => (
+                        <button
+                            key={length}
+                            onClick={() => handleQuickLoop(length)}
+                            disabled={beatInfo.beats.length < 2}
+                            className={`${fineButtonClass} ${loopBeats === length ? 'ring-1 ring-emerald-300/80 text-emerald-200' : ''}`}
+                            title={loop ? `Resize the loop to ${length} beat${length > 1 ? 's' : ''}` : `Loop ${length} beat${length > 1 ? 's' : ''} from the current beat`}
+                            aria-pressed={loopBeats === length}
+                        >
+                            {length}
+                        </button>
+                    ))}
+                    <span className="text-xs text-slate-500">beats</span>
+                    {loop && (
+                        <button
+                            onClick={() => onLoopChange(null)}
+                            className="ml-2 text-xs text-slate-400 hover:text-slate-200 transition-colors"
+                        >
+                            Exit loop
+                        </button>
+                    )}
+                </div>
+                <label className="flex items-center justify-center gap-2 text-xs text-slate-300" title="On: the track is time-stretched and keeps its pitch. Off: it's sped up or slowed down like a record, pitch and all.">
+                    <input type="checkbox" checked={masterTempo} onChange={(e) => setMasterTempo(e.target.checked)} className="accent-blue-400" />
+                    Master tempo (keep pitch)
+                </label>
+                {stretchError && <p className="text-center text-xs text-amber-300/90">{stretchError}</p>}
+            </div>
             <button
                 onClick={handlePlayPause}
                 className="bg-gradient-to-r from-blue-500 to-purple-500 hover:from-blue-400 hover:to-purple-400 disabled:bg-slate-800 disabled:text-slate-500 text-white rounded-xl p-3 transition-all duration-200 shadow-lg focus:outline-none focus:ring-2 focus:ring-blue-400/70 flex items-center gap-2 w-40 justify-center"
@@ -245,6 +606,27 @@ export const TempoControls: React.FC<TempoControlsProps> = ({ audioBuffer, detec
             >
                 {isPlaying ? <><PauseIcon className="w-5 h-5" /> Stop</> : <><PlayIcon className="w-5 h-5" /> Preview</>}
             </button>
+            <button
+                onClick={() => setShowMetronome(!showMetronome)}
+                className="px-3 py-1 rounded-full text-xs border border-white/10 bg-white/5 text-slate-300 hover:text-blue-200 transition-colors"
+                aria-expanded={showMetronome}
+            >
+                {showMetronome ? 'Hide metronome settings' : 'Metronome…'}
+            </button>
+            {showMetronome && (
+                <MetronomeSettingsPanel
+                    settings={metronome}
+                    detectedBeatsPerBar={beatInfo.beatsPerBar}
+                    onChange={onMetronomeChange}
+                />
+            )}
+            <TapTempoPad
+                candidates={candidates}
+                activeBpm={activeBpm}
+                playbackRate={playbackRate}
+                getSongTime={getSongTime}
+                onSnap={onSnapToTaps}
+            />
         </div>
     );
 };
@@ -0,0 +1,86 @@
+import React from 'react';
+import type { TempoMapPoint } from '../types';
+import { formatBpm, formatDuration } from '../utils/formatters';
+
+interface TempoMapChartProps {
+  tempoMap: TempoMapPoint[];
+  primaryBpm: number;
+  duration: number;
+  currentTime: number;
+  onSeek: (time: number) => void;
+}
+
+const CHART_HEIGHT = 80;
+const MIN_BPM_SPAN = 4; // Keep a steady track from looking like it swings wildly.
+
+export const TempoMapChart: React.FC<TempoMapChartProps> = ({ tempoMap, primaryBpm, duration, currentTime, onSeek }) => {
+  if (tempoMap.length < 2 || duration <= 0) {
+    return null;
+  }
+
+  const bpms = tempoMap.map(p => p.bpm);
+  let minBpm = Math.min(primaryBpm, ...bpms);
+  let maxBpm = Math.max(primaryBpm, ...bpms);
+  if (maxBpm - minBpm < MIN_BPM_SPAN) {
+    const centre = (maxBpm + minBpm) / 2;
+    minBpm = centre - MIN_BPM_SPAN / 2;
+    maxBpm = centre + MIN_BPM_SPAN / 2;
+  }
+  const padding = (maxBpm - minBpm) * 0.1;
+  minBpm -= padding;
+  maxBpm += padding;
+
+  // Coordinates are in a 0-100 x 0-CHART_HEIGHT viewBox, stretched to the container width.
+  const toX = (time: number) => (time / duration) * 100;
+  const toY = (bpm: number) => CHART_HEIGHT - ((bpm - minBpm) / (maxBpm - minBpm)) * CHART_HEIGHT;
+
+  const linePoints = tempoMap.map(p => `${toX(p.time)},${toY(p.bpm)}`).join(' ');
+  const primaryY = toY(primaryBpm);
+  const cursorX = toX(Math.min(Math.max(currentTime, 0), duration));
+
+  const handleClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const fraction = (e.clientX - rect.left) / rect.width;
+    onSeek(Math.max(0, Math.min(1, fraction)) * duration);
+  };
+
+  return (
+    <div className="w-full">
+      <div className="flex justify-between items-baseline text-xs text-slate-400 mb-1">
+        <span className="uppercase tracking-[0.2em]">Tempo Map</span>
+        <span className="font-mono">{formatBpm(Math.min(...bpms))} – {formatBpm(Math.max(...bpms))} BPM</span>
+      </div>
+      <div
+        className="relative w-full h-20 rounded-md bg-slate-900/60 border border-white/5 cursor-pointer"
+        onClick={handleClick}
+      >
+        <svg
+          className="absolute inset-0 w-full h-full"
+          viewBox={`0 0 100 ${CHART_HEIGHT}`}
+          preserveAspectRatio="none"
+        >
+          <line x1={0} x2={100} y1={primaryY} y2={primaryY} stroke="rgba(236, 72, 153, 0.5)" strokeDasharray="1.5 1.5" strokeWidth={1} vectorEffect="non-scaling-stroke" />
+          <polyline points={linePoints} fill="none" stroke="rgba(56, 189, 248, 0.9)" strokeWidth={2} vectorEffect="non-scaling-stroke" />
+          {tempoMap.map(p => (
+            <line
+              key={p.time}
+              x1={toX(p.time)}
+              x2={toX(p.time)}
+              y1={toY(p.bpm)}
+              y2={toY(p.bpm)}
+              stroke="rgb(186, 230, 253)"
+              strokeOpacity={0.25 + p.confidence * 0.75}
+              strokeWidth={6}
+              strokeLinecap="round"
+              vectorEffect="non-scaling-stroke"
+            >
+              <title>{`${formatDuration(p.time)} · ${formatBpm(p.bpm)} BPM · ${Math.round(p.confidence * 100)}% confidence`}</title>
+            </line>
+          ))}
+          <line x1={cursorX} x2={cursorX} y1={0} y2={CHART_HEIGHT} stroke="#F87171" strokeWidth={2} vectorEffect="non-scaling-stroke" />
+        </svg>
+      </div>
+      <p className="text-center text-slate-500 text-xs mt-1">Dashed line marks the primary tempo. Fainter points are less certain.</p>
+    </div>
+  );
+};
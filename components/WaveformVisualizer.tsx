@@ -1,5 +1,9 @@
 import React, { useRef, useEffect, useCallback, useState } from 'react';
 import { logError } from '../services/loggingService';
+import type { BeatGridEdit, BeatInfo, SectionLabel, StructureSection, TimeRange } from '../types';
+import { addGridAnchor, createGridEdit, findBeatIndexAtOrAfter, findNearestBeatIndex, getEditedBeatInfo, getSegmentTempo, moveGridAnchor, removeGridAnchor, setSegmentTempo } from '../utils/beatGrid';
+import { formatBpm, formatDuration } from '../utils/formatters';
+import { snapLoopToBeats } from '../utils/loop';
 
 // --- Icon Components ---
 const ZoomInIcon = (props: React.SVGProps<SVGSVGElement>) => (
@@ -8,6 +12,15 @@ const ZoomInIcon = (props: React.SVGProps<SVGSVGElement>) => (
 const ZoomOutIcon = (props: React.SVGProps<SVGSVGElement>) => (
     <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" {...props}><circle cx="11" cy="11" r="8"></circle><line x1="21" y1="21" x2="16.65" y2="16.65"></line><line x1="8" y1="11" x2="14" y2="11"></line></svg>
 );
+const SelectIcon = (props: React.SVGProps<SVGSVGElement>) => (
+    <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" {...props}><path d="M8 3H5a2 2 0 0 0-2 2v14a2 2 0 0 0 2 2h3"></path><path d="M16 3h3a2 2 0 0 1 2 2v14a2 2 0 0 1-2 2h-3"></path></svg>
+);
+const GridIcon = (props: React.SVGProps<SVGSVGElement>) => (
+    <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" {...props}><line x1="6" y1="3" x2="6" y2="21"></line><line x1="12" y1="8" x2="12" y2="21"></line><line x1="18" y1="3" x2="18" y2="21"></line><polygon points="9,3 15,3 12,7"></polygon></svg>
+);
+const LoopIcon = (props: React.SVGProps<SVGSVGElement>) => (
+    <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" {...props}><path d="M17 2l4 4-4 4"></path><path d="M3 11v-1a4 4 0 0 1 4-4h14"></path><path d="M7 22l-4-4 4-4"></path><path d="M21 13v1a4 4 0 0 1-4 4H3"></path></svg>
+);
 const ResetIcon = (props: React.SVGProps<SVGSVGElement>) => (
     <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" {...props}><path d="M3 2v6h6"></path><path d="M21 12A9 9 0 0 0 6 5.3L3 8"></path><path d="M21 22v-6h-6"></path><path d="M3 12a9 9 0 0 0 15 6.7l3-2.7"></path></svg>
 );
@@ -19,34 +32,86 @@ interface WaveformVisualizerProps {
   duration: number;
   currentTime: number;
   onSeek: (time: number) => void;
-  beatInfo: { phase: number; interval: number; firstBeat: number };
+  beatInfo: BeatInfo;
+  sections: StructureSection[];
+  selection: TimeRange | null;
+  onSelect: (range: TimeRange) => void;
   isAdjusting: boolean;
   onBeatAdjust: (time: number) => void;
+  gridEdit: BeatGridEdit | null;
+  onGridEditChange: (edit: BeatGridEdit | null) => void;
+  loop: TimeRange | null;
+  onLoopChange: (loop: TimeRange | null) => void;
 }
 
 const PEAK_COLOR = 'rgba(255, 255, 255, 0.5)';
 const SCRUBBER_COLOR = '#F87171'; // A bright red/coral
-
-export const WaveformVisualizer: React.FC<WaveformVisualizerProps> = ({ audioBuffer, peaks, duration, currentTime, onSeek, beatInfo, isAdjusting, onBeatAdjust }) => {
+const BEAT_COLOR = 'rgba(56, 189, 248, 0.25)'; // A subtle blue
+const BAR_COLOR = 'rgba(56, 189, 248, 0.7)';
+const MIN_BAR_LABEL_SPACING_PX = 28;
+const SELECTION_FILL = 'rgba(250, 204, 21, 0.15)';
+const SELECTION_EDGE = 'rgba(250, 204, 21, 0.8)';
+const DRAG_THRESHOLD_PX = 5;
+const ANCHOR_COLOR = 'rgba(251, 146, 60, 0.9)';
+const SELECTED_ANCHOR_COLOR = '#FDBA74';
+const ANCHOR_HIT_PX = 6;
+// Dragged anchors stick to an onset this close, unless Alt is held.
+const ANCHOR_SNAP_PX = 8;
+const MIN_SEGMENT_LABEL_PX = 56;
+const LOOP_FILL = 'rgba(52, 211, 153, 0.14)';
+const LOOP_EDGE = 'rgba(52, 211, 153, 0.9)';
+const LOOP_EDGE_HIT_PX = 6;
+
+const SECTION_STYLES: Record<SectionLabel, { name: string; fill: string; chip: string }> = {
+  intro: { name: 'Intro', fill: 'rgba(148, 163, 184, 0.10)', chip: 'bg-slate-500/30 text-slate-200 border-slate-400/40' },
+  build: { name: 'Build', fill: 'rgba(251, 191, 36, 0.10)', chip: 'bg-amber-500/25 text-amber-100 border-amber-400/40' },
+  drop: { name: 'Drop', fill: 'rgba(244, 63, 94, 0.12)', chip: 'bg-rose-500/30 text-rose-100 border-rose-400/40' },
+  breakdown: { name: 'Breakdown', fill: 'rgba(56, 189, 248, 0.10)', chip: 'bg-sky-500/25 text-sky-100 border-sky-400/40' },
+  main: { name: 'Main', fill: 'rgba(167, 139, 250, 0.10)', chip: 'bg-violet-500/25 text-violet-100 border-violet-400/40' },
+  outro: { name: 'Outro', fill: 'rgba(148, 163, 184, 0.10)', chip: 'bg-slate-500/30 text-slate-200 border-slate-400/40' },
+};
+
+export const WaveformVisualizer: React.FC<WaveformVisualizerProps> = ({ audioBuffer, peaks, duration, currentTime, onSeek, beatInfo, sections, selection, onSelect, isAdjusting, onBeatAdjust, gridEdit, onGridEditChange, loop, onLoopChange }) => {
   const waveformCanvasRef = useRef<HTMLCanvasElement>(null);
   const overlayCanvasRef = useRef<HTMLCanvasElement>(null);
   const parentRef = useRef<HTMLDivElement>(null);
   
   const [viewRange, setViewRange] = useState({ start: 0, end: 1 }); // Range as a fraction [0, 1]
-  const [isPanning, setIsPanning] = useState(false);
-  const panStartInfo = useRef({ x: 0, start: 0, moved: false });
+  // Dragging pans the view, selects a region in select mode or with Shift held,
+  // moves a grid anchor in grid mode, or sets the A/B loop in loop mode.
+  const [dragMode, setDragMode] = useState<'pan' | 'select' | 'anchor' | 'loop' | null>(null);
+  const [isSelectMode, setIsSelectMode] = useState(false);
+  const [isGridMode, setIsGridMode] = useState(false);
+  const [isLoopMode, setIsLoopMode] = useState(false);
+  const [draftSelection, setDraftSelection] = useState<TimeRange | null>(null);
+  const [draftLoop, setDraftLoop] = useState<TimeRange | null>(null);
+  const [draftEdit, setDraftEdit] = useState<BeatGridEdit | null>(null);
+  const [selectedAnchorId, setSelectedAnchorId] = useState<string | null>(null);
+  const [tempoInput, setTempoInput] = useState('');
+  // `time` is where the drag began, or for a loop the edge that stays put.
+  const panStartInfo = useRef({ x: 0, start: 0, time: 0, moved: false, anchorId: null as string | null });
+
+  // While an anchor is dragged, preview the grid it would produce.
+  const shownSelection = draftSelection ?? selection;
+  const shownLoop = draftLoop ?? loop;
+  const shownEdit = draftEdit ?? gridEdit;
+  const shownBeatInfo = React.useMemo(
+    () => draftEdit ? getEditedBeatInfo(draftEdit, duration, beatInfo.beatsPerBar) : beatInfo,
+    [draftEdit, duration, beatInfo],
+  );
+  const selectedAnchorIndex = shownEdit ? shownEdit.anchors.findIndex(anchor => anchor.id === selectedAnchorId) : -1;
 
   // Use a ref to hold the latest props and state to allow draw functions to be stable
-  const latestDataRef = useRef({ audioBuffer, peaks, duration, currentTime, viewRange, beatInfo });
+  const latestDataRef = useRef({ audioBuffer, peaks, duration, currentTime, viewRange, beatInfo: shownBeatInfo, sections, shownSelection, shownLoop, shownEdit, selectedAnchorId, isGridMode });
   useEffect(() => {
-    latestDataRef.current = { audioBuffer, peaks, duration, currentTime, viewRange, beatInfo };
+    latestDataRef.current = { audioBuffer, peaks, duration, currentTime, viewRange, beatInfo: shownBeatInfo, sections, shownSelection, shownLoop, shownEdit, selectedAnchorId, isGridMode };
   });
   
   const drawWaveform = useCallback(() => {
     const canvas = waveformCanvasRef.current;
     if (!canvas) return;
     
-    const { audioBuffer, peaks, viewRange, duration, beatInfo } = latestDataRef.current;
+    const { audioBuffer, peaks, viewRange, duration, beatInfo, sections, shownEdit, selectedAnchorId, isGridMode } = latestDataRef.current;
     if (!audioBuffer) return;
 
     const ctx = canvas.getContext('2d');
@@ -64,6 +129,16 @@ export const WaveformVisualizer: React.FC<WaveformVisualizerProps> = ({ audioBuf
       ctx.save();
       ctx.scale(dpr, dpr);
 
+      // Tint each section behind the waveform
+      const viewDuration = (viewRange.end - viewRange.start) * duration;
+      for (const section of sections) {
+        const startX = ((section.start - viewRange.start * duration) / viewDuration) * width;
+        const endX = ((section.end - viewRange.start * duration) / viewDuration) * width;
+        if (endX < 0 || startX > width) continue;
+        ctx.fillStyle = SECTION_STYLES[section.label].fill;
+        ctx.fillRect(startX, 0, endX - startX, height);
+      }
+
       // --- Drawing Logic ---
       const data = audioBuffer.getChannelData(0);
       const startSample = Math.floor(viewRange.start * duration * audioBuffer.sampleRate);
@@ -123,21 +198,31 @@ export const WaveformVisualizer: React.FC<WaveformVisualizerProps> = ({ audioBuf
       });
 
       // Draw beat grid
-      if (beatInfo && beatInfo.interval > 0) {
-        ctx.lineWidth = 1;
-        ctx.strokeStyle = 'rgba(56, 189, 248, 0.25)'; // A subtle blue
-
-        // Start drawing from the calculated phase
-        const firstBeatInGrid = beatInfo.phase;
-
-        for (let beatTime = firstBeatInGrid; beatTime < duration; beatTime += beatInfo.interval) {
-          // Only draw beats within the current view
-          if (beatTime >= viewRange.start * duration && beatTime <= viewRange.end * duration) {
-            const x = ((beatTime / duration - viewRange.start) / (viewRange.end - viewRange.start)) * width;
-            ctx.beginPath();
-            ctx.moveTo(x, 0);
-            ctx.lineTo(x, height);
-            ctx.stroke();
+      if (beatInfo && beatInfo.beats.length > 0) {
+        const { beats, interval, beatsPerBar, firstDownbeat } = beatInfo;
+        const viewStartTime = viewRange.start * duration;
+        const viewEndTime = viewRange.end * duration;
+        const pixelsPerSecond = width / (viewEndTime - viewStartTime);
+        const showBarLabels = beatsPerBar > 0 && beatsPerBar * interval * pixelsPerSecond >= MIN_BAR_LABEL_SPACING_PX;
+        const downbeatIndex = findNearestBeatIndex(beats, firstDownbeat);
+        ctx.font = '10px ui-monospace, monospace';
+        ctx.fillStyle = BAR_COLOR;
+
+        // Only draw beats within the current view
+        for (let i = findBeatIndexAtOrAfter(beats, viewStartTime); i < beats.length && beats[i] <= viewEndTime; i++) {
+          const x = ((beats[i] / duration - viewRange.start) / (viewRange.end - viewRange.start)) * width;
+          const beatsFromDownbeat = i - downbeatIndex;
+          const isBarLine = beatsPerBar > 0 && ((beatsFromDownbeat % beatsPerBar) + beatsPerBar) % beatsPerBar === 0;
+
+          ctx.lineWidth = isBarLine ? 1.5 : 1;
+          ctx.strokeStyle = isBarLine ? BAR_COLOR : BEAT_COLOR;
+          ctx.beginPath();
+          ctx.moveTo(x, isBarLine ? 0 : height * 0.1);
+          ctx.lineTo(x, isBarLine ? height : height * 0.9);
+          ctx.stroke();
+
+          if (isBarLine && showBarLabels && beatsFromDownbeat >= 0) {
+            ctx.fillText(String(beatsFromDownbeat / beatsPerBar + 1), x + 3, 11);
           }
         }
 
@@ -154,6 +239,46 @@ export const WaveformVisualizer: React.FC<WaveformVisualizerProps> = ({ audioBuf
         }
       }
 
+      // Grid anchors, with a bar along the top of locked segments and each segment's tempo
+      if (shownEdit) {
+        const toX = (time: number) => ((time / duration - viewRange.start) / (viewRange.end - viewRange.start)) * width;
+        const { anchors } = shownEdit;
+        ctx.font = '10px ui-monospace, monospace';
+        for (let i = 0; i < anchors.length - 1; i++) {
+          const startX = toX(anchors[i].time);
+          const endX = toX(anchors[i + 1].time);
+          if (endX < 0 || startX > width) continue;
+          if (anchors[i].locked) {
+            ctx.fillStyle = ANCHOR_COLOR;
+            ctx.fillRect(startX, 0, endX - startX, 3);
+          }
+          if (isGridMode && endX - startX >= MIN_SEGMENT_LABEL_PX) {
+            const label = `${formatBpm(Number(getSegmentTempo(shownEdit, i).toFixed(2)))}${anchors[i].locked ? ' 🔒' : ''}`;
+            const labelX = Math.max(startX, 0) + (Math.min(endX, width) - Math.max(startX, 0)) / 2 - ctx.measureText(label).width / 2;
+            ctx.fillStyle = ANCHOR_COLOR;
+            ctx.fillText(label, labelX, height - 6);
+          }
+        }
+        for (const anchor of anchors) {
+          const x = toX(anchor.time);
+          if (x < -ANCHOR_HIT_PX || x > width + ANCHOR_HIT_PX) continue;
+          const isSelected = anchor.id === selectedAnchorId;
+          ctx.strokeStyle = isSelected ? SELECTED_ANCHOR_COLOR : ANCHOR_COLOR;
+          ctx.fillStyle = ctx.strokeStyle;
+          ctx.lineWidth = isSelected ? 2 : 1.5;
+          ctx.beginPath();
+          ctx.moveTo(x, 0);
+          ctx.lineTo(x, height);
+          ctx.stroke();
+          ctx.beginPath();
+          ctx.moveTo(x - 5, 0);
+          ctx.lineTo(x + 5, 0);
+          ctx.lineTo(x, 7);
+          ctx.closePath();
+          ctx.fill();
+        }
+      }
+
       ctx.restore();
     } catch (error) {
       logError('Failed to render waveform visualization.', error);
@@ -163,7 +288,7 @@ export const WaveformVisualizer: React.FC<WaveformVisualizerProps> = ({ audioBuf
   const drawScrubber = useCallback(() => {
     const canvas = overlayCanvasRef.current;
     if (!canvas) return;
-    const { currentTime, duration, viewRange } = latestDataRef.current;
+    const { currentTime, duration, viewRange, shownSelection, shownLoop } = latestDataRef.current;
     
     const ctx = canvas.getContext('2d');
     if (!ctx) {
@@ -180,8 +305,48 @@ export const WaveformVisualizer: React.FC<WaveformVisualizerProps> = ({ audioBuf
       ctx.save();
       ctx.scale(dpr, dpr);
 
+      const toX = (time: number) => ((time / duration - viewRange.start) / (viewRange.end - viewRange.start)) * width;
+
+      if (duration > 0 && shownSelection) {
+        const startX = toX(shownSelection.start);
+        const endX = toX(shownSelection.end);
+        if (endX >= 0 && startX <= width) {
+          ctx.fillStyle = SELECTION_FILL;
+          ctx.fillRect(startX, 0, endX - startX, height);
+          ctx.lineWidth = 1;
+          ctx.strokeStyle = SELECTION_EDGE;
+          ctx.beginPath();
+          ctx.moveTo(startX, 0);
+          ctx.lineTo(startX, height);
+          ctx.moveTo(endX, 0);
+          ctx.lineTo(endX, height);
+          ctx.stroke();
+        }
+      }
+
+      if (duration > 0 && shownLoop) {
+        const startX = toX(shownLoop.start);
+        const endX = toX(shownLoop.end);
+        if (endX >= 0 && startX <= width) {
+          ctx.fillStyle = LOOP_FILL;
+          ctx.fillRect(startX, 0, endX - startX, height);
+          ctx.lineWidth = 1.5;
+          ctx.strokeStyle = LOOP_EDGE;
+          ctx.beginPath();
+          ctx.moveTo(startX, 0);
+          ctx.lineTo(startX, height);
+          ctx.moveTo(endX, 0);
+          ctx.lineTo(endX, height);
+          ctx.stroke();
+          ctx.font = 'bold 10px ui-monospace, monospace';
+          ctx.fillStyle = LOOP_EDGE;
+          ctx.fillText('A', startX + 3, height - 6);
+          ctx.fillText('B', endX - 10, height - 6);
+        }
+      }
+
       if (duration > 0 && currentTime >= viewRange.start * duration && currentTime <= viewRange.end * duration) {
-        const scrubberX = ((currentTime / duration - viewRange.start) / (viewRange.end - viewRange.start)) * width;
+        const scrubberX = toX(currentTime);
         ctx.lineWidth = 2;
         ctx.strokeStyle = SCRUBBER_COLOR;
         ctx.beginPath();
@@ -228,12 +393,18 @@ export const WaveformVisualizer: React.FC<WaveformVisualizerProps> = ({ audioBuf
   // Effect to redraw the waveform when its underlying data changes.
   useEffect(() => {
     drawWaveform();
-  }, [audioBuffer, peaks, viewRange, duration, beatInfo, drawWaveform]);
+  }, [audioBuffer, peaks, viewRange, duration, shownBeatInfo, sections, shownEdit, selectedAnchorId, isGridMode, drawWaveform]);
+
+  // Show the selected segment's tempo in the editor, unless the user is typing in it.
+  const selectedTempo = shownEdit && selectedAnchorIndex >= 0 ? getSegmentTempo(shownEdit, selectedAnchorIndex) : null;
+  useEffect(() => {
+    setTempoInput(selectedTempo !== null ? selectedTempo.toFixed(2) : '');
+  }, [selectedTempo]);
 
   // Effect to redraw the scrubber when its position changes.
   useEffect(() => {
     drawScrubber();
-  }, [currentTime, duration, viewRange, drawScrubber]);
+  }, [currentTime, duration, viewRange, shownSelection, shownLoop, drawScrubber]);
 
   const handleZoom = (factor: number) => {
     const currentRange = viewRange.end - viewRange.start;
@@ -255,29 +426,98 @@ export const WaveformVisualizer: React.FC<WaveformVisualizerProps> = ({ audioBuf
     setViewRange({ start: newStart, end: newEnd });
   };
   
+  const timeAtClientX = (element: Element, clientX: number): number => {
+    const rect = element.getBoundingClientRect();
+    const fraction = Math.max(0, Math.min(1, (clientX - rect.left) / rect.width));
+    return (viewRange.start + fraction * (viewRange.end - viewRange.start)) * duration;
+  };
+
+  /** The anchor drawn within ANCHOR_HIT_PX of `clientX`, if any. */
+  const anchorAtClientX = (element: Element, clientX: number): string | null => {
+    if (!gridEdit) return null;
+    const rect = element.getBoundingClientRect();
+    const pixelsPerSecond = rect.width / ((viewRange.end - viewRange.start) * duration);
+    const time = timeAtClientX(element, clientX);
+    let closest: string | null = null;
+    let closestDistance = ANCHOR_HIT_PX;
+    for (const anchor of gridEdit.anchors) {
+      const distance = Math.abs(anchor.time - time) * pixelsPerSecond;
+      if (distance <= closestDistance) {
+        closest = anchor.id;
+        closestDistance = distance;
+      }
+    }
+    return closest;
+  };
+
+  /** The loop edge drawn within LOOP_EDGE_HIT_PX of `clientX`, if any. */
+  const loopEdgeAtClientX = (element: Element, clientX: number): 'start' | 'end' | null => {
+    if (!loop) return null;
+    const pixelsPerSecond = element.getBoundingClientRect().width / ((viewRange.end - viewRange.start) * duration);
+    const time = timeAtClientX(element, clientX);
+    const startDistance = Math.abs(loop.start - time) * pixelsPerSecond;
+    const endDistance = Math.abs(loop.end - time) * pixelsPerSecond;
+    if (Math.min(startDistance, endDistance) > LOOP_EDGE_HIT_PX) return null;
+    return startDistance <= endDistance ? 'start' : 'end';
+  };
+
   const handleMouseDown = (e: React.MouseEvent<HTMLCanvasElement>) => {
     // Always reset the 'moved' flag on a new mouse down. This ensures that a click
     // in adjustment mode is not ignored just because the user previously panned.
     panStartInfo.current.moved = false;
+    panStartInfo.current.anchorId = null;
 
     if (isAdjusting) {
       return; // Don't initiate panning when in beat adjustment mode.
     }
     
-    // If not adjusting, set up for a potential pan.
+    // If not adjusting, set up for a potential pan, selection or anchor drag.
     panStartInfo.current.x = e.clientX;
     panStartInfo.current.start = viewRange.start;
-    setIsPanning(true);
+    panStartInfo.current.time = timeAtClientX(e.currentTarget, e.clientX);
+    const anchorId = isGridMode ? anchorAtClientX(e.currentTarget, e.clientX) : null;
+    if (anchorId) {
+      panStartInfo.current.anchorId = anchorId;
+      setSelectedAnchorId(anchorId);
+      setDragMode('anchor');
+      return;
+    }
+    if (isLoopMode) {
+      // Grabbing an edge moves just that one; anywhere else starts a new loop.
+      const edge = loopEdgeAtClientX(e.currentTarget, e.clientX);
+      if (loop && edge) panStartInfo.current.time = edge === 'start' ? loop.end : loop.start;
+      setDragMode('loop');
+      return;
+    }
+    setDragMode(isSelectMode || e.shiftKey ? 'select' : 'pan');
   };
 
   const handleMouseMove = (e: React.MouseEvent<HTMLCanvasElement>) => {
-    if (!isPanning || !waveformCanvasRef.current) return;
+    if (!dragMode || !waveformCanvasRef.current) return;
 
-    if (!panStartInfo.current.moved && Math.abs(e.clientX - panStartInfo.current.x) > 5) {
+    if (!panStartInfo.current.moved && Math.abs(e.clientX - panStartInfo.current.x) > DRAG_THRESHOLD_PX) {
         panStartInfo.current.moved = true;
     }
 
-    if (panStartInfo.current.moved) {
+    if (panStartInfo.current.moved && dragMode === 'anchor' && gridEdit && panStartInfo.current.anchorId) {
+        let time = timeAtClientX(e.currentTarget, e.clientX);
+        if (!e.altKey && peaks.length > 0) {
+            const pixelsPerSecond = e.currentTarget.getBoundingClientRect().width / ((viewRange.end - viewRange.start) * duration);
+            const peak = peaks[findNearestBeatIndex(peaks, time)];
+            if (Math.abs(peak - time) * pixelsPerSecond <= ANCHOR_SNAP_PX) time = peak;
+        }
+        setDraftEdit(moveGridAnchor(gridEdit, panStartInfo.current.anchorId, time));
+    } else if (panStartInfo.current.moved && dragMode === 'loop') {
+        const time = timeAtClientX(e.currentTarget, e.clientX);
+        const fixed = panStartInfo.current.time;
+        const range = { start: Math.min(fixed, time), end: Math.max(fixed, time) };
+        // Loops snap to the beat grid, unless Alt is held or there isn't one.
+        setDraftLoop((!e.altKey && snapLoopToBeats(beatInfo.beats, range, duration)) || range);
+    } else if (panStartInfo.current.moved && dragMode === 'select') {
+        const time = timeAtClientX(e.currentTarget, e.clientX);
+        const anchor = panStartInfo.current.time;
+        setDraftSelection({ start: Math.min(anchor, time), end: Math.max(anchor, time) });
+    } else if (panStartInfo.current.moved) {
         const deltaX = e.clientX - panStartInfo.current.x;
         const width = waveformCanvasRef.current.getBoundingClientRect().width;
         const deltaRange = (deltaX / width) * (viewRange.end - viewRange.start);
@@ -290,7 +530,19 @@ export const WaveformVisualizer: React.FC<WaveformVisualizerProps> = ({ audioBuf
   };
 
   const handleMouseUp = () => {
-    setIsPanning(false);
+    if (dragMode === 'select' && draftSelection) {
+      onSelect(draftSelection);
+    }
+    if (dragMode === 'anchor' && draftEdit) {
+      onGridEditChange(draftEdit);
+    }
+    if (dragMode === 'loop' && draftLoop && draftLoop.end > draftLoop.start) {
+      onLoopChange(draftLoop);
+    }
+    setDraftSelection(null);
+    setDraftLoop(null);
+    setDraftEdit(null);
+    setDragMode(null);
   };
   
   const handleClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
@@ -305,14 +557,50 @@ export const WaveformVisualizer: React.FC<WaveformVisualizerProps> = ({ audioBuf
 
     if (isAdjusting) {
       onBeatAdjust(time);
+    } else if (isGridMode) {
+      // Clicking an anchor only selects it; clicking anywhere else pins the nearest beat.
+      if (panStartInfo.current.anchorId) return;
+      const base = gridEdit ?? createGridEdit(beatInfo.beats, beatInfo.firstDownbeat);
+      if (!base) return;
+      const added = addGridAnchor(base, time);
+      if (added.edit !== gridEdit) onGridEditChange(added.edit);
+      setSelectedAnchorId(added.id);
     } else {
       onSeek(time);
     }
   };
+
+  const handleTempoCommit = () => {
+    const bpm = parseFloat(tempoInput);
+    if (!gridEdit || !selectedAnchorId || !isFinite(bpm) || bpm <= 0 || selectedTempo === null) return;
+    if (Math.abs(bpm - selectedTempo) < 0.005) return;
+    onGridEditChange(setSegmentTempo(gridEdit, selectedAnchorId, bpm));
+  };
+
+  const handleToggleLock = () => {
+    if (!gridEdit || !selectedAnchorId) return;
+    onGridEditChange({
+      ...gridEdit,
+      anchors: gridEdit.anchors.map(anchor => anchor.id === selectedAnchorId ? { ...anchor, locked: !anchor.locked } : anchor),
+    });
+  };
+
+  const handleRemoveAnchor = () => {
+    if (!gridEdit || !selectedAnchorId) return;
+    onGridEditChange(removeGridAnchor(gridEdit, selectedAnchorId));
+    setSelectedAnchorId(null);
+  };
   
   const controlButtonClasses = "bg-gray-700/80 hover:bg-gray-600/80 text-white rounded-md p-1.5 transition-colors backdrop-blur-sm";
 
+  const viewStartTime = viewRange.start * duration;
+  const viewDuration = (viewRange.end - viewRange.start) * duration;
+  const visibleSections = viewDuration > 0
+    ? sections.filter(section => section.end > viewStartTime && section.start < viewStartTime + viewDuration)
+    : [];
+
   return (
+    <div className="w-full">
     <div className="w-full h-[160px] relative select-none" ref={parentRef}>
       <canvas
           ref={waveformCanvasRef}
@@ -320,18 +608,111 @@ export const WaveformVisualizer: React.FC<WaveformVisualizerProps> = ({ audioBuf
       />
       <canvas
           ref={overlayCanvasRef}
-          className={`w-full h-full block rounded-md absolute top-0 left-0 ${isAdjusting ? 'cursor-crosshair' : 'cursor-pointer'}`}
+          className={`w-full h-full block rounded-md absolute top-0 left-0 ${isAdjusting || isSelectMode || isGridMode || isLoopMode ? 'cursor-crosshair' : 'cursor-pointer'}`}
           onMouseDown={handleMouseDown}
           onMouseMove={handleMouseMove}
           onMouseUp={handleMouseUp}
-          onMouseLeave={() => setIsPanning(false)}
+          onMouseLeave={handleMouseUp}
           onClick={handleClick}
       />
       <div className="absolute top-2 right-2 flex gap-1 z-10">
+        <button
+          onClick={() => { setIsGridMode(mode => !mode); setIsSelectMode(false); setIsLoopMode(false); }}
+          className={`${controlButtonClasses} ${isGridMode ? 'ring-1 ring-orange-300/80 text-orange-200' : ''}`}
+          title={isGridMode ? 'Stop editing the beat grid' : 'Edit the beat grid with anchors'}
+          aria-pressed={isGridMode}
+        ><GridIcon /></button>
+        <button
+          onClick={() => { setIsSelectMode(mode => !mode); setIsGridMode(false); setIsLoopMode(false); }}
+          className={`${controlButtonClasses} ${isSelectMode ? 'ring-1 ring-yellow-300/80 text-yellow-200' : ''}`}
+          title={isSelectMode ? 'Drag to select a region (click to go back to panning)' : 'Select a region to analyse (or Shift-drag)'}
+          aria-pressed={isSelectMode}
+        ><SelectIcon /></button>
+        <button
+          onClick={() => { setIsLoopMode(mode => !mode); setIsGridMode(false); setIsSelectMode(false); }}
+          className={`${controlButtonClasses} ${isLoopMode ? 'ring-1 ring-emerald-300/80 text-emerald-200' : ''}`}
+          title={isLoopMode ? 'Stop setting the loop' : 'Drag to set an A/B loop on the beat grid (Alt: no snapping)'}
+          aria-pressed={isLoopMode}
+        ><LoopIcon /></button>
         <button onClick={() => handleZoom(0.5)} className={controlButtonClasses} title="Zoom In"><ZoomInIcon /></button>
         <button onClick={() => handleZoom(2)} className={controlButtonClasses} title="Zoom Out"><ZoomOutIcon /></button>
         <button onClick={() => setViewRange({ start: 0, end: 1 })} className={controlButtonClasses} title="Reset Zoom"><ResetIcon /></button>
       </div>
     </div>
+    {visibleSections.length > 0 && (
+      <div className="relative w-full h-6 mt-1" aria-label="Song sections">
+        {visibleSections.map(section => {
+          const left = Math.max(0, (section.start - viewStartTime) / viewDuration);
+          const right = Math.min(1, (section.end - viewStartTime) / viewDuration);
+          const style = SECTION_STYLES[section.label];
+          return (
+            <button
+              key={`${section.startBar}-${section.label}`}
+              onClick={() => onSeek(Math.max(0, section.start))}
+              className={`absolute top-0 h-full rounded border text-[10px] font-semibold uppercase tracking-wide truncate px-1 transition-opacity hover:opacity-80 ${style.chip}`}
+              style={{ left: `${left * 100}%`, width: `calc(${(right - left) * 100}% - 2px)` }}
+              title={`${style.name}: bar ${section.startBar + 1}, ${section.bars} bars. Click to jump here.`}
+            >
+              {style.name}
+            </button>
+          );
+        })}
+      </div>
+    )}
+    {isGridMode && (
+      <div className="mt-2 rounded-xl border border-orange-300/20 bg-orange-400/5 px-3 py-2 text-sm flex flex-wrap items-center gap-3">
+        {shownEdit && selectedAnchorIndex >= 0 ? (
+          <>
+            <span className="text-orange-100">
+              Anchor at <span className="font-mono">{formatDuration(shownEdit.anchors[selectedAnchorIndex].time)}</span>
+              <span className="text-slate-400"> · beat {Math.round(shownEdit.anchors[selectedAnchorIndex].beat * 100) / 100 + 1}</span>
+            </span>
+            {selectedAnchorIndex < shownEdit.anchors.length - 1 || shownEdit.anchors.length === 1 ? (
+              <label className="flex items-center gap-2 text-slate-300">
+                {shownEdit.anchors.length === 1 ? 'Tempo' : 'Tempo to next anchor'}
+                <input
+                  type="number"
+                  step="0.01"
+                  min="1"
+                  value={tempoInput}
+                  onChange={(e) => setTempoInput(e.target.value)}
+                  onBlur={handleTempoCommit}
+                  onKeyDown={(e) => e.key === 'Enter' && handleTempoCommit()}
+                  className="w-24 bg-slate-900/80 border border-white/10 rounded-md px-2 py-1 font-mono text-slate-100"
+                />
+              </label>
+            ) : (
+              <span className="text-slate-400">Continues at {formatBpm(Number(getSegmentTempo(shownEdit, selectedAnchorIndex).toFixed(2)))} BPM</span>
+            )}
+            {selectedAnchorIndex < shownEdit.anchors.length - 1 && (
+              <button
+                onClick={handleToggleLock}
+                className={`px-2 py-1 rounded-md border text-xs transition-colors ${shownEdit.anchors[selectedAnchorIndex].locked ? 'border-orange-300/60 bg-orange-400/20 text-orange-100' : 'border-white/10 bg-white/5 text-slate-300 hover:bg-white/10'}`}
+                title="A locked segment keeps its tempo: dragging an anchor next to it moves the whole segment instead."
+                aria-pressed={shownEdit.anchors[selectedAnchorIndex].locked}
+              >
+                {shownEdit.anchors[selectedAnchorIndex].locked ? 'Locked' : 'Lock segment'}
+              </button>
+            )}
+            <button onClick={handleRemoveAnchor} className="px-2 py-1 rounded-md border border-white/10 bg-white/5 hover:bg-white/10 text-xs text-slate-300 transition-colors">
+              Remove anchor
+            </button>
+          </>
+        ) : (
+          <span className="text-slate-400">
+            Click a beat to pin it, then drag it onto its transient. Beats between anchors are spaced evenly; hold Alt to drag without snapping.
+          </span>
+        )}
+        {gridEdit && (
+          <button
+            onClick={() => { onGridEditChange(null); setSelectedAnchorId(null); }}
+            className="ml-auto text-xs text-slate-400 hover:text-slate-200 transition-colors"
+          >
+            Discard grid edits
+          </button>
+        )}
+      </div>
+    )}
+    </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,70 @@
+/**
+ * Times computeAutoCorrelation's FFT lag sums against the naive double loop
+ * it replaced, on synthetic onset signals of 5 and 60 minutes.
+ *
+ *   npm run bench:autocorrelation             # naive loop timed on a sample of lags
+ *   npm run bench:autocorrelation -- --full   # naive loop over every lag (the 60-minute run takes many minutes)
+ *
+ * The naive loop costs the same for every lag, give or take the few samples
+ * each lag drops, so without --full it is timed on evenly spaced lags and
+ * scaled up to the whole lag range.
+ */
+import { DEFAULT_TEMPO_SEARCH, TARGET_SAMPLE_RATE, computeAutoCorrelation } from '../services/bpmAnalysisEngine';
+import { createOnsetSignal, naiveLagSums } from '../tests/autocorrelationReference';
+
+const DURATIONS_MINUTES = [5, 60];
+const SAMPLED_LAGS = 48;
+const BPM = 124;
+
+const full = process.argv.includes('--full');
+const { minBpm, maxBpm } = DEFAULT_TEMPO_SEARCH;
+
+const time = (run: () => void): number => {
+  const start = performance.now();
+  run();
+  return performance.now() - start;
+};
+
+/** The original loop over minLag..maxLag, or every `stride`-th lag of it. */
+const naiveLoop = (signal: Float32Array, minLag: number, maxLag: number, stride: number): number => {
+  let checksum = 0;
+  for (let lag = minLag; lag <= maxLag; lag += stride) {
+    let sum = 0;
+    for (let i = 0; i < signal.length - lag; i++) {
+      sum += signal[i] * signal[i + lag];
+    }
+    checksum += sum / (signal.length - lag);
+  }
+  return checksum;
+};
+
+const formatMs = (ms: number) => (ms >= 10_000 ? `${(ms / 1000).toFixed(1)} s` : `${ms.toFixed(0)} ms`);
+
+console.log(`Onset autocorrelation at ${TARGET_SAMPLE_RATE} Hz, ${minBpm}-${maxBpm} BPM, Node ${process.version}`);
+for (const minutes of DURATIONS_MINUTES) {
+  const signal = createOnsetSignal(minutes * 60, TARGET_SAMPLE_RATE, BPM);
+  const minLag = Math.floor((TARGET_SAMPLE_RATE * 60) / maxBpm);
+  const maxLag = Math.floor((TARGET_SAMPLE_RATE * 60) / minBpm);
+  const lagCount = maxLag - minLag + 1;
+
+  computeAutoCorrelation(signal, TARGET_SAMPLE_RATE); // warm up the JIT and the FFT tables
+  const runs = minutes <= 5 ? 5 : 2;
+  const fftMs = Math.min(...Array.from({ length: runs }, () => time(() => computeAutoCorrelation(signal, TARGET_SAMPLE_RATE))));
+
+  const stride = full ? 1 : Math.max(1, Math.floor(lagCount / SAMPLED_LAGS));
+  const timedLags = Math.ceil(lagCount / stride);
+  const naiveMs = time(() => naiveLoop(signal, minLag, maxLag, stride)) * (lagCount / timedLags);
+
+  let agreement = '';
+  if (full) {
+    const fast = computeAutoCorrelation(signal, TARGET_SAMPLE_RATE);
+    const naive = computeAutoCorrelation(signal, TARGET_SAMPLE_RATE, DEFAULT_TEMPO_SEARCH, naiveLagSums);
+    const same = fast.length === naive.length && fast.every((candidate, i) => candidate.tempo === naive[i].tempo);
+    agreement = same ? ', same candidates' : ', CANDIDATES DIFFER';
+  }
+
+  console.log(
+    `${String(minutes).padStart(3)} min: FFT ${formatMs(fftMs)}, naive ${formatMs(naiveMs)}`
+    + `${full ? '' : ` (from ${timedLags} of ${lagCount} lags)`}, ${(naiveMs / fftMs).toFixed(0)}x faster${agreement}`,
+  );
+}
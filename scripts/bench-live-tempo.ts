@@ -0,0 +1,78 @@
+/**
+ * Times live tempo updates: a second of input pushed through the tracker in
+ * the capture worklet's blocks, then a reading of the window, for each onset
+ * method. The share of a core it reports is what the live worker spends, on
+ * top of the capture worklet, which only mixes and resamples. Re-analysing
+ * the whole window as a tempo-map chunk is timed alongside for comparison.
+ *
+ *   npm run bench:live-tempo
+ */
+import { DEFAULT_ANALYSIS_OPTIONS, TARGET_SAMPLE_RATE, analyseChunk, normalize } from '../services/bpmAnalysisEngine';
+import { createLiveTempoTracker } from '../services/liveTempoTracker';
+import type { OnsetMethod } from '../types';
+import { createRandom } from '../tests/autocorrelationReference';
+
+// liveTempo's WINDOW_SECONDS, BLOCK_SIZE and update interval.
+const WINDOW_SECONDS = 10;
+const BLOCK_SIZE = 1024;
+const UPDATE_INTERVAL_MS = 1000;
+const UPDATES = 30;
+const BPM = 124;
+const ONSET_METHODS: OnsetMethod[] = ['envelope', 'spectralFlux'];
+
+/** Kick-like decaying sine bursts on each beat over a noise floor, at the analysis rate. */
+const createKickTrack = (seconds: number, bpm: number): Float32Array => {
+  const random = createRandom(7);
+  const samples = new Float32Array(Math.floor(seconds * TARGET_SAMPLE_RATE));
+  for (let i = 0; i < samples.length; i++) samples[i] = 0.05 * (random() * 2 - 1);
+  const beat = (60 / bpm) * TARGET_SAMPLE_RATE;
+  const length = Math.round(0.12 * TARGET_SAMPLE_RATE);
+  for (let start = 0; start < samples.length; start += beat) {
+    for (let i = 0; i < length && start + i < samples.length; i++) {
+      samples[Math.floor(start) + i] += Math.sin((2 * Math.PI * 60 * i) / TARGET_SAMPLE_RATE) * Math.exp(-i / (0.03 * TARGET_SAMPLE_RATE));
+    }
+  }
+  return samples;
+};
+
+const median = (values: number[]) => [...values].sort((a, b) => a - b)[Math.floor(values.length / 2)];
+
+const describeTimes = (times: number[]) => {
+  const typical = median(times);
+  return `median ${typical.toFixed(1)} ms, worst ${Math.max(...times).toFixed(1)} ms,`
+    + ` ${((typical / UPDATE_INTERVAL_MS) * 100).toFixed(1)}% of a core at one update a second`;
+};
+
+console.log(`Live tempo update over a ${WINDOW_SECONDS} s window at ${TARGET_SAMPLE_RATE} Hz, ${UPDATES} updates each, Node ${process.version}`);
+const updateSamples = (UPDATE_INTERVAL_MS / 1000) * TARGET_SAMPLE_RATE;
+const input = createKickTrack(WINDOW_SECONDS + UPDATES * (UPDATE_INTERVAL_MS / 1000), BPM);
+for (const onsetMethod of ONSET_METHODS) {
+  const options = { ...DEFAULT_ANALYSIS_OPTIONS, onsetMethod };
+  const tracker = createLiveTempoTracker(options, WINDOW_SECONDS);
+  const windowLength = WINDOW_SECONDS * TARGET_SAMPLE_RATE;
+  tracker.push(input.subarray(0, windowLength));
+  tracker.read(); // warm up the JIT and the FFT tables
+
+  const times: number[] = [];
+  let reading = null;
+  let position = windowLength;
+  for (let update = 0; update < UPDATES; update++) {
+    const start = performance.now();
+    for (const end = position + updateSamples; position < end; position += BLOCK_SIZE) {
+      tracker.push(input.slice(position, Math.min(end, position + BLOCK_SIZE)));
+    }
+    reading = tracker.read();
+    times.push(performance.now() - start);
+  }
+  console.log(`${onsetMethod.padEnd(12)} update: ${describeTimes(times)} (read ${reading?.tempo.toFixed(1) ?? 'nothing'} BPM)`);
+
+  const recent = input.subarray(input.length - windowLength);
+  analyseChunk(normalize(recent), options);
+  const reanalysisTimes: number[] = [];
+  for (let run = 0; run < UPDATES; run++) {
+    const start = performance.now();
+    analyseChunk(normalize(recent), options);
+    reanalysisTimes.push(performance.now() - start);
+  }
+  console.log(`${onsetMethod.padEnd(12)} re-analysis of the window: ${describeTimes(reanalysisTimes)}`);
+}
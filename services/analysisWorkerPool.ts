@@ -0,0 +1,152 @@
+import type { AnalysisProgress } from '../types';
+import type { AnalysisTask, AnalysisTaskResults, AnalysisWorkerRequest, AnalysisWorkerResponse } from './bpmAnalysis.worker';
+
+/**
+ * A pool of analysis workers sized to the machine. Tasks are tagged with the
+ * job they belong to and handed to idle workers in the order they were run,
+ * one at a time, so cancelling a job only has to stop the workers busy with it.
+ */
+
+const MAX_POOL_SIZE = 8;
+
+/** A task and the buffers to move to the worker with it. */
+export interface TaskMessage<T extends AnalysisTask = AnalysisTask> {
+  task: T;
+  transfer: Transferable[];
+}
+
+interface QueuedTask<T extends AnalysisTask = AnalysisTask> {
+  taskId: number;
+  jobId: number;
+  // Built when a worker is free, so queued tasks don't hold their data yet.
+  build: () => TaskMessage<T>;
+  onProgress?: (progress: AnalysisProgress) => void;
+  resolve: (result: AnalysisTaskResults[T['type']]) => void;
+  reject: (error: Error) => void;
+}
+
+interface PoolSlot {
+  worker: Worker | null;
+  task: QueuedTask | null;
+}
+
+const poolSize = Math.max(1, Math.min(MAX_POOL_SIZE, (typeof navigator !== 'undefined' && navigator.hardwareConcurrency) || 2));
+const slots: PoolSlot[] = Array.from({ length: poolSize }, () => ({ worker: null, task: null }));
+const queue: QueuedTask[] = [];
+let nextTaskId = 1;
+let nextJobId = 1;
+
+/** Allocates an ID that groups a caller's tasks for cancellation. */
+export const createJobId = () => nextJobId++;
+
+export const createAbortError = () => new DOMException('Analysis was cancelled.', 'AbortError');
+
+const discardWorker = (slot: PoolSlot) => {
+  slot.worker?.terminate();
+  slot.worker = null;
+  slot.task = null;
+};
+
+const handleMessage = (slot: PoolSlot, event: MessageEvent<AnalysisWorkerResponse>) => {
+  const response = event.data;
+  const task = slot.task;
+  if (!task || task.taskId !== response.taskId) return;
+
+  if (response.type === 'progress') {
+    task.onProgress?.(response.progress);
+    return;
+  }
+  slot.task = null;
+  if (response.type === 'error') {
+    task.reject(new Error(response.error));
+  } else {
+    task.resolve(response.result);
+  }
+  dispatch();
+};
+
+const handleError = (slot: PoolSlot, event: ErrorEvent) => {
+  event.preventDefault();
+  const task = slot.task;
+  // The worker's state is unknown after an uncaught error, so start afresh.
+  discardWorker(slot);
+  task?.reject(new Error(event.message || "An error occurred in the BPM analysis worker."));
+  dispatch();
+};
+
+const getWorker = (slot: PoolSlot): Worker => {
+  if (!slot.worker) {
+    const worker = new Worker(new URL('./bpmAnalysis.worker.ts', import.meta.url), { type: 'module' });
+    worker.addEventListener('message', (event) => handleMessage(slot, event));
+    worker.addEventListener('error', (event) => handleError(slot, event));
+    slot.worker = worker;
+  }
+  return slot.worker;
+};
+
+const dispatch = () => {
+  for (const slot of slots) {
+    if (slot.task) continue;
+    const task = queue.shift();
+    if (!task) return;
+    try {
+      const { task: message, transfer } = task.build();
+      const request: AnalysisWorkerRequest = { ...message, taskId: task.taskId };
+      getWorker(slot).postMessage(request, transfer);
+      slot.task = task;
+    } catch (e) {
+      task.reject(e instanceof Error ? e : new Error(String(e)));
+    }
+  }
+};
+
+/**
+ * Queues a task for the next idle worker. Anything listed in `transfer` is
+ * moved to the worker and must not be used by the caller afterwards.
+ */
+export const runTask = <T extends AnalysisTask>(
+  jobId: number,
+  task: T,
+  transfer: Transferable[] = [],
+  onProgress?: (progress: AnalysisProgress) => void,
+): Promise<AnalysisTaskResults[T['type']]> => runDeferredTask(jobId, () => ({ task, transfer }), onProgress);
+
+/**
+ * Queues a task whose message is only built once a worker is free to take it,
+ * so a job with many tasks holds the data for just the ones running.
+ */
+export const runDeferredTask = <T extends AnalysisTask>(
+  jobId: number,
+  build: () => TaskMessage<T>,
+  onProgress?: (progress: AnalysisProgress) => void,
+): Promise<AnalysisTaskResults[T['type']]> => {
+  return new Promise((resolve, reject) => {
+    const queued: QueuedTask<T> = { taskId: nextTaskId++, jobId, build, onProgress, resolve, reject };
+    queue.push(queued);
+    dispatch();
+  });
+};
+
+/**
+ * Rejects every queued and running task of a job with an AbortError. The
+ * engine can't be interrupted mid-task, so busy workers are terminated and
+ * replaced the next time they're needed.
+ */
+export const cancelJob = (jobId: number) => {
+  const error = createAbortError();
+  for (let i = queue.length - 1; i >= 0; i--) {
+    if (queue[i].jobId === jobId) {
+      queue.splice(i, 1)[0].reject(error);
+    }
+  }
+  for (const slot of slots) {
+    if (slot.task?.jobId === jobId) {
+      const task = slot.task;
+      discardWorker(slot);
+      task.reject(error);
+    }
+  }
+  dispatch();
+};
+
+export const getPoolSize = () => poolSize;
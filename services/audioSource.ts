@@ -0,0 +1,108 @@
+import type { PreparedAudio } from './bpmAnalysisEngine';
+import { createAudioPreparer } from './bpmAnalysisEngine';
+import type { ChannelLoudness } from './loudnessAnalysis';
+import { createChannelMeter } from './loudnessAnalysis';
+import type { EncodedAudioFormat } from './encodedAudioReader';
+import { canDecodeEncoded, decodeEncodedBlocks, readEncodedFormat } from './encodedAudioReader';
+import type { WavFormat } from './wavReader';
+import { readWavBlocks, readWavFormat } from './wavReader';
+
+/**
+ * Decides how a file gets into the analysers. Files whose decoded PCM fits
+ * the memory budget are decoded whole, as before; larger WAVs, and MP3, FLAC
+ * and AAC files the browser's AudioDecoder handles, are streamed from disk
+ * straight into the analysis-rate signal and the loudness meters, and are
+ * only decoded in full for playback once the user asks for it.
+ */
+
+// Decoded audio is 32-bit float per sample per channel.
+const BYTES_PER_DECODED_SAMPLE = 4;
+export const FULL_DECODE_BUDGET_BYTES = 512 * 1024 * 1024;
+
+// Rough decoded-to-file size ratios, used until the file's headers have been
+// read: ~320 kbps lossy and ~60% FLAC compression at 44.1 kHz stereo.
+const LOSSY_EXPANSION = 9;
+const LOSSLESS_EXPANSION = 3.5;
+
+/** A file we can stream: a WAV, or compressed audio for WebCodecs. */
+export type StreamFormat = WavFormat | EncodedAudioFormat;
+
+export const isEncodedFormat = (format: StreamFormat): format is EncodedAudioFormat => 'container' in format;
+
+export interface AudioFileProbe {
+  /** Set when the file exceeds the budget and can be streamed instead. */
+  streamFormat: StreamFormat | null;
+  /** Memory `decodeAudioData` would need, which resamples to the context rate. */
+  estimatedDecodedBytes: number;
+  /** Whether decoding the whole file would exceed FULL_DECODE_BUDGET_BYTES. */
+  exceedsBudget: boolean;
+}
+
+const getDecodedBytes = (format: StreamFormat, playbackSampleRate: number): number =>
+  format.frames * (playbackSampleRate / format.sampleRate) * format.channels * BYTES_PER_DECODED_SAMPLE;
+
+/**
+ * Works out how much memory decoding the file would take. Compressed files
+ * are only parsed when the size-based estimate says they may not fit, since
+ * an MP3 without a frame count has to be scanned.
+ */
+export const probeAudioFile = async (file: File, playbackSampleRate: number): Promise<AudioFileProbe> => {
+  const wavFormat = await readWavFormat(file);
+  if (wavFormat) {
+    const estimatedDecodedBytes = getDecodedBytes(wavFormat, playbackSampleRate);
+    const exceedsBudget = estimatedDecodedBytes > FULL_DECODE_BUDGET_BYTES;
+    return { streamFormat: exceedsBudget ? wavFormat : null, estimatedDecodedBytes, exceedsBudget };
+  }
+
+  const lossless = /\.(flac|alac|aiff?)$/i.test(file.name) || /flac|aiff/i.test(file.type);
+  const roughBytes = file.size * (lossless ? LOSSLESS_EXPANSION : LOSSY_EXPANSION);
+  if (roughBytes <= FULL_DECODE_BUDGET_BYTES) {
+    return { streamFormat: null, estimatedDecodedBytes: roughBytes, exceedsBudget: false };
+  }
+
+  const encodedFormat = await readEncodedFormat(file);
+  if (!encodedFormat) {
+    return { streamFormat: null, estimatedDecodedBytes: roughBytes, exceedsBudget: true };
+  }
+  const estimatedDecodedBytes = getDecodedBytes(encodedFormat, playbackSampleRate);
+  const exceedsBudget = estimatedDecodedBytes > FULL_DECODE_BUDGET_BYTES;
+  const streamable = exceedsBudget && await canDecodeEncoded(encodedFormat);
+  return { streamFormat: streamable ? encodedFormat : null, estimatedDecodedBytes, exceedsBudget };
+};
+
+/** What one pass over a streamed file produces. */
+export interface StreamedAudio {
+  prepared: PreparedAudio;
+  loudness: ChannelLoudness[];
+}
+
+/**
+ * Reads a file once, feeding every block to the mono downsampler and to a
+ * loudness meter per channel. Only one block of full-rate audio is held at a
+ * time. Compressed files are decoded as they are read; their decoded rate and
+ * channel count are taken from the first block, since HE-AAC decodes at twice
+ * the rate its header gives.
+ */
+export const streamAudio = async (file: Blob, format: StreamFormat, onProgress?: (fraction: number) => void): Promise<StreamedAudio> => {
+  let preparer: ReturnType<typeof createAudioPreparer> | null = null;
+  let meters: ReturnType<typeof createChannelMeter>[] = [];
+  const push = (channels: Float32Array[], frames: number, sampleRate: number) => {
+    if (!preparer) {
+      preparer = createAudioPreparer(sampleRate, Math.ceil(format.frames * (sampleRate / format.sampleRate)));
+      meters = channels.map(() => createChannelMeter(sampleRate));
+    }
+    preparer.push(channels, frames);
+    meters.forEach((meter, c) => meter.push(channels[c].subarray(0, frames)));
+  };
+
+  if (isEncodedFormat(format)) {
+    await decodeEncodedBlocks(file, format, push, onProgress);
+  } else {
+    await readWavBlocks(file, format, (channels, frames) => push(channels, frames, format.sampleRate), onProgress);
+  }
+  if (!preparer) {
+    throw new Error('The file holds no audio.');
+  }
+
+  return { prepared: preparer.finish(), loudness: meters.map(meter => meter.finish()) };
+};
@@ -0,0 +1,215 @@
+/**
+ * Dynamic-programming beat tracker (after Ellis, "Beat Tracking by Dynamic
+ * Programming", 2007). Picks the sequence of beat times that best balances
+ * landing on strong onsets against keeping successive intervals close to the
+ * target tempo, so the beats can follow local tempo drift.
+ */
+
+const FRAME_HOP = 64; // onset samples per DP frame (~5.8 ms at 11025 Hz)
+const DEFAULT_TIGHTNESS = 100;
+const TRIM_THRESHOLD = 0.5;
+
+/** Reduces the onset signal to one value (the frame maximum) per DP frame. */
+const toFrames = (onset: Float32Array, hop: number): Float32Array => {
+  const frames = new Float32Array(Math.ceil(onset.length / hop));
+  for (let f = 0; f < frames.length; f++) {
+    let max = 0;
+    const end = Math.min(onset.length, (f + 1) * hop);
+    for (let i = f * hop; i < end; i++) {
+      if (onset[i] > max) max = onset[i];
+    }
+    frames[f] = max;
+  }
+  return frames;
+};
+
+/** Running totals of the DP frames, which add up across stretches of the signal. */
+export interface FrameStats {
+  count: number;
+  sum: number;
+  sumSquares: number;
+}
+
+/** A beat sequence before trimming: DP frame numbers on the whole signal and the local score at each. */
+export interface BeatPath {
+  frames: number[];
+  scores: number[];
+}
+
+/** Totals of the DP frames of an onset signal that starts on a frame boundary. */
+export const getFrameStats = (onset: Float32Array): FrameStats => {
+  const frames = toFrames(onset, FRAME_HOP);
+  let sum = 0;
+  let sumSquares = 0;
+  for (let i = 0; i < frames.length; i++) {
+    sum += frames[i];
+    sumSquares += frames[i] * frames[i];
+  }
+  return { count: frames.length, sum, sumSquares };
+};
+
+/** Standard deviation of the frames, or 1 for a flat signal. */
+export const getFrameStdDev = ({ count, sum, sumSquares }: FrameStats): number => {
+  if (!count) return 1;
+  const mean = sum / count;
+  return Math.sqrt(Math.max(sumSquares / count - mean * mean, 0)) || 1;
+};
+
+/** Scales to unit standard deviation and smooths with a Gaussian a fraction of a beat wide. */
+const localScore = (frames: Float32Array, period: number, stdDev: number): Float32Array => {
+  const sigma = Math.max(1, period / 32);
+  const radius = Math.ceil(sigma * 3);
+  const kernel = new Float32Array(radius * 2 + 1);
+  for (let k = -radius; k <= radius; k++) {
+    kernel[k + radius] = Math.exp(-0.5 * (k / sigma) ** 2);
+  }
+
+  const result = new Float32Array(frames.length);
+  for (let i = 0; i < frames.length; i++) {
+    let acc = 0;
+    for (let k = -radius; k <= radius; k++) {
+      const j = i + k;
+      if (j >= 0 && j < frames.length) {
+        acc += (frames[j] / stdDev) * kernel[k + radius];
+      }
+    }
+    result[i] = acc;
+  }
+  return result;
+};
+
+/** Drops weak beats from the start and end, where the track has no pulse yet. */
+const trimBeats = ({ frames, scores }: BeatPath): number[] => {
+  if (frames.length === 0) return frames;
+  let sumSq = 0;
+  for (const score of scores) sumSq += score * score;
+  const threshold = TRIM_THRESHOLD * Math.sqrt(sumSq / frames.length);
+
+  let start = 0;
+  while (start < frames.length && scores[start] <= threshold) start++;
+  let end = frames.length - 1;
+  while (end > start && scores[end] <= threshold) end--;
+  return frames.slice(start, end + 1);
+};
+
+/**
+ * Runs the beat-tracking DP over an onset signal, or over a stretch of one.
+ * @param onset - Onset strength signal.
+ * @param sampleRate - Sample rate of `onset`.
+ * @param bpm - Target tempo the beat spacing is drawn towards.
+ * @param stdDev - Frame standard deviation of the whole signal, from `getFrameStdDev`.
+ * @param offset - Where `onset` starts in the whole signal; a multiple of 64 samples.
+ * @param tightness - How strongly intervals are held to the target tempo.
+ */
+export const trackBeatPath = (
+  onset: Float32Array,
+  sampleRate: number,
+  bpm: number,
+  stdDev: number,
+  offset = 0,
+  tightness = DEFAULT_TIGHTNESS,
+): BeatPath => {
+  const path: BeatPath = { frames: [], scores: [] };
+  if (!isFinite(bpm) || bpm <= 0 || onset.length === 0) return path;
+
+  const frameRate = sampleRate / FRAME_HOP;
+  const period = (60 / bpm) * frameRate;
+  const frames = toFrames(onset, FRAME_HOP);
+  if (frames.length < period * 2) return path;
+
+  const score = localScore(frames, period, stdDev);
+  const cumulative = new Float32Array(frames.length);
+  const backlink = new Int32Array(frames.length).fill(-1);
+
+  const minGap = Math.max(1, Math.round(period / 2));
+  const maxGap = Math.round(period * 2);
+
+  for (let t = 0; t < frames.length; t++) {
+    let best = -Infinity;
+    let bestPrev = -1;
+    for (let gap = minGap; gap <= maxGap && t - gap >= 0; gap++) {
+      const deviation = Math.log(gap / period);
+      const candidate = cumulative[t - gap] - tightness * deviation * deviation;
+      if (candidate > best) {
+        best = candidate;
+        bestPrev = t - gap;
+      }
+    }
+    cumulative[t] = score[t] + (bestPrev >= 0 ? best : 0);
+    backlink[t] = bestPrev;
+  }
+
+  // Start the backtrace from the best-scoring local maximum in the last beat period.
+  let last = -1;
+  let lastScore = -Infinity;
+  const searchFrom = Math.max(1, frames.length - Math.ceil(period));
+  for (let t = searchFrom; t < frames.length - 1; t++) {
+    if (cumulative[t] >= cumulative[t - 1] && cumulative[t] >= cumulative[t + 1] && cumulative[t] > lastScore) {
+      lastScore = cumulative[t];
+      last = t;
+    }
+  }
+  if (last < 0) last = frames.length - 1;
+
+  const firstFrame = offset / FRAME_HOP;
+  for (let t = last; t >= 0; t = backlink[t]) {
+    path.frames.push(t + firstFrame);
+    path.scores.push(score[t]);
+  }
+  path.frames.reverse();
+  path.scores.reverse();
+  return path;
+};
+
+/**
+ * Joins paths tracked over overlapping stretches of one signal. Each hand-over
+ * happens at a beat both paths share, the one nearest the boundary, since away
+ * from the ends of its stretch each DP settles on the same beats as a pass over
+ * the whole signal would. Without a shared beat, the paths are cut at the boundary.
+ * @param boundaries - Where path `i + 1` takes over from path `i`, in samples.
+ */
+export const stitchBeatPaths = (paths: BeatPath[], boundaries: number[]): BeatPath => {
+  const stitched: BeatPath = { frames: [], scores: [] };
+  paths.forEach((path, i) => {
+    const boundary = i > 0 ? boundaries[i - 1] / FRAME_HOP : -Infinity;
+    let keep = stitched.frames.findIndex(frame => frame >= boundary);
+    let from = path.frames.findIndex(frame => frame >= boundary);
+    let left = 0;
+    let nearest = Infinity;
+    for (let right = 0; right < path.frames.length && stitched.frames.length > 0; right++) {
+      const frame = path.frames[right];
+      while (left < stitched.frames.length - 1 && stitched.frames[left] < frame - 1) left++;
+      if (Math.abs(stitched.frames[left] - frame) <= 1 && Math.abs(frame - boundary) < nearest) {
+        nearest = Math.abs(frame - boundary);
+        keep = left;
+        from = right;
+      }
+    }
+
+    if (keep >= 0) {
+      stitched.frames.splice(keep);
+      stitched.scores.splice(keep);
+    }
+    if (from < 0) return;
+    stitched.frames.push(...path.frames.slice(from));
+    stitched.scores.push(...path.scores.slice(from));
+  });
+  return stitched;
+};
+
+/** Trims a beat path's weak ends and converts it to beat times in seconds. */
+export const finishBeatPath = (path: BeatPath, sampleRate: number): number[] =>
+  trimBeats(path).map(f => ((f + 0.5) * FRAME_HOP) / sampleRate);
+
+/**
+ * Tracks beats through an onset-strength signal.
+ * @param onset - Onset strength signal, e.g. `FullAnalysisResult.onsetSignal`.
+ * @param sampleRate - Sample rate of `onset`.
+ * @param bpm - Target tempo the beat spacing is drawn towards.
+ * @param tightness - How strongly intervals are held to the target tempo.
+ * @returns Beat times in seconds, in ascending order.
+ */
+export const trackBeats = (onset: Float32Array, sampleRate: number, bpm: number, tightness = DEFAULT_TIGHTNESS): number[] => {
+  const stdDev = getFrameStdDev(getFrameStats(onset));
+  return finishBeatPath(trackBeatPath(onset, sampleRate, bpm, stdDev, 0, tightness), sampleRate);
+};
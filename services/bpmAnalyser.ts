@@ -0,0 +1,193 @@
+import type { AnalysisOptions, AnalysisProgress, AnalysisResult, LoudnessInfo, TimeRange } from '../types';
+import { logError, logInfo } from './loggingService';
+import { DEFAULT_ANALYSIS_OPTIONS, analyseTrack, completeAnalysis, createAudioPreparer, getChunkWindows, offsetAnalysis } from './bpmAnalysisEngine';
+import type { PreparedAudio, TrackTaskRunner } from './bpmAnalysisEngine';
+import { summariseLoudness } from './loudnessAnalysis';
+import type { StreamFormat } from './audioSource';
+import { cancelJob, createAbortError, createJobId, getPoolSize, runDeferredTask, runTask } from './analysisWorkerPool';
+
+export interface AnalyseOptions {
+  signal?: AbortSignal;
+  onProgress?: (progress: AnalysisProgress) => void;
+  /** Analyse only this part of the track. Times in the result stay on the track's timeline. */
+  region?: TimeRange;
+}
+
+// Shorter regions hold too few beats for the tempo estimators to agree on.
+export const MIN_REGION_SECONDS = 5;
+
+// Share of the progress bar given to mixing down and resampling.
+const PREPARE_PROGRESS = 0.1;
+// Frames mixed down between yields to the event loop, about 20 s at 48 kHz.
+const PREPARE_BLOCK_FRAMES = 1 << 20;
+
+export const isAbortError = (e: unknown): boolean => e instanceof DOMException && e.name === 'AbortError';
+
+/**
+ * Mixes a decoded track down to mono at the analysis rate, a block at a time,
+ * so no full-length copy of its channels is made. Yields between blocks to
+ * keep the page responsive.
+ */
+const prepareBuffer = async (buffer: AudioBuffer, region?: TimeRange, signal?: AbortSignal, onProgress?: AnalyseOptions['onProgress']): Promise<PreparedAudio> => {
+  const first = region ? Math.max(0, Math.floor(region.start * buffer.sampleRate)) : 0;
+  const last = region ? Math.min(buffer.length, Math.ceil(region.end * buffer.sampleRate)) : buffer.length;
+  const length = Math.max(0, last - first);
+  const preparer = createAudioPreparer(buffer.sampleRate, length);
+  const blocks = Array.from({ length: buffer.numberOfChannels }, () => new Float32Array(Math.min(PREPARE_BLOCK_FRAMES, length)));
+  for (let frame = 0; frame < length; frame += PREPARE_BLOCK_FRAMES) {
+    const frames = Math.min(PREPARE_BLOCK_FRAMES, length - frame);
+    blocks.forEach((block, c) => buffer.copyFromChannel(block, c, first + frame));
+    preparer.push(blocks, frames);
+    onProgress?.({ stage: 'onsets', progress: PREPARE_PROGRESS * ((frame + frames) / length) });
+    await new Promise(resolve => setTimeout(resolve, 0));
+    if (signal?.aborted) throw createAbortError();
+  }
+  return preparer.finish();
+};
+
+/**
+ * Analyses the analysis-rate signal on the worker pool. Each stage of the
+ * whole-track pass is split into tasks over spans of the signal, and each
+ * tempo-map chunk is a task of its own, so long mixes keep every worker busy.
+ * A task's part of the signal is copied out only when a worker takes it, so
+ * `prepared` is left untouched.
+ */
+const runAnalysis = async (jobId: number, prepared: PreparedAudio, options: AnalysisOptions, onProgress?: AnalyseOptions['onProgress']): Promise<AnalysisResult> => {
+  const windows = getChunkWindows(prepared.normalized.length);
+
+  // The whole-track pass weighs about as much as half the chunks (which overlap by 50%).
+  const trackUnits = Math.max(1, windows.length / 2);
+  const totalUnits = trackUnits + windows.length;
+  let completedUnits = 0;
+  let completedChunks = 0;
+  const report = (progress: Omit<AnalysisProgress, 'progress'>) => onProgress?.({
+    ...progress,
+    progress: PREPARE_PROGRESS + (1 - PREPARE_PROGRESS) * (completedUnits / totalUnits),
+  });
+
+  const runOnPool: TrackTaskRunner = (build) => runDeferredTask(jobId, build);
+  const trackTask = analyseTrack(prepared, options, (progress) => {
+    // While chunks are still running they make the more useful status line.
+    if (completedChunks === windows.length) report({ stage: progress.stage });
+  }, runOnPool).then(track => {
+    completedUnits += trackUnits;
+    report({ stage: 'beats' });
+    return track;
+  });
+
+  const chunkTasks = windows.map(window => runDeferredTask(jobId, () => {
+    const samples = prepared.normalized.slice(window.start, window.end);
+    return { task: { type: 'chunk' as const, samples, options }, transfer: [samples.buffer] };
+  }).then(reading => {
+    completedUnits++;
+    completedChunks++;
+    report({ stage: 'chunks', chunk: completedChunks, totalChunks: windows.length });
+    return reading;
+  }));
+
+  const [track, readings] = await Promise.all([trackTask, Promise.all(chunkTasks)]);
+  return completeAnalysis(track, windows, readings);
+};
+
+/**
+ * Runs a pool job, cancelling it when `signal` aborts and stopping any sibling
+ * tasks still queued or running if one of them fails.
+ */
+const runJob = async <T>(label: string, signal: AbortSignal | undefined, run: (jobId: number) => Promise<T>): Promise<T> => {
+  const jobId = createJobId();
+  const onAbort = () => {
+    logInfo(`Cancelling ${label} job ${jobId}.`);
+    cancelJob(jobId);
+  };
+  signal?.addEventListener('abort', onAbort);
+
+  try {
+    return await run(jobId);
+  } catch (e) {
+    cancelJob(jobId);
+    if (!isAbortError(e)) {
+      logError(`${label} job ${jobId} failed.`, e);
+    }
+    throw e;
+  } finally {
+    signal?.removeEventListener('abort', onAbort);
+  }
+};
+
+const analyse = async (
+  buffer: AudioBuffer,
+  options: AnalysisOptions = DEFAULT_ANALYSIS_OPTIONS,
+  { signal, onProgress, region }: AnalyseOptions = {},
+): Promise<AnalysisResult> => {
+  if (signal?.aborted) {
+    throw createAbortError();
+  }
+  if (region && region.end - region.start < MIN_REGION_SECONDS) {
+    throw new Error(`Select at least ${MIN_REGION_SECONDS} seconds to analyse.`);
+  }
+
+  logInfo(region
+    ? `Starting BPM analysis of ${region.start.toFixed(2)}s-${region.end.toFixed(2)}s on ${getPoolSize()} worker(s).`
+    : `Starting BPM analysis on ${getPoolSize()} worker(s).`);
+  return runJob(region ? 'Region analysis' : 'BPM analysis', signal, async (jobId) => {
+    const prepared = await prepareBuffer(buffer, region, signal, onProgress);
+    const result = await runAnalysis(jobId, prepared, options, onProgress);
+    return region ? offsetAnalysis(result, Math.max(0, region.start)) : result;
+  });
+};
+
+/** Analyses a signal that was already prepared, e.g. by `streamFile`. The signal is left untouched. */
+const analysePrepared = async (
+  prepared: PreparedAudio,
+  options: AnalysisOptions = DEFAULT_ANALYSIS_OPTIONS,
+  { signal, onProgress }: AnalyseOptions = {},
+): Promise<AnalysisResult> => {
+  if (signal?.aborted) {
+    throw createAbortError();
+  }
+
+  logInfo(`Starting BPM analysis of a prepared signal on ${getPoolSize()} worker(s).`);
+  return runJob('BPM analysis', signal, (jobId) => runAnalysis(jobId, prepared, options, onProgress));
+};
+
+/**
+ * Reads a file from disk on a worker without decoding it whole, returning the
+ * analysis-rate signal and the file's loudness. Progress is reported as the
+ * `decode` stage.
+ */
+const streamFile = async (
+  file: File,
+  format: StreamFormat,
+  { signal, onProgress }: AnalyseOptions = {},
+): Promise<{ prepared: PreparedAudio; loudness: LoudnessInfo }> => {
+  if (signal?.aborted) {
+    throw createAbortError();
+  }
+
+  logInfo(`Streaming ${file.name} (${format.frames} frames, ${format.channels} channel(s)).`);
+  return runJob('File streaming', signal, async (jobId) => {
+    const streamed = await runTask(jobId, { type: 'stream', file, format }, [], onProgress);
+    return { prepared: streamed.prepared, loudness: summariseLoudness(streamed.loudness) };
+  });
+};
+
+/** Measures loudness, true peak and clipping, one channel per worker. */
+const measureLoudness = async (buffer: AudioBuffer, { signal }: Pick<AnalyseOptions, 'signal'> = {}): Promise<LoudnessInfo> => {
+  if (signal?.aborted) {
+    throw createAbortError();
+  }
+  return runJob('Loudness analysis', signal, async (jobId) => {
+    const channels = await Promise.all(Array.from({ length: buffer.numberOfChannels }, (_, i) => runDeferredTask(jobId, () => {
+      const samples = buffer.getChannelData(i).slice();
+      return { task: { type: 'loudness' as const, samples, sampleRate: buffer.sampleRate }, transfer: [samples.buffer] };
+    })));
+    return summariseLoudness(channels);
+  });
+};
+
+export const BpmAnalyser = {
+  analyse,
+  analysePrepared,
+  streamFile,
+  measureLoudness,
+};
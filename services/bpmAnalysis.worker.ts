@@ -0,0 +1,76 @@
+import { analyseChunk, runTrackTask } from './bpmAnalysisEngine';
+import type { ChunkReading, TrackTask, TrackTaskResults } from './bpmAnalysisEngine';
+import { measureChannel } from './loudnessAnalysis';
+import type { ChannelLoudness } from './loudnessAnalysis';
+import { streamAudio } from './audioSource';
+import type { StreamFormat, StreamedAudio } from './audioSource';
+import type { AnalysisOptions, AnalysisProgress } from '../types';
+
+/**
+ * One step of an analysis job. A BPM job sends the stages of the whole-track
+ * pass, span by span, and every tempo-map chunk as independent tasks; a
+ * loudness job measures each channel separately. `stream` reads a file too
+ * large to decode whole, producing the analysis-rate signal and per-channel
+ * loudness in one pass.
+ */
+export type AnalysisTask =
+  | { type: 'stream'; file: Blob; format: StreamFormat }
+  | TrackTask
+  | { type: 'chunk'; samples: Float32Array; options: AnalysisOptions }
+  | { type: 'loudness'; samples: Float32Array; sampleRate: number };
+
+/** What each task type resolves to. */
+export interface AnalysisTaskResults extends TrackTaskResults {
+  stream: StreamedAudio;
+  chunk: ChunkReading | null;
+  loudness: ChannelLoudness;
+}
+
+export type AnalysisWorkerRequest = AnalysisTask & { taskId: number };
+
+export type AnalysisWorkerResponse =
+  | { taskId: number; type: 'progress'; progress: AnalysisProgress }
+  | { taskId: number; type: 'result'; result: AnalysisTaskResults[AnalysisTask['type']] }
+  | { taskId: number; type: 'error'; error: string };
+
+const reply = (response: AnalysisWorkerResponse, transfer: Transferable[] = []) => self.postMessage(response, { transfer });
+
+/** The typed arrays in a track task's result (onset signals, band flux, lag sums), to move rather than copy. */
+const getResultBuffers = (result: TrackTaskResults[TrackTask['type']]): Transferable[] => {
+  const values = Object.values(result ?? {}).flat();
+  return [...new Set(values.filter(ArrayBuffer.isView).map(view => view.buffer))];
+};
+
+self.onmessage = async (event: MessageEvent<AnalysisWorkerRequest>) => {
+  const request = event.data;
+  const { taskId } = request;
+  try {
+    switch (request.type) {
+      case 'stream': {
+        const streamed = await streamAudio(request.file, request.format, (fraction) =>
+          reply({ taskId, type: 'progress', progress: { stage: 'decode', progress: fraction } }));
+        reply({ taskId, type: 'result', result: streamed }, [streamed.prepared.normalized.buffer, ...streamed.loudness.map(l => l.blockPower.buffer)]);
+        break;
+      }
+      case 'spanOnsets':
+      case 'lagSums':
+      case 'beatPath':
+      case 'meter':
+      case 'barFeatures': {
+        const result = runTrackTask(request);
+        reply({ taskId, type: 'result', result }, getResultBuffers(result));
+        break;
+      }
+      case 'chunk':
+        reply({ taskId, type: 'result', result: analyseChunk(request.samples, request.options) });
+        break;
+      case 'loudness': {
+        const loudness = measureChannel(request.samples, request.sampleRate);
+        reply({ taskId, type: 'result', result: loudness }, [loudness.blockPower.buffer]);
+        break;
+      }
+    }
+  } catch (e) {
+    reply({ taskId, type: 'error', error: e instanceof Error ? e.message : String(e) });
+  }
+};
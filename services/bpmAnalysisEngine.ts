@@ -0,0 +1,961 @@
+import type { AnalysisOptions, AnalysisProgress, AnalysisResult, AnalysisStage, BpmCandidate, MeterInfo, OnsetMethod, StructureSection, OctaveAmbiguity, TempoMapPoint, TempoSearchParameters, TempoVariability } from '../types';
+import { detectMeter } from './meterDetection';
+import { finishBeatPath, getFrameStats, getFrameStdDev, stitchBeatPaths, trackBeatPath } from './beatTracker';
+import type { BeatPath, FrameStats } from './beatTracker';
+import { detectKeyFromChroma, getChromaFrames, normaliseChroma, sumChroma } from './keyDetection';
+import { computeBarFeatures, computeBarTimes, segmentBarFeatures } from './structureSegmentation';
+import type { BarFeatures } from './structureSegmentation';
+import { combineBandFlux, computeBandFlux, computeOnsetFunction, envelopeOnset, getFluxFrames } from './onsetDetection';
+import type { OnsetFunction } from './onsetDetection';
+import { autocorrelation } from '../utils/fft';
+
+/**
+ * The BPM analysis engine. Everything in here is pure computation over
+ * Float32Arrays so it can run inside the analysis worker, on the main thread,
+ * or directly from Node.
+ */
+
+export const TARGET_SAMPLE_RATE = 11025;
+const MAX_VISUAL_PEAKS = 600;
+const MAX_ALIGNMENT_PEAKS = 900;
+const VISUAL_LOOKAHEAD_PEAKS = 8;
+const PREFERRED_RANGE_BONUS = 1.5;
+
+const CHUNK_SECONDS = 20;
+const CHUNK_OVERLAP_SECONDS = 10;
+const MIN_SONG_DURATION_FOR_CHUNKING = CHUNK_SECONDS + 5;
+
+// The whole-track pass works on spans of this many samples (about 95 s), so
+// its tasks can share the worker pool. A power of two, so every span starts on
+// an STFT frame and a beat-tracker frame.
+const TRACK_SPAN_SAMPLES = 1 << 20;
+// Audio read either side of a span: the onset smoothers' warm-up, the STFT
+// frame before the span and a key frame starting at its very end.
+const SPAN_CONTEXT_SAMPLES = 8192;
+// Onset signal either side of a span that its beat tracker also runs over
+// (about 12 s), so the DP has settled on the beats by the span's boundaries.
+const BEAT_OVERLAP_SAMPLES = 1 << 17;
+
+const OCTAVE_TOLERANCE = 0.03;
+const OCTAVE_AMBIGUITY_MIN_STRENGTH = 0.5;
+const OCTAVE_AMBIGUITY_MIN_ALIGNMENT_RATIO = 0.9;
+const TEMPO_MAP_AGREEMENT_TOLERANCE = 0.02;
+
+// Where each stage starts on the job's 0-1 progress scale, roughly by cost,
+// when the whole pipeline runs on one thread. The key is measured along with
+// the onsets.
+const STAGE_PROGRESS: Record<Exclude<AnalysisStage, 'decode' | 'key'>, number> = {
+  onsets: 0,
+  autocorrelation: 0.1,
+  beats: 0.25,
+  structure: 0.32,
+  chunks: 0.35,
+};
+
+export const DEFAULT_TEMPO_SEARCH: TempoSearchParameters = {
+  minBpm: 60,
+  maxBpm: 200,
+  preferredMinBpm: 95,
+  preferredMaxBpm: 180,
+  visualWeight: 0.35,
+  peakThreshold: 1.5,
+};
+
+export const DEFAULT_ANALYSIS_OPTIONS: AnalysisOptions = {
+  onsetMethod: 'envelope',
+  ...DEFAULT_TEMPO_SEARCH,
+};
+
+/** Raw PCM input: one Float32Array per channel, all of equal length. */
+export interface AudioInput {
+  channels: Float32Array[];
+  sampleRate: number;
+}
+
+/** Unscored tempo evidence from a single estimator, before alignment scoring. */
+export interface TempoEvidence {
+  tempo: number;
+  count: number;
+}
+
+export interface FullAnalysisResult {
+  candidates: BpmCandidate[];
+  peaks: number[];
+  onsetSignal: Float32Array;
+  onsetDelaySeconds: number;
+}
+
+export type ProgressCallback = (progress: AnalysisProgress) => void;
+
+type TempoHistogram = Map<number, number>;
+
+export const mixDownToMono = (channels: Float32Array[]): Float32Array => {
+  if (channels.length === 1) {
+    return channels[0].slice();
+  }
+  const length = channels[0]?.length ?? 0;
+  const tmp = new Float32Array(length);
+  for (const channelData of channels) {
+    for (let i = 0; i < length; i++) {
+      tmp[i] += channelData[i];
+    }
+  }
+  for (let i = 0; i < length; i++) {
+    tmp[i] /= channels.length;
+  }
+  return tmp;
+};
+
+export const downsampleBuffer = (data: Float32Array, sampleRate: number, targetRate: number): Float32Array => {
+  if (sampleRate <= targetRate) {
+    return data.slice();
+  }
+  const ratio = sampleRate / targetRate;
+  const newLength = Math.floor(data.length / ratio);
+  const downsampled = new Float32Array(newLength);
+  for (let i = 0; i < newLength; i++) {
+    const start = Math.floor(i * ratio);
+    const end = Math.min(data.length, Math.floor((i + 1) * ratio));
+    let sum = 0;
+    let count = 0;
+    for (let j = start; j < end; j++) {
+      sum += data[j];
+      count++;
+    }
+    downsampled[i] = count > 0 ? sum / count : 0;
+  }
+  return downsampled;
+};
+
+export const normalize = (data: Float32Array): Float32Array => {
+  let max = 0;
+  for (let i = 0; i < data.length; i++) {
+    const value = Math.abs(data[i]);
+    if (value > max) {
+      max = value;
+    }
+  }
+  if (!max) return data;
+  const normalized = new Float32Array(data.length);
+  for (let i = 0; i < data.length; i++) {
+    normalized[i] = data[i] / max;
+  }
+  return normalized;
+};
+
+/**
+ * Folds a tempo into the [minBpm, maxBpm] range by octaves and adds its weight
+ * to the histogram, attenuating evidence that had to be folded.
+ */
+const accumulateTempoEvidence = (histogram: TempoHistogram, tempo: number, weight: number, { minBpm, maxBpm }: TempoSearchParameters) => {
+  if (!isFinite(tempo) || tempo <= 0 || !weight) return;
+  let normalized = tempo;
+  let attenuation = 1;
+  while (normalized < minBpm) {
+    normalized *= 2;
+    attenuation *= 0.5;
+  }
+  while (normalized > maxBpm) {
+    normalized /= 2;
+    attenuation *= 0.5;
+  }
+  if (normalized < minBpm || normalized > maxBpm) return;
+  const key = Math.round(normalized * 4) / 4;
+  histogram.set(key, (histogram.get(key) || 0) + weight * attenuation);
+};
+
+const histogramToCandidates = (histogram: TempoHistogram): TempoEvidence[] => {
+  const results = Array.from(histogram.entries()).map(([tempo, count]) => ({ tempo, count }));
+  results.sort((a, b) => b.count - a.count);
+  return results;
+};
+
+/**
+ * Finds local maxima above `mean + stdDev * thresholdMultiplier`.
+ * @param maxPeaks - Stop after this many peaks.
+ * @returns Peak positions as sample indices.
+ */
+export const detectPeaks = (data: Float32Array, sampleRate: number, thresholdMultiplier: number, minDistanceSeconds: number, maxPeaks = Infinity): number[] => {
+  const peaks: number[] = [];
+  let sum = 0;
+  let sumSquares = 0;
+  for (let i = 0; i < data.length; i++) {
+    sum += data[i];
+    sumSquares += data[i] * data[i];
+  }
+  const mean = sum / data.length;
+  const variance = Math.max(sumSquares / data.length - mean * mean, 0);
+  const stdDev = Math.sqrt(variance);
+  const threshold = mean + stdDev * thresholdMultiplier;
+  const minDistance = Math.max(1, Math.floor(minDistanceSeconds * sampleRate));
+  let lastPeakIndex = -Infinity;
+
+  for (let i = 1; i < data.length - 1 && peaks.length < maxPeaks; i++) {
+    const current = data[i];
+    if (current < threshold) continue;
+    if (current > data[i - 1] && current >= data[i + 1]) {
+      if (i - lastPeakIndex >= minDistance) {
+        peaks.push(i);
+        lastPeakIndex = i;
+      }
+    }
+  }
+  return peaks;
+};
+
+/**
+ * Builds a tempo histogram from the intervals between envelope peaks and their
+ * next few neighbours.
+ */
+export const visualTempoEstimation = (envelopePeaks: number[], sampleRate: number, search: TempoSearchParameters = DEFAULT_TEMPO_SEARCH): TempoEvidence[] => {
+  if (envelopePeaks.length < 2) return [];
+  const histogram: TempoHistogram = new Map();
+  for (let i = 0; i < envelopePeaks.length - 1; i++) {
+    const base = envelopePeaks[i];
+    const limit = Math.min(envelopePeaks.length, i + 1 + VISUAL_LOOKAHEAD_PEAKS);
+    for (let j = i + 1; j < limit; j++) {
+      const interval = envelopePeaks[j] - base;
+      if (interval <= 0) continue;
+      const weight = 1 / (j - i);
+      const tempo = (60 * sampleRate) / interval;
+      accumulateTempoEvidence(histogram, tempo, weight, search);
+    }
+  }
+  return histogramToCandidates(histogram);
+};
+
+/** Computes `r[lag] = Σ x[i]·x[i + lag]` for lags 0..maxLag. */
+export type LagSums = (signal: Float32Array, maxLag: number) => ArrayLike<number>;
+
+/** The lags that correspond to maxBpm..minBpm, clipped to the signal. */
+export const getLagRange = (length: number, sampleRate: number, search: TempoSearchParameters) => ({
+  minLag: Math.max(1, Math.floor((sampleRate * 60) / search.maxBpm)),
+  maxLag: Math.min(length - 1, Math.floor((sampleRate * 60) / search.minBpm)),
+});
+
+/**
+ * Turns autocorrelation sums into tempo candidates: every peak in the
+ * correlation over the lags for minBpm..maxBpm votes for its tempo.
+ * @param sums - `Σ x[i]·x[i + lag]` over a signal `length` samples long, for every lag up to the one for minBpm.
+ */
+const tempoEvidenceFromLagSums = (sums: ArrayLike<number>, length: number, sampleRate: number, search: TempoSearchParameters): TempoEvidence[] => {
+  const { minLag, maxLag } = getLagRange(length, sampleRate, search);
+  // The lag-0 sum is the signal's energy.
+  if (maxLag < minLag || !(sums[0] > 0)) {
+    return [];
+  }
+  const correlations = new Float32Array(maxLag - minLag + 1);
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    correlations[lag - minLag] = sums[lag] / (length - lag);
+  }
+
+  const histogram: TempoHistogram = new Map();
+  for (let i = 1; i < correlations.length - 1; i++) {
+    const current = correlations[i];
+    if (current <= 0) continue;
+    if (current > correlations[i - 1] && current >= correlations[i + 1]) {
+      const lag = i + minLag;
+      const tempo = (60 * sampleRate) / lag;
+      accumulateTempoEvidence(histogram, tempo, current, search);
+    }
+  }
+  return histogramToCandidates(histogram);
+};
+
+/**
+ * Autocorrelates the onset signal over the lags that correspond to
+ * minBpm..maxBpm and turns the correlation peaks into tempo candidates.
+ * @param lagSums - How the raw sums are computed; the FFT unless comparing against a reference.
+ */
+export const computeAutoCorrelation = (
+  signal: Float32Array,
+  sampleRate: number,
+  search: TempoSearchParameters = DEFAULT_TEMPO_SEARCH,
+  lagSums: LagSums = autocorrelation,
+): TempoEvidence[] => {
+  const { minLag, maxLag } = getLagRange(signal.length, sampleRate, search);
+  if (maxLag < minLag) {
+    return [];
+  }
+  return tempoEvidenceFromLagSums(lagSums(signal, maxLag), signal.length, sampleRate, search);
+};
+
+/**
+ * Measures how consistently the peaks land on a grid at the given tempo (or its
+ * 2x/3x subdivisions), as the length of the mean phase vector.
+ * @returns A score between 0 (no alignment) and 1 (perfect alignment).
+ */
+export const tempoAlignmentScore = (peaks: number[], tempo: number, sampleRate: number): number => {
+  if (peaks.length < 4) return 0;
+  const limited = peaks.slice(0, Math.min(peaks.length, MAX_ALIGNMENT_PEAKS));
+  if (limited.length < 4) return 0;
+  const period = (60 / tempo) * sampleRate;
+  if (!isFinite(period) || period <= 0) {
+    return 0;
+  }
+  const harmonics = [
+    { multiple: 1, weight: 1 },
+    { multiple: 2, weight: 0.7 },
+    { multiple: 3, weight: 0.5 },
+  ];
+  const twoPi = Math.PI * 2;
+  let best = 0;
+  for (const { multiple, weight } of harmonics) {
+    const effectivePeriod = period / multiple;
+    if (!isFinite(effectivePeriod) || effectivePeriod <= 2) continue;
+    let real = 0;
+    let imag = 0;
+    for (const peak of limited) {
+      const cycles = peak / effectivePeriod;
+      const angle = (cycles - Math.floor(cycles)) * twoPi;
+      real += Math.cos(angle);
+      imag += Math.sin(angle);
+    }
+    const score = (Math.sqrt(real * real + imag * imag) / limited.length) * weight;
+    if (score > best) {
+      best = score;
+    }
+  }
+  return best;
+};
+
+/** Score multiplier favouring the tempo range the track is expected to be in. */
+const tempoPreference = (tempo: number, { preferredMinBpm, preferredMaxBpm }: TempoSearchParameters): number =>
+  tempo >= preferredMinBpm && tempo <= preferredMaxBpm ? PREFERRED_RANGE_BONUS : 1;
+
+/**
+ * Merges the visual (peak interval) and audial (autocorrelation) candidates and
+ * rescores them by how well each tempo aligns with the envelope peaks.
+ */
+export const combineCandidates = (
+  visualCandidates: TempoEvidence[],
+  audialCandidates: TempoEvidence[],
+  envelopePeaks: number[],
+  search: TempoSearchParameters = DEFAULT_TEMPO_SEARCH,
+): BpmCandidate[] => {
+  const combined = new Map<number, BpmCandidate>();
+
+  const accumulate = (source: TempoEvidence[], weight: number) => {
+    source.forEach((candidate, index) => {
+      const tempoKey = Math.round(candidate.tempo * 4) / 4;
+      const existing = combined.get(tempoKey) || { tempo: tempoKey, count: 0, alignment: 0 };
+      const baseScore = candidate.count || (source.length - index);
+      existing.count += baseScore * weight;
+      combined.set(tempoKey, existing);
+    });
+  };
+
+  accumulate(visualCandidates, search.visualWeight);
+  accumulate(audialCandidates, 1 - search.visualWeight);
+
+  const results = Array.from(combined.values());
+  const maxCount = Math.max(...results.map(r => r.count));
+
+  results.forEach(candidate => {
+    const alignment = tempoAlignmentScore(envelopePeaks, candidate.tempo, TARGET_SAMPLE_RATE);
+    const finalScore = (maxCount > 0
+      ? Math.pow(candidate.count / maxCount, 0.3) * Math.pow(alignment, 2.0)
+      : alignment) * tempoPreference(candidate.tempo, search);
+
+    candidate.count = isNaN(finalScore) ? 0 : finalScore;
+    candidate.alignment = alignment;
+  });
+
+  results.sort((a, b) => b.count - a.count);
+  return results;
+};
+
+/**
+ * Picks the envelope peaks, estimates tempo from their spacing and rescores
+ * that and the autocorrelation evidence by how well each tempo fits the peaks.
+ */
+const scoreTempoEvidence = (
+  onsets: OnsetFunction,
+  audialCandidates: TempoEvidence[],
+  sampleRate: number,
+  options: AnalysisOptions,
+): FullAnalysisResult => {
+  const envelopePeaks = detectPeaks(onsets.peakSignal, sampleRate, options.peakThreshold, 60 / options.maxBpm, MAX_ALIGNMENT_PEAKS);
+
+  const trimmedPeaks = envelopePeaks.slice(0, MAX_VISUAL_PEAKS);
+  const peakTimes = trimmedPeaks.map(index => index / sampleRate);
+
+  const visualCandidates = visualTempoEstimation(trimmedPeaks, sampleRate, options);
+  const combinedCandidates = combineCandidates(visualCandidates, audialCandidates, envelopePeaks, options).slice(0, 24);
+
+  return {
+    candidates: combinedCandidates,
+    peaks: peakTimes,
+    onsetSignal: onsets.onsetSignal,
+    onsetDelaySeconds: onsets.onsetDelaySeconds,
+  };
+};
+
+/**
+ * Runs the complete onset → peaks → candidates pipeline on a mono signal.
+ * @param audioData - Normalized mono samples.
+ * @param sampleRate - Sample rate of `audioData`, normally TARGET_SAMPLE_RATE.
+ * @param options - Onset detection method and tempo search parameters.
+ */
+export const performFullAnalysis = (
+  audioData: Float32Array,
+  sampleRate: number,
+  options: AnalysisOptions = DEFAULT_ANALYSIS_OPTIONS,
+  onProgress?: ProgressCallback,
+): FullAnalysisResult => {
+  onProgress?.({ stage: 'onsets', progress: STAGE_PROGRESS.onsets });
+  const onsets = computeOnsetFunction(audioData, sampleRate, options.onsetMethod);
+  onProgress?.({ stage: 'autocorrelation', progress: STAGE_PROGRESS.autocorrelation });
+  const audialCandidates = computeAutoCorrelation(onsets.onsetSignal, sampleRate, options);
+  return scoreTempoEvidence(onsets, audialCandidates, sampleRate, options);
+};
+
+export interface ChunkWindow {
+  start: number; // sample offsets into the normalised signal
+  end: number;
+  time: number; // window centre in seconds
+}
+
+/** A chunk's own top tempo, before it is folded onto the primary tempo. */
+export interface ChunkReading {
+  tempo: number;
+  alignment: number;
+}
+
+/** The overlapping windows the tempo map is built from; empty for short tracks. */
+export const getChunkWindows = (length: number): ChunkWindow[] => {
+  const chunkSamples = CHUNK_SECONDS * TARGET_SAMPLE_RATE;
+  const stepSamples = chunkSamples - CHUNK_OVERLAP_SECONDS * TARGET_SAMPLE_RATE;
+  if (length / TARGET_SAMPLE_RATE <= MIN_SONG_DURATION_FOR_CHUNKING) return [];
+
+  const windows: ChunkWindow[] = [];
+  for (let start = 0; start + chunkSamples <= length; start += stepSamples) {
+    windows.push({ start, end: start + chunkSamples, time: (start + chunkSamples / 2) / TARGET_SAMPLE_RATE });
+  }
+  return windows;
+};
+
+const topReading = ({ candidates }: FullAnalysisResult): ChunkReading | null => {
+  if (candidates.length === 0) return null;
+  const { tempo, alignment } = candidates[0];
+  return { tempo, alignment };
+};
+
+export const analyseChunk = (samples: Float32Array, options: AnalysisOptions = DEFAULT_ANALYSIS_OPTIONS): ChunkReading | null =>
+  topReading(performFullAnalysis(samples, TARGET_SAMPLE_RATE, options));
+
+/**
+ * `analyseChunk` for a chunk whose onset function and lag sums are already
+ * known, as a live listener keeps them up to date.
+ * @param sums - The onset signal's `Σ x[i]·x[i + lag]` for every lag up to the one for minBpm.
+ */
+export const analyseChunkFromLagSums = (
+  onsets: OnsetFunction,
+  sums: ArrayLike<number>,
+  options: AnalysisOptions = DEFAULT_ANALYSIS_OPTIONS,
+): ChunkReading | null => {
+  const audialCandidates = tempoEvidenceFromLagSums(sums, onsets.onsetSignal.length, TARGET_SAMPLE_RATE, options);
+  return topReading(scoreTempoEvidence(onsets, audialCandidates, TARGET_SAMPLE_RATE, options));
+};
+
+/**
+ * Turns per-chunk readings into a time-stamped tempo map. Chunks that read as
+ * half or double the primary tempo are folded back onto it so the map shows
+ * drift rather than octave errors.
+ */
+export const assembleTempoMap = (windows: ChunkWindow[], readings: (ChunkReading | null)[], primaryBpm: number): TempoMapPoint[] => {
+  const tolerance = 0.05; // 5% tolerance for harmonic checks
+  const tempoMap: TempoMapPoint[] = [];
+  windows.forEach((window, i) => {
+    const reading = readings[i];
+    if (!reading) return;
+
+    const { tempo, alignment } = reading;
+    let bpm = tempo;
+    if (Math.abs(tempo - primaryBpm / 2) < (primaryBpm / 2) * tolerance) {
+      bpm = tempo * 2;
+    } else if (Math.abs(tempo - primaryBpm * 2) < (primaryBpm * 2) * tolerance) {
+      bpm = tempo / 2;
+    }
+
+    tempoMap.push({
+      time: window.time,
+      bpm,
+      confidence: Math.max(0, Math.min(1, alignment)),
+    });
+  });
+  return tempoMap;
+};
+
+/** Summarises a tempo map as min/max/stdDev; needs at least three windows. */
+const summariseTempoMap = (tempoMap: TempoMapPoint[]): TempoVariability | null => {
+  if (tempoMap.length <= 2) {
+    return null;
+  }
+
+  let min = Infinity, max = -Infinity, sum = 0, sumSq = 0;
+  for (const { bpm } of tempoMap) {
+    if (bpm < min) min = bpm;
+    if (bpm > max) max = bpm;
+    sum += bpm;
+    sumSq += bpm * bpm;
+  }
+  const mean = sum / tempoMap.length;
+  const variance = sumSq / tempoMap.length - mean * mean;
+  return { min, max, stdDev: Math.sqrt(Math.max(0, variance)) };
+};
+
+/**
+ * Looks for a half- or double-time rival to the top candidate. Scores are
+ * compared without the tempo-range preference, since that bonus is exactly
+ * what separates an octave pair and says nothing about the audio.
+ */
+export const findOctaveAmbiguity = (candidates: BpmCandidate[], search: TempoSearchParameters = DEFAULT_TEMPO_SEARCH): OctaveAmbiguity | null => {
+  if (candidates.length < 2) return null;
+  const [top] = candidates;
+  const topScore = top.count / tempoPreference(top.tempo, search);
+  if (topScore <= 0) return null;
+
+  let best: OctaveAmbiguity | null = null;
+  for (const candidate of candidates.slice(1)) {
+    const ratio = candidate.tempo / top.tempo;
+    const relation = Math.abs(ratio - 0.5) <= 0.5 * OCTAVE_TOLERANCE ? 'half'
+      : Math.abs(ratio - 2) <= 2 * OCTAVE_TOLERANCE ? 'double'
+      : null;
+    if (!relation) continue;
+
+    const strength = Math.min(1, (candidate.count / tempoPreference(candidate.tempo, search)) / topScore);
+    const alignmentRatio = top.alignment > 0 ? candidate.alignment / top.alignment : 0;
+    if ((strength >= OCTAVE_AMBIGUITY_MIN_STRENGTH || alignmentRatio >= OCTAVE_AMBIGUITY_MIN_ALIGNMENT_RATIO)
+      && (!best || strength > best.strength)) {
+      best = { alternativeTempo: candidate.tempo, relation, strength };
+    }
+  }
+  return best;
+};
+
+/**
+ * Maps the top candidate to a 0-1 confidence built only from quantities that
+ * mean the same thing on every track: how well its beats align (0-1), how far
+ * it is ahead of the best non-octave rival, and how many tempo-map windows
+ * agree with it.
+ */
+export const computeConfidence = (candidates: BpmCandidate[], tempoMap: TempoMapPoint[]): number => {
+  if (candidates.length === 0) return 0;
+  const [top] = candidates;
+  if (top.count <= 0) return 0;
+
+  const rival = candidates.slice(1).find(candidate => {
+    const ratio = candidate.tempo / top.tempo;
+    return [0.5, 1, 2].every(octave => Math.abs(ratio - octave) > octave * OCTAVE_TOLERANCE);
+  });
+  const separation = rival ? Math.max(0, 1 - rival.count / top.count) : 1;
+
+  let agreement = 1;
+  if (tempoMap.length > 0) {
+    const agreeing = tempoMap.filter(p => Math.abs(p.bpm - top.tempo) <= top.tempo * TEMPO_MAP_AGREEMENT_TOLERANCE).length;
+    agreement = agreeing / tempoMap.length;
+  }
+
+  const confidence = Math.sqrt(Math.max(0, top.alignment)) * (0.4 + 0.6 * separation) * (0.5 + 0.5 * agreement);
+  return Math.max(0, Math.min(1, confidence));
+};
+
+/** Mono, downsampled and normalised audio: the input to every later stage. */
+export interface PreparedAudio {
+  normalized: Float32Array;
+  /** Seconds to add to positions in `normalized` to land on the original timeline. */
+  timelineOffset: number;
+}
+
+/** Builds a PreparedAudio from PCM that arrives a block at a time. */
+export interface AudioPreparer {
+  /** Mixes down and downsamples the first `frames` frames of each channel. */
+  push: (channels: Float32Array[], frames?: number) => void;
+  finish: () => PreparedAudio;
+}
+
+/**
+ * The streaming form of `mixDownToMono` followed by `downsampleBuffer`, with
+ * the same rounding, so only the analysis-rate signal is ever held in full.
+ * @param totalFrames - Length of the whole input; extra frames are ignored.
+ */
+export const createAudioPreparer = (sampleRate: number, totalFrames: number): AudioPreparer => {
+  const ratio = sampleRate / TARGET_SAMPLE_RATE;
+  const decimating = ratio > 1;
+  const output = new Float32Array(decimating ? Math.floor(totalFrames / ratio) : totalFrames);
+  let frame = 0;
+  let written = 0;
+  let bucketEnd = Math.floor(ratio);
+  let sum = 0;
+  let count = 0;
+
+  const push = (channels: Float32Array[], frames = channels[0]?.length ?? 0) => {
+    const channelCount = channels.length;
+    for (let f = 0; f < frames && frame < totalFrames; f++, frame++) {
+      let mono = channels[0][f];
+      if (channelCount > 1) {
+        // Float32 accumulation, as in mixDownToMono.
+        for (let c = 1; c < channelCount; c++) mono = Math.fround(mono + channels[c][f]);
+        mono = Math.fround(mono / channelCount);
+      }
+      if (!decimating) {
+        output[written++] = mono;
+        continue;
+      }
+      sum += mono;
+      count++;
+      if (frame + 1 === bucketEnd) {
+        if (written < output.length) output[written++] = sum / count;
+        sum = 0;
+        count = 0;
+        bucketEnd = Math.floor((written + 1) * ratio);
+      }
+    }
+  };
+
+  const finish = (): PreparedAudio => {
+    const normalized = normalize(written < output.length ? output.slice(0, written) : output);
+    // Downsampling drops the fractional tail; shift peaks back onto the original timeline.
+    const timelineOffset = frame / sampleRate - normalized.length / TARGET_SAMPLE_RATE;
+    return { normalized, timelineOffset };
+  };
+
+  return { push, finish };
+};
+
+export const prepareAudio = (input: AudioInput): PreparedAudio => {
+  const { channels, sampleRate } = input;
+  const preparer = createAudioPreparer(sampleRate, channels[0]?.length ?? 0);
+  preparer.push(channels);
+  return preparer.finish();
+};
+
+/** Everything in an AnalysisResult that comes from the whole-track pass. */
+export type TrackAnalysis = Omit<AnalysisResult, 'confidence' | 'tempoVariability' | 'tempoMap'>;
+
+/** A stretch of the normalised signal, in samples. */
+export interface TrackSpan {
+  start: number;
+  end: number;
+}
+
+/** What a span contributes to the onset signals and the key. */
+export interface SpanOnsets {
+  /** The envelope method's peak and onset signals over the span. */
+  peakSignal?: Float32Array;
+  onsetSignal?: Float32Array;
+  /** Spectral flux's raw per-band flux of the STFT frames that start in the span. */
+  bandFlux?: Float32Array[];
+  onsetDelaySeconds: number;
+  /** Summed chroma of the key frames that start in the span. */
+  chroma: number[];
+}
+
+/** A span's share of the autocorrelation sums and of the beat tracker's frame totals. */
+export interface SpanLagSums {
+  sums: Float64Array;
+  frames: FrameStats;
+}
+
+/**
+ * One task of the whole-track pass. Each works on a copy of the part of the
+ * signal it needs, so the tasks can run on any worker in any order.
+ */
+export type TrackTask =
+  | { type: 'spanOnsets'; samples: Float32Array; offset: number; span: TrackSpan; length: number; method: OnsetMethod }
+  | { type: 'lagSums'; onset: Float32Array; spanLength: number; maxLag: number }
+  | { type: 'beatPath'; onset: Float32Array; offset: number; bpm: number; stdDev: number }
+  | { type: 'meter'; onset: Float32Array; bpm: number }
+  | { type: 'barFeatures'; samples: Float32Array; offset: number; barTimes: number[]; end: number };
+
+/** What each track task type resolves to. */
+export interface TrackTaskResults {
+  spanOnsets: SpanOnsets;
+  lagSums: SpanLagSums;
+  beatPath: BeatPath;
+  meter: MeterInfo | null;
+  barFeatures: BarFeatures[];
+}
+
+/**
+ * Runs a track task, building it only once it is about to start. Anything in
+ * `transfer` may be moved to another thread.
+ */
+export type TrackTaskRunner = <T extends TrackTask>(build: () => { task: T; transfer: Transferable[] }) => Promise<TrackTaskResults[T['type']]>;
+
+/** Splits a signal `length` samples long into the spans the whole-track pass works on. */
+export const getTrackSpans = (length: number): TrackSpan[] => {
+  const spans: TrackSpan[] = [];
+  for (let start = 0; start < length; start += TRACK_SPAN_SAMPLES) {
+    spans.push({ start, end: Math.min(length, start + TRACK_SPAN_SAMPLES) });
+  }
+  return spans;
+};
+
+/** The frames, `hop` samples apart, that start inside a span. */
+const getFramesInSpan = ({ hop, count }: { hop: number; count: number }, span: TrackSpan) => ({
+  first: Math.min(count, Math.ceil(span.start / hop)),
+  end: Math.min(count, Math.ceil(span.end / hop)),
+});
+
+/**
+ * Computes a span's onset signals, or its raw spectral flux, and its chroma.
+ * @param samples - The signal from sample `offset` on, covering the span and SPAN_CONTEXT_SAMPLES either side.
+ * @param length - Length of the whole signal.
+ */
+export const analyseSpanOnsets = (samples: Float32Array, offset: number, span: TrackSpan, length: number, method: OnsetMethod): SpanOnsets => {
+  const chromaFrames = getChromaFrames(length);
+  const keyFrames = getFramesInSpan(chromaFrames, span);
+  const chroma = sumChroma(samples, TARGET_SAMPLE_RATE, chromaFrames.hop, keyFrames.first, keyFrames.end, offset);
+
+  if (method === 'spectralFlux') {
+    const fluxFrames = getFramesInSpan(getFluxFrames(length), span);
+    const bandFlux = computeBandFlux(samples, TARGET_SAMPLE_RATE, fluxFrames.first, fluxFrames.end, offset);
+    return { bandFlux, onsetDelaySeconds: 0, chroma };
+  }
+  // The envelope's smoothers are trailing moving averages, settled long before the span starts.
+  const { peakSignal, onsetSignal, onsetDelaySeconds } = envelopeOnset(samples, TARGET_SAMPLE_RATE);
+  return {
+    peakSignal: peakSignal.slice(span.start - offset, span.end - offset),
+    onsetSignal: onsetSignal.slice(span.start - offset, span.end - offset),
+    onsetDelaySeconds,
+    chroma,
+  };
+};
+
+const concatenate = (parts: Float32Array[]): Float32Array => {
+  const result = new Float32Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+};
+
+/** Joins the spans' onset parts, in span order, into the whole track's onset function. */
+export const mergeSpanOnsets = (parts: SpanOnsets[], length: number, method: OnsetMethod): OnsetFunction => {
+  const onsetDelaySeconds = parts[0]?.onsetDelaySeconds ?? 0;
+  if (method === 'spectralFlux') {
+    const bandFlux = (parts[0]?.bandFlux ?? []).map((_, band) => concatenate(parts.map(part => part.bandFlux?.[band] ?? new Float32Array(0))));
+    const signal = combineBandFlux(bandFlux, length);
+    return { peakSignal: signal, onsetSignal: signal, onsetDelaySeconds };
+  }
+  return {
+    peakSignal: concatenate(parts.map(part => part.peakSignal ?? new Float32Array(0))),
+    onsetSignal: concatenate(parts.map(part => part.onsetSignal ?? new Float32Array(0))),
+    onsetDelaySeconds,
+  };
+};
+
+/**
+ * A span's share of the autocorrelation sums: `Σ x[i]·x[i + lag]` over the
+ * span's samples only, as the sums over the span plus what follows it, less
+ * the sums over what follows it.
+ * @param onset - The onset signal from the start of the span to `maxLag` samples past its end, or the end of the track.
+ */
+export const computeSpanLagSums = (onset: Float32Array, spanLength: number, maxLag: number): SpanLagSums => {
+  const sums = new Float64Array(maxLag + 1);
+  const withTail = autocorrelation(onset, maxLag);
+  const tail = autocorrelation(onset.subarray(spanLength), maxLag);
+  for (let lag = 0; lag < withTail.length; lag++) {
+    sums[lag] = withTail[lag] - (lag < tail.length ? tail[lag] : 0);
+  }
+  return { sums, frames: getFrameStats(onset.subarray(0, spanLength)) };
+};
+
+/**
+ * Splits the bars into runs holding about a span's worth of audio.
+ * @returns Bar index ranges, `first` to `end - 1`.
+ */
+const getBarGroups = (barTimes: number[], duration: number): { first: number; end: number }[] => {
+  const groups: { first: number; end: number }[] = [];
+  let first = 0;
+  for (let end = 1; end <= barTimes.length; end++) {
+    const time = end < barTimes.length ? barTimes[end] : duration;
+    if (end === barTimes.length || (time - barTimes[first]) * TARGET_SAMPLE_RATE >= TRACK_SPAN_SAMPLES) {
+      groups.push({ first, end });
+      first = end;
+    }
+  }
+  return groups;
+};
+
+/** Runs a track task on the calling thread. */
+export const runTrackTask = (task: TrackTask): TrackTaskResults[TrackTask['type']] => {
+  switch (task.type) {
+    case 'spanOnsets':
+      return analyseSpanOnsets(task.samples, task.offset, task.span, task.length, task.method);
+    case 'lagSums':
+      return computeSpanLagSums(task.onset, task.spanLength, task.maxLag);
+    case 'beatPath':
+      return trackBeatPath(task.onset, TARGET_SAMPLE_RATE, task.bpm, task.stdDev, task.offset);
+    case 'meter':
+      return detectMeter(task.onset, TARGET_SAMPLE_RATE, task.bpm);
+    case 'barFeatures':
+      return computeBarFeatures(task.samples, TARGET_SAMPLE_RATE, task.barTimes, task.end, task.offset);
+  }
+};
+
+const runTrackTaskInline: TrackTaskRunner = async <T extends TrackTask>(build: () => { task: T }) =>
+  runTrackTask(build().task) as TrackTaskResults[T['type']];
+
+/**
+ * Runs the pipeline on the whole signal, tracks beats and meter at its top
+ * tempo, estimates the key and segments the track into sections.
+ *
+ * The work is split into spans of the signal and handed to `run` a stage at a
+ * time, with only the joins between stages done here: onsets and chroma per
+ * span, then each span's share of the autocorrelation sums, then beats over
+ * overlapping spans (joined on a beat they share) alongside the meter, then
+ * bar features over runs of bars.
+ * @param run - Where the tasks run; by default one after another on this thread.
+ */
+export const analyseTrack = async (
+  prepared: PreparedAudio,
+  options: AnalysisOptions = DEFAULT_ANALYSIS_OPTIONS,
+  onProgress?: ProgressCallback,
+  run: TrackTaskRunner = runTrackTaskInline,
+): Promise<TrackAnalysis> => {
+  const { normalized, timelineOffset } = prepared;
+  const { length } = normalized;
+  const spans = getTrackSpans(length);
+
+  onProgress?.({ stage: 'onsets', progress: STAGE_PROGRESS.onsets });
+  const spanOnsets = await Promise.all(spans.map(span => run(() => {
+    const offset = Math.max(0, span.start - SPAN_CONTEXT_SAMPLES);
+    const samples = normalized.slice(offset, Math.min(length, span.end + SPAN_CONTEXT_SAMPLES));
+    return { task: { type: 'spanOnsets' as const, samples, offset, span, length, method: options.onsetMethod }, transfer: [samples.buffer] };
+  })));
+  const onsets = mergeSpanOnsets(spanOnsets, length, options.onsetMethod);
+  const chroma = spanOnsets.reduce((sum, part) => sum.map((value, pc) => value + part.chroma[pc]), new Array(12).fill(0));
+  const key = detectKeyFromChroma(normaliseChroma(chroma));
+
+  onProgress?.({ stage: 'autocorrelation', progress: STAGE_PROGRESS.autocorrelation });
+  const maxLag = Math.max(0, getLagRange(length, TARGET_SAMPLE_RATE, options).maxLag);
+  const spanLagSums = await Promise.all(spans.map(span => run(() => {
+    const onset = onsets.onsetSignal.slice(span.start, Math.min(length, span.end + maxLag));
+    return { task: { type: 'lagSums' as const, onset, spanLength: span.end - span.start, maxLag }, transfer: [onset.buffer] };
+  })));
+  const lagSums = new Float64Array(maxLag + 1);
+  const frameStats: FrameStats = { count: 0, sum: 0, sumSquares: 0 };
+  for (const { sums, frames } of spanLagSums) {
+    sums.forEach((sum, lag) => { lagSums[lag] += sum; });
+    frameStats.count += frames.count;
+    frameStats.sum += frames.sum;
+    frameStats.sumSquares += frames.sumSquares;
+  }
+  const audialCandidates = tempoEvidenceFromLagSums(lagSums, length, TARGET_SAMPLE_RATE, options);
+  const overallResult = scoreTempoEvidence(onsets, audialCandidates, TARGET_SAMPLE_RATE, options);
+
+  let meter: MeterInfo | null = null;
+  let beats: number[] = [];
+  if (overallResult.candidates.length > 0) {
+    onProgress?.({ stage: 'beats', progress: STAGE_PROGRESS.beats });
+    const bpm = overallResult.candidates[0].tempo;
+    const stdDev = getFrameStdDev(frameStats);
+    const meterTask = run(() => {
+      const onset = onsets.onsetSignal.slice();
+      return { task: { type: 'meter' as const, onset, bpm }, transfer: [onset.buffer] };
+    });
+    const paths = await Promise.all(spans.map(span => run(() => {
+      const offset = Math.max(0, span.start - BEAT_OVERLAP_SAMPLES);
+      const onset = onsets.onsetSignal.slice(offset, Math.min(length, span.end + BEAT_OVERLAP_SAMPLES));
+      return { task: { type: 'beatPath' as const, onset, offset, bpm, stdDev }, transfer: [onset.buffer] };
+    })));
+    beats = finishBeatPath(stitchBeatPaths(paths, spans.slice(1).map(span => span.start)), TARGET_SAMPLE_RATE);
+    meter = await meterTask;
+  }
+
+  const onsetOffset = timelineOffset - overallResult.onsetDelaySeconds;
+  const duration = length / TARGET_SAMPLE_RATE + timelineOffset;
+
+  let sections: StructureSection[] = [];
+  if (beats.length > 0) {
+    onProgress?.({ stage: 'structure', progress: STAGE_PROGRESS.structure });
+    const barTimes = computeBarTimes(beats, meter?.beatsPerBar ?? 0, meter?.firstDownbeat ?? beats[0]);
+    const signalDuration = length / TARGET_SAMPLE_RATE;
+    const features = await Promise.all(getBarGroups(barTimes, signalDuration).map(({ first, end }) => run(() => {
+      const endTime = end < barTimes.length ? barTimes[end] : signalDuration;
+      const offset = Math.max(0, Math.floor(barTimes[first] * TARGET_SAMPLE_RATE));
+      const samples = normalized.slice(offset, Math.max(offset, Math.min(length, Math.floor(endTime * TARGET_SAMPLE_RATE))));
+      return {
+        task: { type: 'barFeatures' as const, samples, offset, barTimes: barTimes.slice(first, end), end: endTime },
+        transfer: [samples.buffer],
+      };
+    })));
+    sections = segmentBarFeatures(features.flat(), barTimes, signalDuration).map((section, i, all) => ({
+      ...section,
+      start: i === 0 ? 0 : section.start + onsetOffset,
+      end: i === all.length - 1 ? duration : section.end + onsetOffset,
+    }));
+  }
+
+  return {
+    candidates: overallResult.candidates,
+    octaveAmbiguity: findOctaveAmbiguity(overallResult.candidates, options),
+    peaks: overallResult.peaks.map(p => p + timelineOffset),
+    meter: meter && {
+      ...meter,
+      firstDownbeat: meter.firstDownbeat + onsetOffset,
+      downbeats: meter.downbeats.map(d => d + onsetOffset),
+    },
+    beats: beats.map(b => b + onsetOffset).filter(b => b >= 0),
+    key,
+    sections,
+  };
+};
+
+/** Combines the whole-track pass with the chunk readings into the final result. */
+export const completeAnalysis = (track: TrackAnalysis, windows: ChunkWindow[], readings: (ChunkReading | null)[]): AnalysisResult => {
+  const tempoMap = track.candidates.length > 0 ? assembleTempoMap(windows, readings, track.candidates[0].tempo) : [];
+  return {
+    ...track,
+    confidence: computeConfidence(track.candidates, tempoMap),
+    tempoVariability: summariseTempoMap(tempoMap),
+    tempoMap,
+  };
+};
+
+/**
+ * Moves every time in a result `seconds` later, to put the analysis of a
+ * region back on the whole track's timeline.
+ */
+export const offsetAnalysis = (result: AnalysisResult, seconds: number): AnalysisResult => ({
+  ...result,
+  peaks: result.peaks.map(p => p + seconds),
+  beats: result.beats.map(b => b + seconds),
+  meter: result.meter && {
+    ...result.meter,
+    firstDownbeat: result.meter.firstDownbeat + seconds,
+    downbeats: result.meter.downbeats.map(d => d + seconds),
+  },
+  sections: result.sections.map(section => ({ ...section, start: section.start + seconds, end: section.end + seconds })),
+  tempoMap: result.tempoMap.map(point => ({ ...point, time: point.time + seconds })),
+});
+
+/**
+ * Analyses a full track on the calling thread: mixes it to mono, downsamples
+ * it, and runs the pipeline on the whole signal and on overlapping chunks for
+ * the tempo map.
+ */
+export const analyse = async (
+  input: AudioInput,
+  options: AnalysisOptions = DEFAULT_ANALYSIS_OPTIONS,
+  onProgress?: ProgressCallback,
+): Promise<AnalysisResult> => {
+  const prepared = prepareAudio(input);
+  const track = await analyseTrack(prepared, options, onProgress);
+  const windows = track.candidates.length > 0 ? getChunkWindows(prepared.normalized.length) : [];
+  const readings = windows.map((window, i) => {
+    onProgress?.({
+      stage: 'chunks',
+      progress: STAGE_PROGRESS.chunks + (1 - STAGE_PROGRESS.chunks) * (i / windows.length),
+      chunk: i + 1,
+      totalChunks: windows.length,
+    });
+    return analyseChunk(prepared.normalized.subarray(window.start, window.end), options);
+  });
+  return completeAnalysis(track, windows, readings);
+};
@@ -0,0 +1,300 @@
+import type { BeatGridEdit, BeatInfo, MusicalKey, StructureSection } from '../types';
+import { findNearestBeatIndex, getSegmentTempo, timeAtBeat } from '../utils/beatGrid';
+
+/**
+ * The beat grid, tempo, key and cue points in the formats DJ software reads:
+ * rekordbox's collection XML, Traktor's NML, the binary payloads Serato keeps
+ * in a file's tags, and plain JSON and CSV beat lists for everything else.
+ */
+
+/** A point from which the grid runs on at a steady tempo, until the next marker. */
+export interface TempoMarker {
+  time: number; // seconds, always on a beat
+  bpm: number;
+  beat: number; // whole beats from the grid's first downbeat
+  beatInBar: number; // 1-based
+}
+
+export interface CuePoint {
+  time: number; // seconds
+  name: string;
+}
+
+export interface DjTrack {
+  fileName: string;
+  fileSize: number;
+  fileType: string | null; // e.g. "MP3"
+  title?: string;
+  artist?: string;
+  album?: string;
+  genre?: string;
+  duration: number;
+  bpm: number;
+  key: MusicalKey | null;
+  beatsPerBar: number; // 0 when the meter is unknown
+  markers: TempoMarker[];
+  cues: CuePoint[];
+  beats: number[];
+}
+
+export type DjExportFormat = 'rekordbox' | 'traktor' | 'serato' | 'json' | 'csv';
+
+// DJ software wants a bar length, so an unknown meter is taken as 4/4.
+const getBarLength = (beatsPerBar: number) => beatsPerBar > 0 ? beatsPerBar : 4;
+
+const getBeatInBar = (beat: number, beatsPerBar: number) => {
+  const length = getBarLength(beatsPerBar);
+  return (((beat % length) + length) % length) + 1;
+};
+
+// Neighbouring segments this close in tempo are one to a DJ app.
+const SAME_TEMPO_BPM = 0.005;
+
+/**
+ * The grid as tempo markers: one per tempo change, whether the grid was edited
+ * by hand or follows the tracked beats, so DJ software lands on the same beats
+ * the app shows.
+ */
+export const buildTempoMarkers = (beatInfo: BeatInfo, gridEdit: BeatGridEdit | null, bpm: number): TempoMarker[] => {
+  const { beats, beatsPerBar, firstDownbeat } = beatInfo;
+  if (gridEdit && gridEdit.anchors.length > 1) {
+    const { anchors } = gridEdit;
+    const markers: TempoMarker[] = [];
+    for (let i = 0; i < anchors.length - 1; i++) {
+      // Anchors can sit between beats after a half-time change; the marker goes on the next whole one.
+      const beat = Math.ceil(anchors[i].beat - 1e-6) || 0;
+      const tempo = getSegmentTempo(gridEdit, i);
+      const previous = markers[markers.length - 1];
+      if (beat >= anchors[i + 1].beat || (previous && Math.abs(previous.bpm - tempo) < SAME_TEMPO_BPM)) continue;
+      markers.push({ time: timeAtBeat(gridEdit, beat), bpm: tempo, beat, beatInBar: getBeatInBar(beat, beatsPerBar) });
+    }
+    return markers;
+  }
+  if (beats.length === 0 || bpm <= 0) return [];
+  const first = findNearestBeatIndex(beats, firstDownbeat);
+  if (first === beats.length - 1) return [{ time: beats[first], bpm, beat: 0, beatInBar: 1 }];
+
+  // From the first downbeat on, a new marker starts wherever the beat interval changes tempo.
+  const getIntervalTempo = (i: number) => 60 / (beats[i + 1] - beats[i]);
+  const markers: TempoMarker[] = [];
+  let start = first;
+  for (let i = first + 1; i < beats.length; i++) {
+    if (i < beats.length - 1 && Math.abs(getIntervalTempo(i) - getIntervalTempo(start)) < SAME_TEMPO_BPM) continue;
+    // Spread over the whole segment, so the next marker falls on its tracked beat.
+    const beat = start - first;
+    markers.push({ time: beats[start], bpm: (60 * (i - start)) / (beats[i] - beats[start]), beat, beatInBar: getBeatInBar(beat, beatsPerBar) });
+    start = i;
+  }
+  return markers;
+};
+
+/** A cue at the start of each section, led by one on the first downbeat when no section starts there. */
+export const buildCuePoints = (beatInfo: BeatInfo, sections: StructureSection[]): CuePoint[] => {
+  const cues = sections.map(section => ({
+    time: Math.max(0, section.start),
+    name: section.label.charAt(0).toUpperCase() + section.label.slice(1),
+  }));
+  if (beatInfo.beats.length > 0 && (cues.length === 0 || cues[0].time - beatInfo.firstDownbeat > 0.05)) {
+    cues.unshift({ time: beatInfo.firstDownbeat, name: 'First downbeat' });
+  }
+  return cues;
+};
+
+// Both apps have eight hot cues; any further cues are kept as memory cues.
+const HOT_CUES = 8;
+
+const escapeXml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&apos;');
+
+const attributes = (values: Record<string, string | number | undefined>): string =>
+  Object.entries(values)
+    .filter(([, value]) => value !== undefined)
+    .map(([name, value]) => `${name}="${escapeXml(String(value))}"`)
+    .join(' ');
+
+// rekordbox writes sharps and "m" for minor; Traktor numbers keys C = 0 to B = 11, then Cm = 12 to Bm = 23.
+const PITCH_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+const getKeyShortName = (key: MusicalKey) => `${PITCH_NAMES[key.tonic]}${key.mode === 'minor' ? 'm' : ''}`;
+const getTraktorKeyValue = (key: MusicalKey) => key.tonic + (key.mode === 'minor' ? 12 : 0);
+
+/**
+ * A rekordbox collection XML holding just this track. Browsers don't reveal
+ * where a file lives, so its location is only the file name and rekordbox
+ * will ask for it to be relocated after import.
+ */
+export const toRekordboxXml = (track: DjTrack): string => {
+  const barLength = getBarLength(track.beatsPerBar);
+  const trackAttributes = attributes({
+    TrackID: 1,
+    Name: track.title ?? track.fileName,
+    Artist: track.artist ?? '',
+    Album: track.album ?? '',
+    Genre: track.genre ?? '',
+    Kind: track.fileType ? `${track.fileType} File` : undefined,
+    Size: track.fileSize,
+    TotalTime: Math.round(track.duration),
+    AverageBpm: track.bpm.toFixed(2),
+    Tonality: track.key ? getKeyShortName(track.key) : undefined,
+    Location: `file://localhost/${encodeURIComponent(track.fileName)}`,
+  });
+  const tempos = track.markers.map(marker =>
+    `      <TEMPO ${attributes({ Inizio: marker.time.toFixed(3), Bpm: marker.bpm.toFixed(2), Metro: `${barLength}/4`, Battito: marker.beatInBar })}/>`);
+  const marks = track.cues.map((cue, i) =>
+    `      <POSITION_MARK ${attributes({ Name: cue.name, Type: 0, Start: cue.time.toFixed(3), Num: i < HOT_CUES ? i : -1 })}/>`);
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<DJ_PLAYLISTS Version="1.0.0">',
+    '  <PRODUCT Name="ybcbpm" Version="1.0" Company=""/>',
+    '  <COLLECTION Entries="1">',
+    `    <TRACK ${trackAttributes}>`,
+    ...tempos,
+    ...marks,
+    '    </TRACK>',
+    '  </COLLECTION>',
+    '  <PLAYLISTS>',
+    '    <NODE Type="0" Name="ROOT" Count="0"/>',
+    '  </PLAYLISTS>',
+    '</DJ_PLAYLISTS>',
+    '',
+  ].join('\n');
+};
+
+// Traktor cue types
+const TRAKTOR_CUE = 0;
+const TRAKTOR_GRID = 4;
+
+/**
+ * A Traktor collection (NML) holding just this track, with a grid marker per
+ * tempo marker. Traktor keeps one tempo per track, so a changing grid's
+ * markers realign the beat but its tempo is the track's overall BPM.
+ */
+export const toTraktorNml = (track: DjTrack, modified = new Date()): string => {
+  const date = `${modified.getFullYear()}/${modified.getMonth() + 1}/${modified.getDate()}`;
+  const toMs = (seconds: number) => (seconds * 1000).toFixed(6);
+  const cueLines = [
+    ...track.markers.map((marker, i) =>
+      `      <CUE_V2 ${attributes({ NAME: i === 0 ? 'AutoGrid' : `Grid ${i + 1}`, DISPL_ORDER: 0, TYPE: TRAKTOR_GRID, START: toMs(marker.time), LEN: '0.000000', REPEATS: -1, HOTCUE: -1 })}></CUE_V2>`),
+    ...track.cues.map((cue, i) =>
+      `      <CUE_V2 ${attributes({ NAME: cue.name, DISPL_ORDER: 0, TYPE: TRAKTOR_CUE, START: toMs(cue.time), LEN: '0.000000', REPEATS: -1, HOTCUE: i < HOT_CUES ? i : -1 })}></CUE_V2>`),
+  ];
+  return [
+    '<?xml version="1.0" encoding="UTF-8" standalone="no" ?>',
+    '<NML VERSION="19">',
+    '  <HEAD COMPANY="www.native-instruments.com" PROGRAM="Traktor"></HEAD>',
+    '  <COLLECTION ENTRIES="1">',
+    `    <ENTRY ${attributes({ MODIFIED_DATE: date, TITLE: track.title ?? track.fileName, ARTIST: track.artist })}>`,
+    `      <LOCATION ${attributes({ DIR: '', FILE: track.fileName, VOLUME: '', VOLUMEID: '' })}></LOCATION>`,
+    track.album ? `      <ALBUM ${attributes({ TITLE: track.album })}></ALBUM>` : null,
+    `      <INFO ${attributes({
+      FILESIZE: Math.round(track.fileSize / 1024),
+      PLAYTIME: Math.round(track.duration),
+      PLAYTIME_FLOAT: track.duration.toFixed(6),
+      GENRE: track.genre,
+      KEY: track.key ? getKeyShortName(track.key) : undefined,
+    })}></INFO>`,
+    `      <TEMPO ${attributes({ BPM: track.bpm.toFixed(6), BPM_QUALITY: '100.000000' })}></TEMPO>`,
+    track.key ? `      <MUSICAL_KEY ${attributes({ VALUE: getTraktorKeyValue(track.key) })}></MUSICAL_KEY>` : null,
+    ...cueLines,
+    '    </ENTRY>',
+    '  </COLLECTION>',
+    '</NML>',
+    '',
+  ].filter((line): line is string => line !== null).join('\n');
+};
+
+/**
+ * Serato's "Serato BeatGrid" object: every marker but the last gives its
+ * position and the beats to the next marker, and the last gives its tempo.
+ * All numbers are big-endian.
+ */
+export const toSeratoBeatGrid = (markers: TempoMarker[]): Uint8Array => {
+  const view = new DataView(new ArrayBuffer(2 + 4 + markers.length * 8 + 1));
+  view.setUint8(0, 0x01); // version
+  view.setUint8(1, 0x00);
+  view.setUint32(2, markers.length);
+  markers.forEach((marker, i) => {
+    const offset = 6 + i * 8;
+    view.setFloat32(offset, marker.time);
+    if (i < markers.length - 1) {
+      view.setUint32(offset + 4, markers[i + 1].beat - marker.beat);
+    } else {
+      view.setFloat32(offset + 4, marker.bpm);
+    }
+  });
+  return new Uint8Array(view.buffer); // ends with a zero footer byte
+};
+
+// Serato's hot cue colours, in slot order.
+const SERATO_CUE_COLORS = [0xcc0000, 0xcc8800, 0x0000cc, 0xcccc00, 0x00cc00, 0xcc00cc, 0x00cccc, 0x8800cc];
+// Serato pads its markers object to at least this many bytes.
+const SERATO_MARKERS_MIN_BYTES = 470;
+
+const encodeSeratoEntry = (type: string, data: number[]): number[] => {
+  const length = data.length;
+  return [...Array.from(type, char => char.charCodeAt(0)), 0, (length >>> 24) & 0xff, (length >>> 16) & 0xff, (length >>> 8) & 0xff, length & 0xff, ...data];
+};
+
+/**
+ * Serato's "Serato Markers2" object with a hot cue per cue point (Serato has
+ * eight). The entries are base64-encoded, without padding and broken into
+ * 72-character lines, behind a two-byte version header, as Serato writes them.
+ */
+export const toSeratoMarkers2 = (cues: CuePoint[]): Uint8Array => {
+  const entries: number[] = [0x01, 0x01];
+  cues.slice(0, HOT_CUES).forEach((cue, i) => {
+    const ms = Math.round(cue.time * 1000);
+    const color = SERATO_CUE_COLORS[i];
+    const name = Array.from(new TextEncoder().encode(cue.name));
+    entries.push(...encodeSeratoEntry('CUE', [
+      0x00, i,
+      (ms >>> 24) & 0xff, (ms >>> 16) & 0xff, (ms >>> 8) & 0xff, ms & 0xff,
+      0x00, (color >> 16) & 0xff, (color >> 8) & 0xff, color & 0xff,
+      0x00, 0x00,
+      ...name, 0x00,
+    ]));
+  });
+  entries.push(...encodeSeratoEntry('BPMLOCK', [0x00]));
+  entries.push(0x00);
+
+  const base64 = btoa(String.fromCharCode(...entries)).replace(/=+$/, '');
+  const lines = base64.match(/.{1,72}/g) ?? [];
+  const text = lines.join('\n');
+  const out = new Uint8Array(Math.max(SERATO_MARKERS_MIN_BYTES, 2 + text.length + 1));
+  out.set([0x01, 0x01], 0);
+  for (let i = 0; i < text.length; i++) out[2 + i] = text.charCodeAt(i);
+  return out; // the rest is zero padding
+};
+
+const round = (value: number, places = 4) => Number(value.toFixed(places));
+
+/** Everything exported, as JSON, for scripts and tools without a format of their own. */
+export const toBeatListJson = (track: DjTrack): string =>
+  JSON.stringify({
+    format: 'ybcbpm-beat-grid',
+    version: 1,
+    track: { fileName: track.fileName, title: track.title, artist: track.artist, duration: round(track.duration, 3) },
+    bpm: round(track.bpm, 3),
+    key: track.key ? { name: track.key.name, camelot: track.key.camelot } : null,
+    beatsPerBar: track.beatsPerBar || null,
+    tempoMarkers: track.markers.map(marker => ({ ...marker, time: round(marker.time), bpm: round(marker.bpm, 3) })),
+    cues: track.cues.map(cue => ({ ...cue, time: round(cue.time) })),
+    beats: track.beats.map(beat => round(beat)),
+  }, null, 2);
+
+/**
+ * One row per beat: its number, bar and place in the bar (bars counted from
+ * the first downbeat, so beats before it fall in bar 0), its time, and the
+ * tempo to the next beat.
+ */
+export const toBeatListCsv = (track: DjTrack): string => {
+  const { beats } = track;
+  const barLength = getBarLength(track.beatsPerBar);
+  const downbeatIndex = track.markers.length > 0 ? findNearestBeatIndex(beats, track.markers[0].time) - track.markers[0].beat : 0;
+  const rows = beats.map((time, i) => {
+    const beat = i - downbeatIndex;
+    const next = beats[i + 1] ?? null;
+    const bpm = next !== null ? (60 / (next - time)).toFixed(3) : '';
+    return [i + 1, Math.floor(beat / barLength) + 1, getBeatInBar(beat, track.beatsPerBar), time.toFixed(4), bpm].join(',');
+  });
+  return ['beat,bar,beat_in_bar,time_seconds,bpm', ...rows, ''].join('\n');
+};
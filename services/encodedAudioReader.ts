@@ -0,0 +1,709 @@
+/**
+ * Finds the compressed frames in MP3, FLAC and AAC (MP4/M4A) files straight
+ * off the Blob, a block at a time, and decodes them with WebCodecs'
+ * AudioDecoder, so neither the file nor its decoded PCM has to sit in memory
+ * whole. The counterpart of wavReader for compressed formats; anything else
+ * still goes through `decodeAudioData`.
+ */
+
+export type EncodedContainer = 'mp3' | 'flac' | 'mp4';
+
+export interface EncodedAudioFormat {
+  container: EncodedContainer;
+  /** What to configure the AudioDecoder with. */
+  config: AudioDecoderConfig;
+  sampleRate: number;
+  channels: number;
+  /** Decoded length in frames at `sampleRate`, after any skipped priming. */
+  frames: number;
+  /** Encoder priming at the start of the decoded audio, which is dropped to keep times in line with `decodeAudioData`. */
+  skipFrames: number;
+  /** Where the first audio frame starts (MP3 and FLAC). */
+  dataOffset: number;
+}
+
+/** One compressed frame (or MP4 sample), ready for an EncodedAudioChunk. */
+export interface EncodedFrame {
+  data: Uint8Array;
+  /** Start of the frame in microseconds, as WebCodecs counts time. */
+  timestamp: number;
+}
+
+const READ_BLOCK_BYTES = 1 << 20;
+// Decoded blocks waiting in the AudioDecoder before we stop feeding it.
+const MAX_QUEUED_FRAMES = 64;
+const MICROSECONDS = 1_000_000;
+
+/**
+ * Random access to a Blob through one buffered block, refilled whenever a
+ * range outside it is asked for. Reads mostly move forwards, so each byte is
+ * usually read from disk once.
+ */
+const createBlobCursor = (blob: Blob) => {
+  let buffer = new Uint8Array(0);
+  let bufferStart = 0;
+
+  const covers = (offset: number, length: number): boolean =>
+    offset >= bufferStart && offset + length <= bufferStart + buffer.length;
+
+  /** Makes [offset, offset + length) available; false if the Blob ends first. */
+  const load = async (offset: number, length: number): Promise<boolean> => {
+    if (offset + length > blob.size) return false;
+    if (covers(offset, length)) return true;
+    buffer = new Uint8Array(await blob.slice(offset, offset + Math.max(READ_BLOCK_BYTES, length)).arrayBuffer());
+    bufferStart = offset;
+    return true;
+  };
+
+  /** Bytes from a range `load` has made available; a view, not a copy. */
+  const bytes = (offset: number, length: number): Uint8Array => buffer.subarray(offset - bufferStart, offset - bufferStart + length);
+
+  return { covers, load, bytes };
+};
+
+const fourCC = (bytes: Uint8Array, offset = 0): string =>
+  String.fromCharCode(bytes[offset], bytes[offset + 1], bytes[offset + 2], bytes[offset + 3]);
+
+const readUint32 = (bytes: Uint8Array, offset: number): number =>
+  ((bytes[offset] << 24) | (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]) >>> 0;
+
+/** Length of any ID3v2 tag at `offset`, which MP3 and some FLAC files start with. */
+const getId3Length = (head: Uint8Array): number =>
+  head.length >= 10 && fourCC(head).startsWith('ID3')
+    ? 10 + ((head[6] << 21) | (head[7] << 14) | (head[8] << 7) | head[9]) + (head[5] & 0x10 ? 10 : 0)
+    : 0;
+
+// --- MP3 ---
+
+const MP3_BITRATES_MPEG1 = [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320];
+const MP3_BITRATES_MPEG2 = [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160];
+const MP3_SAMPLE_RATES = [44100, 48000, 32000];
+// How far the first frame may sit past the tags before we stop looking.
+const MP3_SYNC_SEARCH_BYTES = 64 * 1024;
+// The decoder's own delay, which encoders' priming figures leave out.
+const MP3_DECODER_DELAY = 529;
+
+interface Mp3FrameHeader {
+  frameLength: number;
+  samples: number;
+  sampleRate: number;
+  channels: number;
+  mpeg1: boolean;
+}
+
+/** Parses a Layer III frame header; null for anything else, including free-format bitrates. */
+const parseMp3Header = (bytes: Uint8Array, offset: number): Mp3FrameHeader | null => {
+  if (bytes[offset] !== 0xff || (bytes[offset + 1] & 0xe0) !== 0xe0) return null;
+  const version = (bytes[offset + 1] >> 3) & 3; // 0 = MPEG 2.5, 2 = MPEG 2, 3 = MPEG 1
+  const layer = (bytes[offset + 1] >> 1) & 3; // 1 = Layer III
+  const bitrateIndex = bytes[offset + 2] >> 4;
+  const rateIndex = (bytes[offset + 2] >> 2) & 3;
+  if (version === 1 || layer !== 1 || bitrateIndex === 0 || bitrateIndex === 15 || rateIndex === 3) return null;
+
+  const mpeg1 = version === 3;
+  const bitrate = (mpeg1 ? MP3_BITRATES_MPEG1 : MP3_BITRATES_MPEG2)[bitrateIndex] * 1000;
+  const sampleRate = MP3_SAMPLE_RATES[rateIndex] / (mpeg1 ? 1 : version === 2 ? 2 : 4);
+  const samples = mpeg1 ? 1152 : 576;
+  const padding = (bytes[offset + 2] >> 1) & 1;
+  return {
+    frameLength: Math.floor(((samples / 8) * bitrate) / sampleRate) + padding,
+    samples,
+    sampleRate,
+    channels: bytes[offset + 3] >> 6 === 3 ? 1 : 2,
+    mpeg1,
+  };
+};
+
+/** A frame header at `offset` followed by another with the same sample rate. */
+const findConfirmedMp3Header = async (cursor: ReturnType<typeof createBlobCursor>, offset: number): Promise<Mp3FrameHeader | null> => {
+  if (!(await cursor.load(offset, 4))) return null;
+  const header = parseMp3Header(cursor.bytes(offset, 4), 0);
+  if (!header) return null;
+  const next = offset + header.frameLength;
+  if (!(await cursor.load(next, 4))) return header; // the last frame in the file
+  const following = parseMp3Header(cursor.bytes(next, 4), 0);
+  return following && following.sampleRate === header.sampleRate ? header : null;
+};
+
+/**
+ * Reads the Xing/Info header LAME and most encoders put in the first frame:
+ * the frame count and, from the LAME extension, the priming and padding.
+ */
+const readXingHeader = (frame: Uint8Array, header: Mp3FrameHeader): { frames: number; delay: number; padding: number } | null => {
+  const sideInfo = header.mpeg1 ? (header.channels === 1 ? 17 : 32) : (header.channels === 1 ? 9 : 17);
+  let offset = 4 + sideInfo;
+  const id = fourCC(frame, offset);
+  if (id !== 'Xing' && id !== 'Info') return null;
+  const flags = readUint32(frame, offset + 4);
+  offset += 8;
+  if (!(flags & 1)) return null;
+  const frames = readUint32(frame, offset);
+  offset += 4 + (flags & 2 ? 4 : 0) + (flags & 4 ? 100 : 0) + (flags & 8 ? 4 : 0);
+  // The LAME extension: a 9-character encoder name, then the delay and padding 21 bytes in.
+  let delay = 0;
+  let padding = 0;
+  if (offset + 24 <= frame.length && /^(LAME|Lavf|Lavc)/.test(String.fromCharCode(...frame.subarray(offset, offset + 4)))) {
+    delay = (frame[offset + 21] << 4) | (frame[offset + 22] >> 4);
+    padding = ((frame[offset + 22] & 0x0f) << 8) | frame[offset + 23];
+  }
+  return { frames, delay, padding };
+};
+
+/**
+ * Calls `onFrame` for every Layer III frame from `start` on, skipping junk
+ * (a trailing ID3v1 tag, damaged bytes) until frames line up again.
+ */
+const walkMp3Frames = async (
+  blob: Blob,
+  start: number,
+  sampleRate: number,
+  onFrame: (frame: Uint8Array, header: Mp3FrameHeader) => void | Promise<void>,
+  onProgress?: (fraction: number) => void,
+) => {
+  const cursor = createBlobCursor(blob);
+  let offset = start;
+  let inSync = true;
+  let reported = start;
+  while (await cursor.load(offset, 4)) {
+    const header = inSync ? parseMp3Header(cursor.bytes(offset, 4), 0) : await findConfirmedMp3Header(cursor, offset);
+    if (!header || header.sampleRate !== sampleRate || !(await cursor.load(offset, header.frameLength))) {
+      inSync = false;
+      offset++;
+      continue;
+    }
+    inSync = true;
+    await onFrame(cursor.bytes(offset, header.frameLength), header);
+    offset += header.frameLength;
+    if (offset - reported >= READ_BLOCK_BYTES) {
+      reported = offset;
+      onProgress?.(offset / blob.size);
+    }
+  }
+};
+
+const readMp3Format = async (blob: Blob): Promise<EncodedAudioFormat | null> => {
+  const cursor = createBlobCursor(blob);
+  if (!(await cursor.load(0, Math.min(10, blob.size)))) return null;
+  let offset = getId3Length(cursor.bytes(0, 10));
+  const searchEnd = Math.min(blob.size, offset + MP3_SYNC_SEARCH_BYTES);
+  let header: Mp3FrameHeader | null = null;
+  for (; offset < searchEnd && !header; offset++) {
+    header = await findConfirmedMp3Header(cursor, offset);
+  }
+  if (!header) return null;
+  const first = offset - 1;
+
+  await cursor.load(first, header.frameLength);
+  const xing = readXingHeader(cursor.bytes(first, header.frameLength), header);
+  let dataOffset = first;
+  let frames: number;
+  let skipFrames = 0;
+  if (xing) {
+    // The Xing frame holds no audio of its own.
+    dataOffset = first + header.frameLength;
+    frames = xing.frames * header.samples;
+    if (xing.delay || xing.padding) {
+      skipFrames = xing.delay + MP3_DECODER_DELAY;
+      frames = Math.max(0, frames - xing.delay - xing.padding);
+    }
+  } else {
+    // Without a frame count, count the frames; only headers are looked at.
+    let count = 0;
+    await walkMp3Frames(blob, first, header.sampleRate, () => { count++; });
+    frames = count * header.samples;
+  }
+
+  return {
+    container: 'mp3',
+    config: { codec: 'mp3', sampleRate: header.sampleRate, numberOfChannels: header.channels },
+    sampleRate: header.sampleRate,
+    channels: header.channels,
+    frames,
+    skipFrames,
+    dataOffset,
+  };
+};
+
+const readMp3Frames = async (blob: Blob, format: EncodedAudioFormat, onFrame: (frame: EncodedFrame) => void | Promise<void>, onProgress?: (fraction: number) => void) => {
+  let samples = 0;
+  await walkMp3Frames(blob, format.dataOffset, format.sampleRate, async (data, header) => {
+    await onFrame({ data, timestamp: (samples / format.sampleRate) * MICROSECONDS });
+    samples += header.samples;
+  }, onProgress);
+};
+
+// --- FLAC ---
+
+const FLAC_STREAMINFO_BYTES = 34;
+const FLAC_SAMPLE_RATES = [0, 88200, 176400, 192000, 8000, 16000, 22050, 24000, 32000, 44100, 48000, 96000];
+
+const CRC8_TABLE = (() => {
+  const table = new Uint8Array(256);
+  for (let i = 0; i < 256; i++) {
+    let crc = i;
+    for (let bit = 0; bit < 8; bit++) crc = crc & 0x80 ? ((crc << 1) ^ 0x07) & 0xff : (crc << 1) & 0xff;
+    table[i] = crc;
+  }
+  return table;
+})();
+
+const CRC16_TABLE = (() => {
+  const table = new Uint16Array(256);
+  for (let i = 0; i < 256; i++) {
+    let crc = i << 8;
+    for (let bit = 0; bit < 8; bit++) crc = crc & 0x8000 ? ((crc << 1) ^ 0x8005) & 0xffff : (crc << 1) & 0xffff;
+    table[i] = crc;
+  }
+  return table;
+})();
+
+/**
+ * Checks the frame header at `offset` (sync code, reserved values and its
+ * CRC-8), which `bytes` must hold at least 16 bytes of.
+ * @returns The number of samples in the frame, or 0 if it isn't a frame header.
+ */
+const parseFlacFrameHeader = (bytes: Uint8Array, offset: number): number => {
+  if (bytes[offset] !== 0xff || (bytes[offset + 1] & 0xfe) !== 0xf8) return 0;
+  const blockSizeCode = bytes[offset + 2] >> 4;
+  const rateCode = bytes[offset + 2] & 0x0f;
+  if (blockSizeCode === 0 || rateCode === 15 || bytes[offset + 3] >> 4 >= 11 || bytes[offset + 3] & 1) return 0;
+
+  // The frame or sample number, UTF-8 style: leading ones give the byte count.
+  let position = offset + 4;
+  const lead = bytes[position];
+  let numberBytes = 1;
+  if (lead >= 0x80) {
+    if (lead < 0xc0 || lead >= 0xfe) return 0;
+    while ((lead << numberBytes) & 0x80) numberBytes++;
+  }
+  position += numberBytes;
+
+  let blockSize: number;
+  if (blockSizeCode === 1) blockSize = 192;
+  else if (blockSizeCode <= 5) blockSize = 576 << (blockSizeCode - 2);
+  else if (blockSizeCode === 6) blockSize = bytes[position++] + 1;
+  else if (blockSizeCode === 7) { blockSize = ((bytes[position] << 8) | bytes[position + 1]) + 1; position += 2; }
+  else blockSize = 256 << (blockSizeCode - 8);
+  if (rateCode === 12) position += 1;
+  else if (rateCode === 13 || rateCode === 14) position += 2;
+
+  let crc = 0;
+  for (let i = offset; i < position; i++) crc = CRC8_TABLE[crc ^ bytes[i]];
+  return crc === bytes[position] ? blockSize : 0;
+};
+
+const readFlacFormat = async (blob: Blob): Promise<EncodedAudioFormat | null> => {
+  const cursor = createBlobCursor(blob);
+  if (!(await cursor.load(0, Math.min(10, blob.size)))) return null;
+  const start = getId3Length(cursor.bytes(0, 10));
+  if (!(await cursor.load(start, 4)) || fourCC(cursor.bytes(start, 4)) !== 'fLaC') return null;
+
+  let streamInfo: Uint8Array | null = null;
+  let offset = start + 4;
+  for (let isLast = false; !isLast;) {
+    if (!(await cursor.load(offset, 4))) return null;
+    const header = cursor.bytes(offset, 4);
+    isLast = (header[0] & 0x80) !== 0;
+    const length = (header[1] << 16) | (header[2] << 8) | header[3];
+    if ((header[0] & 0x7f) === 0 && length === FLAC_STREAMINFO_BYTES) {
+      if (!(await cursor.load(offset + 4, length))) return null;
+      streamInfo = cursor.bytes(offset + 4, length).slice();
+    }
+    offset += 4 + length;
+  }
+  if (!streamInfo) return null;
+
+  const sampleRate = (streamInfo[10] << 12) | (streamInfo[11] << 4) | (streamInfo[12] >> 4);
+  const channels = ((streamInfo[12] >> 1) & 7) + 1;
+  const totalSamples = (streamInfo[13] & 0x0f) * 2 ** 32 + readUint32(streamInfo, 14);
+  // Without a length the analysis signal can't be sized up front.
+  if (!sampleRate || !totalSamples) return null;
+
+  // The decoder wants the stream marker and STREAMINFO, flagged as the last block.
+  const description = new Uint8Array(8 + FLAC_STREAMINFO_BYTES);
+  description.set([0x66, 0x4c, 0x61, 0x43, 0x80, 0, 0, FLAC_STREAMINFO_BYTES]);
+  description.set(streamInfo, 8);
+  return {
+    container: 'flac',
+    config: { codec: 'flac', sampleRate, numberOfChannels: channels, description: description.buffer },
+    sampleRate,
+    channels,
+    frames: totalSamples,
+    skipFrames: 0,
+    dataOffset: offset,
+  };
+};
+
+/**
+ * FLAC frames don't record their length, so a frame ends where the next
+ * valid header starts and the CRC-16 over everything before it checks out.
+ */
+const readFlacFrames = async (blob: Blob, format: EncodedAudioFormat, onFrame: (frame: EncodedFrame) => void | Promise<void>, onProgress?: (fraction: number) => void) => {
+  const cursor = createBlobCursor(blob);
+  let frameStart = format.dataOffset;
+  let samples = 0;
+  let reported = frameStart;
+  while (frameStart + 16 <= blob.size) {
+    await cursor.load(frameStart, 16);
+    const frameSamples = parseFlacFrameHeader(cursor.bytes(frameStart, 16), 0);
+    if (!frameSamples) return; // trailing junk, or a damaged stream we can't follow
+
+    // Run the CRC along the frame, with room kept for the next header after it.
+    let crc = 0;
+    let end = blob.size;
+    let bytes = cursor.bytes(frameStart, 0);
+    for (let index = 0; frameStart + index < blob.size; index++) {
+      if (index + 16 > bytes.length && frameStart + bytes.length < blob.size) {
+        const length = Math.min(index + READ_BLOCK_BYTES, blob.size - frameStart);
+        if (!cursor.covers(frameStart, length)) await cursor.load(frameStart, length);
+        bytes = cursor.bytes(frameStart, length);
+      }
+      if (index > 0 && crc === 0 && bytes[index] === 0xff && index + 16 <= bytes.length && parseFlacFrameHeader(bytes, index)) {
+        end = frameStart + index;
+        break;
+      }
+      crc = ((crc << 8) & 0xffff) ^ CRC16_TABLE[(crc >> 8) ^ bytes[index]];
+    }
+
+    await cursor.load(frameStart, end - frameStart);
+    await onFrame({ data: cursor.bytes(frameStart, end - frameStart), timestamp: (samples / format.sampleRate) * MICROSECONDS });
+    samples += frameSamples;
+    frameStart = end;
+    if (frameStart - reported >= READ_BLOCK_BYTES) {
+      reported = frameStart;
+      onProgress?.(frameStart / blob.size);
+    }
+  }
+};
+
+// --- MP4 (AAC) ---
+
+const AAC_SAMPLE_RATES = [96000, 88200, 64000, 48000, 44100, 32000, 24000, 22050, 16000, 12000, 11025, 8000, 7350];
+
+interface Mp4Box {
+  type: string;
+  body: number; // offset of the body within the bytes it was read from
+  end: number;
+}
+
+const readMp4Boxes = (bytes: Uint8Array, start: number, end: number): Mp4Box[] => {
+  const boxes: Mp4Box[] = [];
+  for (let offset = start; offset + 8 <= end;) {
+    let size = readUint32(bytes, offset);
+    let header = 8;
+    if (size === 1) {
+      size = readUint32(bytes, offset + 8) * 2 ** 32 + readUint32(bytes, offset + 12);
+      header = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+    if (size < header || offset + size > end) break;
+    boxes.push({ type: fourCC(bytes, offset + 4), body: offset + header, end: offset + size });
+    offset += size;
+  }
+  return boxes;
+};
+
+/** The first box along `path`, e.g. ['mdia', 'minf', 'stbl']. */
+const findMp4Box = (bytes: Uint8Array, parent: Mp4Box, path: string[]): Mp4Box | null => {
+  let box: Mp4Box | null = parent;
+  for (const type of path) {
+    box = readMp4Boxes(bytes, box.body, box.end).find(child => child.type === type) ?? null;
+    if (!box) return null;
+  }
+  return box;
+};
+
+/** The length field of an MPEG-4 descriptor: up to four bytes of seven bits each. */
+const readDescriptorLength = (bytes: Uint8Array, offset: number): { length: number; next: number } => {
+  let length = 0;
+  let next = offset;
+  for (let i = 0; i < 4; i++) {
+    const byte = bytes[next++];
+    length = (length << 7) | (byte & 0x7f);
+    if (!(byte & 0x80)) break;
+  }
+  return { length, next };
+};
+
+/** Digs the AudioSpecificConfig out of an esds box. */
+const readAudioSpecificConfig = (bytes: Uint8Array, esds: Mp4Box): Uint8Array | null => {
+  let offset = esds.body + 4; // version and flags
+  if (bytes[offset] !== 0x03) return null; // ES_Descriptor
+  offset = readDescriptorLength(bytes, offset + 1).next;
+  const esFlags = bytes[offset + 2];
+  offset += 3;
+  if (esFlags & 0x80) offset += 2;
+  if (esFlags & 0x40) offset += 1 + bytes[offset];
+  if (esFlags & 0x20) offset += 2;
+  if (bytes[offset] !== 0x04) return null; // DecoderConfigDescriptor
+  offset = readDescriptorLength(bytes, offset + 1).next;
+  if (bytes[offset] !== 0x40) return null; // MPEG-4 audio
+  offset += 13;
+  if (bytes[offset] !== 0x05) return null; // DecoderSpecificInfo
+  const { length, next } = readDescriptorLength(bytes, offset + 1);
+  return next + length <= esds.end ? bytes.slice(next, next + length) : null;
+};
+
+interface Mp4AudioTrack {
+  format: EncodedAudioFormat;
+  timescale: number;
+  sampleSizes: Uint32Array;
+  sampleDurations: Uint32Array;
+  chunkOffsets: number[];
+  /** [first chunk (1-based), samples per chunk] runs from stsc. */
+  chunkRuns: [number, number][];
+}
+
+/** Reads the first AAC track's sample tables from the moov box. */
+const readMp4Track = async (blob: Blob): Promise<Mp4AudioTrack | null> => {
+  const cursor = createBlobCursor(blob);
+  if (!(await cursor.load(0, 8)) || fourCC(cursor.bytes(4, 4)) !== 'ftyp') return null;
+
+  let moov: Uint8Array | null = null;
+  for (let offset = 0; offset + 8 <= blob.size && !moov;) {
+    await cursor.load(offset, 16);
+    const header = cursor.bytes(offset, 16);
+    let size = readUint32(header, 0);
+    if (size === 1) size = readUint32(header, 8) * 2 ** 32 + readUint32(header, 12);
+    else if (size === 0) size = blob.size - offset;
+    if (size < 8 || offset + size > blob.size) return null;
+    if (fourCC(header, 4) === 'moov') moov = new Uint8Array(await blob.slice(offset, offset + size).arrayBuffer());
+    offset += size;
+  }
+  if (!moov) return null;
+
+  const root: Mp4Box = { type: 'root', body: 0, end: moov.length };
+  const traks = readMp4Boxes(moov, findMp4Box(moov, root, ['moov'])!.body, moov.length).filter(box => box.type === 'trak');
+  for (const trak of traks) {
+    const hdlr = findMp4Box(moov, trak, ['mdia', 'hdlr']);
+    if (!hdlr || fourCC(moov, hdlr.body + 8) !== 'soun') continue;
+    const mdhd = findMp4Box(moov, trak, ['mdia', 'mdhd']);
+    const stbl = findMp4Box(moov, trak, ['mdia', 'minf', 'stbl']);
+    if (!mdhd || !stbl) continue;
+    const timescale = readUint32(moov, mdhd.body + (moov[mdhd.body] === 1 ? 20 : 12));
+
+    const stsd = findMp4Box(moov, stbl, ['stsd']);
+    const entry = stsd && readMp4Boxes(moov, stsd.body + 8, stsd.end)[0];
+    if (!entry || entry.type !== 'mp4a') continue;
+    // QuickTime sound descriptions add 16 (version 1) or 36 (version 2) bytes.
+    const soundVersion = (moov[entry.body + 8] << 8) | moov[entry.body + 9];
+    const entryChannels = (moov[entry.body + 16] << 8) | moov[entry.body + 17];
+    const childrenStart = entry.body + 28 + (soundVersion === 1 ? 16 : soundVersion === 2 ? 36 : 0);
+    const esds = readMp4Boxes(moov, childrenStart, entry.end).find(box => box.type === 'esds');
+    const audioConfig = esds && readAudioSpecificConfig(moov, esds);
+    if (!audioConfig || audioConfig.length < 2) continue;
+
+    // AudioSpecificConfig: object type (5 bits, or 6 more after 31), frequency index, channel configuration.
+    let objectType = audioConfig[0] >> 3;
+    let bit = 5;
+    if (objectType === 31) {
+      objectType = 32 + (((audioConfig[0] & 0x07) << 3) | (audioConfig[1] >> 5));
+      bit = 11;
+    }
+    const readBits = (count: number) => {
+      let value = 0;
+      for (let i = 0; i < count; i++, bit++) value = (value << 1) | ((audioConfig[bit >> 3] >> (7 - (bit & 7))) & 1);
+      return value;
+    };
+    const frequencyIndex = readBits(4);
+    const sampleRate = frequencyIndex === 15 ? readBits(24) : AAC_SAMPLE_RATES[frequencyIndex];
+    const channels = readBits(4) || entryChannels;
+    if (!sampleRate || !channels) continue;
+
+    const stsz = findMp4Box(moov, stbl, ['stsz']);
+    const stts = findMp4Box(moov, stbl, ['stts']);
+    const stsc = findMp4Box(moov, stbl, ['stsc']);
+    const stco = findMp4Box(moov, stbl, ['stco']) ?? findMp4Box(moov, stbl, ['co64']);
+    if (!stsz || !stts || !stsc || !stco) continue;
+
+    const sampleCount = readUint32(moov, stsz.body + 8);
+    const fixedSize = readUint32(moov, stsz.body + 4);
+    const sampleSizes = new Uint32Array(sampleCount);
+    for (let i = 0; i < sampleCount; i++) sampleSizes[i] = fixedSize || readUint32(moov, stsz.body + 12 + i * 4);
+
+    const sampleDurations = new Uint32Array(sampleCount);
+    let duration = 0;
+    for (let e = 0, s = 0, entries = readUint32(moov, stts.body + 4); e < entries; e++) {
+      const count = readUint32(moov, stts.body + 8 + e * 8);
+      const delta = readUint32(moov, stts.body + 12 + e * 8);
+      for (let i = 0; i < count && s < sampleCount; i++) sampleDurations[s++] = delta;
+      duration += count * delta;
+    }
+
+    const chunkRuns: [number, number][] = [];
+    for (let e = 0, entries = readUint32(moov, stsc.body + 4); e < entries; e++) {
+      chunkRuns.push([readUint32(moov, stsc.body + 8 + e * 12), readUint32(moov, stsc.body + 12 + e * 12)]);
+    }
+    const chunkOffsets: number[] = [];
+    const is64 = stco.type === 'co64';
+    for (let e = 0, entries = readUint32(moov, stco.body + 4); e < entries; e++) {
+      chunkOffsets.push(is64
+        ? readUint32(moov, stco.body + 8 + e * 8) * 2 ** 32 + readUint32(moov, stco.body + 12 + e * 8)
+        : readUint32(moov, stco.body + 8 + e * 4));
+    }
+
+    // An edit list starting part-way into the media skips the encoder's priming.
+    const elst = findMp4Box(moov, trak, ['edts', 'elst']);
+    let skipMedia = 0;
+    if (elst && readUint32(moov, elst.body + 4) > 0) {
+      const mediaTime = moov[elst.body] === 1
+        ? readUint32(moov, elst.body + 16) * 2 ** 32 + readUint32(moov, elst.body + 20)
+        : readUint32(moov, elst.body + 12);
+      if (mediaTime !== 0xffffffff) skipMedia = mediaTime;
+    }
+    const toFrames = (mediaUnits: number) => Math.round((mediaUnits / timescale) * sampleRate);
+
+    return {
+      format: {
+        container: 'mp4',
+        config: { codec: `mp4a.40.${objectType}`, sampleRate, numberOfChannels: channels, description: audioConfig.buffer },
+        sampleRate,
+        channels,
+        frames: Math.max(0, toFrames(duration - skipMedia)),
+        skipFrames: toFrames(skipMedia),
+        dataOffset: chunkOffsets[0] ?? 0,
+      },
+      timescale,
+      sampleSizes,
+      sampleDurations,
+      chunkOffsets,
+      chunkRuns,
+    };
+  }
+  return null;
+};
+
+const readMp4Frames = async (blob: Blob, onFrame: (frame: EncodedFrame) => void | Promise<void>, onProgress?: (fraction: number) => void) => {
+  const track = await readMp4Track(blob);
+  if (!track) throw new Error('The MP4 file has no AAC track.');
+  const cursor = createBlobCursor(blob);
+  let sample = 0;
+  let time = 0;
+  for (let chunk = 0; chunk < track.chunkOffsets.length; chunk++) {
+    // The last run that starts at or before this (1-based) chunk sets its sample count.
+    let perChunk = 0;
+    for (const [firstChunk, samples] of track.chunkRuns) {
+      if (firstChunk > chunk + 1) break;
+      perChunk = samples;
+    }
+    let offset = track.chunkOffsets[chunk];
+    for (let i = 0; i < perChunk && sample < track.sampleSizes.length; i++, sample++) {
+      const size = track.sampleSizes[sample];
+      if (!(await cursor.load(offset, size))) return;
+      await onFrame({ data: cursor.bytes(offset, size), timestamp: (time / track.timescale) * MICROSECONDS });
+      time += track.sampleDurations[sample];
+      offset += size;
+    }
+    if (chunk % 256 === 255) onProgress?.(sample / track.sampleSizes.length);
+  }
+};
+
+// --- Shared ---
+
+/**
+ * Works out whether a file is MP3, FLAC or AAC in MP4 and reads what the
+ * decoder needs. MP3s without a Xing/Info header are scanned once for their
+ * frame count.
+ * @returns null for other formats, and for files whose length can't be known.
+ */
+export const readEncodedFormat = async (blob: Blob): Promise<EncodedAudioFormat | null> => {
+  const head = new Uint8Array(await blob.slice(0, 12).arrayBuffer());
+  if (head.length >= 8 && fourCC(head, 4) === 'ftyp') return (await readMp4Track(blob))?.format ?? null;
+  // Containers whose payload could hold a stray MP3 sync pattern.
+  if (head.length >= 4 && ['OggS', 'RIFF', 'FORM'].includes(fourCC(head))) return null;
+  return (await readFlacFormat(blob)) ?? readMp3Format(blob);
+};
+
+/**
+ * Calls `onFrame` with each compressed frame in order. Frames are views into
+ * a reused buffer, so copy anything that must outlive the call.
+ */
+export const readEncodedFrames = async (
+  blob: Blob,
+  format: EncodedAudioFormat,
+  onFrame: (frame: EncodedFrame) => void | Promise<void>,
+  onProgress?: (fraction: number) => void,
+): Promise<void> => {
+  switch (format.container) {
+    case 'mp3':
+      await readMp3Frames(blob, format, onFrame, onProgress);
+      break;
+    case 'flac':
+      await readFlacFrames(blob, format, onFrame, onProgress);
+      break;
+    case 'mp4':
+      await readMp4Frames(blob, onFrame, onProgress);
+      break;
+  }
+  onProgress?.(1);
+};
+
+/** Whether this browser's AudioDecoder can decode the format. */
+export const canDecodeEncoded = async (format: EncodedAudioFormat): Promise<boolean> => {
+  if (typeof AudioDecoder === 'undefined') return false;
+  try {
+    return (await AudioDecoder.isConfigSupported(format.config)).supported === true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Decodes the file in blocks as the AudioDecoder produces them, in the same
+ * shape as `readWavBlocks`, plus the decoded rate, which HE-AAC doubles. The
+ * channel arrays passed to `onBlock` are reused, so copy anything that must
+ * outlive the call.
+ */
+export const decodeEncodedBlocks = async (
+  blob: Blob,
+  format: EncodedAudioFormat,
+  onBlock: (channels: Float32Array[], frames: number, sampleRate: number) => void,
+  onProgress?: (fraction: number) => void,
+): Promise<void> => {
+  let failure: unknown = null;
+  let channels: Float32Array[] = [];
+  let toSkip = format.skipFrames;
+
+  const decoder = new AudioDecoder({
+    output: (data) => {
+      try {
+        const frames = data.numberOfFrames;
+        if (channels.length !== data.numberOfChannels || channels[0].length < frames) {
+          channels = Array.from({ length: data.numberOfChannels }, () => new Float32Array(frames));
+        }
+        channels.forEach((channel, c) => data.copyTo(channel.subarray(0, frames), { planeIndex: c, format: 'f32-planar' }));
+        // Priming is counted at the coded rate; HE-AAC output runs at twice it.
+        const skip = Math.min(frames, Math.round(toSkip * (data.sampleRate / format.sampleRate)));
+        toSkip -= skip / (data.sampleRate / format.sampleRate);
+        if (skip < frames) {
+          onBlock(skip > 0 ? channels.map(channel => channel.subarray(skip, frames)) : channels, frames - skip, data.sampleRate);
+        }
+      } catch (e) {
+        failure ??= e;
+      } finally {
+        data.close();
+      }
+    },
+    error: (e) => { failure ??= e; },
+  });
+  decoder.configure(format.config);
+
+  try {
+    await readEncodedFrames(blob, format, async (frame) => {
+      if (failure) throw failure;
+      decoder.decode(new EncodedAudioChunk({ type: 'key', timestamp: frame.timestamp, data: frame.data }));
+      while (decoder.decodeQueueSize > MAX_QUEUED_FRAMES && !failure) {
+        // Older decoders don't fire dequeue events, so don't wait on one for long.
+        await new Promise(resolve => {
+          decoder.addEventListener('dequeue', resolve, { once: true });
+          setTimeout(resolve, 20);
+        });
+      }
+    }, onProgress);
+    if (!failure) await decoder.flush();
+  } finally {
+    if (decoder.state !== 'closed') decoder.close();
+  }
+  if (failure) throw failure instanceof Error ? failure : new Error(String(failure));
+};
@@ -1,5 +1,5 @@
 import { GoogleGenAI, Type } from '@google/genai';
-import type { MusicalInsight, SongFact, TrackMetadata } from '../types';
+import type { MusicalInsight, MusicalKey, SongFact, TrackMetadata } from '../types';
 import { logError } from './loggingService';
 
 const ai = new GoogleGenAI({ apiKey: process.env.API_KEY as string });
@@ -33,13 +33,17 @@ const responseSchema = {
 };
 
 
-export const getMusicalInsights = async (bpm: number, metadata: TrackMetadata | null): Promise<MusicalInsight> => {
+export const getMusicalInsights = async (bpm: number, metadata: TrackMetadata | null, key: MusicalKey | null = null): Promise<MusicalInsight> => {
     try {
         let prompt = `You are a music expert. The tempo of a song is approximately ${bpm.toFixed(1)} BPM.`;
 
         if (metadata?.title && metadata.artist) {
             prompt = `You are a music expert analyzing the song "${metadata.title}" by "${metadata.artist}", which has a tempo of approximately ${bpm.toFixed(1)} BPM.`;
         }
+
+        if (key) {
+            prompt += ` Its estimated key is ${key.name} (${key.camelot} on the Camelot wheel).`;
+        }
         
         prompt += " Provide a brief analysis. Include common music genres for this style and tempo, three similar well-known songs that fans might enjoy, and the general mood of this song.";
 
@@ -0,0 +1,54 @@
+import type { BeatGridEdit } from '../types';
+import { logError } from './loggingService';
+
+/**
+ * Keeps edited beat grids in localStorage, one per track, so they survive a
+ * reload. Only the most recently edited tracks are kept.
+ */
+
+const STORAGE_KEY = 'ybcbpm-grid-edits';
+const MAX_TRACKS = 100;
+
+interface StoredEdit {
+  edit: BeatGridEdit;
+  savedAt: number;
+}
+
+/** Identifies a track across visits; the browser gives us no path, so name and size have to do. */
+export const getTrackKey = (file: File): string => `${file.name}|${file.size}`;
+
+const readAll = (): Record<string, StoredEdit> => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch (e) {
+    logError("Failed to read saved beat grids.", e);
+    return {};
+  }
+};
+
+export const loadGridEdit = (trackKey: string): BeatGridEdit | null => {
+  const stored = readAll()[trackKey];
+  return stored && stored.edit.anchors.length > 0 ? stored.edit : null;
+};
+
+/** Saves the edit for a track, or forgets it when `edit` is null. */
+export const saveGridEdit = (trackKey: string, edit: BeatGridEdit | null) => {
+  const all = readAll();
+  if (edit) {
+    all[trackKey] = { edit, savedAt: Date.now() };
+  } else {
+    delete all[trackKey];
+  }
+  const keys = Object.keys(all);
+  if (keys.length > MAX_TRACKS) {
+    keys.sort((a, b) => all[a].savedAt - all[b].savedAt)
+      .slice(0, keys.length - MAX_TRACKS)
+      .forEach(key => delete all[key]);
+  }
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(all));
+  } catch (e) {
+    logError("Failed to save the beat grid.", e);
+  }
+};
@@ -0,0 +1,164 @@
+import { logInfo } from './loggingService';
+
+/**
+ * Rewrites the ID3v2 tag at the front of an MP3 with some frames added or
+ * replaced, keeping every other frame byte for byte. The tag keeps its
+ * version (2.3 or 2.4), flags, extended header and footer; a file without
+ * one gets a fresh 2.4 tag.
+ */
+
+const HEADER_BYTES = 10;
+const FRAME_HEADER_BYTES = 10;
+const PADDING_BYTES = 1024;
+
+const FLAG_UNSYNCHRONISATION = 0x80;
+const FLAG_EXTENDED_HEADER = 0x40;
+const FLAG_FOOTER = 0x10;
+
+// The extended header flag saying it holds a CRC of the frames, which a rewrite would make stale.
+const EXTENDED_FLAG_CRC_V3 = 0x80; // first flag byte, after the size
+const EXTENDED_FLAG_CRC_V4 = 0x20; // after the size and the flag byte count
+
+export interface Id3Frame {
+  id: string; // four characters, e.g. "GEOB"
+  body: Uint8Array; // everything after the frame header
+}
+
+interface ParsedFrame extends Id3Frame {
+  raw: Uint8Array; // header and body exactly as they were in the file
+}
+
+const readSyncsafe = (bytes: Uint8Array, offset: number): number =>
+  (bytes[offset] << 21) | (bytes[offset + 1] << 14) | (bytes[offset + 2] << 7) | bytes[offset + 3];
+
+const writeSyncsafe = (bytes: Uint8Array, offset: number, value: number) => {
+  for (let i = 0; i < 4; i++) bytes[offset + i] = (value >> (7 * (3 - i))) & 0x7f;
+};
+
+const readUint32 = (bytes: Uint8Array, offset: number): number =>
+  ((bytes[offset] << 24) | (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]) >>> 0;
+
+/** Bytes taken by the tag at the start of a file, from its first ten bytes; 0 when there isn't one. */
+const getTagLength = (head: Uint8Array): number => {
+  if (head.length < HEADER_BYTES || String.fromCharCode(head[0], head[1], head[2]) !== 'ID3') return 0;
+  return HEADER_BYTES + readSyncsafe(head, 6) + (head[5] & FLAG_FOOTER ? HEADER_BYTES : 0);
+};
+
+const latin1 = (text: string): Uint8Array => Uint8Array.from(text, char => char.charCodeAt(0) & 0xff);
+
+const concat = (parts: Uint8Array[]): Uint8Array => {
+  const out = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+};
+
+/** A text frame such as TBPM, in ISO-8859-1, which covers the digits and key names we write. */
+export const createTextFrame = (id: string, text: string): Id3Frame => ({
+  id,
+  body: concat([new Uint8Array([0]), latin1(text)]),
+});
+
+/** A GEOB (general encapsulated object) frame, the way Serato and others stash binary data. */
+export const createGeobFrame = (description: string, data: Uint8Array, mimeType = 'application/octet-stream'): Id3Frame => ({
+  id: 'GEOB',
+  // ISO-8859-1 text, then MIME type, an empty file name and the description, each null-terminated.
+  body: concat([new Uint8Array([0]), latin1(mimeType), new Uint8Array([0, 0]), latin1(description), new Uint8Array([0]), data]),
+});
+
+/** The description of a Latin-1 GEOB frame, which is how two of them are told apart. */
+const getGeobDescription = (body: Uint8Array): string | null => {
+  if (body[0] !== 0) return null;
+  let offset = body.indexOf(0, 1) + 1; // past the MIME type
+  offset = body.indexOf(0, offset) + 1; // past the file name
+  const end = body.indexOf(0, offset);
+  if (offset <= 0 || end < 0) return null;
+  return String.fromCharCode(...body.subarray(offset, end));
+};
+
+/** Whether `existing` is the frame that `replacement` takes the place of. */
+const isSameFrame = (existing: Id3Frame, replacement: Id3Frame): boolean => {
+  if (existing.id !== replacement.id) return false;
+  if (existing.id !== 'GEOB') return true;
+  return getGeobDescription(existing.body) === getGeobDescription(replacement.body);
+};
+
+const encodeFrame = (frame: Id3Frame, version: number): Uint8Array => {
+  const out = new Uint8Array(FRAME_HEADER_BYTES + frame.body.length);
+  out.set(latin1(frame.id), 0);
+  if (version === 4) {
+    writeSyncsafe(out, 4, frame.body.length);
+  } else {
+    new DataView(out.buffer).setUint32(4, frame.body.length);
+  }
+  out.set(frame.body, FRAME_HEADER_BYTES);
+  return out;
+};
+
+/**
+ * Reads the frames of the tag at the start of `bytes`.
+ * @throws For tags we can't rewrite without risking the others in them.
+ */
+const parseTag = (bytes: Uint8Array): { version: number; flags: number; extendedHeader: Uint8Array | null; frames: ParsedFrame[] } => {
+  const version = bytes[3];
+  const flags = bytes[5];
+  if (version !== 3 && version !== 4) throw new Error(`ID3v2.${version} tags can't be updated.`);
+  // Frames would have to be unsynchronised too, and the ones we keep re-checked; not worth it for so rare a tag.
+  if (flags & FLAG_UNSYNCHRONISATION) throw new Error("Unsynchronised ID3 tags can't be updated.");
+
+  let offset = HEADER_BYTES;
+  let extendedHeader: Uint8Array | null = null;
+  if (flags & FLAG_EXTENDED_HEADER) {
+    // 2.3 counts the size field out of the extended header's size; 2.4 counts it in.
+    const size = version === 4 ? readSyncsafe(bytes, offset) : 4 + readUint32(bytes, offset);
+    extendedHeader = bytes.slice(offset, offset + size);
+    const hasCrc = version === 4 ? extendedHeader[5] & EXTENDED_FLAG_CRC_V4 : extendedHeader[4] & EXTENDED_FLAG_CRC_V3;
+    if (hasCrc) throw new Error("ID3 tags with a CRC can't be updated.");
+    offset += size;
+  }
+  const end = Math.min(bytes.length, HEADER_BYTES + readSyncsafe(bytes, 6));
+  const frames: ParsedFrame[] = [];
+  while (offset + FRAME_HEADER_BYTES <= end && bytes[offset] !== 0) {
+    const id = String.fromCharCode(...bytes.subarray(offset, offset + 4));
+    const size = version === 4 ? readSyncsafe(bytes, offset + 4) : readUint32(bytes, offset + 4);
+    const frameEnd = offset + FRAME_HEADER_BYTES + size;
+    if (frameEnd > end) break;
+    frames.push({ id, body: bytes.subarray(offset + FRAME_HEADER_BYTES, frameEnd), raw: bytes.subarray(offset, frameEnd) });
+    offset = frameEnd;
+  }
+  return { version, flags, extendedHeader, frames };
+};
+
+/**
+ * Returns a copy of `file` whose ID3v2 tag has `frames` in it, replacing any
+ * frames of the same kind (for GEOB, the same description).
+ */
+export const writeId3Frames = async (file: Blob, frames: Id3Frame[]): Promise<Blob> => {
+  const tagLength = getTagLength(new Uint8Array(await file.slice(0, HEADER_BYTES).arrayBuffer()));
+  const existing = tagLength > 0 ? parseTag(new Uint8Array(await file.slice(0, tagLength).arrayBuffer())) : null;
+  const version = existing?.version ?? 4;
+  const flags = existing?.flags ?? 0;
+  const extendedHeader = existing?.extendedHeader ?? new Uint8Array(0);
+
+  // A tag with a footer may not have padding.
+  const hasFooter = (flags & FLAG_FOOTER) !== 0;
+  const padding = hasFooter ? 0 : PADDING_BYTES;
+  // 2.3's extended header gives the padding size, after its own size and flags.
+  if (version === 3 && extendedHeader.length >= 10) new DataView(extendedHeader.buffer).setUint32(6, padding);
+
+  const kept = (existing?.frames ?? []).filter(frame => !frames.some(replacement => isSameFrame(frame, replacement)));
+  const body = concat([extendedHeader, ...kept.map(frame => frame.raw), ...frames.map(frame => encodeFrame(frame, version)), new Uint8Array(padding)]);
+  const header = new Uint8Array(HEADER_BYTES);
+  header.set(latin1('ID3'), 0);
+  header[3] = version;
+  header[5] = flags;
+  writeSyncsafe(header, 6, body.length);
+  // The footer repeats the header, with the identifier reversed.
+  const footer = hasFooter ? concat([latin1('3DI'), header.subarray(3)]) : new Uint8Array(0);
+
+  logInfo("Rewrote the ID3 tag.", { version: `2.${version}`, flags, kept: kept.length, written: frames.map(frame => frame.id) });
+  return new Blob([header, body, footer, file.slice(tagLength)], { type: file.type });
+};
@@ -0,0 +1,166 @@
+import type { KeyDetection, KeyMode, MusicalKey } from '../types';
+import { fft, hannWindow } from '../utils/fft';
+
+/**
+ * Key estimation from a track-wide chroma profile, matched against the
+ * Krumhansl–Kessler key profiles (the Krumhansl–Schmuckler algorithm).
+ */
+
+const FRAME_SIZE = 8192;
+const DEFAULT_HOP = 4096;
+// Long mixes are sampled evenly instead of frame by frame.
+const MAX_FRAMES = 2000;
+// Roughly C2 to C7: fundamentals and the first harmonics of most tonal parts.
+const MIN_FREQUENCY = 65;
+const MAX_FREQUENCY = 2100;
+
+// Chroma whose coefficient of variation reaches this counts as clearly tonal.
+const TONAL_CLARITY_FULL = 0.5;
+
+const MAJOR_PROFILE = [6.35, 2.23, 3.48, 2.33, 4.38, 4.09, 2.52, 5.19, 2.39, 3.66, 2.29, 2.88];
+const MINOR_PROFILE = [6.33, 2.68, 3.52, 5.38, 2.60, 3.53, 2.54, 4.75, 3.98, 2.69, 3.34, 3.17];
+
+const MAJOR_NAMES = ['C', 'Db', 'D', 'Eb', 'E', 'F', 'F#', 'G', 'Ab', 'A', 'Bb', 'B'];
+const MINOR_NAMES = ['C', 'C#', 'D', 'Eb', 'E', 'F', 'F#', 'G', 'G#', 'A', 'Bb', 'B'];
+
+/** Camelot wheel position: C major is 8B and each fifth up adds one; minors sit beside their relative major. */
+export const toCamelot = (tonic: number, mode: KeyMode): string => {
+  const majorTonic = mode === 'major' ? tonic : (tonic + 3) % 12;
+  const number = ((majorTonic * 7) % 12 + 7) % 12 + 1;
+  return `${number}${mode === 'major' ? 'B' : 'A'}`;
+};
+
+export const describeKey = (tonic: number, mode: KeyMode): MusicalKey => ({
+  tonic,
+  mode,
+  name: `${mode === 'major' ? MAJOR_NAMES[tonic] : MINOR_NAMES[tonic]} ${mode}`,
+  camelot: toCamelot(tonic, mode),
+});
+
+/** The short form tags use, e.g. "Bbm" or "F#": the tonic as in `name`, then "m" for minor. */
+export const toShortKeyName = (key: MusicalKey): string =>
+  `${key.mode === 'major' ? MAJOR_NAMES[key.tonic] : MINOR_NAMES[key.tonic]}${key.mode === 'minor' ? 'm' : ''}`;
+
+const pearson = (a: number[], b: number[]): number => {
+  const n = a.length;
+  const meanA = a.reduce((s, v) => s + v, 0) / n;
+  const meanB = b.reduce((s, v) => s + v, 0) / n;
+  let cov = 0, varA = 0, varB = 0;
+  for (let i = 0; i < n; i++) {
+    const da = a[i] - meanA;
+    const db = b[i] - meanB;
+    cov += da * db;
+    varA += da * da;
+    varB += db * db;
+  }
+  return varA > 0 && varB > 0 ? cov / Math.sqrt(varA * varB) : 0;
+};
+
+/**
+ * Where the chroma frames of a signal `length` samples long start: every
+ * `hop` samples, `count` of them.
+ */
+export const getChromaFrames = (length: number): { hop: number; count: number } => {
+  const totalFrames = Math.floor((length - FRAME_SIZE) / DEFAULT_HOP) + 1;
+  if (totalFrames <= 0) return { hop: DEFAULT_HOP, count: 0 };
+  const hop = totalFrames > MAX_FRAMES
+    ? Math.floor((length - FRAME_SIZE) / (MAX_FRAMES - 1))
+    : DEFAULT_HOP;
+  return { hop, count: Math.floor((length - FRAME_SIZE) / hop) + 1 };
+};
+
+/**
+ * Sums the per-frame normalised STFT magnitudes of frames
+ * `firstFrame`..`endFrame - 1` into 12 pitch classes (C = 0), so loud passages
+ * don't outvote quiet ones.
+ * @param audioData - The signal from sample `offset` on, covering the frames.
+ * @param hop - Frame spacing from `getChromaFrames`.
+ */
+export const sumChroma = (audioData: Float32Array, sampleRate: number, hop: number, firstFrame: number, endFrame: number, offset = 0): number[] => {
+  const chroma = new Array(12).fill(0);
+  const binHz = sampleRate / FRAME_SIZE;
+  const firstBin = Math.max(1, Math.ceil(MIN_FREQUENCY / binHz));
+  const lastBin = Math.min(FRAME_SIZE / 2, Math.floor(MAX_FREQUENCY / binHz));
+  const pitchClassOfBin = new Int8Array(lastBin + 1);
+  for (let bin = firstBin; bin <= lastBin; bin++) {
+    const midi = 69 + 12 * Math.log2((bin * binHz) / 440);
+    pitchClassOfBin[bin] = ((Math.round(midi) % 12) + 12) % 12;
+  }
+
+  const window = hannWindow(FRAME_SIZE);
+  const real = new Float64Array(FRAME_SIZE);
+  const imag = new Float64Array(FRAME_SIZE);
+  const frameChroma = new Array(12);
+
+  for (let frame = firstFrame; frame < endFrame; frame++) {
+    const start = frame * hop - offset;
+    for (let i = 0; i < FRAME_SIZE; i++) {
+      real[i] = audioData[start + i] * window[i];
+      imag[i] = 0;
+    }
+    fft(real, imag);
+
+    frameChroma.fill(0);
+    let frameTotal = 0;
+    for (let bin = firstBin; bin <= lastBin; bin++) {
+      const magnitude = Math.sqrt(real[bin] * real[bin] + imag[bin] * imag[bin]);
+      frameChroma[pitchClassOfBin[bin]] += magnitude;
+      frameTotal += magnitude;
+    }
+    if (frameTotal <= 1e-6) continue;
+    for (let pc = 0; pc < 12; pc++) {
+      chroma[pc] += frameChroma[pc] / frameTotal;
+    }
+  }
+  return chroma;
+};
+
+/** Scales summed chroma to sum to one. */
+export const normaliseChroma = (chroma: number[]): number[] => {
+  const total = chroma.reduce((s, v) => s + v, 0);
+  return total > 0 ? chroma.map(v => v / total) : chroma;
+};
+
+/** The track-wide chroma profile: every frame's normalised chroma, summed and normalised. */
+export const computeChroma = (audioData: Float32Array, sampleRate: number): number[] => {
+  const { hop, count } = getChromaFrames(audioData.length);
+  return normaliseChroma(sumChroma(audioData, sampleRate, hop, 0, count));
+};
+
+/**
+ * Estimates the key of a track. Confidence combines how well the best key
+ * profile fits, its margin over the runner-up (relative major/minor pairs
+ * share most of their notes, so a small margin is common), and how far the
+ * chroma is from flat, since noise and drums correlate with some key by chance.
+ * @returns null when there is too little tonal content to judge.
+ */
+export const detectKey = (audioData: Float32Array, sampleRate: number): KeyDetection | null =>
+  detectKeyFromChroma(computeChroma(audioData, sampleRate));
+
+/** `detectKey` for a chroma profile that was already computed, e.g. in parts. */
+export const detectKeyFromChroma = (chroma: number[]): KeyDetection | null => {
+  if (chroma.every(v => v === 0)) return null;
+
+  const scores: { tonic: number; mode: KeyMode; score: number }[] = [];
+  for (let tonic = 0; tonic < 12; tonic++) {
+    // Rotate the chroma so the candidate tonic sits at index 0.
+    const rotated = chroma.map((_, i) => chroma[(i + tonic) % 12]);
+    scores.push({ tonic, mode: 'major', score: pearson(rotated, MAJOR_PROFILE) });
+    scores.push({ tonic, mode: 'minor', score: pearson(rotated, MINOR_PROFILE) });
+  }
+  scores.sort((a, b) => b.score - a.score);
+  const [best, second] = scores;
+  if (best.score <= 0) return null;
+
+  const mean = 1 / 12;
+  const stdDev = Math.sqrt(chroma.reduce((s, v) => s + (v - mean) * (v - mean), 0) / 12);
+  const clarity = Math.min(1, stdDev / mean / TONAL_CLARITY_FULL);
+  const fit = Math.min(1, best.score);
+  const margin = Math.min(1, (best.score - second.score) / 0.1);
+  return {
+    key: describeKey(best.tonic, best.mode),
+    runnerUp: describeKey(second.tonic, second.mode),
+    confidence: fit * (0.4 + 0.6 * margin) * clarity,
+    chroma,
+  };
+};
@@ -0,0 +1,54 @@
+/**
+ * AudioWorklet processor for live tempo detection. Mixes its input to mono,
+ * downsamples it to the analysis rate by averaging, and posts the result to
+ * the main thread in small blocks.
+ *
+ * Worklets are loaded with `audioWorklet.addModule`, which takes a plain
+ * script URL rather than a bundled module, so this file is JavaScript with no
+ * imports; the target rate arrives in `processorOptions`.
+ */
+class LiveCaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const { targetSampleRate, blockSize } = options.processorOptions;
+    // `sampleRate` is a global of the AudioWorkletGlobalScope.
+    this.ratio = Math.max(1, sampleRate / targetSampleRate);
+    this.blockSize = blockSize;
+    this.block = new Float32Array(blockSize);
+    this.filled = 0;
+    this.position = 0; // input frames seen so far
+    this.nextBoundary = this.ratio;
+    this.sum = 0;
+    this.count = 0;
+  }
+
+  flush() {
+    if (this.filled === 0) return;
+    const block = this.block.slice(0, this.filled);
+    this.port.postMessage(block, [block.buffer]);
+    this.filled = 0;
+  }
+
+  process(inputs) {
+    const input = inputs[0];
+    if (!input || input.length === 0) return true;
+    const frames = input[0].length;
+    for (let i = 0; i < frames; i++) {
+      let mono = 0;
+      for (let c = 0; c < input.length; c++) mono += input[c][i];
+      this.sum += mono / input.length;
+      this.count++;
+      this.position++;
+      if (this.position >= this.nextBoundary) {
+        this.block[this.filled++] = this.sum / this.count;
+        this.sum = 0;
+        this.count = 0;
+        this.nextBoundary += this.ratio;
+        if (this.filled === this.blockSize) this.flush();
+      }
+    }
+    return true;
+  }
+}
+
+registerProcessor('live-capture', LiveCaptureProcessor);
@@ -0,0 +1,256 @@
+import type { AnalysisOptions, LiveTempoEstimate } from '../types';
+import { logError, logInfo } from './loggingService';
+import { TARGET_SAMPLE_RATE } from './bpmAnalysisEngine';
+import type { ChunkReading } from './bpmAnalysisEngine';
+import type { LiveTempoWorkerRequest, LiveTempoWorkerResponse } from './liveTempo.worker';
+
+/**
+ * Live tempo detection. An AudioWorklet mixes the input to mono at the
+ * analysis rate and its blocks go on to a worker that keeps the onset
+ * signal and the lag sums of the last 10 s up to date (see
+ * liveTempoTracker.ts). Once a second the worker scores the window as a
+ * tempo-map chunk would, and the readings are folded onto each other and
+ * smoothed into a running estimate.
+ *
+ * Only each new second of input is worked through, so an update costs under
+ * half of re-analysing the window: about 10 ms of the worker with envelope
+ * onsets and 36 ms with spectral flux on a single core
+ * (`npm run bench:live-tempo`). Updates are skipped rather than queued if
+ * one overruns.
+ */
+
+const BLOCK_SIZE = 1024; // analysis-rate samples per message from the worklet, ~93 ms
+const BUFFER_SECONDS = 30; // kept for the scrolling waveform
+const WINDOW_SECONDS = 10;
+const MIN_WINDOW_SECONDS = 6;
+const UPDATE_INTERVAL_MS = 1000;
+const HISTORY_LENGTH = 8;
+const OCTAVE_TOLERANCE = 0.04;
+const AGREEMENT_TOLERANCE = 0.02;
+const SILENCE_DBFS = -50;
+
+/** Something that can be listened to: a capture device, or a file standing in for one. */
+export interface LiveInput {
+  stream: MediaStream;
+  label: string;
+  stop: () => void;
+}
+
+export interface LiveTempoSession {
+  /** The last `seconds` of input at TARGET_SAMPLE_RATE, oldest first. */
+  readRecent: (seconds: number) => Float32Array;
+  setOptions: (options: AnalysisOptions) => void;
+  stop: () => void;
+}
+
+export const listInputDevices = async (): Promise<MediaDeviceInfo[]> => {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter(device => device.kind === 'audioinput');
+};
+
+/**
+ * Opens a microphone or line input. Browser voice processing is turned off,
+ * since it pumps the level and filters out exactly the transients we count.
+ */
+export const openDeviceInput = async (deviceId?: string): Promise<LiveInput> => {
+  if (!navigator.mediaDevices?.getUserMedia) {
+    throw new Error("This browser can't capture audio input.");
+  }
+  const stream = await navigator.mediaDevices.getUserMedia({
+    audio: {
+      deviceId: deviceId ? { exact: deviceId } : undefined,
+      echoCancellation: false,
+      noiseSuppression: false,
+      autoGainControl: false,
+    },
+  });
+  const label = stream.getAudioTracks()[0]?.label || 'Audio input';
+  return { stream, label, stop: () => stream.getTracks().forEach(track => track.stop()) };
+};
+
+/** Plays a file out loud and as a MediaStream, so a recording can stand in for the microphone. */
+export const openFileInput = async (file: File): Promise<LiveInput> => {
+  const url = URL.createObjectURL(file);
+  const audio = new Audio(url);
+  const context = new AudioContext();
+  const source = context.createMediaElementSource(audio);
+  const destination = context.createMediaStreamDestination();
+  source.connect(destination);
+  source.connect(context.destination);
+  const stop = () => {
+    audio.pause();
+    context.close();
+    URL.revokeObjectURL(url);
+  };
+  try {
+    await audio.play();
+  } catch (e) {
+    stop();
+    throw e;
+  }
+  return { stream: destination.stream, label: file.name, stop };
+};
+
+const levelDb = (samples: Float32Array): number => {
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) sum += samples[i] * samples[i];
+  const rms = Math.sqrt(sum / Math.max(1, samples.length));
+  return rms > 0 ? 20 * Math.log10(rms) : -Infinity;
+};
+
+/** Moves a reading by an octave when that brings it onto the current estimate. */
+const foldOntoEstimate = (tempo: number, estimate: number | null): number => {
+  if (estimate === null) return tempo;
+  for (const candidate of [tempo, tempo * 2, tempo / 2]) {
+    if (Math.abs(candidate - estimate) <= estimate * OCTAVE_TOLERANCE) return candidate;
+  }
+  return tempo;
+};
+
+interface Reading {
+  tempo: number;
+  alignment: number;
+}
+
+/** Median of the recent readings, with confidence scaled by how many of them agree with it. */
+const summariseReadings = (history: Reading[], level: number): LiveTempoEstimate => {
+  if (history.length === 0) return { bpm: null, confidence: 0, level };
+  const sorted = history.map(r => r.tempo).sort((a, b) => a - b);
+  const bpm = sorted[Math.floor(sorted.length / 2)];
+  const agreeing = history.filter(r => Math.abs(r.tempo - bpm) <= bpm * AGREEMENT_TOLERANCE);
+  const alignment = agreeing.reduce((s, r) => s + r.alignment, 0) / agreeing.length;
+  const agreement = agreeing.length / HISTORY_LENGTH;
+  return { bpm, confidence: Math.max(0, Math.min(1, alignment * agreement)), level };
+};
+
+/**
+ * Starts listening to `stream`. Estimates are reported about once a second;
+ * the caller still owns the stream and stops it separately.
+ */
+export const startLiveTempo = async (
+  stream: MediaStream,
+  initialOptions: AnalysisOptions,
+  onEstimate: (estimate: LiveTempoEstimate) => void,
+): Promise<LiveTempoSession> => {
+  const context = new AudioContext({ latencyHint: 'interactive' });
+  try {
+    await context.audioWorklet.addModule(new URL('./liveCapture.worklet.js', import.meta.url));
+  } catch (e) {
+    context.close();
+    throw e;
+  }
+  const source = context.createMediaStreamSource(stream);
+  const capture = new AudioWorkletNode(context, 'live-capture', {
+    processorOptions: { targetSampleRate: TARGET_SAMPLE_RATE, blockSize: BLOCK_SIZE },
+  });
+  // The processor writes nothing to its output; the connection only keeps it running.
+  source.connect(capture);
+  capture.connect(context.destination);
+
+  const worker = new Worker(new URL('./liveTempo.worker.ts', import.meta.url), { type: 'module' });
+  const send = (request: LiveTempoWorkerRequest) => worker.postMessage(request);
+  send({ type: 'start', options: initialOptions, windowSeconds: WINDOW_SECONDS, samples: new Float32Array(0) });
+
+  // Updates don't overlap, so whatever the worker says next answers the pending read.
+  let pendingRead: { resolve: (reading: ChunkReading | null) => void; reject: (error: Error) => void } | null = null;
+  const failRead = (error: Error) => {
+    if (pendingRead) pendingRead.reject(error);
+    else logError("Live tempo update failed.", error);
+    pendingRead = null;
+  };
+  worker.onmessage = (event: MessageEvent<LiveTempoWorkerResponse>) => {
+    const response = event.data;
+    if (response.type === 'error') {
+      failRead(new Error(response.error));
+    } else {
+      pendingRead?.resolve(response.reading);
+      pendingRead = null;
+    }
+  };
+  worker.onerror = (event) => failRead(new Error(event.message || "An error occurred in the live tempo worker."));
+  const requestReading = () => new Promise<ChunkReading | null>((resolve, reject) => {
+    pendingRead = { resolve, reject };
+    send({ type: 'read' });
+  });
+
+  const buffer = new Float32Array(BUFFER_SECONDS * TARGET_SAMPLE_RATE);
+  let writeIndex = 0;
+  let filled = 0;
+  capture.port.onmessage = (event: MessageEvent<Float32Array>) => {
+    for (const sample of event.data) {
+      buffer[writeIndex] = sample;
+      writeIndex = (writeIndex + 1) % buffer.length;
+    }
+    filled = Math.min(buffer.length, filled + event.data.length);
+    send({ type: 'samples', samples: event.data });
+  };
+
+  const readRecent = (seconds: number): Float32Array => {
+    const length = Math.min(filled, Math.floor(seconds * TARGET_SAMPLE_RATE));
+    const result = new Float32Array(length);
+    const start = (writeIndex - length + buffer.length) % buffer.length;
+    const firstPart = Math.min(length, buffer.length - start);
+    result.set(buffer.subarray(start, start + firstPart));
+    result.set(buffer.subarray(0, length - firstPart), firstPart);
+    return result;
+  };
+
+  let history: Reading[] = [];
+  let estimate: number | null = null;
+  let isAnalysing = false;
+  let stopped = false;
+
+  const update = async () => {
+    if (isAnalysing || stopped || filled < MIN_WINDOW_SECONDS * TARGET_SAMPLE_RATE) return;
+    const recent = readRecent(WINDOW_SECONDS);
+    const level = levelDb(recent);
+    if (level < SILENCE_DBFS) {
+      // A pause usually means the next song; don't let the last one linger.
+      history = [];
+      estimate = null;
+      onEstimate({ bpm: null, confidence: 0, level });
+      return;
+    }
+
+    isAnalysing = true;
+    try {
+      const reading = await requestReading();
+      if (stopped) return;
+      if (reading) {
+        history = [...history, { tempo: foldOntoEstimate(reading.tempo, estimate), alignment: reading.alignment }].slice(-HISTORY_LENGTH);
+      }
+      const summary = summariseReadings(history, level);
+      estimate = summary.bpm;
+      onEstimate(summary);
+    } catch (e) {
+      logError("Live tempo update failed.", e);
+    } finally {
+      isAnalysing = false;
+    }
+  };
+  const timer = window.setInterval(update, UPDATE_INTERVAL_MS);
+  logInfo(`Live tempo detection started at ${context.sampleRate} Hz.`);
+
+  const stop = () => {
+    if (stopped) return;
+    stopped = true;
+    window.clearInterval(timer);
+    worker.terminate();
+    capture.port.onmessage = null;
+    source.disconnect();
+    capture.disconnect();
+    context.close();
+    logInfo("Live tempo detection stopped.");
+  };
+
+  return {
+    readRecent,
+    setOptions: (next) => {
+      history = [];
+      // The onsets and lag sums depend on the options, so the worker starts again from the recent input.
+      send({ type: 'start', options: next, windowSeconds: WINDOW_SECONDS, samples: readRecent(WINDOW_SECONDS) });
+    },
+    stop,
+  };
+};
@@ -0,0 +1,42 @@
+import { createLiveTempoTracker } from './liveTempoTracker';
+import type { LiveTempoTracker } from './liveTempoTracker';
+import type { ChunkReading } from './bpmAnalysisEngine';
+import type { AnalysisOptions } from '../types';
+
+/**
+ * A live session's tracker, kept off the main thread. `start` begins afresh
+ * from the given input, as when the options change; `samples` carries each
+ * block from the capture worklet; `read` asks for the current reading.
+ */
+export type LiveTempoWorkerRequest =
+  | { type: 'start'; options: AnalysisOptions; windowSeconds: number; samples: Float32Array }
+  | { type: 'samples'; samples: Float32Array }
+  | { type: 'read' };
+
+export type LiveTempoWorkerResponse =
+  | { type: 'reading'; reading: ChunkReading | null }
+  | { type: 'error'; error: string };
+
+const reply = (response: LiveTempoWorkerResponse) => self.postMessage(response);
+
+let tracker: LiveTempoTracker | null = null;
+
+self.onmessage = (event: MessageEvent<LiveTempoWorkerRequest>) => {
+  const request = event.data;
+  try {
+    switch (request.type) {
+      case 'start':
+        tracker = createLiveTempoTracker(request.options, request.windowSeconds);
+        tracker.push(request.samples);
+        break;
+      case 'samples':
+        tracker?.push(request.samples);
+        break;
+      case 'read':
+        reply({ type: 'reading', reading: tracker?.read() ?? null });
+        break;
+    }
+  } catch (e) {
+    reply({ type: 'error', error: e instanceof Error ? e.message : String(e) });
+  }
+};
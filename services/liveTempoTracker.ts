@@ -0,0 +1,74 @@
+import type { AnalysisOptions } from '../types';
+import { TARGET_SAMPLE_RATE, analyseChunkFromLagSums, getLagRange } from './bpmAnalysisEngine';
+import type { ChunkReading } from './bpmAnalysisEngine';
+import { createBandFluxStream, createEnvelopeOnsetStream, getFluxBandScales } from './onsetDetection';
+import { createSlidingAutocorrelation } from '../utils/fft';
+
+/**
+ * The running state behind live tempo readings. The onset signal is worked
+ * out block by block as input arrives, and the autocorrelation lag sums over
+ * the last `windowSeconds` are updated with each new hop rather than
+ * recomputed, so a reading only has to pick the window's peaks and score
+ * the candidates.
+ *
+ * A reading is the one a tempo-map chunk would give for the window, except
+ * that the onset filters carry on from the input before it instead of
+ * starting at its first sample, and spectral flux sees the input at its own
+ * level rather than normalised.
+ */
+export interface LiveTempoTracker {
+  /** Takes the next block of input at TARGET_SAMPLE_RATE. */
+  push: (samples: Float32Array) => void;
+  /** The top tempo for the current window, or null when it gives none. */
+  read: () => ChunkReading | null;
+}
+
+export const createLiveTempoTracker = (options: AnalysisOptions, windowSeconds: number): LiveTempoTracker => {
+  const windowLength = Math.round(windowSeconds * TARGET_SAMPLE_RATE);
+  const maxLag = Math.max(0, getLagRange(windowLength, TARGET_SAMPLE_RATE, options).maxLag);
+
+  if (options.onsetMethod === 'spectralFlux') {
+    // The bands are normalised by their peaks in the window, so their sums are kept apart until a reading.
+    const pushFlux = createBandFluxStream(TARGET_SAMPLE_RATE);
+    const lagSums = createSlidingAutocorrelation(3, maxLag, windowLength);
+    return {
+      push: (samples) => lagSums.push(pushFlux(samples)),
+      read: () => {
+        const bands = lagSums.getWindow();
+        const scales = getFluxBandScales(bands);
+        const onsetSignal = new Float32Array(bands[0].length);
+        bands.forEach((band, b) => {
+          for (let i = 0; i < band.length; i++) onsetSignal[i] += band[i] * scales[b];
+        });
+        const onsets = { peakSignal: onsetSignal, onsetSignal, onsetDelaySeconds: 0 };
+        return analyseChunkFromLagSums(onsets, lagSums.getLagSums(scales), options);
+      },
+    };
+  }
+
+  const pushEnvelope = createEnvelopeOnsetStream(TARGET_SAMPLE_RATE);
+  const lagSums = createSlidingAutocorrelation(1, maxLag, windowLength);
+  // The peak signal only supplies the window's peaks, so a ring of the last window is enough.
+  const peaks = new Float32Array(windowLength);
+  let peakIndex = 0;
+  return {
+    push: (samples) => {
+      const { peakSignal, onsetSignal } = pushEnvelope(samples);
+      for (let i = Math.max(0, peakSignal.length - windowLength); i < peakSignal.length; i++) {
+        peaks[peakIndex] = peakSignal[i];
+        peakIndex = (peakIndex + 1) % windowLength;
+      }
+      lagSums.push([onsetSignal]);
+    },
+    read: () => {
+      const [onsetSignal] = lagSums.getWindow();
+      const peakSignal = new Float32Array(onsetSignal.length);
+      const start = (peakIndex - onsetSignal.length + windowLength) % windowLength;
+      const firstPart = Math.min(onsetSignal.length, windowLength - start);
+      peakSignal.set(peaks.subarray(start, start + firstPart));
+      peakSignal.set(peaks.subarray(0, onsetSignal.length - firstPart), firstPart);
+      const onsets = { peakSignal, onsetSignal, onsetDelaySeconds: 0 };
+      return analyseChunkFromLagSums(onsets, lagSums.getLagSums([1]), options);
+    },
+  };
+};
@@ -0,0 +1,299 @@
+import type { LoudnessInfo, LoudnessPoint } from '../types';
+
+/**
+ * Loudness measurement after ITU-R BS.1770-4 and EBU R128 / Tech 3342:
+ * K-weighted, gated integrated loudness, short-term loudness, loudness range,
+ * 4x-oversampled true peak, and a count of clipped samples. Each channel is
+ * measured independently (so channels can go to different workers) and the
+ * per-channel results are combined by `summariseLoudness`.
+ */
+
+const BLOCK_SECONDS = 0.1;
+const MOMENTARY_BLOCKS = 4; // 400 ms gating blocks with 75% overlap
+const SHORT_TERM_BLOCKS = 30; // 3 s windows
+const SHORT_TERM_REPORT_STEP = 10; // one reported short-term value per second
+const ABSOLUTE_GATE_LUFS = -70;
+const INTEGRATED_RELATIVE_GATE_LU = -10;
+const LRA_RELATIVE_GATE_LU = -20;
+
+const OVERSAMPLING = 4;
+const INTERPOLATION_HALF_TAPS = 6;
+// Intersample overs in real material are rarely more than 3 dB, so only the
+// neighbourhood of samples within 3 dB of the sample peak is interpolated.
+const TRUE_PEAK_SEARCH_RATIO = 0.7;
+
+const CLIP_LEVEL = 0.999;
+const CLIP_RUN_SAMPLES = 3;
+
+/** The measurements of one channel that the combined figures are built from. */
+export interface ChannelLoudness {
+  /** K-weighted mean square of each 100 ms block. */
+  blockPower: Float64Array;
+  samplePeak: number;
+  truePeak: number;
+  clippedSamples: number;
+  /** Runs of at least CLIP_RUN_SAMPLES consecutive clipped samples. */
+  clippingEvents: number;
+}
+
+interface Biquad {
+  b0: number; b1: number; b2: number;
+  a1: number; a2: number;
+}
+
+/** The two K-weighting stages (high shelf, then RLB high-pass) for any sample rate. */
+const kWeightingFilters = (sampleRate: number): [Biquad, Biquad] => {
+  let f0 = 1681.974450955533;
+  const gainDb = 3.999843853973347;
+  let q = 0.7071752369554196;
+  let k = Math.tan((Math.PI * f0) / sampleRate);
+  const vh = Math.pow(10, gainDb / 20);
+  const vb = Math.pow(vh, 0.4996667741545416);
+  let a0 = 1 + k / q + k * k;
+  const shelf: Biquad = {
+    b0: (vh + (vb * k) / q + k * k) / a0,
+    b1: (2 * (k * k - vh)) / a0,
+    b2: (vh - (vb * k) / q + k * k) / a0,
+    a1: (2 * (k * k - 1)) / a0,
+    a2: (1 - k / q + k * k) / a0,
+  };
+
+  f0 = 38.13547087602444;
+  q = 0.5003270373238773;
+  k = Math.tan((Math.PI * f0) / sampleRate);
+  a0 = 1 + k / q + k * k;
+  const highPass: Biquad = {
+    b0: 1,
+    b1: -2,
+    b2: 1,
+    a1: (2 * (k * k - 1)) / a0,
+    a2: (1 - k / q + k * k) / a0,
+  };
+  return [shelf, highPass];
+};
+
+/** BS.1770 channel weights, assuming the usual L, R, C, LFE, Ls, Rs order. */
+export const channelWeight = (index: number, channelCount: number): number => {
+  if (channelCount < 6) return 1;
+  if (index === 3) return 0; // LFE
+  return index >= 4 ? 1.41 : 1;
+};
+
+const toLufs = (power: number): number => -0.691 + 10 * Math.log10(power);
+
+const blockBoundary = (block: number, sampleRate: number) => Math.round(block * BLOCK_SECONDS * sampleRate);
+
+/** Hann-windowed sinc taps for each fractional position between samples. */
+const interpolationTaps: Float64Array[] = Array.from({ length: OVERSAMPLING - 1 }, (_, p) => {
+  const fraction = (p + 1) / OVERSAMPLING;
+  const taps = new Float64Array(2 * INTERPOLATION_HALF_TAPS);
+  for (let t = 0; t < taps.length; t++) {
+    // Tap t weights the sample at offset (t - INTERPOLATION_HALF_TAPS + 1).
+    const d = fraction - (t - INTERPOLATION_HALF_TAPS + 1);
+    const sinc = Math.sin(Math.PI * d) / (Math.PI * d);
+    const window = 0.5 + 0.5 * Math.cos((Math.PI * d) / INTERPOLATION_HALF_TAPS);
+    taps[t] = sinc * window;
+  }
+  return taps;
+});
+
+/**
+ * Interpolates between samples n and n + 1 for every n in [from, to) whose
+ * pair reaches `threshold`. `samples` holds the stream from `offset` on, and
+ * `length` is the stream's full length, or Infinity while more may follow.
+ */
+const scanTruePeak = (samples: Float32Array, offset: number, length: number, from: number, to: number, threshold: number, peak: number): number => {
+  const firstTap = -INTERPOLATION_HALF_TAPS + 1;
+  for (let n = from; n < to; n++) {
+    const local = n - offset;
+    if (Math.abs(samples[local]) < threshold && Math.abs(samples[local + 1]) < threshold) continue;
+    const interior = n + firstTap >= 0 && n + INTERPOLATION_HALF_TAPS < length;
+    for (const taps of interpolationTaps) {
+      let value = 0;
+      for (let t = 0; t < taps.length; t++) {
+        const index = n + firstTap + t;
+        if (interior || (index >= 0 && index < length)) {
+          value += samples[index - offset] * taps[t];
+        }
+      }
+      const magnitude = Math.abs(value);
+      if (magnitude > peak) peak = magnitude;
+    }
+  }
+  return peak;
+};
+
+/** Measures one channel that arrives a block at a time. */
+export interface ChannelMeter {
+  push: (samples: Float32Array) => void;
+  finish: () => ChannelLoudness;
+}
+
+export const createChannelMeter = (sampleRate: number): ChannelMeter => {
+  const [shelf, highPass] = kWeightingFilters(sampleRate);
+  const blockPower: number[] = [];
+
+  let s1 = 0, s2 = 0, h1 = 0, h2 = 0; // direct form II state for each stage
+  let samplePeak = 0;
+  let truePeak = 0;
+  let clippedSamples = 0;
+  let clippingEvents = 0;
+  let clipRun = 0;
+  let position = 0;
+  let blockEnd = blockBoundary(1, sampleRate);
+  let blockSum = 0;
+
+  // Samples kept back for the true-peak interpolation window: everything from
+  // INTERPOLATION_HALF_TAPS - 1 before `nextPeakIndex` onwards.
+  let tail = new Float32Array(0);
+  let tailOffset = 0;
+  let nextPeakIndex = 0;
+
+  const push = (samples: Float32Array) => {
+    for (let i = 0; i < samples.length; i++, position++) {
+      const x = samples[i];
+      const magnitude = Math.abs(x);
+      if (magnitude > samplePeak) samplePeak = magnitude;
+      if (magnitude >= CLIP_LEVEL) {
+        clippedSamples++;
+        if (++clipRun === CLIP_RUN_SAMPLES) clippingEvents++;
+      } else {
+        clipRun = 0;
+      }
+
+      const w1 = x - shelf.a1 * s1 - shelf.a2 * s2;
+      const y1 = shelf.b0 * w1 + shelf.b1 * s1 + shelf.b2 * s2;
+      s2 = s1; s1 = w1;
+      const w2 = y1 - highPass.a1 * h1 - highPass.a2 * h2;
+      const y2 = highPass.b0 * w2 + highPass.b1 * h1 + highPass.b2 * h2;
+      h2 = h1; h1 = w2;
+
+      blockSum += y2 * y2;
+      if (position + 1 === blockEnd) {
+        blockPower.push(blockSum / (blockEnd - blockBoundary(blockPower.length, sampleRate)));
+        blockSum = 0;
+        blockEnd = blockBoundary(blockPower.length + 1, sampleRate);
+      }
+    }
+
+    const buffered = new Float32Array(tail.length + samples.length);
+    buffered.set(tail);
+    buffered.set(samples, tail.length);
+    // The peak so far only grows, so this never skips a pair the final peak wouldn't.
+    const scanEnd = Math.max(nextPeakIndex, position - INTERPOLATION_HALF_TAPS);
+    truePeak = scanTruePeak(buffered, tailOffset, Infinity, nextPeakIndex, scanEnd, samplePeak * TRUE_PEAK_SEARCH_RATIO, truePeak);
+    nextPeakIndex = scanEnd;
+    const keepFrom = Math.max(tailOffset, nextPeakIndex - INTERPOLATION_HALF_TAPS + 1);
+    tail = buffered.slice(keepFrom - tailOffset);
+    tailOffset = keepFrom;
+  };
+
+  const finish = (): ChannelLoudness => {
+    truePeak = scanTruePeak(tail, tailOffset, position, nextPeakIndex, position - 1, samplePeak * TRUE_PEAK_SEARCH_RATIO, truePeak);
+    return {
+      blockPower: Float64Array.from(blockPower),
+      samplePeak,
+      truePeak: Math.max(truePeak, samplePeak),
+      clippedSamples,
+      clippingEvents,
+    };
+  };
+
+  return { push, finish };
+};
+
+export const measureChannel = (samples: Float32Array, sampleRate: number): ChannelLoudness => {
+  const meter = createChannelMeter(sampleRate);
+  meter.push(samples);
+  return meter.finish();
+};
+
+/** Mean power over every window of `size` blocks, stepping one block at a time. */
+const slidingPower = (power: Float64Array, size: number): Float64Array => {
+  const count = Math.max(0, power.length - size + 1);
+  const result = new Float64Array(count);
+  let sum = 0;
+  for (let i = 0; i < power.length; i++) {
+    sum += power[i];
+    if (i >= size) sum -= power[i - size];
+    if (i >= size - 1) result[i - size + 1] = sum / size;
+  }
+  return result;
+};
+
+/** Two-stage gating: drop blocks under the absolute gate, then under (mean loudness + relativeGate). */
+const gatedBlocks = (powers: Float64Array, relativeGate: number): number[] => {
+  const aboveAbsolute: number[] = [];
+  for (const power of powers) {
+    if (power > 0 && toLufs(power) > ABSOLUTE_GATE_LUFS) aboveAbsolute.push(power);
+  }
+  if (aboveAbsolute.length === 0) return [];
+  const mean = aboveAbsolute.reduce((s, p) => s + p, 0) / aboveAbsolute.length;
+  const gate = toLufs(mean) + relativeGate;
+  return aboveAbsolute.filter(power => toLufs(power) > gate);
+};
+
+const percentile = (sorted: number[], fraction: number): number => {
+  const position = (sorted.length - 1) * fraction;
+  const lower = Math.floor(position);
+  const upper = Math.min(sorted.length - 1, lower + 1);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+};
+
+const toDb = (amplitude: number): number => amplitude > 0 ? 20 * Math.log10(amplitude) : -Infinity;
+
+export const summariseLoudness = (channels: ChannelLoudness[]): LoudnessInfo => {
+  const blockCount = Math.min(...channels.map(c => c.blockPower.length));
+  const combined = new Float64Array(Math.max(0, blockCount));
+  channels.forEach((channel, index) => {
+    const weight = channelWeight(index, channels.length);
+    for (let b = 0; b < blockCount; b++) {
+      combined[b] += weight * channel.blockPower[b];
+    }
+  });
+
+  const momentary = slidingPower(combined, MOMENTARY_BLOCKS);
+  const gatedMomentary = gatedBlocks(momentary, INTEGRATED_RELATIVE_GATE_LU);
+  const integratedLufs = gatedMomentary.length > 0
+    ? toLufs(gatedMomentary.reduce((s, p) => s + p, 0) / gatedMomentary.length)
+    : null;
+
+  const shortTermPower = slidingPower(combined, SHORT_TERM_BLOCKS);
+  const gatedShortTerm = gatedBlocks(shortTermPower, LRA_RELATIVE_GATE_LU).map(toLufs).sort((a, b) => a - b);
+  const loudnessRange = gatedShortTerm.length > 1
+    ? percentile(gatedShortTerm, 0.95) - percentile(gatedShortTerm, 0.1)
+    : null;
+
+  const shortTerm: LoudnessPoint[] = [];
+  for (let i = 0; i < shortTermPower.length; i += SHORT_TERM_REPORT_STEP) {
+    shortTerm.push({
+      time: (i + SHORT_TERM_BLOCKS / 2) * BLOCK_SECONDS,
+      // Silence is reported at the absolute gate rather than -Infinity.
+      lufs: shortTermPower[i] > 0 ? Math.max(ABSOLUTE_GATE_LUFS, toLufs(shortTermPower[i])) : ABSOLUTE_GATE_LUFS,
+    });
+  }
+
+  const maxOf = (powers: Float64Array) => {
+    let max = 0;
+    for (const power of powers) {
+      if (power > max) max = power;
+    }
+    return max > 0 ? toLufs(max) : null;
+  };
+
+  return {
+    integratedLufs,
+    loudnessRange,
+    maxMomentaryLufs: maxOf(momentary),
+    maxShortTermLufs: maxOf(shortTermPower),
+    shortTerm,
+    truePeakDbtp: toDb(Math.max(...channels.map(c => c.truePeak))),
+    samplePeakDbfs: toDb(Math.max(...channels.map(c => c.samplePeak))),
+    clippedSamples: channels.reduce((s, c) => s + c.clippedSamples, 0),
+    clippingEvents: channels.reduce((s, c) => s + c.clippingEvents, 0),
+  };
+};
+
+/** Measures every channel on the calling thread. */
+export const analyseLoudness = (channels: Float32Array[], sampleRate: number): LoudnessInfo =>
+  summariseLoudness(channels.map(samples => measureChannel(samples, sampleRate)));
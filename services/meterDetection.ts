@@ -0,0 +1,141 @@
+import type { MeterInfo } from '../types';
+
+/**
+ * Meter and downbeat estimation. Works on the onset-strength signal produced by
+ * the BPM engine, so like the engine it is pure and runs in the worker or Node.
+ */
+
+const PHASE_BINS = 64;
+const BEAT_WINDOW_FRACTION = 0.1; // search ±10% of a beat around each grid position
+const COMPOUND_RATIO_THRESHOLD = 1.2;
+const FOUR_FOUR_PRIOR = 1.05;
+const MIN_BEATS_FOR_METER = 16;
+
+interface MeterHypothesis {
+  beatsPerBar: number;
+  beatUnit: number;
+  offset: number;
+  score: number;
+}
+
+/** Largest onset value within `radius` samples of `center`. */
+const localMax = (signal: Float32Array, center: number, radius: number): number => {
+  const start = Math.max(0, Math.round(center - radius));
+  const end = Math.min(signal.length - 1, Math.round(center + radius));
+  let max = 0;
+  for (let i = start; i <= end; i++) {
+    if (signal[i] > max) max = signal[i];
+  }
+  return max;
+};
+
+const mean = (values: number[]): number => values.length ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+
+/**
+ * Folds the onset signal onto one beat period and returns the offset, in
+ * samples, where onset energy concentrates.
+ */
+export const estimateBeatPhase = (onset: Float32Array, sampleRate: number, bpm: number): number => {
+  const period = (60 / bpm) * sampleRate;
+  if (!isFinite(period) || period <= 0) return 0;
+
+  const bins = new Float64Array(PHASE_BINS);
+  for (let i = 0; i < onset.length; i++) {
+    const fraction = (i % period) / period;
+    bins[Math.floor(fraction * PHASE_BINS) % PHASE_BINS] += onset[i];
+  }
+
+  let best = 0;
+  let bestScore = -Infinity;
+  for (let i = 0; i < PHASE_BINS; i++) {
+    const score = bins[i] + (bins[(i + 1) % PHASE_BINS] + bins[(i - 1 + PHASE_BINS) % PHASE_BINS]) * 0.5;
+    if (score > bestScore) {
+      bestScore = score;
+      best = i;
+    }
+  }
+  return ((best + 0.5) / PHASE_BINS) * period;
+};
+
+/**
+ * For each grouping of `beatsPerBar`, finds the beat offset whose beats are the
+ * most accented relative to the track average.
+ */
+const scoreGrouping = (accents: number[], beatsPerBar: number, average: number): { offset: number; score: number } => {
+  let best = { offset: 0, score: 0 };
+  for (let offset = 0; offset < beatsPerBar; offset++) {
+    const onBeat: number[] = [];
+    for (let k = offset; k < accents.length; k += beatsPerBar) {
+      onBeat.push(accents[k]);
+    }
+    const score = mean(onBeat) / average;
+    if (score > best.score) {
+      best = { offset, score };
+    }
+  }
+  return best;
+};
+
+/**
+ * Estimates the time signature and downbeat positions from an onset signal.
+ * Compound meters are recognised by onsets falling on beat thirds rather than
+ * halves; the bar length is then the grouping of beats with the strongest
+ * accent contrast.
+ * @param onset - Onset strength signal.
+ * @param sampleRate - Sample rate of `onset`.
+ * @param bpm - The primary tempo of the track.
+ * @returns The meter, or null if the track is too short to judge.
+ */
+export const detectMeter = (onset: Float32Array, sampleRate: number, bpm: number): MeterInfo | null => {
+  const period = (60 / bpm) * sampleRate;
+  if (!isFinite(period) || period <= 0) return null;
+
+  const phase = estimateBeatPhase(onset, sampleRate, bpm);
+  const radius = period * BEAT_WINDOW_FRACTION;
+
+  const beatPositions: number[] = [];
+  for (let position = phase; position < onset.length; position += period) {
+    beatPositions.push(position);
+  }
+  if (beatPositions.length < MIN_BEATS_FOR_METER) return null;
+
+  const accents = beatPositions.map(position => localMax(onset, position, radius));
+  const average = mean(accents);
+  if (!average) return null;
+
+  const halves = mean(beatPositions.map(position => localMax(onset, position + period / 2, radius / 2)));
+  const thirds = mean(beatPositions.map(position =>
+    (localMax(onset, position + period / 3, radius / 2) + localMax(onset, position + (2 * period) / 3, radius / 2)) / 2
+  ));
+  const isCompound = thirds > halves * COMPOUND_RATIO_THRESHOLD;
+
+  const hypotheses: MeterHypothesis[] = isCompound
+    ? [
+        { beatsPerBar: 2, beatUnit: 8, ...scoreGrouping(accents, 2, average) },
+        { beatsPerBar: 4, beatUnit: 8, ...scoreGrouping(accents, 4, average) },
+      ]
+    : [
+        { beatsPerBar: 3, beatUnit: 4, ...scoreGrouping(accents, 3, average) },
+        { beatsPerBar: 4, beatUnit: 4, ...scoreGrouping(accents, 4, average) },
+      ];
+  hypotheses[1].score *= FOUR_FOUR_PRIOR;
+  hypotheses.sort((a, b) => b.score - a.score);
+
+  const [best, runnerUp] = hypotheses;
+  const margin = best.score > 0 ? (best.score - runnerUp.score) / best.score : 0;
+  // Compound beats are dotted quarters of three eighths each.
+  const numerator = isCompound ? best.beatsPerBar * 3 : best.beatsPerBar;
+
+  const downbeats: number[] = [];
+  for (let k = best.offset; k < beatPositions.length; k += best.beatsPerBar) {
+    downbeats.push(beatPositions[k] / sampleRate);
+  }
+
+  return {
+    timeSignature: `${numerator}/${best.beatUnit}`,
+    beatsPerBar: best.beatsPerBar,
+    firstDownbeat: downbeats[0],
+    downbeats,
+    confidence: Math.max(0, Math.min(1, margin * 5)),
+  };
+};
@@ -0,0 +1,191 @@
+import type { ClickSound, MetronomeSettings, MetronomeSubdivision } from '../types';
+import { findNearestBeatIndex } from '../utils/beatGrid';
+
+/**
+ * Metronome clicks: which beats get which click, and the synthesised sounds
+ * themselves. Everything takes a BaseAudioContext so the same clicks can be
+ * played live or rendered offline.
+ */
+
+export type ClickLevel = 'accent' | 'beat' | 'subdivision';
+
+export interface MetronomeClick {
+  time: number; // seconds
+  level: ClickLevel;
+}
+
+export const DEFAULT_METRONOME: MetronomeSettings = {
+  enabled: true,
+  sound: 'beep',
+  accentDownbeats: true,
+  beatsPerBar: null,
+  subdivision: 'none',
+  volume: 1,
+  balance: 0.5,
+  countInBars: 0,
+};
+
+export const CLICK_SOUNDS: { id: ClickSound; label: string }[] = [
+  { id: 'beep', label: 'Beep' },
+  { id: 'woodblock', label: 'Woodblock' },
+  { id: 'clave', label: 'Clave' },
+  { id: 'hiHat', label: 'Hi-hat' },
+];
+
+export const SUBDIVISIONS: { id: MetronomeSubdivision; label: string; steps: number }[] = [
+  { id: 'none', label: 'Beats only', steps: 1 },
+  { id: 'eighths', label: '8ths', steps: 2 },
+  { id: 'triplets', label: 'Triplets', steps: 3 },
+  { id: 'sixteenths', label: '16ths', steps: 4 },
+];
+
+export const getSubdivisionSteps = (subdivision: MetronomeSubdivision) =>
+  SUBDIVISIONS.find(s => s.id === subdivision)?.steps ?? 1;
+
+/**
+ * Lays the metronome's clicks over a beat grid. Bars are counted from
+ * `firstDownbeat`; subdivisions split each gap between beats evenly, so they
+ * follow a grid whose tempo drifts.
+ * @param beatsPerBar - Bar length for accents; 0 when the meter is unknown.
+ */
+export const buildClickTrack = (
+  beats: number[],
+  firstDownbeat: number,
+  beatsPerBar: number,
+  settings: MetronomeSettings,
+): MetronomeClick[] => {
+  const clicks: MetronomeClick[] = [];
+  const steps = getSubdivisionSteps(settings.subdivision);
+  const downbeatIndex = findNearestBeatIndex(beats, firstDownbeat);
+  const accents = settings.accentDownbeats && beatsPerBar > 0;
+  for (let i = 0; i < beats.length; i++) {
+    const isDownbeat = accents && ((((i - downbeatIndex) % beatsPerBar) + beatsPerBar) % beatsPerBar) === 0;
+    clicks.push({ time: beats[i], level: isDownbeat ? 'accent' : 'beat' });
+    if (steps > 1 && i < beats.length - 1) {
+      const step = (beats[i + 1] - beats[i]) / steps;
+      for (let s = 1; s < steps; s++) {
+        clicks.push({ time: beats[i] + step * s, level: 'subdivision' });
+      }
+    }
+  }
+  return clicks;
+};
+
+/**
+ * Clicks for a count-in that leads into a beat at `firstBeatTime`, one bar
+ * per `bars`, on whatever clock `firstBeatTime` is measured in.
+ */
+export const buildCountIn = (firstBeatTime: number, interval: number, beatsPerBar: number, bars: number): MetronomeClick[] => {
+  const count = bars * beatsPerBar;
+  const clicks: MetronomeClick[] = [];
+  for (let i = 0; i < count; i++) {
+    clicks.push({ time: firstBeatTime - (count - i) * interval, level: i % beatsPerBar === 0 ? 'accent' : 'beat' });
+  }
+  return clicks;
+};
+
+/** Gains for the music and the click from the volume and the balance slider. */
+export const getMixLevels = (settings: MetronomeSettings): { music: number; click: number } => ({
+  music: Math.min(1, 2 * (1 - settings.balance)),
+  click: settings.enabled ? settings.volume * Math.min(1, 2 * settings.balance) : 0,
+});
+
+const LEVEL_GAIN: Record<ClickLevel, number> = { accent: 0.4, beat: 0.3, subdivision: 0.18 };
+
+const noiseBuffers = new WeakMap<BaseAudioContext, AudioBuffer>();
+
+const getNoiseBuffer = (context: BaseAudioContext): AudioBuffer => {
+  let buffer = noiseBuffers.get(context);
+  if (!buffer) {
+    buffer = context.createBuffer(1, Math.ceil(context.sampleRate * 0.1), context.sampleRate);
+    const data = buffer.getChannelData(0);
+    for (let i = 0; i < data.length; i++) data[i] = Math.random() * 2 - 1;
+    noiseBuffers.set(context, buffer);
+  }
+  return buffer;
+};
+
+const playTone = (context: BaseAudioContext, destination: AudioNode, time: number, type: OscillatorType, frequency: number, gain: number, decay: number) => {
+  const osc = context.createOscillator();
+  const envelope = context.createGain();
+  osc.type = type;
+  osc.frequency.setValueAtTime(frequency, time);
+  envelope.gain.setValueAtTime(gain, time);
+  envelope.gain.exponentialRampToValueAtTime(0.001, time + decay);
+  osc.connect(envelope);
+  envelope.connect(destination);
+  osc.start(time);
+  osc.stop(time + decay);
+};
+
+/** Schedules one click on `context` at `time`, routed into `destination`. */
+export const scheduleClick = (context: BaseAudioContext, destination: AudioNode, time: number, sound: ClickSound, level: ClickLevel) => {
+  const gain = LEVEL_GAIN[level];
+  // Accents sit higher and subdivisions lower, so they're told apart by pitch as well as level.
+  const pitch = level === 'accent' ? 1.5 : level === 'subdivision' ? 0.75 : 1;
+  switch (sound) {
+    case 'beep':
+      playTone(context, destination, time, 'sine', 880 * pitch, gain, 0.1);
+      break;
+    case 'woodblock':
+      playTone(context, destination, time, 'triangle', 1000 * pitch, gain * 1.4, 0.05);
+      break;
+    case 'clave':
+      playTone(context, destination, time, 'sine', 2500 * pitch, gain, 0.03);
+      break;
+    case 'hiHat': {
+      const noise = context.createBufferSource();
+      const filter = context.createBiquadFilter();
+      const envelope = context.createGain();
+      const decay = level === 'accent' ? 0.08 : 0.04;
+      noise.buffer = getNoiseBuffer(context);
+      filter.type = 'highpass';
+      filter.frequency.setValueAtTime(7000 * pitch, time);
+      envelope.gain.setValueAtTime(gain * 1.5, time);
+      envelope.gain.exponentialRampToValueAtTime(0.001, time + decay);
+      noise.connect(filter);
+      filter.connect(envelope);
+      envelope.connect(destination);
+      noise.start(time);
+      noise.stop(time + decay);
+      break;
+    }
+  }
+};
+
+export type ClickRenderContent = 'click' | 'mix';
+
+/**
+ * Renders the clicks over the whole length of `track` offline: on their own
+ * (mono, at the click volume) or mixed with the track at the settings' balance.
+ */
+export const renderClickAudio = async (
+  track: AudioBuffer,
+  beats: number[],
+  firstDownbeat: number,
+  beatsPerBar: number,
+  settings: MetronomeSettings,
+  content: ClickRenderContent,
+): Promise<AudioBuffer> => {
+  const context = new OfflineAudioContext(content === 'mix' ? track.numberOfChannels : 1, track.length, track.sampleRate);
+  // An export always has the click in it, whether or not it's on for the preview.
+  const levels = getMixLevels({ ...settings, enabled: true });
+  const clickGain = context.createGain();
+  clickGain.gain.value = content === 'mix' ? levels.click : settings.volume;
+  clickGain.connect(context.destination);
+
+  if (content === 'mix') {
+    const source = context.createBufferSource();
+    const musicGain = context.createGain();
+    source.buffer = track;
+    musicGain.gain.value = levels.music;
+    source.connect(musicGain);
+    musicGain.connect(context.destination);
+    source.start();
+  }
+
+  for (const click of buildClickTrack(beats, firstDownbeat, beatsPerBar, settings)) {
+    if (click.time >= 0 && click.time < track.duration) scheduleClick(context, clickGain, click.time, settings.sound, click.level);
+  }
+  return context.startRendering();
+};
@@ -0,0 +1,218 @@
+import { logInfo } from './loggingService';
+
+/**
+ * Sets iTunes-style metadata items (moov › udta › meta › ilst) in an MP4/M4A
+ * file. The moov box is rebuilt with the new items; when it sits in front of
+ * the audio, the chunk offsets in stco/co64 are moved along by however much
+ * it grew, so the samples are still found. The audio itself is not touched.
+ */
+
+export type Mp4Item =
+  | { kind: 'tmpo'; bpm: number } // a whole number, as iTunes stores it
+  | { kind: 'freeform'; name: string; value: string }; // a '----' item in the com.apple.iTunes namespace
+
+const BOX_HEADER_BYTES = 8;
+const FREEFORM_MEAN = 'com.apple.iTunes';
+
+// Boxes whose children we descend into to find the chunk offset tables.
+const CONTAINER_BOXES = new Set(['moov', 'trak', 'mdia', 'minf', 'stbl', 'udta', 'edts', 'dinf']);
+
+interface Box {
+  type: string;
+  start: number; // offset of the header
+  size: number; // header included
+  headerSize: number;
+}
+
+const textEncoder = new TextEncoder();
+
+const latin1 = (text: string): Uint8Array => Uint8Array.from(text, char => char.charCodeAt(0) & 0xff);
+
+const concat = (parts: Uint8Array[]): Uint8Array => {
+  const out = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+};
+
+const box = (type: string, ...children: Uint8Array[]): Uint8Array => {
+  const body = concat(children);
+  const header = new Uint8Array(BOX_HEADER_BYTES);
+  new DataView(header.buffer).setUint32(0, BOX_HEADER_BYTES + body.length);
+  header.set(latin1(type), 4);
+  return concat([header, body]);
+};
+
+/** A full box's version and flags. */
+const versionAndFlags = (version: number, flags: number): Uint8Array =>
+  new Uint8Array([version, (flags >> 16) & 0xff, (flags >> 8) & 0xff, flags & 0xff]);
+
+const readBox = (view: DataView, offset: number, end: number): Box | null => {
+  if (offset + BOX_HEADER_BYTES > end) return null;
+  let size = view.getUint32(offset);
+  let headerSize = BOX_HEADER_BYTES;
+  if (size === 1) {
+    size = Number(view.getBigUint64(offset + 8));
+    headerSize = 16;
+  } else if (size === 0) {
+    size = end - offset;
+  }
+  if (size < headerSize || offset + size > end) return null;
+  const type = String.fromCharCode(...new Uint8Array(view.buffer, view.byteOffset + offset + 4, 4));
+  return { type, start: offset, size, headerSize };
+};
+
+const readChildren = (view: DataView, start: number, end: number): Box[] => {
+  const boxes: Box[] = [];
+  for (let offset = start; ;) {
+    const child = readBox(view, offset, end);
+    if (!child) return boxes;
+    boxes.push(child);
+    offset += child.size;
+  }
+};
+
+/** The top-level boxes of the file, read header by header so the audio isn't loaded. */
+const readTopLevel = async (file: Blob): Promise<Box[]> => {
+  const boxes: Box[] = [];
+  for (let offset = 0; offset + BOX_HEADER_BYTES <= file.size;) {
+    const header = new DataView(await file.slice(offset, offset + 16).arrayBuffer());
+    const type = String.fromCharCode(...new Uint8Array(header.buffer, 4, 4));
+    let size = header.getUint32(0);
+    let headerSize = BOX_HEADER_BYTES;
+    if (size === 1 && header.byteLength >= 16) {
+      size = Number(header.getBigUint64(8));
+      headerSize = 16;
+    } else if (size === 0) {
+      size = file.size - offset;
+    }
+    if (size < headerSize || offset + size > file.size) throw new Error('The MP4 file is truncated.');
+    boxes.push({ type, start: offset, size, headerSize });
+    offset += size;
+  }
+  return boxes;
+};
+
+const encodeItem = (item: Mp4Item): Uint8Array => {
+  if (item.kind === 'tmpo') {
+    const value = new Uint8Array(2);
+    new DataView(value.buffer).setUint16(0, Math.max(0, Math.min(0xffff, Math.round(item.bpm))));
+    // Type 21 is a big-endian signed integer.
+    return box('tmpo', box('data', versionAndFlags(0, 21), new Uint8Array(4), value));
+  }
+  return box(
+    '----',
+    box('mean', versionAndFlags(0, 0), latin1(FREEFORM_MEAN)),
+    box('name', versionAndFlags(0, 0), latin1(item.name)),
+    // Type 1 is UTF-8 text.
+    box('data', versionAndFlags(0, 1), new Uint8Array(4), textEncoder.encode(item.value)),
+  );
+};
+
+/** The name of a '----' item, so a freeform item only replaces the one it means to. */
+const getFreeformName = (view: DataView, item: Box): string | null => {
+  const name = readChildren(view, item.start + item.headerSize, item.start + item.size).find(child => child.type === 'name');
+  if (!name) return null;
+  return String.fromCharCode(...new Uint8Array(view.buffer, view.byteOffset + name.start + name.headerSize + 4, name.size - name.headerSize - 4));
+};
+
+const isReplaced = (view: DataView, existing: Box, items: Mp4Item[]): boolean =>
+  items.some(item =>
+    item.kind === 'tmpo'
+      ? existing.type === 'tmpo'
+      : existing.type === '----' && getFreeformName(view, existing)?.toLowerCase() === item.name.toLowerCase(),
+  );
+
+const boxBytes = (bytes: Uint8Array, child: Box): Uint8Array => bytes.subarray(child.start, child.start + child.size);
+
+/**
+ * Rebuilds `parent`'s body with the child of type `type` replaced by what
+ * `update` makes of it (undefined when there wasn't one, in which case the
+ * result is appended).
+ */
+const rebuildChild = (
+  bytes: Uint8Array,
+  view: DataView,
+  parent: Box,
+  bodyStart: number,
+  type: string,
+  update: (existing: Box | undefined) => Uint8Array,
+): Uint8Array => {
+  const children = readChildren(view, bodyStart, parent.start + parent.size);
+  const existing = children.find(child => child.type === type);
+  const parts = [bytes.subarray(parent.start + parent.headerSize, bodyStart)];
+  for (const child of children) parts.push(child === existing ? update(child) : boxBytes(bytes, child));
+  if (!existing) parts.push(update(undefined));
+  return box(parent.type, ...parts);
+};
+
+const buildIlst = (bytes: Uint8Array, view: DataView, ilst: Box | undefined, items: Mp4Item[]): Uint8Array => {
+  const kept = ilst
+    ? readChildren(view, ilst.start + ilst.headerSize, ilst.start + ilst.size).filter(child => !isReplaced(view, child, items))
+    : [];
+  return box('ilst', ...kept.map(child => boxBytes(bytes, child)), ...items.map(encodeItem));
+};
+
+const buildMeta = (bytes: Uint8Array, view: DataView, meta: Box | undefined, items: Mp4Item[]): Uint8Array => {
+  if (!meta) {
+    const handler = box('hdlr', versionAndFlags(0, 0), new Uint8Array(4), latin1('mdirappl'), new Uint8Array(9));
+    return box('meta', versionAndFlags(0, 0), handler, buildIlst(bytes, view, undefined, items));
+  }
+  // meta is a full box, so its children start after the version and flags, except in
+  // some QuickTime files, where they follow the header straight away.
+  const body = meta.start + meta.headerSize;
+  const childrenStart = view.getUint32(body) === 0 ? body + 4 : body;
+  return rebuildChild(bytes, view, meta, childrenStart, 'ilst', ilst => buildIlst(bytes, view, ilst, items));
+};
+
+/** Moves every chunk offset in the stco and co64 tables under `parent` by `delta`, in place. */
+const shiftChunkOffsets = (view: DataView, parent: Box, bodyStart: number, delta: number) => {
+  for (const child of readChildren(view, bodyStart, parent.start + parent.size)) {
+    const body = child.start + child.headerSize;
+    if (child.type === 'stco' || child.type === 'co64') {
+      const count = view.getUint32(body + 4);
+      for (let i = 0; i < count; i++) {
+        if (child.type === 'stco') {
+          const offset = view.getUint32(body + 8 + i * 4) + delta;
+          if (offset > 0xffffffff) throw new Error("The tags don't fit without converting the chunk offsets to 64-bit.");
+          view.setUint32(body + 8 + i * 4, offset);
+        } else {
+          view.setBigUint64(body + 8 + i * 8, view.getBigUint64(body + 8 + i * 8) + BigInt(delta));
+        }
+      }
+    } else if (CONTAINER_BOXES.has(child.type)) {
+      shiftChunkOffsets(view, child, body, delta);
+    }
+  }
+};
+
+/** Returns a copy of `file` with `items` set in its iTunes metadata, replacing any of the same kind. */
+export const writeMp4Items = async (file: Blob, items: Mp4Item[]): Promise<Blob> => {
+  const topLevel = await readTopLevel(file);
+  if (topLevel[0]?.type !== 'ftyp') throw new Error("This doesn't look like an MP4 file.");
+  const moov = topLevel.find(child => child.type === 'moov');
+  if (!moov) throw new Error('The MP4 file has no movie box.');
+
+  const bytes = new Uint8Array(await file.slice(moov.start, moov.start + moov.size).arrayBuffer());
+  const view = new DataView(bytes.buffer);
+  const local: Box = { ...moov, start: 0 };
+  const newMoov = rebuildChild(bytes, view, local, local.headerSize, 'udta', udta =>
+    udta
+      ? rebuildChild(bytes, view, udta, udta.start + udta.headerSize, 'meta', meta => buildMeta(bytes, view, meta, items))
+      : box('udta', buildMeta(bytes, view, undefined, items)),
+  );
+
+  const delta = newMoov.length - moov.size;
+  const mediaAfterMoov = topLevel.some(child => child.type === 'mdat' && child.start > moov.start);
+  if (delta !== 0 && mediaAfterMoov) {
+    if (topLevel.some(child => child.type === 'moof')) throw new Error("Tags can't be resized in fragmented MP4 files.");
+    const newView = new DataView(newMoov.buffer, newMoov.byteOffset, newMoov.byteLength);
+    shiftChunkOffsets(newView, { type: 'moov', start: 0, size: newMoov.length, headerSize: BOX_HEADER_BYTES }, BOX_HEADER_BYTES, delta);
+  }
+
+  logInfo("Rewrote the MP4 metadata.", { items: items.map(item => (item.kind === 'tmpo' ? 'tmpo' : item.name)), moovGrowth: delta });
+  return new Blob([file.slice(0, moov.start), newMoov, file.slice(moov.start + moov.size)], { type: file.type });
+};
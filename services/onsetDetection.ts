@@ -0,0 +1,328 @@
+import type { OnsetMethod } from '../types';
+import { fft, hannWindow } from '../utils/fft';
+
+/**
+ * Onset detection functions for the BPM engine. Each method returns its signals
+ * at the input sample rate so the rest of the pipeline doesn't care which one
+ * produced them.
+ */
+
+const ENVELOPE_WINDOW_SECONDS = 0.02;
+const ONSET_SMOOTHING_WINDOW_SECONDS = 0.04;
+
+const STFT_SIZE = 512;
+const STFT_HOP = 64;
+const LOG_COMPRESSION = 100;
+const FLUX_BANDS = [
+  { minHz: 0, maxHz: 200, weight: 0.4 },
+  { minHz: 200, maxHz: 2000, weight: 0.35 },
+  { minHz: 2000, maxHz: Infinity, weight: 0.25 },
+];
+
+export interface OnsetFunction {
+  /** Signal whose local maxima mark individual onsets; used for peak picking. */
+  peakSignal: Float32Array;
+  /** Onset strength used for periodicity (autocorrelation, beats, meter). */
+  onsetSignal: Float32Array;
+  /** How far `onsetSignal` lags the audio, in seconds. */
+  onsetDelaySeconds: number;
+}
+
+const smoothAbsolute = (signal: Float32Array, windowSize: number): Float32Array => {
+  const smoothed = new Float32Array(signal.length);
+  let accumulator = 0;
+  for (let i = 0; i < signal.length; i++) {
+    accumulator += Math.abs(signal[i]);
+    if (i >= windowSize) {
+      accumulator -= Math.abs(signal[i - windowSize]);
+    }
+    const divisor = Math.min(windowSize, i + 1);
+    smoothed[i] = accumulator / divisor;
+  }
+  return smoothed;
+};
+
+export const movingAverage = (signal: Float32Array, windowSize: number): Float32Array => {
+  if (windowSize <= 1) return signal.slice();
+  const result = new Float32Array(signal.length);
+  let sum = 0;
+  for (let i = 0; i < signal.length; i++) {
+    sum += signal[i];
+    if (i >= windowSize) {
+      sum -= signal[i - windowSize];
+    }
+    const divisor = Math.min(windowSize, i + 1);
+    result[i] = sum / divisor;
+  }
+  return result;
+};
+
+/**
+ * The original method: a smoothed amplitude envelope, with onsets taken from
+ * its positive slope.
+ */
+export const envelopeOnset = (audioData: Float32Array, sampleRate: number): OnsetFunction => {
+  const envelopeWindow = Math.max(1, Math.round(sampleRate * ENVELOPE_WINDOW_SECONDS));
+  const envelope = smoothAbsolute(audioData, envelopeWindow);
+  const enhancedEnvelope = movingAverage(envelope, Math.round(envelopeWindow * 0.5));
+
+  const onsetSignal = new Float32Array(enhancedEnvelope.length);
+  for (let i = 1; i < enhancedEnvelope.length; i++) {
+    const diff = enhancedEnvelope[i] - enhancedEnvelope[i - 1];
+    onsetSignal[i] = diff > 0 ? diff : 0;
+  }
+  const onsetSmoothingWindow = Math.max(1, Math.round(sampleRate * ONSET_SMOOTHING_WINDOW_SECONDS));
+
+  return {
+    peakSignal: enhancedEnvelope,
+    onsetSignal: movingAverage(onsetSignal, onsetSmoothingWindow),
+    // The smoothers are trailing moving averages; together they delay the
+    // onset signal by half their combined width.
+    onsetDelaySeconds: (ENVELOPE_WINDOW_SECONDS * 1.5 + ONSET_SMOOTHING_WINDOW_SECONDS) / 2,
+  };
+};
+
+/**
+ * Where the STFT frames spectral flux takes from a signal `length` samples
+ * long start: every `hop` samples, `count` of them.
+ */
+export const getFluxFrames = (length: number): { hop: number; count: number } => ({
+  hop: STFT_HOP,
+  count: Math.max(0, Math.floor((length - STFT_SIZE) / STFT_HOP) + 1),
+});
+
+/**
+ * The half-wave rectified increase in log-compressed STFT magnitude from each
+ * frame to the next, summed over each of FLUX_BANDS, for frames
+ * `firstFrame`..`endFrame - 1` of a signal (see `getFluxFrames`). The first
+ * frame of the signal has no flux.
+ * @param audioData - The signal from sample `offset` on, covering the frames and the one before them.
+ * @returns One array of `endFrame - firstFrame` values per band.
+ */
+export const computeBandFlux = (audioData: Float32Array, sampleRate: number, firstFrame: number, endFrame: number, offset = 0): Float32Array[] => {
+  const binCount = STFT_SIZE / 2 + 1;
+  const binHz = sampleRate / STFT_SIZE;
+  const bandFlux = FLUX_BANDS.map(() => new Float32Array(Math.max(0, endFrame - firstFrame)));
+  const bandOfBin = new Int8Array(binCount);
+  for (let bin = 0; bin < binCount; bin++) {
+    const hz = bin * binHz;
+    bandOfBin[bin] = FLUX_BANDS.findIndex(band => hz >= band.minHz && hz < band.maxHz);
+  }
+
+  const window = hannWindow(STFT_SIZE);
+  const real = new Float64Array(STFT_SIZE);
+  const imag = new Float64Array(STFT_SIZE);
+  let previous = new Float64Array(binCount);
+  let current = new Float64Array(binCount);
+
+  const from = Math.max(0, firstFrame - 1);
+  for (let frame = from; frame < endFrame; frame++) {
+    const start = frame * STFT_HOP - offset;
+    for (let i = 0; i < STFT_SIZE; i++) {
+      real[i] = audioData[start + i] * window[i];
+      imag[i] = 0;
+    }
+    fft(real, imag);
+    for (let bin = 0; bin < binCount; bin++) {
+      const magnitude = Math.sqrt(real[bin] * real[bin] + imag[bin] * imag[bin]);
+      current[bin] = Math.log1p(LOG_COMPRESSION * magnitude);
+      if (frame > from) {
+        const increase = current[bin] - previous[bin];
+        if (increase > 0 && bandOfBin[bin] >= 0) {
+          bandFlux[bandOfBin[bin]][frame - firstFrame] += increase;
+        }
+      }
+    }
+    [previous, current] = [current, previous];
+  }
+  return bandFlux;
+};
+
+/**
+ * Normalises each band's flux over the whole signal, sums the bands by weight
+ * and resamples the result to the input rate.
+ * @param bandFlux - Every frame's flux, as from `computeBandFlux`.
+ * @param length - Length of the signal in samples.
+ */
+export const combineBandFlux = (bandFlux: Float32Array[], length: number): Float32Array => {
+  const frameCount = bandFlux[0]?.length ?? 0;
+  const combined = new Float32Array(frameCount);
+  FLUX_BANDS.forEach((band, b) => {
+    let max = 0;
+    for (let f = 0; f < frameCount; f++) {
+      if (bandFlux[b][f] > max) max = bandFlux[b][f];
+    }
+    if (!max) return;
+    for (let f = 0; f < frameCount; f++) {
+      combined[f] += (bandFlux[b][f] / max) * band.weight;
+    }
+  });
+
+  // Resample from the frame rate to the input rate, placing each value at its
+  // frame centre, so downstream lags and peak positions are in input samples.
+  const signal = new Float32Array(length);
+  const centreOffset = STFT_SIZE / 2;
+  for (let i = 0; i < signal.length; i++) {
+    const position = (i - centreOffset) / STFT_HOP;
+    if (position <= 0) {
+      signal[i] = combined[0] || 0;
+    } else if (position >= frameCount - 1) {
+      signal[i] = combined[frameCount - 1] || 0;
+    } else {
+      const f = Math.floor(position);
+      const t = position - f;
+      signal[i] = combined[f] * (1 - t) + combined[f + 1] * t;
+    }
+  }
+  return signal;
+};
+
+/**
+ * Multi-band spectral flux: the half-wave rectified frame-to-frame increase in
+ * log-compressed STFT magnitude, summed separately over low, mid and high
+ * bands. Each band is normalised before weighting so a heavy bass line can't
+ * drown out hi-hats and snares.
+ */
+export const spectralFluxOnset = (audioData: Float32Array, sampleRate: number): OnsetFunction => {
+  const bandFlux = computeBandFlux(audioData, sampleRate, 0, getFluxFrames(audioData.length).count);
+  const signal = combineBandFlux(bandFlux, audioData.length);
+  return {
+    peakSignal: signal,
+    onsetSignal: signal,
+    onsetDelaySeconds: 0,
+  };
+};
+
+/**
+ * A trailing moving average kept up across blocks, with `movingAverage`'s
+ * arithmetic: the same running sum and the same short divisor at the start.
+ */
+const createRunningAverage = (windowSize: number) => {
+  const recent = new Float64Array(windowSize);
+  let sum = 0;
+  let count = 0;
+  return (value: number): number => {
+    sum += value;
+    if (count >= windowSize) {
+      sum -= recent[count % windowSize];
+    }
+    recent[count % windowSize] = value;
+    count++;
+    return sum / Math.min(windowSize, count);
+  };
+};
+
+/**
+ * `envelopeOnset` for input that arrives a block at a time. Every block's
+ * signals match what `envelopeOnset` gives for that stretch of the whole
+ * input so far.
+ * @returns Takes the next block and returns its peak and onset signals.
+ */
+export const createEnvelopeOnsetStream = (sampleRate: number) => {
+  const envelopeWindow = Math.max(1, Math.round(sampleRate * ENVELOPE_WINDOW_SECONDS));
+  const enhancingWindow = Math.round(envelopeWindow * 0.5);
+  const smoothAbsolute = createRunningAverage(envelopeWindow);
+  const enhance = enhancingWindow <= 1 ? (value: number) => value : createRunningAverage(enhancingWindow);
+  const smoothOnset = createRunningAverage(Math.max(1, Math.round(sampleRate * ONSET_SMOOTHING_WINDOW_SECONDS)));
+  let previous: number | null = null;
+
+  return (block: Float32Array): Pick<OnsetFunction, 'peakSignal' | 'onsetSignal'> => {
+    const peakSignal = new Float32Array(block.length);
+    const onsetSignal = new Float32Array(block.length);
+    for (let i = 0; i < block.length; i++) {
+      const enhanced = Math.fround(enhance(Math.fround(smoothAbsolute(Math.abs(block[i])))));
+      const diff = previous === null ? 0 : enhanced - previous;
+      previous = enhanced;
+      peakSignal[i] = enhanced;
+      onsetSignal[i] = smoothOnset(Math.fround(diff > 0 ? diff : 0));
+    }
+    return { peakSignal, onsetSignal };
+  };
+};
+
+/**
+ * Spectral flux for input that arrives a block at a time: each band's raw
+ * flux, resampled to the input rate as `combineBandFlux` does, so the onset
+ * signal of any stretch is the bands summed with `getFluxBandScales`. A
+ * sample is returned once the STFT frame after it is complete, which keeps
+ * the output about 50 ms behind the input.
+ * @returns Takes the next block and returns the samples of each band that became known.
+ */
+export const createBandFluxStream = (sampleRate: number) => {
+  let audio = new Float32Array(0); // input from sample `audioStart` on
+  let audioStart = 0;
+  let received = 0;
+  let bandFrames = FLUX_BANDS.map(() => new Float32Array(0)); // flux from frame `framesStart` on
+  let framesStart = 0;
+  let frameCount = 0;
+  let emitted = 0;
+  const centreOffset = STFT_SIZE / 2;
+
+  return (block: Float32Array): Float32Array[] => {
+    const joined = new Float32Array(audio.length + block.length);
+    joined.set(audio);
+    joined.set(block, audio.length);
+    audio = joined;
+    received += block.length;
+
+    const { count } = getFluxFrames(received);
+    if (count > frameCount) {
+      const flux = computeBandFlux(audio, sampleRate, frameCount, count, audioStart);
+      bandFrames = bandFrames.map((frames, band) => {
+        const grown = new Float32Array(frames.length + flux[band].length);
+        grown.set(frames);
+        grown.set(flux[band], frames.length);
+        return grown;
+      });
+      frameCount = count;
+      // The next frame compares itself with the last one, so keep that one's audio.
+      const keepFrom = (frameCount - 1) * STFT_HOP;
+      audio = audio.slice(keepFrom - audioStart);
+      audioStart = keepFrom;
+    }
+
+    // Samples between frame centres need both frames; before the first centre, the first frame.
+    let end = emitted;
+    if (frameCount > 0) {
+      end = Math.max(emitted, Math.min(received, centreOffset + 1), centreOffset + (frameCount - 1) * STFT_HOP);
+    }
+    const bands = bandFrames.map(frames => {
+      const signal = new Float32Array(end - emitted);
+      for (let i = emitted; i < end; i++) {
+        const position = (i - centreOffset) / STFT_HOP;
+        if (position <= 0) {
+          signal[i - emitted] = frames[0 - framesStart];
+        } else {
+          const f = Math.floor(position);
+          const t = position - f;
+          signal[i - emitted] = frames[f - framesStart] * (1 - t) + frames[f + 1 - framesStart] * t;
+        }
+      }
+      return signal;
+    });
+    emitted = end;
+
+    // Drop the frames no later sample reads.
+    const firstNeeded = Math.max(0, Math.floor((emitted - centreOffset) / STFT_HOP));
+    if (firstNeeded > framesStart) {
+      bandFrames = bandFrames.map(frames => frames.slice(firstNeeded - framesStart));
+      framesStart = firstNeeded;
+    }
+    return bands;
+  };
+};
+
+/** Per-band factors that normalise each band's flux by its peak and weight it, as `combineBandFlux` does. */
+export const getFluxBandScales = (bands: Float32Array[]): number[] => FLUX_BANDS.map((band, b) => {
+  let max = 0;
+  for (let i = 0; i < bands[b].length; i++) {
+    if (bands[b][i] > max) max = bands[b][i];
+  }
+  return max ? band.weight / max : 0;
+});
+
+export const computeOnsetFunction = (audioData: Float32Array, sampleRate: number, method: OnsetMethod): OnsetFunction => {
+  return method === 'spectralFlux'
+    ? spectralFluxOnset(audioData, sampleRate)
+    : envelopeOnset(audioData, sampleRate);
+};
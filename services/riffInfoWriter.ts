@@ -0,0 +1,101 @@
+import { logInfo } from './loggingService';
+
+/**
+ * Sets fields in the LIST/INFO chunk of a WAV file, such as IBPM. Every other
+ * chunk, the audio data included, is copied across unchanged; the INFO list is
+ * rewritten in place, or appended at the end when the file doesn't have one.
+ */
+
+/** Four-character INFO ids (e.g. "IBPM") and the values to give them. */
+export type RiffInfoFields = Record<string, string>;
+
+const CHUNK_HEADER_BYTES = 8;
+const RIFF_HEADER_BYTES = 12;
+
+const textEncoder = new TextEncoder();
+
+const fourCC = (bytes: Uint8Array, offset = 0): string =>
+  String.fromCharCode(bytes[offset], bytes[offset + 1], bytes[offset + 2], bytes[offset + 3]);
+
+const concat = (parts: Uint8Array[]): Uint8Array => {
+  const out = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+};
+
+/** A chunk with its header, padded to an even length as RIFF requires. */
+const chunk = (id: string, body: Uint8Array): Uint8Array => {
+  const out = new Uint8Array(CHUNK_HEADER_BYTES + body.length + (body.length % 2));
+  const view = new DataView(out.buffer);
+  for (let i = 0; i < 4; i++) out[i] = id.charCodeAt(i);
+  view.setUint32(4, body.length, true);
+  out.set(body, CHUNK_HEADER_BYTES);
+  return out;
+};
+
+/** The INFO list with `fields` replacing any sub-chunks of the same id. */
+const buildInfoList = (existing: Uint8Array | null, fields: RiffInfoFields): Uint8Array => {
+  const kept: Uint8Array[] = [];
+  if (existing) {
+    const view = new DataView(existing.buffer, existing.byteOffset, existing.byteLength);
+    // Past the "INFO" list type.
+    for (let offset = 4; offset + CHUNK_HEADER_BYTES <= existing.length;) {
+      const id = fourCC(existing, offset);
+      const size = view.getUint32(offset + 4, true);
+      const end = Math.min(existing.length, offset + CHUNK_HEADER_BYTES + size + (size % 2));
+      if (!(id in fields)) kept.push(existing.subarray(offset, end));
+      offset = end;
+    }
+  }
+  // INFO strings are null-terminated.
+  const written = Object.entries(fields).map(([id, value]) => chunk(id, concat([textEncoder.encode(value), new Uint8Array(1)])));
+  return chunk('LIST', concat([textEncoder.encode('INFO'), ...kept, ...written]));
+};
+
+/** Returns a copy of the WAV `file` with `fields` set in its INFO list. */
+export const writeRiffInfo = async (file: Blob, fields: RiffInfoFields): Promise<Blob> => {
+  const header = new Uint8Array(await file.slice(0, RIFF_HEADER_BYTES).arrayBuffer());
+  if (fourCC(header) === 'RF64') throw new Error("Tags can't be written into RF64 files.");
+  if (fourCC(header) !== 'RIFF' || fourCC(header, 8) !== 'WAVE') throw new Error("This doesn't look like a WAV file.");
+
+  // Walk the chunk headers, reading only the INFO list into memory.
+  const parts: (Blob | Uint8Array)[] = [];
+  let info: Uint8Array | null = null;
+  let infoIndex = -1;
+  let offset = RIFF_HEADER_BYTES;
+  while (offset + CHUNK_HEADER_BYTES <= file.size) {
+    const chunkHeader = new Uint8Array(await file.slice(offset, offset + 12).arrayBuffer());
+    const size = new DataView(chunkHeader.buffer).getUint32(4, true);
+    const end = Math.min(file.size, offset + CHUNK_HEADER_BYTES + size + (size % 2));
+    if (fourCC(chunkHeader) === 'LIST' && fourCC(chunkHeader, 8) === 'INFO' && !info) {
+      info = new Uint8Array(await file.slice(offset + CHUNK_HEADER_BYTES, end).arrayBuffer());
+      infoIndex = parts.length;
+      parts.push(new Uint8Array(0));
+    } else {
+      parts.push(file.slice(offset, end));
+    }
+    offset = end;
+  }
+  const list = buildInfoList(info, fields);
+  if (infoIndex >= 0) {
+    parts[infoIndex] = list;
+  } else {
+    // A file cut short can end on an odd byte; the new chunk still has to start on an even one.
+    if ((offset - RIFF_HEADER_BYTES) % 2) parts.push(new Uint8Array(1));
+    parts.push(list);
+  }
+
+  const bodySize = 4 + parts.reduce((total, part) => total + (part instanceof Blob ? part.size : part.length), 0);
+  if (bodySize > 0xffffffff) throw new Error('The tagged WAV file would be too large.');
+  const riff = new Uint8Array(RIFF_HEADER_BYTES);
+  riff.set(header.subarray(0, 4));
+  new DataView(riff.buffer).setUint32(4, bodySize, true);
+  riff.set(header.subarray(8, 12), 8);
+
+  logInfo("Rewrote the WAV INFO list.", { fields: Object.keys(fields), replaced: infoIndex >= 0 });
+  return new Blob([riff, ...parts], { type: file.type });
+};
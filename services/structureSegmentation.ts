@@ -0,0 +1,267 @@
+import type { SectionLabel, StructureSection } from '../types';
+import { fft, hannWindow } from '../utils/fft';
+
+/**
+ * Song structure segmentation. Bar-synchronous energy and timbre features are
+ * compared bar against bar; a checkerboard kernel slid along the diagonal of
+ * that self-similarity matrix (Foote's novelty) peaks where the music changes
+ * character. Boundaries therefore always fall on bar lines, and are nudged
+ * towards 4- and 8-bar phrase starts. Labels come from each section's energy
+ * and bass relative to the rest of the track.
+ */
+
+const FRAME_SIZE = 1024;
+const FRAME_HOP = 512;
+const LOW_BAND_HZ = 200;
+const HIGH_BAND_HZ = 2000;
+
+const KERNEL_HALF_BARS = 4;
+const MIN_SECTION_BARS = 4;
+const NOVELTY_THRESHOLD_STD = 0.5;
+const PHRASE_BONUS = { 8: 1.2, 4: 1.1 } as const;
+const BUILD_RISE_DB = 1.5;
+const BUILD_MAX_BARS = 8; // a short section right before a drop is its build-up
+const BUILD_BRIGHTENING_DB = 3; // rise in energy above HIGH_BAND_HZ
+
+/** Energy and timbre of one bar. */
+export interface BarFeatures {
+  energyDb: number;
+  lowRatio: number;
+  highRatio: number;
+  highDb: number;
+  centroid: number; // 0-1 of the Nyquist frequency
+}
+
+/** Bar start times from the tracked beats, counted out from the first downbeat. */
+export const computeBarTimes = (beats: number[], beatsPerBar: number, firstDownbeat: number): number[] => {
+  if (beats.length === 0) return [];
+  const perBar = beatsPerBar > 0 ? beatsPerBar : 4;
+  let anchor = 0;
+  for (let i = 1; i < beats.length; i++) {
+    if (Math.abs(beats[i] - firstDownbeat) < Math.abs(beats[anchor] - firstDownbeat)) anchor = i;
+  }
+  const bars: number[] = [];
+  for (let i = anchor % perBar; i < beats.length; i += perBar) {
+    bars.push(beats[i]);
+  }
+  return bars;
+};
+
+/**
+ * Measures each bar's energy and timbre.
+ * @param audioData - Mono audio from `offset` samples into the track, covering the bars.
+ * @param barTimes - Bar start times in seconds on the track's timeline.
+ * @param end - Where the last bar ends, in seconds.
+ */
+export const computeBarFeatures = (audioData: Float32Array, sampleRate: number, barTimes: number[], end: number, offset = 0): BarFeatures[] => {
+  const binCount = FRAME_SIZE / 2 + 1;
+  const binHz = sampleRate / FRAME_SIZE;
+  const window = hannWindow(FRAME_SIZE);
+  const real = new Float64Array(FRAME_SIZE);
+  const imag = new Float64Array(FRAME_SIZE);
+
+  return barTimes.map((start, b) => {
+    const barEnd = b + 1 < barTimes.length ? barTimes[b + 1] : end;
+    const first = Math.max(0, Math.floor(start * sampleRate)) - offset;
+    const last = Math.min(offset + audioData.length, Math.floor(barEnd * sampleRate)) - offset;
+    let total = 0, low = 0, high = 0, weighted = 0, frames = 0;
+
+    for (let frameStart = first; frameStart + FRAME_SIZE <= last; frameStart += FRAME_HOP) {
+      for (let i = 0; i < FRAME_SIZE; i++) {
+        real[i] = audioData[frameStart + i] * window[i];
+        imag[i] = 0;
+      }
+      fft(real, imag);
+      for (let bin = 1; bin < binCount; bin++) {
+        const power = real[bin] * real[bin] + imag[bin] * imag[bin];
+        const hz = bin * binHz;
+        total += power;
+        weighted += power * bin;
+        if (hz < LOW_BAND_HZ) low += power;
+        else if (hz >= HIGH_BAND_HZ) high += power;
+      }
+      frames++;
+    }
+
+    if (frames === 0 || total <= 0) {
+      return { energyDb: -100, lowRatio: 0, highRatio: 0, highDb: -100, centroid: 0 };
+    }
+    return {
+      energyDb: 10 * Math.log10(total / frames),
+      lowRatio: low / total,
+      highRatio: high / total,
+      highDb: 10 * Math.log10(high / frames + 1e-10),
+      centroid: weighted / total / binCount,
+    };
+  });
+};
+
+/** Z-scores each feature across bars so they contribute equally to distances. */
+const standardise = (features: BarFeatures[]): number[][] => {
+  const rows = features.map(f => [f.energyDb, f.lowRatio, f.highRatio, f.centroid]);
+  const dims = rows[0]?.length ?? 0;
+  for (let d = 0; d < dims; d++) {
+    const mean = rows.reduce((s, r) => s + r[d], 0) / rows.length;
+    const std = Math.sqrt(rows.reduce((s, r) => s + (r[d] - mean) ** 2, 0) / rows.length) || 1;
+    rows.forEach(r => { r[d] = (r[d] - mean) / std; });
+  }
+  return rows;
+};
+
+const similarity = (a: number[], b: number[]): number => {
+  let sq = 0;
+  for (let d = 0; d < a.length; d++) sq += (a[d] - b[d]) ** 2;
+  return Math.exp(-sq / a.length);
+};
+
+/** Foote novelty: high where the bars before and after a point differ from each other. */
+const computeNovelty = (rows: number[][]): number[] => {
+  const n = rows.length;
+  const novelty = new Array(n).fill(0);
+  for (let i = KERNEL_HALF_BARS; i <= n - KERNEL_HALF_BARS; i++) {
+    let score = 0;
+    for (let a = -KERNEL_HALF_BARS; a < KERNEL_HALF_BARS; a++) {
+      for (let b = -KERNEL_HALF_BARS; b < KERNEL_HALF_BARS; b++) {
+        const sameSide = (a < 0) === (b < 0);
+        score += (sameSide ? 1 : -1) * similarity(rows[i + a], rows[i + b]);
+      }
+    }
+    novelty[i] = Math.max(0, score);
+  }
+  return novelty;
+};
+
+const pickBoundaries = (novelty: number[]): number[] => {
+  const weighted = novelty.map((value, bar) => value * (bar % 8 === 0 ? PHRASE_BONUS[8] : bar % 4 === 0 ? PHRASE_BONUS[4] : 1));
+  const mean = weighted.reduce((s, v) => s + v, 0) / weighted.length;
+  const std = Math.sqrt(weighted.reduce((s, v) => s + (v - mean) ** 2, 0) / weighted.length);
+  const threshold = mean + NOVELTY_THRESHOLD_STD * std;
+
+  // Strongest peaks first, so a weaker neighbour can't block them.
+  const candidates = weighted
+    .map((value, bar) => ({ value, bar }))
+    .filter(({ value, bar }) => value > threshold
+      && weighted.slice(Math.max(0, bar - 2), bar + 3).every(v => v <= value))
+    .sort((a, b) => b.value - a.value);
+
+  const boundaries: number[] = [];
+  for (const { bar } of candidates) {
+    if (bar < MIN_SECTION_BARS || bar > novelty.length - MIN_SECTION_BARS) continue;
+    if (boundaries.every(existing => Math.abs(existing - bar) >= MIN_SECTION_BARS)) {
+      boundaries.push(bar);
+    }
+  }
+  return boundaries.sort((a, b) => a - b);
+};
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)] ?? 0;
+};
+
+const quantile = (values: number[], fraction: number): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * fraction))] ?? 0;
+};
+
+const mean = (values: number[]): number => values.length ? values.reduce((s, v) => s + v, 0) / values.length : 0;
+
+/**
+ * Names sections from energy and timbre relative to the whole track: quiet
+ * ends are the intro and outro, loud bass-heavy sections are drops, sections
+ * that lose their low end or drop below the median level are breakdowns, and
+ * a short section, or one that rises or brightens, leading into a drop is a build.
+ */
+const labelSections = (ranges: [number, number][], features: BarFeatures[]): SectionLabel[] => {
+  const energies = features.map(f => f.energyDb);
+  const medianEnergy = median(energies);
+  const loudEnergy = quantile(energies, 0.7);
+  const medianLow = median(features.map(f => f.lowRatio));
+
+  const stats = ranges.map(([start, end]) => {
+    const length = end - start;
+    const bars = features.slice(start, end);
+    const half = Math.max(1, Math.floor(bars.length / 2));
+    const firstHalf = bars.slice(0, half);
+    const secondHalf = bars.slice(half);
+    return {
+      length,
+      energy: mean(bars.map(f => f.energyDb)),
+      low: mean(bars.map(f => f.lowRatio)),
+      rise: mean(secondHalf.map(f => f.energyDb)) - mean(firstHalf.map(f => f.energyDb)),
+      brightening: mean(secondHalf.map(f => f.highDb)) - mean(firstHalf.map(f => f.highDb)),
+    };
+  });
+
+  const labels: SectionLabel[] = stats.map(({ energy, low }, i) => {
+    if (i === 0 && energy < medianEnergy) return 'intro';
+    if (i === stats.length - 1 && i > 0 && energy < medianEnergy) return 'outro';
+    if (energy >= loudEnergy && low >= medianLow * 0.9) return 'drop';
+    if (energy < medianEnergy || low < medianLow * 0.5) return 'breakdown';
+    return 'main';
+  });
+
+  for (let i = 1; i < labels.length; i++) {
+    if (labels[i] !== 'drop' || labels[i - 1] === 'drop' || labels[i - 1] === 'intro') continue;
+    const previous = stats[i - 1];
+    if (labels[i - 1] === 'main' || previous.length <= BUILD_MAX_BARS
+      || previous.rise >= BUILD_RISE_DB || previous.brightening >= BUILD_BRIGHTENING_DB) {
+      labels[i - 1] = 'build';
+    }
+  }
+  return labels;
+};
+
+/**
+ * Splits a track into labelled sections on its bar grid.
+ * @param audioData - Mono audio at `sampleRate`.
+ * @param barTimes - Bar start times in seconds on the same timeline as `audioData`.
+ * @returns Sections covering the whole track, or an empty list when there are too few bars.
+ */
+export const segmentStructure = (audioData: Float32Array, sampleRate: number, barTimes: number[]): StructureSection[] => {
+  const duration = audioData.length / sampleRate;
+  if (barTimes.length < MIN_SECTION_BARS * 2) return [];
+  return segmentBarFeatures(computeBarFeatures(audioData, sampleRate, barTimes, duration), barTimes, duration);
+};
+
+/**
+ * `segmentStructure` for bar features that were already measured, e.g. in parts.
+ * @param features - One entry per bar in `barTimes`.
+ * @param duration - Length of the track in seconds.
+ */
+export const segmentBarFeatures = (features: BarFeatures[], barTimes: number[], duration: number): StructureSection[] => {
+  if (barTimes.length < MIN_SECTION_BARS * 2) return [];
+  const boundaries = pickBoundaries(computeNovelty(standardise(features)));
+
+  const edges = [0, ...boundaries, barTimes.length];
+  const initialRanges: [number, number][] = edges.slice(0, -1).map((start, i) => [start, edges[i + 1]]);
+  const initialLabels = labelSections(initialRanges, features);
+
+  // Neighbours that ended up with the same name are one section.
+  const ranges: [number, number][] = [];
+  const labels: SectionLabel[] = [];
+  initialRanges.forEach((range, i) => {
+    if (labels.length > 0 && labels[labels.length - 1] === initialLabels[i]) {
+      ranges[ranges.length - 1][1] = range[1];
+    } else {
+      ranges.push([...range]);
+      labels.push(initialLabels[i]);
+    }
+  });
+  const energies = features.map(f => f.energyDb);
+  const minEnergy = Math.min(...energies);
+  const maxEnergy = Math.max(...energies);
+
+  return ranges.map(([startBar, endBar], i) => {
+    const sectionEnergy = mean(energies.slice(startBar, endBar));
+    return {
+      // The first and last sections stretch to the ends of the track.
+      start: i === 0 ? 0 : barTimes[startBar],
+      end: endBar < barTimes.length ? barTimes[endBar] : duration,
+      startBar,
+      bars: endBar - startBar,
+      label: labels[i],
+      energy: maxEnergy > minEnergy ? (sectionEnergy - minEnergy) / (maxEnergy - minEnergy) : 0,
+    };
+  });
+};
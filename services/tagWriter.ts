@@ -0,0 +1,90 @@
+import type { MusicalKey } from '../types';
+import { formatBpm } from '../utils/formatters';
+import { createTextFrame, writeId3Frames } from './id3Writer';
+import type { Id3Frame } from './id3Writer';
+import { toShortKeyName } from './keyDetection';
+import { writeMp4Items } from './mp4TagWriter';
+import type { Mp4Item } from './mp4TagWriter';
+import { writeRiffInfo } from './riffInfoWriter';
+import { writeFlacComments, writeOggComments } from './vorbisCommentWriter';
+import type { VorbisFields } from './vorbisCommentWriter';
+
+/**
+ * Writes the BPM, and optionally the key, into whichever kind of tag the
+ * file's container uses, leaving the rest of its tags and its audio alone.
+ */
+
+export type TagContainer = 'mp3' | 'flac' | 'ogg' | 'mp4' | 'wav';
+
+export interface TempoTags {
+  bpm: number;
+  key: MusicalKey | null;
+}
+
+/** Where each container keeps the values, for telling the user what will change. */
+export const TAG_FIELDS: Record<TagContainer, { bpm: string; key: string | null }> = {
+  mp3: { bpm: 'ID3v2 TBPM', key: 'TKEY' },
+  flac: { bpm: 'Vorbis comment BPM', key: 'INITIALKEY' },
+  ogg: { bpm: 'Vorbis comment BPM', key: 'INITIALKEY' },
+  mp4: { bpm: 'iTunes tmpo', key: 'initialkey' },
+  // INFO has no key field (IKEY is keywords), so WAV only gets the tempo.
+  wav: { bpm: 'RIFF INFO IBPM', key: null },
+};
+
+const readHead = async (file: Blob, start: number, length: number) =>
+  new Uint8Array(await file.slice(start, start + length).arrayBuffer());
+
+/**
+ * Works out the container from the file's bytes alone, since its name and
+ * MIME type can be missing or wrong; null when no writer handles it.
+ */
+export const detectTagContainer = async (file: Blob): Promise<TagContainer | null> => {
+  let head = await readHead(file, 0, 12);
+  const text = (start: number, end: number) => String.fromCharCode(...head.subarray(start, end));
+  if (text(0, 4) === 'OggS') return 'ogg';
+  if (text(4, 8) === 'ftyp') return 'mp4';
+  if (text(0, 4) === 'RIFF' && text(8, 12) === 'WAVE') return 'wav';
+  if (text(0, 4) === 'fLaC') return 'flac';
+  // An ID3 tag means MP3, unless "fLaC" follows it, as it does in some FLAC files.
+  if (text(0, 3) === 'ID3' && head.length >= 10) {
+    const tagLength = 10 + ((head[6] << 21) | (head[7] << 14) | (head[8] << 7) | head[9]) + (head[5] & 0x10 ? 10 : 0);
+    head = await readHead(file, tagLength, 4);
+    return text(0, 4) === 'fLaC' ? 'flac' : 'mp3';
+  }
+  // An MPEG audio frame sync; layer bits of 00 would make it ADTS AAC, which has no tags to write.
+  if (head[0] === 0xff && (head[1] & 0xe0) === 0xe0 && (head[1] & 0x06) !== 0) return 'mp3';
+  return null;
+};
+
+/**
+ * Returns a copy of `file` with the tempo (and key, where the container has a
+ * field for it) written into its tags.
+ * @throws When the container isn't one we can tag, or its tags can't be rewritten safely.
+ */
+export const writeTempoTags = async (file: Blob, tags: TempoTags): Promise<Blob> => {
+  const container = await detectTagContainer(file);
+  const keyName = tags.key ? toShortKeyName(tags.key) : null;
+  switch (container) {
+    case 'mp3': {
+      // TBPM is defined as a whole number.
+      const frames: Id3Frame[] = [createTextFrame('TBPM', String(Math.round(tags.bpm)))];
+      if (keyName) frames.push(createTextFrame('TKEY', keyName));
+      return writeId3Frames(file, frames);
+    }
+    case 'flac':
+    case 'ogg': {
+      const fields: VorbisFields = { BPM: formatBpm(tags.bpm) };
+      if (keyName) fields.INITIALKEY = keyName;
+      return container === 'flac' ? writeFlacComments(file, fields) : writeOggComments(file, fields);
+    }
+    case 'mp4': {
+      const items: Mp4Item[] = [{ kind: 'tmpo', bpm: tags.bpm }];
+      if (keyName) items.push({ kind: 'freeform', name: 'initialkey', value: keyName });
+      return writeMp4Items(file, items);
+    }
+    case 'wav':
+      return writeRiffInfo(file, { IBPM: formatBpm(tags.bpm) });
+    default:
+      throw new Error("Tags can't be written into this kind of file.");
+  }
+};
@@ -0,0 +1,82 @@
+import type { TimeRange } from '../types';
+import { logInfo } from './loggingService';
+import { FULL_DECODE_BUDGET_BYTES } from './audioSource';
+
+/**
+ * Pitch-preserving playback at another speed, through the WSOLA worklet in
+ * timeStretch.worklet.js. The worklet keeps its own copy of the track, since
+ * it has to read ahead of real time when speeding up, and nothing more: it
+ * matches frames on a mono mix it sums as it goes.
+ */
+
+// The worklet plays at most two channels; anything wider is previewed from its front pair.
+const MAX_CHANNELS = 2;
+
+export interface TimeStretcher {
+  /** Connect this to wherever the music should go. */
+  node: AudioWorkletNode;
+  /** Hands a track to the worklet; does nothing if it already has this one. */
+  load: (buffer: AudioBuffer) => Promise<void>;
+  /**
+   * Plays from `offset` seconds into the track at `rate` times normal speed,
+   * starting at `when` on the context clock, and going round `loop` once it
+   * gets there.
+   */
+  start: (offset: number, rate: number, when: number, loop?: TimeRange | null) => void;
+  stop: () => void;
+  setOnEnded: (callback: (() => void) | null) => void;
+}
+
+/** Resamples a buffer decoded by another context, so the worklet can copy samples straight through. */
+const matchSampleRate = async (buffer: AudioBuffer, sampleRate: number): Promise<AudioBuffer> => {
+  if (buffer.sampleRate === sampleRate) return buffer;
+  const offline = new OfflineAudioContext(buffer.numberOfChannels, Math.ceil(buffer.duration * sampleRate), sampleRate);
+  const source = offline.createBufferSource();
+  source.buffer = buffer;
+  source.connect(offline.destination);
+  source.start();
+  return offline.startRendering();
+};
+
+export const createTimeStretcher = async (context: AudioContext): Promise<TimeStretcher> => {
+  await context.audioWorklet.addModule(new URL('./timeStretch.worklet.js', import.meta.url));
+  const node = new AudioWorkletNode(context, 'time-stretch', {
+    numberOfInputs: 0,
+    outputChannelCount: [MAX_CHANNELS],
+  });
+
+  let loaded: AudioBuffer | null = null;
+  let onEnded: (() => void) | null = null;
+  // Tags each start, so an 'ended' still in flight from the last one is ignored.
+  let playbackId = 0;
+  node.port.onmessage = (event: MessageEvent<{ type: string; id: number }>) => {
+    if (event.data.type === 'ended' && event.data.id === playbackId) onEnded?.();
+  };
+
+  const load = async (buffer: AudioBuffer) => {
+    if (loaded === buffer) return;
+    // The copy costs as much again as the decoded track, so it gets the same budget as decoding.
+    const copyBytes = Math.ceil(buffer.duration * context.sampleRate) * Math.min(MAX_CHANNELS, buffer.numberOfChannels) * Float32Array.BYTES_PER_ELEMENT;
+    if (copyBytes > FULL_DECODE_BUDGET_BYTES) {
+      throw new Error(`The track is too long to time-stretch: its copy would need ${Math.round(copyBytes / 2 ** 20)} MB.`);
+    }
+    const matched = await matchSampleRate(buffer, context.sampleRate);
+    const channels: Float32Array[] = [];
+    for (let c = 0; c < Math.min(MAX_CHANNELS, matched.numberOfChannels); c++) {
+      channels.push(matched.getChannelData(c).slice());
+    }
+    node.port.postMessage({ type: 'load', channels }, channels.map(channel => channel.buffer));
+    loaded = buffer;
+    logInfo("Track loaded into the time-stretcher.", { channels: channels.length, resampled: matched !== buffer });
+  };
+
+  return {
+    node,
+    load,
+    start: (offset, rate, when, loop = null) => node.port.postMessage({ type: 'start', id: ++playbackId, offset, rate, when, loop }),
+    stop: () => node.port.postMessage({ type: 'stop' }),
+    setOnEnded: (callback) => {
+      onEnded = callback;
+    },
+  };
+};
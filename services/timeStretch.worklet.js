@@ -0,0 +1,143 @@
+/**
+ * AudioWorklet processor that plays a loaded track at a different speed with
+ * its pitch preserved, using WSOLA (waveform-similarity overlap-add): windowed
+ * frames are read from the input at the stretched rate and overlap-added at
+ * the normal rate, and each frame is nudged by up to SEARCH_RADIUS samples to
+ * where it best continues the previous one, which avoids phasing and clicks.
+ *
+ * Like the live capture worklet this is plain JavaScript with no imports,
+ * since `audioWorklet.addModule` loads it as a standalone script.
+ */
+const FRAME_SIZE = 2048;
+const HOP = FRAME_SIZE / 2; // synthesis hop; a periodic Hann window sums to one at 50% overlap
+const SEARCH_RADIUS = 512;
+const COARSE_STEP = 4; // the search first compares every 4th sample at every 4th lag, then refines
+
+class TimeStretchProcessor extends AudioWorkletProcessor {
+  constructor() {
+    super();
+    this.window = new Float32Array(FRAME_SIZE);
+    for (let i = 0; i < FRAME_SIZE; i++) this.window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / FRAME_SIZE);
+    this.channels = [];
+    this.length = 0;
+    this.isPlaying = false;
+    this.port.onmessage = (event) => this.handleMessage(event.data);
+  }
+
+  handleMessage(message) {
+    if (message.type === 'load') {
+      this.channels = message.channels;
+      this.length = this.channels[0].length;
+      this.isPlaying = false;
+    } else if (message.type === 'start') {
+      this.playbackId = message.id;
+      this.rate = message.rate;
+      this.startTime = message.when;
+      this.position = message.offset * sampleRate; // nominal input position of the next frame
+      // Once the read position passes the loop's end it wraps back by the loop's
+      // length; the frames either side of the jump are overlap-added like any others.
+      this.loop = message.loop ? { start: message.loop.start * sampleRate, end: message.loop.end * sampleRate } : null;
+      this.previousStart = -1;
+      this.accumulators = this.channels.map(() => new Float32Array(FRAME_SIZE));
+      this.ready = this.channels.map(() => new Float32Array(HOP));
+      this.readIndex = HOP; // nothing ready yet
+      this.isPlaying = this.length > 0;
+    } else if (message.type === 'stop') {
+      this.isPlaying = false;
+    }
+  }
+
+  /**
+   * Correlation of the frame at `candidate` with the natural continuation at
+   * `target`, normalised by its energy. Frames are matched on a mono mix so
+   * every channel gets the same offsets; it's summed as it's read rather than
+   * kept, and the missing halving only scales every score alike.
+   */
+  similarity(target, candidate, sampleStep) {
+    const overlap = FRAME_SIZE - HOP;
+    const left = this.channels[0];
+    const right = this.channels[this.channels.length - 1];
+    let correlation = 0;
+    let energy = 1e-9;
+    for (let i = 0; i < overlap; i += sampleStep) {
+      const sample = left[candidate + i] + right[candidate + i];
+      correlation += (left[target + i] + right[target + i]) * sample;
+      energy += sample * sample;
+    }
+    return correlation / Math.sqrt(energy);
+  }
+
+  findFrameStart() {
+    const nominal = Math.round(this.position);
+    const maxStart = this.length - FRAME_SIZE;
+    if (this.previousStart < 0 || maxStart <= 0) return nominal;
+    const target = this.previousStart + HOP;
+    if (target > maxStart) return nominal;
+
+    const low = Math.max(0, nominal - SEARCH_RADIUS);
+    const high = Math.min(maxStart, nominal + SEARCH_RADIUS);
+    let best = Math.min(Math.max(nominal, 0), maxStart);
+    let bestScore = -Infinity;
+    for (let start = low; start <= high; start += COARSE_STEP) {
+      const score = this.similarity(target, start, COARSE_STEP);
+      if (score > bestScore) {
+        bestScore = score;
+        best = start;
+      }
+    }
+    const coarse = best;
+    bestScore = -Infinity;
+    for (let start = Math.max(low, coarse - COARSE_STEP + 1); start <= Math.min(high, coarse + COARSE_STEP - 1); start++) {
+      const score = this.similarity(target, start, 2);
+      if (score > bestScore) {
+        bestScore = score;
+        best = start;
+      }
+    }
+    return best;
+  }
+
+  /** Overlap-adds one more frame and moves the next HOP finished samples into `ready`. */
+  step() {
+    const start = this.findFrameStart();
+    for (let c = 0; c < this.channels.length; c++) {
+      const input = this.channels[c];
+      const accumulator = this.accumulators[c];
+      for (let i = 0; i < FRAME_SIZE; i++) {
+        const index = start + i;
+        if (index >= 0 && index < this.length) accumulator[i] += this.window[i] * input[index];
+      }
+      this.ready[c].set(accumulator.subarray(0, HOP));
+      accumulator.copyWithin(0, HOP);
+      accumulator.fill(0, FRAME_SIZE - HOP);
+    }
+    this.previousStart = start;
+    this.position += HOP * this.rate;
+    if (this.loop && this.position >= this.loop.end) this.position -= this.loop.end - this.loop.start;
+    this.readIndex = 0;
+  }
+
+  process(_inputs, outputs) {
+    const output = outputs[0];
+    if (!this.isPlaying || currentTime < this.startTime) return true;
+    const frames = output[0].length;
+    for (let i = 0; i < frames; i++) {
+      if (this.readIndex >= HOP) {
+        if (this.position >= this.length) {
+          this.isPlaying = false;
+          this.port.postMessage({ type: 'ended', id: this.playbackId });
+          return true;
+        }
+        this.step();
+      }
+      for (let c = 0; c < output.length; c++) {
+        // A mono track feeds both outputs.
+        output[c][i] = this.ready[Math.min(c, this.ready.length - 1)][this.readIndex];
+      }
+      this.readIndex++;
+    }
+    return true;
+  }
+}
+
+registerProcessor('time-stretch', TimeStretchProcessor);
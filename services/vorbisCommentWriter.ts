@@ -0,0 +1,285 @@
+import { logInfo } from './loggingService';
+
+/**
+ * Sets fields in the Vorbis comments of FLAC and Ogg (Vorbis or Opus) files.
+ * Only the metadata is rebuilt: the audio is copied across untouched, apart
+ * from Ogg page headers, which are renumbered if the comments take more or
+ * fewer pages than before.
+ */
+
+/** Field names (case doesn't matter) and the values to give them. */
+export type VorbisFields = Record<string, string>;
+
+const FLAC_BLOCK_HEADER_BYTES = 4;
+const FLAC_VORBIS_COMMENT = 4;
+const FLAC_LAST_BLOCK = 0x80;
+
+const OGG_PAGE_HEADER_BYTES = 27;
+const OGG_CONTINUED = 0x01;
+const OGG_MAX_SEGMENTS = 255;
+
+const textEncoder = new TextEncoder();
+
+const readBytes = async (blob: Blob, start: number, length: number): Promise<Uint8Array> =>
+  new Uint8Array(await blob.slice(start, start + length).arrayBuffer());
+
+const fourCC = (bytes: Uint8Array, offset = 0): string =>
+  String.fromCharCode(bytes[offset], bytes[offset + 1], bytes[offset + 2], bytes[offset + 3]);
+
+const concat = (parts: Uint8Array[]): Uint8Array => {
+  const out = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+};
+
+const uint32LE = (value: number): Uint8Array => {
+  const bytes = new Uint8Array(4);
+  new DataView(bytes.buffer).setUint32(0, value, true);
+  return bytes;
+};
+
+/**
+ * Rewrites a comment list (vendor string, then the comments, all with
+ * little-endian lengths) that starts at `offset`, with `fields` replacing any
+ * comments of the same names.
+ * @returns The new list, and where the old one ended.
+ */
+const updateCommentList = (bytes: Uint8Array, offset: number, fields: VorbisFields): { list: Uint8Array; end: number } => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const vendorLength = view.getUint32(offset, true);
+  const vendor = bytes.subarray(offset + 4, offset + 4 + vendorLength);
+  let position = offset + 4 + vendorLength;
+  const count = view.getUint32(position, true);
+  position += 4;
+
+  const replaced = new Set(Object.keys(fields).map(name => name.toUpperCase()));
+  const comments: Uint8Array[] = [];
+  for (let i = 0; i < count; i++) {
+    const length = view.getUint32(position, true);
+    const comment = bytes.subarray(position + 4, position + 4 + length);
+    position += 4 + length;
+    const separator = comment.indexOf(0x3d); // '='
+    const name = String.fromCharCode(...comment.subarray(0, separator < 0 ? comment.length : separator)).toUpperCase();
+    if (!replaced.has(name)) comments.push(comment);
+  }
+  for (const [name, value] of Object.entries(fields)) comments.push(textEncoder.encode(`${name.toUpperCase()}=${value}`));
+
+  const list = concat([
+    uint32LE(vendor.length), vendor,
+    uint32LE(comments.length),
+    ...comments.flatMap(comment => [uint32LE(comment.length), comment]),
+  ]);
+  return { list, end: position };
+};
+
+// An empty comment list, for files that don't have one yet.
+const EMPTY_COMMENT_LIST = concat([uint32LE(0), uint32LE(0)]);
+
+/** Length of an ID3v2 tag that some FLAC files carry in front of "fLaC"; 0 if there isn't one. */
+const getId3Length = (head: Uint8Array): number =>
+  fourCC(head).startsWith('ID3')
+    ? 10 + ((head[6] << 21) | (head[7] << 14) | (head[8] << 7) | head[9]) + (head[5] & 0x10 ? 10 : 0)
+    : 0;
+
+export const writeFlacComments = async (file: Blob, fields: VorbisFields): Promise<Blob> => {
+  const start = getId3Length(await readBytes(file, 0, 10));
+  if (fourCC(await readBytes(file, start, 4)) !== 'fLaC') throw new Error("This doesn't look like a FLAC file.");
+
+  const blocks: { type: number; body: Blob | Uint8Array }[] = [];
+  let offset = start + 4;
+  let isLast = false;
+  while (!isLast) {
+    const header = await readBytes(file, offset, FLAC_BLOCK_HEADER_BYTES);
+    if (header.length < FLAC_BLOCK_HEADER_BYTES) throw new Error('The FLAC metadata is truncated.');
+    isLast = (header[0] & FLAC_LAST_BLOCK) !== 0;
+    const type = header[0] & 0x7f;
+    const length = (header[1] << 16) | (header[2] << 8) | header[3];
+    const bodyStart = offset + FLAC_BLOCK_HEADER_BYTES;
+    if (type === FLAC_VORBIS_COMMENT) {
+      blocks.push({ type, body: updateCommentList(await readBytes(file, bodyStart, length), 0, fields).list });
+    } else {
+      blocks.push({ type, body: file.slice(bodyStart, bodyStart + length) });
+    }
+    offset = bodyStart + length;
+  }
+  if (!blocks.some(block => block.type === FLAC_VORBIS_COMMENT)) {
+    // STREAMINFO has to come first; the comments can go straight after it.
+    blocks.splice(1, 0, { type: FLAC_VORBIS_COMMENT, body: updateCommentList(EMPTY_COMMENT_LIST, 0, fields).list });
+  }
+
+  const parts: (Blob | Uint8Array)[] = [file.slice(0, start + 4)];
+  blocks.forEach((block, i) => {
+    const size = block.body instanceof Blob ? block.body.size : block.body.length;
+    if (size >= 1 << 24) throw new Error('The FLAC comment block would be too large.');
+    const header = new Uint8Array([(i === blocks.length - 1 ? FLAC_LAST_BLOCK : 0) | block.type, (size >> 16) & 0xff, (size >> 8) & 0xff, size & 0xff]);
+    parts.push(header, block.body);
+  });
+  parts.push(file.slice(offset));
+  logInfo("Rewrote the FLAC comments.", { fields: Object.keys(fields) });
+  return new Blob(parts, { type: file.type });
+};
+
+// --- Ogg ---
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let i = 0; i < 256; i++) {
+    let crc = i << 24;
+    for (let bit = 0; bit < 8; bit++) crc = crc & 0x80000000 ? (crc << 1) ^ 0x04c11db7 : crc << 1;
+    table[i] = crc >>> 0;
+  }
+  return table;
+})();
+
+/** Ogg's CRC-32 (polynomial 0x04c11db7, unreflected), over a page whose checksum field is zero. */
+const oggChecksum = (page: Uint8Array): number => {
+  let crc = 0;
+  for (let i = 0; i < page.length; i++) crc = ((crc << 8) ^ CRC_TABLE[((crc >>> 24) ^ page[i]) & 0xff]) >>> 0;
+  return crc;
+};
+
+interface OggPage {
+  headerType: number;
+  serial: number;
+  sequence: number;
+  segments: Uint8Array;
+  data: Uint8Array;
+  length: number; // bytes in the file, header included
+}
+
+const parseOggPage = (bytes: Uint8Array, offset: number): OggPage | null => {
+  if (offset + OGG_PAGE_HEADER_BYTES > bytes.length || fourCC(bytes, offset) !== 'OggS') return null;
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const segmentCount = bytes[offset + 26];
+  const segments = bytes.subarray(offset + OGG_PAGE_HEADER_BYTES, offset + OGG_PAGE_HEADER_BYTES + segmentCount);
+  const dataStart = offset + OGG_PAGE_HEADER_BYTES + segmentCount;
+  const dataLength = segments.reduce((total, segment) => total + segment, 0);
+  if (dataStart + dataLength > bytes.length) return null;
+  return {
+    headerType: bytes[offset + 5],
+    serial: view.getUint32(offset + 14, true),
+    sequence: view.getUint32(offset + 18, true),
+    segments,
+    data: bytes.subarray(dataStart, dataStart + dataLength),
+    length: dataStart + dataLength - offset,
+  };
+};
+
+/** Writes a header page (granule position 0) carrying `segments` and `data`. */
+const buildOggPage = (headerType: number, serial: number, sequence: number, segments: number[], data: Uint8Array): Uint8Array => {
+  const page = new Uint8Array(OGG_PAGE_HEADER_BYTES + segments.length + data.length);
+  const view = new DataView(page.buffer);
+  page.set(textEncoder.encode('OggS'), 0);
+  page[5] = headerType;
+  view.setUint32(14, serial, true);
+  view.setUint32(18, sequence, true);
+  page[26] = segments.length;
+  page.set(segments, OGG_PAGE_HEADER_BYTES);
+  page.set(data, OGG_PAGE_HEADER_BYTES + segments.length);
+  view.setUint32(22, oggChecksum(page), true);
+  return page;
+};
+
+/** Sets a page's sequence number and recomputes its checksum, in place. */
+const renumberOggPage = (page: Uint8Array, sequence: number) => {
+  const view = new DataView(page.buffer, page.byteOffset, page.byteLength);
+  view.setUint32(18, sequence, true);
+  view.setUint32(22, 0, true);
+  view.setUint32(22, oggChecksum(page), true);
+};
+
+/** Lays packets out on as few pages as the 255-segment limit allows, starting at `sequence`. */
+const paginate = (packets: Uint8Array[], serial: number, sequence: number): Uint8Array[] => {
+  const lacing: number[] = [];
+  for (const packet of packets) {
+    for (let remaining = packet.length; ; remaining -= 255) {
+      lacing.push(Math.min(255, remaining));
+      if (remaining < 255) break;
+    }
+  }
+  const data = concat(packets);
+  const pages: Uint8Array[] = [];
+  let dataOffset = 0;
+  let continued = false;
+  for (let i = 0; i < lacing.length; i += OGG_MAX_SEGMENTS) {
+    const segments = lacing.slice(i, i + OGG_MAX_SEGMENTS);
+    const length = segments.reduce((total, segment) => total + segment, 0);
+    pages.push(buildOggPage(continued ? OGG_CONTINUED : 0, serial, sequence + pages.length, segments, data.subarray(dataOffset, dataOffset + length)));
+    dataOffset += length;
+    continued = segments[segments.length - 1] === 255;
+  }
+  return pages;
+};
+
+// How each codec marks its comment header, and how many header packets it has.
+const OGG_CODECS = [
+  { name: 'Vorbis', id: '\x01vorbis', comments: '\x03vorbis', headers: 3 },
+  { name: 'Opus', id: 'OpusHead', comments: 'OpusTags', headers: 2 },
+];
+
+const startsWith = (bytes: Uint8Array, text: string) =>
+  bytes.length >= text.length && Array.from(text).every((char, i) => bytes[i] === char.charCodeAt(0));
+
+export const writeOggComments = async (file: Blob, fields: VorbisFields): Promise<Blob> => {
+  // The headers are at the front; read more only if embedded cover art makes them larger than this.
+  let head = await readBytes(file, 0, 1 << 18);
+  const first = parseOggPage(head, 0);
+  if (!first) throw new Error("This doesn't look like an Ogg file.");
+  const codec = OGG_CODECS.find(candidate => startsWith(first.data, candidate.id));
+  if (!codec) throw new Error('Only Ogg Vorbis and Opus comments can be written.');
+
+  // Gather the header packets from the pages after the first.
+  const packets: Uint8Array[] = [];
+  let packet: Uint8Array[] = [];
+  let offset = first.length;
+  let headerPages = 0;
+  while (packets.length < codec.headers - 1) {
+    let page = parseOggPage(head, offset);
+    while (!page && head.length < file.size) {
+      head = await readBytes(file, 0, head.length * 4);
+      page = parseOggPage(head, offset);
+    }
+    if (!page || page.serial !== first.serial) throw new Error("The Ogg headers couldn't be read.");
+    let dataOffset = 0;
+    page.segments.forEach((segment, i) => {
+      packet.push(page!.data.subarray(dataOffset, dataOffset + segment));
+      dataOffset += segment;
+      if (segment < 255) {
+        packets.push(concat(packet));
+        packet = [];
+        if (packets.length === codec.headers - 1 && i < page!.segments.length - 1) throw new Error('The Ogg headers share a page with audio.');
+      }
+    });
+    offset += page.length;
+    headerPages++;
+  }
+
+  const comments = packets[0];
+  if (!startsWith(comments, codec.comments)) throw new Error('The Ogg comment header is missing.');
+  const { list, end } = updateCommentList(comments, codec.comments.length, fields);
+  // Vorbis ends the packet with a framing bit, and Opus may carry binary data after the list; both are kept.
+  packets[0] = concat([comments.subarray(0, codec.comments.length), list, comments.subarray(end)]);
+
+  const pages = paginate(packets, first.serial, first.sequence + 1);
+  const shift = pages.length - headerPages;
+  const parts: (Blob | Uint8Array)[] = [head.subarray(0, first.length), ...pages];
+  if (shift === 0) {
+    parts.push(file.slice(offset));
+  } else {
+    // Every later page of the stream moves along by the same number.
+    const rest = new Uint8Array(await file.slice(offset).arrayBuffer());
+    for (let position = 0; position < rest.length;) {
+      const page = parseOggPage(rest, position);
+      if (!page) break;
+      if (page.serial === first.serial) renumberOggPage(rest.subarray(position, position + page.length), page.sequence + shift);
+      position += page.length;
+    }
+    parts.push(rest);
+  }
+  logInfo("Rewrote the Ogg comments.", { codec: codec.name, fields: Object.keys(fields), pageShift: shift });
+  return new Blob(parts, { type: file.type });
+};
@@ -0,0 +1,143 @@
+/**
+ * Reads PCM from WAV files (RIFF, RF64 and BW64) straight off the Blob, a
+ * block at a time, so a long recording never has to sit in memory whole.
+ * Compressed formats still go through `decodeAudioData`.
+ */
+
+const HEADER_BYTES = 12;
+const CHUNK_HEADER_BYTES = 8;
+const MAX_CHUNKS = 64; // stop looking for the data chunk in malformed files
+const BLOCK_FRAMES = 1 << 18;
+
+const FORMAT_PCM = 0x0001;
+const FORMAT_FLOAT = 0x0003;
+const FORMAT_EXTENSIBLE = 0xfffe;
+
+export interface WavFormat {
+  sampleRate: number;
+  channels: number;
+  bitsPerSample: number;
+  encoding: 'pcm' | 'float';
+  blockAlign: number;
+  dataOffset: number;
+  frames: number;
+}
+
+const readBytes = async (blob: Blob, start: number, length: number): Promise<DataView> =>
+  new DataView(await blob.slice(start, start + length).arrayBuffer());
+
+const fourCC = (view: DataView, offset: number): string =>
+  String.fromCharCode(view.getUint8(offset), view.getUint8(offset + 1), view.getUint8(offset + 2), view.getUint8(offset + 3));
+
+const isSupported = (encoding: WavFormat['encoding'], bits: number): boolean =>
+  encoding === 'pcm' ? [8, 16, 24, 32].includes(bits) : bits === 32 || bits === 64;
+
+/**
+ * Walks the chunk list for the format and the position of the sample data.
+ * @returns null when the file isn't a WAV, or uses an encoding we can't stream.
+ */
+export const readWavFormat = async (blob: Blob): Promise<WavFormat | null> => {
+  if (blob.size < HEADER_BYTES) return null;
+  const header = await readBytes(blob, 0, HEADER_BYTES);
+  const riff = fourCC(header, 0);
+  if (!['RIFF', 'RF64', 'BW64'].includes(riff) || fourCC(header, 8) !== 'WAVE') return null;
+
+  let format: Omit<WavFormat, 'dataOffset' | 'frames'> | null = null;
+  let largeDataSize: number | null = null;
+  let position = HEADER_BYTES;
+
+  for (let i = 0; i < MAX_CHUNKS && position + CHUNK_HEADER_BYTES <= blob.size; i++) {
+    const chunk = await readBytes(blob, position, CHUNK_HEADER_BYTES);
+    const id = fourCC(chunk, 0);
+    const size = chunk.getUint32(4, true);
+    const body = position + CHUNK_HEADER_BYTES;
+
+    if (id === 'ds64') {
+      // RF64 keeps the real 64-bit data size here; the data chunk itself says 0xFFFFFFFF.
+      const ds64 = await readBytes(blob, body, 16);
+      largeDataSize = ds64.getUint32(8, true) + ds64.getUint32(12, true) * 2 ** 32;
+    } else if (id === 'fmt ') {
+      const fmt = await readBytes(blob, body, Math.min(size, 40));
+      let tag = fmt.getUint16(0, true);
+      if (tag === FORMAT_EXTENSIBLE && fmt.byteLength >= 26) {
+        tag = fmt.getUint16(24, true); // first two bytes of the sub-format GUID
+      }
+      if (tag !== FORMAT_PCM && tag !== FORMAT_FLOAT) return null;
+      const encoding = tag === FORMAT_PCM ? 'pcm' : 'float';
+      const bitsPerSample = fmt.getUint16(14, true);
+      const channels = fmt.getUint16(2, true);
+      const blockAlign = fmt.getUint16(12, true);
+      // Samples padded into wider containers (e.g. 20 bits in 24) aren't handled.
+      if (!isSupported(encoding, bitsPerSample) || channels === 0 || blockAlign !== channels * (bitsPerSample / 8)) return null;
+      format = { sampleRate: fmt.getUint32(4, true), channels, bitsPerSample, encoding, blockAlign };
+    } else if (id === 'data') {
+      if (!format) return null;
+      const declared = size === 0xffffffff && largeDataSize !== null ? largeDataSize : size;
+      // Recorders that were cut off mid-write leave a size that overruns the file.
+      const available = Math.min(declared, blob.size - body);
+      return { ...format, dataOffset: body, frames: Math.floor(available / format.blockAlign) };
+    }
+    position = body + size + (size % 2); // chunks are word-aligned
+  }
+  return null;
+};
+
+/** A reader for the index-th interleaved sample, scaled to [-1, 1). */
+const sampleReader = (bytes: ArrayBuffer, format: WavFormat, total: number): ((index: number) => number) => {
+  if (format.encoding === 'float') {
+    const samples = format.bitsPerSample === 32 ? new Float32Array(bytes, 0, total) : new Float64Array(bytes, 0, total);
+    return (i) => samples[i];
+  }
+  switch (format.bitsPerSample) {
+    case 16: {
+      const samples = new Int16Array(bytes, 0, total);
+      return (i) => samples[i] / 32768;
+    }
+    case 24: {
+      const raw = new Uint8Array(bytes);
+      // The top byte is shifted up and back down to carry the sign.
+      return (i) => (raw[i * 3] | (raw[i * 3 + 1] << 8) | ((raw[i * 3 + 2] << 24) >> 8)) / 8388608;
+    }
+    case 32: {
+      const samples = new Int32Array(bytes, 0, total);
+      return (i) => samples[i] / 2147483648;
+    }
+    default: {
+      const samples = new Uint8Array(bytes, 0, total);
+      return (i) => (samples[i] - 128) / 128;
+    }
+  }
+};
+
+/** Splits interleaved samples into `channels`. */
+const deinterleave = (bytes: ArrayBuffer, format: WavFormat, frames: number, channels: Float32Array[]) => {
+  const count = format.channels;
+  const read = sampleReader(bytes, format, frames * count);
+  for (let c = 0; c < count; c++) {
+    const channel = channels[c];
+    for (let f = 0, i = c; f < frames; f++, i += count) {
+      channel[f] = read(i);
+    }
+  }
+};
+
+/**
+ * Reads the sample data in blocks of BLOCK_FRAMES frames. The channel arrays
+ * passed to `onBlock` are reused, so copy anything that must outlive the call.
+ */
+export const readWavBlocks = async (
+  blob: Blob,
+  format: WavFormat,
+  onBlock: (channels: Float32Array[], frames: number) => void,
+  onProgress?: (fraction: number) => void,
+): Promise<void> => {
+  const channels = Array.from({ length: format.channels }, () => new Float32Array(BLOCK_FRAMES));
+  for (let frame = 0; frame < format.frames; frame += BLOCK_FRAMES) {
+    const frames = Math.min(BLOCK_FRAMES, format.frames - frame);
+    const start = format.dataOffset + frame * format.blockAlign;
+    const bytes = await blob.slice(start, start + frames * format.blockAlign).arrayBuffer();
+    deinterleave(bytes, format, frames, channels);
+    onBlock(channels, frames);
+    onProgress?.((frame + frames) / format.frames);
+  }
+};
@@ -0,0 +1,63 @@
+/**
+ * Encodes rendered audio as integer PCM WAV, the format every DAW imports.
+ * The counterpart of wavReader, for the few cases where we write audio out.
+ */
+
+export type WavBitDepth = 16 | 24;
+
+export const WAV_BIT_DEPTHS: WavBitDepth[] = [16, 24];
+
+const HEADER_BYTES = 44;
+
+const writeFourCC = (view: DataView, offset: number, value: string) => {
+  for (let i = 0; i < 4; i++) view.setUint8(offset + i, value.charCodeAt(i));
+};
+
+/**
+ * Interleaves and quantises every channel of `buffer` into a WAV Blob.
+ * Samples past full scale are clipped, and TPDF dither of one least
+ * significant bit is added so quiet tails fade out rather than crackle;
+ * digital silence is left silent, so a click track is clean between clicks.
+ */
+export const encodeWav = (buffer: AudioBuffer, bitDepth: WavBitDepth): Blob => {
+  const channels = buffer.numberOfChannels;
+  const bytesPerSample = bitDepth / 8;
+  const blockAlign = channels * bytesPerSample;
+  const dataBytes = buffer.length * blockAlign;
+  const view = new DataView(new ArrayBuffer(HEADER_BYTES + dataBytes));
+
+  writeFourCC(view, 0, 'RIFF');
+  view.setUint32(4, HEADER_BYTES - 8 + dataBytes, true);
+  writeFourCC(view, 8, 'WAVE');
+  writeFourCC(view, 12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // integer PCM
+  view.setUint16(22, channels, true);
+  view.setUint32(24, buffer.sampleRate, true);
+  view.setUint32(28, buffer.sampleRate * blockAlign, true);
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, bitDepth, true);
+  writeFourCC(view, 36, 'data');
+  view.setUint32(40, dataBytes, true);
+
+  const data = Array.from({ length: channels }, (_, c) => buffer.getChannelData(c));
+  const scale = 2 ** (bitDepth - 1);
+  const max = scale - 1;
+  let offset = HEADER_BYTES;
+  for (let i = 0; i < buffer.length; i++) {
+    for (let c = 0; c < channels; c++) {
+      const sample = data[c][i];
+      const dithered = sample === 0 ? 0 : sample * scale + Math.random() - Math.random();
+      const value = Math.max(-scale, Math.min(max, Math.round(dithered)));
+      if (bitDepth === 16) {
+        view.setInt16(offset, value, true);
+      } else {
+        view.setUint8(offset, value & 0xff);
+        view.setUint8(offset + 1, (value >> 8) & 0xff);
+        view.setUint8(offset + 2, (value >> 16) & 0xff);
+      }
+      offset += bytesPerSample;
+    }
+  }
+  return new Blob([view.buffer], { type: 'audio/wav' });
+};
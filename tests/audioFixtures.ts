@@ -0,0 +1,322 @@
+/**
+ * Small MP3, FLAC, MP4, Ogg and WAV files built byte by byte from the format specs,
+ * with payloads that are just recognisable filler, for the readers and
+ * writers that only care about container structure.
+ */
+import { createRandom } from './autocorrelationReference';
+
+export const concat = (...parts: (Uint8Array | number[])[]): Uint8Array => {
+  const arrays = parts.map(part => (part instanceof Uint8Array ? part : Uint8Array.from(part)));
+  const out = new Uint8Array(arrays.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of arrays) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+};
+
+export const ascii = (text: string): Uint8Array => Uint8Array.from(text, c => c.charCodeAt(0));
+
+export const uint16 = (value: number): number[] => [(value >> 8) & 0xff, value & 0xff];
+
+export const uint32 = (value: number): number[] => [(value >>> 24) & 0xff, (value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+
+export const uint64 = (value: number): number[] => [...uint32(Math.floor(value / 2 ** 32)), ...uint32(value >>> 0)];
+
+/** Bytes of pseudo-random filler, repeatable for a given seed. */
+export const randomBytes = (length: number, seed: number): Uint8Array => {
+  const random = createRandom(seed);
+  return Uint8Array.from({ length }, () => Math.floor(random() * 256));
+};
+
+/** An ID3v2 text frame in ISO-8859-1; 2.4 writes the size syncsafe, 2.3 as a plain integer. */
+export const id3TextFrame = (id: string, text: string, version = 3): Uint8Array => id3Frame(id, concat([0], ascii(text)), version);
+
+export const id3Frame = (id: string, body: Uint8Array, version = 3): Uint8Array => {
+  const size = body.length;
+  const sizeBytes = version === 4 ? [(size >> 21) & 0x7f, (size >> 14) & 0x7f, (size >> 7) & 0x7f, size & 0x7f] : uint32(size);
+  return concat(ascii(id), sizeBytes, [0, 0], body);
+};
+
+interface Id3TagOptions {
+  /** Header flags; the extended header flag is set for you, and 0x10 adds a footer. */
+  flags?: number;
+  extendedHeader?: Uint8Array;
+}
+
+/** An ID3v2 tag holding `frames` (one TIT2 frame if given text), with some padding. */
+export const id3Tag = (frames: Uint8Array[] | string, version = 3, padding = 0, { flags = 0, extendedHeader }: Id3TagOptions = {}): Uint8Array => {
+  const body = concat(
+    ...(extendedHeader ? [extendedHeader] : []),
+    ...(typeof frames === 'string' ? [id3TextFrame('TIT2', frames, version)] : frames),
+    new Uint8Array(padding),
+  );
+  const size = body.length;
+  const header = concat([version, 0, flags | (extendedHeader ? 0x40 : 0)], [(size >> 21) & 0x7f, (size >> 14) & 0x7f, (size >> 7) & 0x7f, size & 0x7f]);
+  return concat(ascii('ID3'), header, body, flags & 0x10 ? concat(ascii('3DI'), header) : []);
+};
+
+/** A 2.3 extended header giving the padding size, and a CRC of the frames if asked. */
+export const id3ExtendedHeaderV3 = (padding: number, crc?: number): Uint8Array =>
+  crc === undefined ? concat(uint32(6), [0, 0], uint32(padding)) : concat(uint32(10), [0x80, 0], uint32(padding), uint32(crc));
+
+/** A 2.4 extended header with its flag byte, e.g. 0x10 and a restrictions byte, or 0x20 and a five-byte CRC. */
+export const id3ExtendedHeaderV4 = (flags: number, data: number[]): Uint8Array =>
+  concat([0, 0, 0, 6 + data.length, 1, flags], data);
+
+/** An ID3v1 tag, which sits in the last 128 bytes of an MP3. */
+export const id3v1Tag = (): Uint8Array => concat(ascii('TAG'), new Uint8Array(125).fill(0x20));
+
+// --- MP3 ---
+
+// MPEG-1 Layer III, no CRC, 128 kbps, 44.1 kHz, joint stereo: 417 bytes, 418 padded.
+export const MP3_SAMPLE_RATE = 44100;
+export const MP3_FRAME_SAMPLES = 1152;
+
+export const mp3Frame = (fill: number, padded = false): Uint8Array => {
+  const frame = new Uint8Array(padded ? 418 : 417).fill(fill & 0x7f);
+  frame.set([0xff, 0xfb, padded ? 0x92 : 0x90, 0x40]);
+  return frame;
+};
+
+/** An Info frame (the CBR Xing header) with a LAME extension giving the priming and padding. */
+export const mp3InfoFrame = (frames: number, delay: number, padding: number): Uint8Array => {
+  const frame = mp3Frame(0);
+  // After the 4-byte header and 32 bytes of stereo side info.
+  frame.set(concat(ascii('Info'), uint32(0x0f), uint32(frames), uint32(0)), 36);
+  const lame = 36 + 16 + 100 + 4;
+  frame.set(ascii('LAME3.100'), lame);
+  frame.set([delay >> 4, ((delay & 0x0f) << 4) | (padding >> 8), padding & 0xff], lame + 21);
+  return frame;
+};
+
+// --- FLAC ---
+
+const crcTable = (bits: 8 | 16, polynomial: number) => Array.from({ length: 256 }, (_, i) => {
+  const top = 1 << (bits - 1);
+  const mask = (1 << bits) - 1;
+  let crc = i << (bits - 8);
+  for (let bit = 0; bit < 8; bit++) crc = crc & top ? ((crc << 1) ^ polynomial) & mask : (crc << 1) & mask;
+  return crc;
+});
+const CRC8 = crcTable(8, 0x07);
+const CRC16 = crcTable(16, 0x8005);
+
+const crc8 = (bytes: Uint8Array) => bytes.reduce((crc, byte) => CRC8[crc ^ byte], 0);
+const crc16 = (bytes: Uint8Array) => bytes.reduce((crc, byte) => ((crc << 8) & 0xffff) ^ CRC16[(crc >> 8) ^ byte], 0);
+
+export const FLAC_SAMPLE_RATE = 44100;
+
+export const flacStreamInfo = (blockSize: number, totalSamples: number): Uint8Array => {
+  // 20 bits of sample rate, 3 of channels - 1, 5 of bits per sample - 1, 36 of total samples.
+  const packed = (BigInt(FLAC_SAMPLE_RATE) << 44n) | (1n << 41n) | (15n << 36n) | BigInt(totalSamples);
+  const packedBytes = Array.from({ length: 8 }, (_, i) => Number((packed >> BigInt(56 - i * 8)) & 0xffn));
+  return concat(uint16(blockSize), uint16(blockSize), [0, 0, 0], [0, 0, 0], packedBytes, new Uint8Array(16));
+};
+
+/** A stereo 16-bit frame of `blockSize` samples with `payload` standing in for the subframes, and valid CRCs. */
+export const flacFrame = (frameNumber: number, blockSize: number, payload: Uint8Array): Uint8Array => {
+  // Block size code 12 is 4096 samples; 6 means an 8-bit (size - 1) follows the frame number.
+  const header = blockSize === 4096
+    ? Uint8Array.from([0xff, 0xf8, 0xc9, 0x18, frameNumber])
+    : Uint8Array.from([0xff, 0xf8, 0x69, 0x18, frameNumber, blockSize - 1]);
+  const body = concat(header, [crc8(header)], payload);
+  return concat(body, uint16(crc16(body)));
+};
+
+export const flacFile = (streamInfo: Uint8Array, frames: Uint8Array[], extraBlocks: { type: number; body: Uint8Array }[] = []): Uint8Array => {
+  const blocks = [{ type: 0, body: streamInfo }, ...extraBlocks];
+  return concat(
+    ascii('fLaC'),
+    ...blocks.map(({ type, body }, i) => concat([(i === blocks.length - 1 ? 0x80 : 0) | type, (body.length >> 16) & 0xff, (body.length >> 8) & 0xff, body.length & 0xff], body)),
+    ...frames,
+  );
+};
+
+// --- MP4 ---
+
+export const box = (type: string, ...parts: (Uint8Array | number[])[]): Uint8Array => {
+  const body = concat(...parts);
+  return concat(uint32(body.length + 8), ascii(type), body);
+};
+
+export const fullBox = (type: string, version: number, ...parts: (Uint8Array | number[])[]): Uint8Array =>
+  box(type, [version, 0, 0, 0], ...parts);
+
+export const AAC_FRAME_SAMPLES = 1024;
+export const AAC_PRIMING = 2112;
+
+interface Mp4Options {
+  /** Samples per chunk for the first two chunks, then for the rest. */
+  chunkLayout?: [number, number];
+  co64?: boolean;
+  /** Put the moov box in front of the mdat, as files prepared for streaming do. */
+  moovFirst?: boolean;
+  /** Extra top-level boxes placed straight after the ftyp box. */
+  before?: Uint8Array[];
+  /** Items for moov/udta/meta/ilst. */
+  ilst?: Uint8Array;
+}
+
+/**
+ * An M4A with one AAC-LC stereo track whose samples are `samples`, stored in
+ * an mdat with a few bytes of gap between chunks, and an edit list that skips
+ * the usual 2112 samples of priming.
+ */
+export const mp4File = (samples: Uint8Array[], { chunkLayout = [3, 2], co64 = false, moovFirst = false, before = [], ilst }: Mp4Options = {}): Uint8Array => {
+  const ftyp = box('ftyp', ascii('M4A '), uint32(0), ascii('M4A mp42isom'));
+  const leading = concat(ftyp, ...before);
+
+  const chunks: Uint8Array[][] = [];
+  for (let i = 0; i < samples.length;) {
+    const count = chunks.length < 2 ? chunkLayout[0] : chunkLayout[1];
+    chunks.push(samples.slice(i, i + count));
+    i += count;
+  }
+  const gap = new Uint8Array(3).fill(0xee);
+  const mdat = box('mdat', ...chunks.map(chunk => concat(...chunk, gap)));
+  const getChunkOffsets = (mdatStart: number) => {
+    const offsets: number[] = [];
+    let offset = mdatStart + 8;
+    for (const chunk of chunks) {
+      offsets.push(offset);
+      offset += chunk.reduce((sum, sample) => sum + sample.length, 0) + gap.length;
+    }
+    return offsets;
+  };
+
+  // ES_Descriptor (with a four-byte length), DecoderConfigDescriptor, then AudioSpecificConfig: AAC-LC, 44.1 kHz, stereo.
+  const decoderSpecific = [0x05, 2, 0x12, 0x10];
+  const decoderConfig = [0x04, 13 + decoderSpecific.length, 0x40, 0x15, 0, 0, 0, ...uint32(320000), ...uint32(256000), ...decoderSpecific];
+  const esDescriptorBody = [0, 1, 0, ...decoderConfig, 0x06, 1, 0x02];
+  const esds = fullBox('esds', 0, [0x03, 0x80, 0x80, 0x80, esDescriptorBody.length, ...esDescriptorBody]);
+  const mp4a = box('mp4a', new Uint8Array(6), uint16(1), new Uint8Array(8), uint16(2), uint16(16), uint16(0), uint16(0), uint32(44100 * 65536), esds);
+
+  const duration = samples.length * AAC_FRAME_SAMPLES;
+  const buildMoov = (chunkOffsets: number[]) => {
+    const stbl = box('stbl',
+      fullBox('stsd', 0, uint32(1), mp4a),
+      fullBox('stts', 0, uint32(1), uint32(samples.length), uint32(AAC_FRAME_SAMPLES)),
+      fullBox('stsc', 0, uint32(2), uint32(1), uint32(chunkLayout[0]), uint32(1), uint32(3), uint32(chunkLayout[1]), uint32(1)),
+      fullBox('stsz', 0, uint32(0), uint32(samples.length), ...samples.map(sample => uint32(sample.length))),
+      co64
+        ? fullBox('co64', 0, uint32(chunkOffsets.length), ...chunkOffsets.map(uint64))
+        : fullBox('stco', 0, uint32(chunkOffsets.length), ...chunkOffsets.map(uint32)),
+    );
+    const trak = box('trak',
+      fullBox('tkhd', 0, new Uint8Array(80)),
+      box('edts', fullBox('elst', 0, uint32(1), uint32(duration - AAC_PRIMING), uint32(AAC_PRIMING), uint32(0x10000))),
+      box('mdia',
+        fullBox('mdhd', 0, uint32(0), uint32(0), uint32(44100), uint32(duration), uint16(0x55c4), uint16(0)),
+        fullBox('hdlr', 0, uint32(0), ascii('soun'), new Uint8Array(12), [0]),
+        box('minf', stbl),
+      ),
+    );
+    const udta = ilst ? [box('udta', fullBox('meta', 0, fullBox('hdlr', 0, uint32(0), ascii('mdir'), ascii('appl'), new Uint8Array(8), [0]), box('ilst', ilst)))] : [];
+    return box('moov', fullBox('mvhd', 0, new Uint8Array(96)), trak, ...udta);
+  };
+
+  if (!moovFirst) return concat(leading, mdat, buildMoov(getChunkOffsets(leading.length)));
+  // The offsets don't change the moov's size, so a first pass finds where the mdat will start.
+  const moovLength = buildMoov(getChunkOffsets(0)).length;
+  return concat(leading, buildMoov(getChunkOffsets(leading.length + moovLength)), mdat);
+};
+
+/** An iTunes metadata item holding `data` (type 1 is UTF-8 text, 21 a big-endian integer). */
+export const ilstItem = (type: string, dataType: number, data: Uint8Array | number[]): Uint8Array =>
+  box(type, fullBox('data', 0, [0, 0, dataType], uint32(0), data));
+
+// --- Ogg ---
+
+const OGG_CRC = Array.from({ length: 256 }, (_, i) => {
+  let crc = i << 24;
+  for (let bit = 0; bit < 8; bit++) crc = crc & 0x80000000 ? (crc << 1) ^ 0x04c11db7 : crc << 1;
+  return crc >>> 0;
+});
+
+export const oggCrc = (bytes: Uint8Array): number =>
+  bytes.reduce((crc, byte) => ((crc << 8) ^ OGG_CRC[((crc >>> 24) ^ byte) & 0xff]) >>> 0, 0);
+
+const uint32LE = (value: number): number[] => uint32(value).reverse();
+
+export const oggPage = (headerType: number, granule: number, serial: number, sequence: number, segments: number[], data: Uint8Array): Uint8Array => {
+  const page = concat(
+    ascii('OggS'), [0, headerType], uint64(granule).reverse(), uint32LE(serial), uint32LE(sequence), uint32LE(0),
+    [segments.length], segments, data,
+  );
+  page.set(uint32LE(oggCrc(page)), 22);
+  return page;
+};
+
+/** Lays packets out from `sequence` on, each starting a new page, splitting any that need more than 255 segments. */
+export const oggPages = (packets: Uint8Array[], serial: number, sequence: number, granules: number[] = [], headerType = 0): Uint8Array[] => {
+  const pages: Uint8Array[] = [];
+  packets.forEach((packet, p) => {
+    const lacing: number[] = [];
+    for (let remaining = packet.length; ; remaining -= 255) {
+      lacing.push(Math.min(255, remaining));
+      if (remaining < 255) break;
+    }
+    for (let i = 0, offset = 0; i < lacing.length; i += 255) {
+      const segments = lacing.slice(i, i + 255);
+      const length = segments.reduce((sum, segment) => sum + segment, 0);
+      const last = i + 255 >= lacing.length;
+      // Pages that don't finish a packet have no granule position (-1).
+      const granule = last ? granules[p] ?? 0 : 2 ** 64 - 1;
+      pages.push(oggPage((i > 0 ? 0x01 : 0) | (p === 0 && i === 0 ? headerType : 0), granule, serial, sequence + pages.length, segments, packet.subarray(offset, offset + length)));
+      offset += length;
+    }
+  });
+  return pages;
+};
+
+export const vorbisCommentList = (vendor: string, comments: string[]): Uint8Array =>
+  concat(uint32LE(vendor.length), ascii(vendor), uint32LE(comments.length), ...comments.map(comment => {
+    const bytes = new TextEncoder().encode(comment);
+    return concat(uint32LE(bytes.length), bytes);
+  }));
+
+export const OGG_SERIAL = 0x1234abcd;
+
+/**
+ * An Ogg Vorbis or Opus stream: the identification header alone on a first
+ * (BOS) page, the comment (and for Vorbis, setup) headers on the pages after
+ * it, then `audioPackets` one to a page with rising granule positions, the
+ * last flagged EOS.
+ */
+export const oggFile = (codec: 'vorbis' | 'opus', comments: string[], audioPackets: Uint8Array[]): Uint8Array => {
+  const list = vorbisCommentList(codec === 'vorbis' ? 'Xiph.Org libVorbis I 20200704 (Reducing Environment)' : 'libopus 1.3.1', comments);
+  const identification = codec === 'vorbis' ? concat([1], ascii('vorbis'), randomBytes(23, 40)) : concat(ascii('OpusHead'), [1, 2], randomBytes(9, 41));
+  const headers = codec === 'vorbis'
+    ? [concat([3], ascii('vorbis'), list, [1]), concat([5], ascii('vorbis'), randomBytes(300, 42))]
+    : [concat(ascii('OpusTags'), list)];
+
+  const first = oggPage(0x02, 0, OGG_SERIAL, 0, [identification.length], identification);
+  const headerPages = oggPages(headers, OGG_SERIAL, 1);
+  const audioPages = oggPages(audioPackets, OGG_SERIAL, 1 + headerPages.length, audioPackets.map((_, i) => (i + 1) * 960));
+  // Flag the last page as the end of the stream.
+  const last = audioPages[audioPages.length - 1];
+  last[5] |= 0x04;
+  last.set([0, 0, 0, 0], 22);
+  last.set(uint32LE(oggCrc(last)), 22);
+  return concat(first, ...headerPages, ...audioPages);
+};
+
+// --- WAV ---
+
+/** A RIFF chunk, padded to an even length. */
+export const riffChunk = (id: string, body: Uint8Array): Uint8Array =>
+  concat(ascii(id), uint32LE(body.length), body, body.length % 2 ? [0] : []);
+
+export const infoList = (fields: [string, string][]): Uint8Array =>
+  riffChunk('LIST', concat(ascii('INFO'), ...fields.map(([id, value]) => riffChunk(id, concat(ascii(value), [0])))));
+
+export const wavFile = (chunks: Uint8Array[]): Uint8Array => {
+  const body = concat(ascii('WAVE'), ...chunks);
+  return concat(ascii('RIFF'), uint32LE(body.length), body);
+};
+
+/** A 16-bit stereo 44.1 kHz fmt chunk. */
+export const wavFormatChunk = (): Uint8Array =>
+  riffChunk('fmt ', concat([1, 0, 2, 0], uint32LE(44100), uint32LE(44100 * 4), [4, 0, 16, 0]));
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { autocorrelation, createSlidingAutocorrelation } from '../utils/fft';
+import { DEFAULT_TEMPO_SEARCH, TARGET_SAMPLE_RATE, computeAutoCorrelation } from '../services/bpmAnalysisEngine';
+import type { TempoSearchParameters } from '../types';
+import { createOnsetSignal, createRandom, naiveLagSums } from './autocorrelationReference';
+
+const randomSignal = (length: number, seed: number) => {
+  const random = createRandom(seed);
+  return Float32Array.from({ length }, () => random() * 2 - 1);
+};
+
+describe('autocorrelation', () => {
+  it.each([
+    { length: 1, maxLag: 0 },
+    { length: 10, maxLag: 3 },
+    { length: 100, maxLag: 150 }, // more lags than samples
+    { length: 5000, maxLag: 200 }, // several blocks
+    { length: 20000, maxLag: 4096 }, // blocks that don't divide the signal evenly
+  ])('matches the naive sums for $length samples up to lag $maxLag', ({ length, maxLag }) => {
+    const signal = randomSignal(length, length);
+    const sums = autocorrelation(signal, maxLag);
+    const expected = naiveLagSums(signal, Math.min(maxLag, length - 1));
+
+    expect(sums.length).toBe(expected.length);
+    const scale = Math.max(1, expected[0]);
+    expected.forEach((sum, lag) => expect(Math.abs(sums[lag] - sum) / scale).toBeLessThan(1e-10));
+  });
+
+  it('returns no sums for an empty signal', () => {
+    expect(Array.from(autocorrelation(new Float32Array(0), 10))).toEqual([0]);
+  });
+});
+
+describe('createSlidingAutocorrelation', () => {
+  it.each([
+    { components: 1, maxLag: 300, windowLength: 5000 },
+    { components: 3, maxLag: 300, windowLength: 5000 },
+    { components: 1, maxLag: 2000, windowLength: 1500 }, // a window shorter than the lags
+  ])('keeps the sums of the last window of $components component(s) up to lag $maxLag', ({ components, maxLag, windowLength }) => {
+    const length = 24000;
+    const signals = Array.from({ length: components }, (_, c) => randomSignal(length, 100 + c));
+    const sliding = createSlidingAutocorrelation(components, maxLag, windowLength);
+    const random = createRandom(components * maxLag);
+
+    // Blocks of uneven size, some longer than the window.
+    for (let end = 0; end < length;) {
+      const start = end;
+      end = Math.min(length, end + 1 + Math.floor(random() * 6000));
+      sliding.push(signals.map(signal => signal.slice(start, end)));
+
+      const scales = signals.map(() => random());
+      const windowStart = Math.max(0, end - windowLength);
+      const combined = new Float64Array(end - windowStart);
+      signals.forEach((signal, c) => {
+        for (let i = windowStart; i < end; i++) combined[i - windowStart] += signal[i] * scales[c];
+      });
+      const sums = sliding.getLagSums(scales);
+      const expected = autocorrelation(combined, maxLag);
+
+      expect(sliding.getWindow().map(window => window.length)).toEqual(signals.map(() => combined.length));
+      expect(sums.length).toBe(expected.length);
+      expected.forEach((sum, lag) => expect(Math.abs(sums[lag] - sum) / expected[0]).toBeLessThan(1e-9));
+    }
+  });
+});
+
+describe('computeAutoCorrelation', () => {
+  const cases: { bpm: number; seconds: number; search: TempoSearchParameters }[] = [
+    { bpm: 124, seconds: 12, search: DEFAULT_TEMPO_SEARCH },
+    { bpm: 87.5, seconds: 12, search: DEFAULT_TEMPO_SEARCH },
+    { bpm: 174, seconds: 12, search: { ...DEFAULT_TEMPO_SEARCH, minBpm: 120, maxBpm: 200 } },
+  ];
+
+  it.each(cases)('gives the naive loop\'s candidates at $bpm BPM', ({ bpm, seconds, search }) => {
+    const signal = createOnsetSignal(seconds, TARGET_SAMPLE_RATE, bpm, bpm);
+    const fast = computeAutoCorrelation(signal, TARGET_SAMPLE_RATE, search);
+    const naive = computeAutoCorrelation(signal, TARGET_SAMPLE_RATE, search, naiveLagSums);
+
+    expect(fast.length).toBeGreaterThan(0);
+    expect(fast.map(c => c.tempo)).toEqual(naive.map(c => c.tempo));
+    fast.forEach((candidate, i) => expect(candidate.count).toBeCloseTo(naive[i].count, 9));
+    expect(fast.some(c => Math.abs(c.tempo - bpm) < 0.5)).toBe(true);
+  }, 30_000); // the naive loop is the slow part
+});
@@ -0,0 +1,48 @@
+/**
+ * The lag-sum loop computeAutoCorrelation used before the FFT, kept as the
+ * reference the FFT version is checked and benchmarked against, and the
+ * synthetic onset signals both use.
+ */
+
+/** The original O(N × lags) double loop. */
+export const naiveLagSums = (signal: Float32Array, maxLag: number): Float64Array => {
+  const sums = new Float64Array(maxLag + 1);
+  for (let lag = 0; lag <= maxLag; lag++) {
+    let sum = 0;
+    for (let i = 0; i < signal.length - lag; i++) {
+      sum += signal[i] * signal[i + lag];
+    }
+    sums[lag] = sum;
+  }
+  return sums;
+};
+
+/** A deterministic pseudo-random source in [0, 1), so runs are repeatable. */
+export const createRandom = (seed: number) => {
+  let state = seed % 2147483647 || 1;
+  return () => {
+    state = (state * 16807) % 2147483647;
+    return (state - 1) / 2147483646;
+  };
+};
+
+/**
+ * An onset-strength-like signal: decaying pulses on every beat, weaker ones on
+ * the off-beats, a little timing jitter and a noise floor.
+ */
+export const createOnsetSignal = (seconds: number, sampleRate: number, bpm: number, seed = 1): Float32Array => {
+  const random = createRandom(seed);
+  const signal = new Float32Array(Math.floor(seconds * sampleRate));
+  for (let i = 0; i < signal.length; i++) signal[i] = 0.05 * random();
+  const beat = (60 / bpm) * sampleRate;
+  const decay = Math.round(0.03 * sampleRate);
+  for (let n = 0; n * beat < signal.length; n++) {
+    for (const [offset, level] of [[0, 1], [0.5, 0.4]]) {
+      const start = Math.round((n + offset) * beat + (random() - 0.5) * 0.004 * sampleRate);
+      for (let i = 0; i < decay && start + i < signal.length; i++) {
+        if (start + i >= 0) signal[start + i] += level * (1 - i / decay);
+      }
+    }
+  }
+  return signal;
+};
@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_ANALYSIS_OPTIONS, TARGET_SAMPLE_RATE, normalize, performFullAnalysis } from '../services/bpmAnalysisEngine';
+import { trackBeats } from '../services/beatTracker';
+import type { OnsetMethod } from '../types';
+import { createClickTrack } from './syntheticAudio';
+
+const sampleRate = TARGET_SAMPLE_RATE;
+
+describe('trackBeats', () => {
+  // 40 s speeding up from 118 to 126 BPM: a grid at any one tempo drifts a quarter-beat off.
+  const { samples, beats } = createClickTrack({ seconds: 40, bpm: time => 118 + time / 5 });
+  const normalized = normalize(samples);
+
+  it.each<OnsetMethod>(['envelope', 'spectralFlux'])('follows a drifting click (%s)', (onsetMethod) => {
+    const analysis = performFullAnalysis(normalized, sampleRate, { ...DEFAULT_ANALYSIS_OPTIONS, onsetMethod });
+    const tracked = trackBeats(analysis.onsetSignal, sampleRate, analysis.candidates[0].tempo)
+      .map(beat => beat - analysis.onsetDelaySeconds);
+
+    expect(tracked.length).toBe(beats.length);
+    // The ends have only one side of context to settle the path.
+    beats.slice(2, -2).forEach(beat => expect(Math.min(...tracked.map(t => Math.abs(t - beat)))).toBeLessThan(0.03));
+  });
+});
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import {
+  TARGET_SAMPLE_RATE, analyseChunk, assembleTempoMap, computeConfidence, getChunkWindows, normalize, performFullAnalysis,
+} from '../services/bpmAnalysisEngine';
+import { createRandom } from './autocorrelationReference';
+import { createClickTrack } from './syntheticAudio';
+
+const sampleRate = TARGET_SAMPLE_RATE;
+
+/** The top tempo and its confidence, with the tempo map built from chunks as a full analysis would. */
+const analyseConfidence = (samples: Float32Array) => {
+  const normalized = normalize(samples);
+  const { candidates } = performFullAnalysis(normalized, sampleRate);
+  const windows = getChunkWindows(normalized.length);
+  const readings = windows.map(window => analyseChunk(normalize(normalized.slice(window.start, window.end))));
+  const tempoMap = assembleTempoMap(windows, readings, candidates[0]?.tempo ?? 0);
+  return { tempo: candidates[0]?.tempo, confidence: computeConfidence(candidates, tempoMap) };
+};
+
+describe('computeConfidence', () => {
+  it('is high for a steady click', () => {
+    const { samples } = createClickTrack({ seconds: 60, bpm: 124, accentEvery: 4 });
+    const { tempo, confidence } = analyseConfidence(samples);
+    expect(tempo).toBe(124);
+    expect(confidence).toBeGreaterThan(0.8);
+  });
+
+  it('is low for noise', () => {
+    const random = createRandom(5);
+    const { confidence } = analyseConfidence(Float32Array.from({ length: 60 * sampleRate }, () => random() * 2 - 1));
+    expect(confidence).toBeLessThan(0.3);
+  });
+
+  it('is zero without candidates', () => {
+    expect(computeConfidence([], [])).toBe(0);
+  });
+});
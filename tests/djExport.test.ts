@@ -0,0 +1,214 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import {
+  buildTempoMarkers, toBeatListCsv, toBeatListJson, toRekordboxXml, toSeratoBeatGrid, toSeratoMarkers2, toTraktorNml,
+} from '../services/djExport';
+import type { DjTrack, TempoMarker } from '../services/djExport';
+import type { BeatInfo } from '../types';
+import { describeKey } from '../services/keyDetection';
+import {
+  listXmlVocabulary, readCsv, readRekordboxXml, readSeratoBeatGrid, readSeratoMarkers2, readTraktorNml,
+} from './djFormatReaders';
+
+const fixture = (name: string) => readFileSync(new URL(`./fixtures/dj/${name}`, import.meta.url));
+const fixtureText = (name: string) => fixture(name).toString('utf8');
+
+// A pickup beat, 64 beats at 120 BPM from the first downbeat, then 32 at 124.
+const beats = [0, ...Array.from({ length: 64 }, (_, i) => 0.5 + i * 0.5), ...Array.from({ length: 32 }, (_, i) => 32.5 + (i * 60) / 124)];
+const cues = [
+  { time: 0.5, name: 'First downbeat' },
+  { time: 16.5, name: 'Verse & "Hook"' },
+  ...Array.from({ length: 7 }, (_, i) => ({ time: 20 + i * 2, name: `Section ${i + 3}` })),
+];
+const track: DjTrack = {
+  fileName: 'Night Drive <extended>.mp3',
+  fileSize: 9_624_811,
+  fileType: 'MP3',
+  title: 'Night Drive',
+  artist: 'Sample Artist',
+  genre: 'House',
+  duration: 48.25,
+  bpm: 121.33,
+  // Written as "A#m" by both apps, though the app shows "Bb minor".
+  key: describeKey(10, 'minor'),
+  beatsPerBar: 4,
+  markers: [
+    { time: 0.5, bpm: 120, beat: 0, beatInBar: 1 },
+    { time: 32.5, bpm: 124, beat: 64, beatInBar: 1 },
+  ],
+  cues,
+  beats,
+};
+
+const trackedBeats = (beatList: number[], firstDownbeat: number): BeatInfo => ({
+  phase: beatList[0], interval: 0.5, firstBeat: beatList[0], isUserDefined: false, beatsPerBar: 4, firstDownbeat, beats: beatList,
+});
+
+/** Where a marker list puts beat `beat`: on from the last marker at or before it, at that marker's tempo. */
+const gridTimeOf = (markers: TempoMarker[], beat: number) => {
+  const marker = [...markers].reverse().find(candidate => candidate.beat <= beat) ?? markers[0];
+  return marker.time + ((beat - marker.beat) * 60) / marker.bpm;
+};
+
+/** Our output uses only elements and attributes the app's own files use. */
+const expectVocabularyWithin = (ours: string, sample: string) => {
+  const known = listXmlVocabulary(sample);
+  for (const [element, names] of listXmlVocabulary(ours)) {
+    expect(known.has(element), `<${element}>`).toBe(true);
+    for (const name of names) expect(known.get(element)!.has(name), `<${element} ${name}>`).toBe(true);
+  }
+};
+
+describe('tempo markers', () => {
+  it('gives one marker per tempo in the tracked beats, from the first downbeat', () => {
+    const markers = buildTempoMarkers(trackedBeats(beats, 0.5), null, track.bpm);
+
+    expect(markers).toHaveLength(2);
+    markers.forEach((marker, i) => {
+      expect(marker).toMatchObject({ time: track.markers[i].time, beat: track.markers[i].beat, beatInBar: 1 });
+      expect(marker.bpm).toBeCloseTo(track.markers[i].bpm, 6);
+    });
+  });
+
+  it('follows tracked beats that drift', () => {
+    // 16 steady beats at 120 BPM, then 48 slowing by 1 ms a beat.
+    const drifting = [0];
+    for (let i = 1; i < 64; i++) drifting.push(drifting[i - 1] + 0.5 + Math.max(0, i - 16) * 0.001);
+    const markers = buildTempoMarkers(trackedBeats(drifting, 0), null, 112);
+
+    expect(markers[0]).toMatchObject({ time: 0, beat: 0, beatInBar: 1 });
+    expect(markers[0].bpm).toBeCloseTo(120, 6);
+    expect(markers[1].beat).toBe(16);
+    expect(markers).toHaveLength(48);
+    drifting.forEach((time, beat) => expect(gridTimeOf(markers, beat)).toBeCloseTo(time, 6));
+    // A single marker at the track tempo would be more than a beat out by the end.
+    expect(drifting[63] - (63 * 60) / 112).toBeLessThan(-0.5);
+  });
+});
+
+describe('rekordbox XML', () => {
+  it('reads the sample', () => {
+    const sample = readRekordboxXml(fixtureText('rekordbox.xml'));
+    expect(sample).toMatchObject({ averageBpm: 124, tonality: 'F#m' });
+    expect(sample.tempos).toEqual([
+      { time: 0.062, bpm: 124, metre: '4/4', beatInBar: 1 },
+      { time: 123.933, bpm: 126, metre: '4/4', beatInBar: 1 },
+    ]);
+    expect(sample.marks.map(mark => [mark.name, mark.time, mark.hotCue])).toEqual([['Intro', 0.062, 0], ['Drop', 62, 1], ['', 185, -1]]);
+  });
+
+  it('reads back the tempo, key, markers and cues', () => {
+    const xml = toRekordboxXml(track);
+    expectVocabularyWithin(xml, fixtureText('rekordbox.xml'));
+    const read = readRekordboxXml(xml);
+
+    expect(read.name).toBe('Night Drive');
+    expect(read.location).toBe(`file://localhost/${encodeURIComponent(track.fileName)}`);
+    expect(read.averageBpm).toBeCloseTo(track.bpm, 2);
+    expect(read.tonality).toBe('A#m');
+    expect(read.tempos).toEqual(track.markers.map(marker => ({ time: marker.time, bpm: marker.bpm, metre: '4/4', beatInBar: marker.beatInBar })));
+    expect(read.marks.map(mark => mark.name)).toEqual(cues.map(cue => cue.name));
+    read.marks.forEach((mark, i) => {
+      expect(mark.time).toBeCloseTo(cues[i].time, 3);
+      expect(mark.type).toBe(0);
+      expect(mark.hotCue).toBe(i < 8 ? i : -1);
+    });
+  });
+});
+
+describe('Traktor NML', () => {
+  it('reads the sample', () => {
+    const sample = readTraktorNml(fixtureText('traktor.nml'));
+    expect(sample).toMatchObject({ bpm: 124, key: 'F#m', keyValue: 18, gridMarkers: [0.062] });
+    expect(sample.cues.map(cue => [cue.name, cue.time, cue.hotCue])).toEqual([['Intro', 0.062, 0], ['Drop', 62, 1], ['n.n.', 185, -1]]);
+  });
+
+  it('reads back the tempo, key, grid markers and cues', () => {
+    const nml = toTraktorNml(track, new Date(2024, 0, 31));
+    expectVocabularyWithin(nml, fixtureText('traktor.nml'));
+    const read = readTraktorNml(nml);
+
+    expect(read).toMatchObject({ title: 'Night Drive', file: track.fileName, key: 'A#m', keyValue: 22 });
+    expect(read.bpm).toBeCloseTo(track.bpm, 6);
+    expect(read.playtime).toBeCloseTo(track.duration, 6);
+    expect(read.gridMarkers).toEqual(track.markers.map(marker => marker.time));
+    expect(read.cues.map(cue => [cue.name, cue.time, cue.hotCue])).toEqual(cues.map((cue, i) => [cue.name, cue.time, i < 8 ? i : -1]));
+  });
+
+  it('leaves the key out when there is none', () => {
+    const read = readTraktorNml(toTraktorNml({ ...track, key: null }));
+    expect(read.key).toBeNull();
+    expect(read.keyValue).toBeNull();
+  });
+});
+
+describe('Serato BeatGrid', () => {
+  it('reads the sample', () => {
+    const markers = readSeratoBeatGrid(fixture('serato-beatgrid.bin'));
+    expect(markers).toHaveLength(2);
+    expect(markers[0].time).toBeCloseTo(0.062, 6);
+    expect(markers[0].beatsToNext).toBe(256);
+    expect(markers[1].time).toBeCloseTo(123.933, 4);
+    expect(markers[1].bpm).toBe(126);
+  });
+
+  it('reads back the marker times, beats between them and the final tempo', () => {
+    const markers = readSeratoBeatGrid(toSeratoBeatGrid(track.markers));
+    expect(markers.map(marker => marker.time)).toEqual(track.markers.map(marker => Math.fround(marker.time)));
+    expect(markers[0]).toMatchObject({ beatsToNext: 64, bpm: null });
+    expect(markers[1]).toMatchObject({ beatsToNext: null, bpm: 124 });
+  });
+
+  it('writes a single marker as the terminal one', () => {
+    expect(readSeratoBeatGrid(toSeratoBeatGrid([track.markers[0]]))).toEqual([{ time: 0.5, beatsToNext: null, bpm: 120 }]);
+  });
+});
+
+describe('Serato Markers2', () => {
+  it('reads the sample', () => {
+    const sample = readSeratoMarkers2(fixture('serato-markers2.bin'));
+    expect(sample.types).toEqual(['COLOR', 'CUE', 'CUE', 'BPMLOCK']);
+    expect(sample.cues).toEqual([
+      { index: 0, time: 0.062, color: 0xcc0000, name: 'Intro' },
+      { index: 1, time: 62, color: 0xcc8800, name: 'Drop' },
+    ]);
+  });
+
+  it('reads back the first eight cues as hot cues', () => {
+    const payload = toSeratoMarkers2(cues);
+    expect(payload.length).toBe(fixture('serato-markers2.bin').length);
+    const read = readSeratoMarkers2(payload);
+
+    expect(read.types).toEqual([...Array(8).fill('CUE'), 'BPMLOCK']);
+    expect(read.lineLengths.slice(0, -1).every(length => length === 72)).toBe(true);
+    expect(read.cues).toEqual(cues.slice(0, 8).map((cue, i) => ({ index: i, time: cue.time, color: expect.any(Number), name: cue.name })));
+    expect(read.cues[0].color).toBe(0xcc0000);
+  });
+});
+
+describe('beat lists', () => {
+  it('reads back the JSON', () => {
+    const read = JSON.parse(toBeatListJson(track));
+    expect(read).toMatchObject({
+      format: 'ybcbpm-beat-grid',
+      bpm: track.bpm,
+      key: { name: 'Bb minor', camelot: track.key!.camelot },
+      beatsPerBar: 4,
+      tempoMarkers: track.markers,
+      cues,
+    });
+    expect(read.beats).toHaveLength(beats.length);
+    read.beats.forEach((beat: number, i: number) => expect(beat).toBeCloseTo(beats[i], 4));
+  });
+
+  it('reads back the CSV, counting bars from the first downbeat', () => {
+    const rows = readCsv(toBeatListCsv(track));
+    expect(rows).toHaveLength(beats.length);
+    // The pickup beat falls at the end of bar 0.
+    expect(rows[0]).toMatchObject({ beat: '1', bar: '0', beat_in_bar: '4' });
+    expect(rows[1]).toMatchObject({ beat: '2', bar: '1', beat_in_bar: '1', time_seconds: '0.5000', bpm: '120.000' });
+    expect(rows[65]).toMatchObject({ bar: '17', beat_in_bar: '1', time_seconds: '32.5000', bpm: '124.000' });
+    expect(rows[rows.length - 1].bpm).toBe('');
+    rows.forEach((row, i) => expect(Number(row.time_seconds)).toBeCloseTo(beats[i], 4));
+  });
+});
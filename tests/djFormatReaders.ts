@@ -0,0 +1,133 @@
+/**
+ * Minimal readers for the DJ formats djExport writes, following the formats'
+ * own layouts, so exports can be read back the way the DJ apps would see
+ * them. They're checked against the samples in fixtures/dj first.
+ */
+import { DOMParser } from '@xmldom/xmldom';
+import type { Element } from '@xmldom/xmldom';
+
+const parseXml = (xml: string) => {
+  const document = new DOMParser().parseFromString(xml, 'text/xml');
+  return Array.from(document.getElementsByTagName('*'));
+};
+
+const byTag = (elements: Element[], tag: string) => elements.filter(element => element.tagName === tag);
+
+const attribute = (element: Element, name: string): string => {
+  if (!element.hasAttribute(name)) throw new Error(`<${element.tagName}> has no ${name}`);
+  return element.getAttribute(name)!;
+};
+
+/** Every element name with its attribute names, for checking our output against a sample's vocabulary. */
+export const listXmlVocabulary = (xml: string): Map<string, Set<string>> => {
+  const vocabulary = new Map<string, Set<string>>();
+  for (const element of parseXml(xml)) {
+    const names = vocabulary.get(element.tagName) ?? new Set<string>();
+    Array.from(element.attributes).forEach(attr => names.add(attr.name));
+    vocabulary.set(element.tagName, names);
+  }
+  return vocabulary;
+};
+
+export const readRekordboxXml = (xml: string) => {
+  const elements = parseXml(xml);
+  const tracks = byTag(elements, 'TRACK');
+  if (tracks.length !== 1) throw new Error(`Expected one TRACK, found ${tracks.length}`);
+  const [track] = tracks;
+  return {
+    name: attribute(track, 'Name'),
+    averageBpm: Number(attribute(track, 'AverageBpm')),
+    tonality: track.getAttribute('Tonality'),
+    location: attribute(track, 'Location'),
+    tempos: byTag(elements, 'TEMPO').map(tempo => ({
+      time: Number(attribute(tempo, 'Inizio')),
+      bpm: Number(attribute(tempo, 'Bpm')),
+      metre: attribute(tempo, 'Metro'),
+      beatInBar: Number(attribute(tempo, 'Battito')),
+    })),
+    marks: byTag(elements, 'POSITION_MARK').map(mark => ({
+      name: attribute(mark, 'Name'),
+      type: Number(attribute(mark, 'Type')),
+      time: Number(attribute(mark, 'Start')),
+      hotCue: Number(attribute(mark, 'Num')),
+    })),
+  };
+};
+
+export const readTraktorNml = (nml: string) => {
+  const elements = parseXml(nml);
+  const entries = byTag(elements, 'ENTRY');
+  if (entries.length !== 1) throw new Error(`Expected one ENTRY, found ${entries.length}`);
+  const [info] = byTag(elements, 'INFO');
+  const [tempo] = byTag(elements, 'TEMPO');
+  const [musicalKey] = byTag(elements, 'MUSICAL_KEY');
+  const cues = byTag(elements, 'CUE_V2').map(cue => ({
+    name: attribute(cue, 'NAME'),
+    type: Number(attribute(cue, 'TYPE')),
+    time: Number(attribute(cue, 'START')) / 1000,
+    hotCue: Number(attribute(cue, 'HOTCUE')),
+  }));
+  return {
+    title: attribute(entries[0], 'TITLE'),
+    file: attribute(byTag(elements, 'LOCATION')[0], 'FILE'),
+    bpm: Number(attribute(tempo, 'BPM')),
+    key: info.getAttribute('KEY'),
+    keyValue: musicalKey ? Number(attribute(musicalKey, 'VALUE')) : null,
+    playtime: Number(attribute(info, 'PLAYTIME_FLOAT')),
+    gridMarkers: cues.filter(cue => cue.type === 4).map(cue => cue.time),
+    cues: cues.filter(cue => cue.type === 0),
+  };
+};
+
+/** The markers in a "Serato BeatGrid" payload: beats to the next marker for all but the last, which has the tempo. */
+export const readSeratoBeatGrid = (payload: Uint8Array) => {
+  const view = new DataView(payload.buffer, payload.byteOffset, payload.byteLength);
+  if (view.getUint8(0) !== 1 || view.getUint8(1) !== 0) throw new Error('Not a BeatGrid v1.0 payload');
+  const count = view.getUint32(2);
+  if (payload.length !== 6 + count * 8 + 1) throw new Error(`A BeatGrid with ${count} markers can't be ${payload.length} bytes`);
+  return Array.from({ length: count }, (_, i) => {
+    const offset = 6 + i * 8;
+    const time = view.getFloat32(offset);
+    return i < count - 1
+      ? { time, beatsToNext: view.getUint32(offset + 4), bpm: null }
+      : { time, beatsToNext: null, bpm: view.getFloat32(offset + 4) };
+  });
+};
+
+/** The entries in a "Serato Markers2" payload, with cues decoded. */
+export const readSeratoMarkers2 = (payload: Uint8Array) => {
+  if (payload[0] !== 1 || payload[1] !== 1) throw new Error('Not a Markers2 v1.1 payload');
+  const end = payload.indexOf(0, 2);
+  const lines = String.fromCharCode(...payload.subarray(2, end)).split('\n');
+  const text = lines.join('');
+  const padded = text + '='.repeat((4 - (text.length % 4)) % 4);
+  const data = Uint8Array.from(Buffer.from(padded, 'base64'));
+  if (data[0] !== 1 || data[1] !== 1) throw new Error('The decoded Markers2 data has no v1.1 header');
+
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const entries: { type: string; data: Uint8Array }[] = [];
+  for (let offset = 2; data[offset] !== 0;) {
+    const nameEnd = data.indexOf(0, offset);
+    const type = String.fromCharCode(...data.subarray(offset, nameEnd));
+    const length = view.getUint32(nameEnd + 1);
+    entries.push({ type, data: data.subarray(nameEnd + 5, nameEnd + 5 + length) });
+    offset = nameEnd + 5 + length;
+  }
+  const cues = entries.filter(entry => entry.type === 'CUE').map(({ data: cue }) => {
+    const cueView = new DataView(cue.buffer, cue.byteOffset, cue.byteLength);
+    return {
+      index: cue[1],
+      time: cueView.getUint32(2) / 1000,
+      color: (cue[7] << 16) | (cue[8] << 8) | cue[9],
+      name: new TextDecoder().decode(cue.subarray(12, cue.indexOf(0, 12))),
+    };
+  });
+  return { types: entries.map(entry => entry.type), cues, lineLengths: lines.map(line => line.length) };
+};
+
+/** Rows of the beat-list CSV, keyed by its header. */
+export const readCsv = (csv: string): Record<string, string>[] => {
+  const [header, ...rows] = csv.trim().split('\n');
+  const columns = header.split(',');
+  return rows.map(row => Object.fromEntries(row.split(',').map((value, i) => [columns[i], value])));
+};
@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import { readEncodedFormat, readEncodedFrames } from '../services/encodedAudioReader';
+import type { EncodedAudioFormat, EncodedFrame } from '../services/encodedAudioReader';
+import {
+  AAC_FRAME_SAMPLES, AAC_PRIMING, FLAC_SAMPLE_RATE, MP3_FRAME_SAMPLES, MP3_SAMPLE_RATE,
+  concat, flacFile, flacFrame, flacStreamInfo, id3Tag, id3v1Tag, mp3Frame, mp3InfoFrame, mp4File, randomBytes,
+} from './audioFixtures';
+
+const readAll = async (blob: Blob, format: EncodedAudioFormat) => {
+  const frames: EncodedFrame[] = [];
+  // Frames are views into a reused buffer, so keep copies.
+  await readEncodedFrames(blob, format, ({ data, timestamp }) => { frames.push({ data: data.slice(), timestamp }); });
+  return frames;
+};
+
+const timestampsOf = (count: number, samplesPerFrame: number, sampleRate: number) =>
+  Array.from({ length: count }, (_, i) => (i * samplesPerFrame / sampleRate) * 1_000_000);
+
+describe('MP3', () => {
+  const audioFrames = Array.from({ length: 20 }, (_, i) => mp3Frame(i + 1, i % 3 === 0));
+
+  it('reads the frame count, priming and padding from a LAME Info frame and skips that frame', async () => {
+    const tag = id3Tag('Streamed');
+    const info = mp3InfoFrame(audioFrames.length, 576, 1000);
+    const blob = new Blob([concat(tag, info, ...audioFrames, id3v1Tag())]);
+
+    const format = await readEncodedFormat(blob);
+    expect(format).toMatchObject({
+      container: 'mp3',
+      config: { codec: 'mp3', sampleRate: MP3_SAMPLE_RATE, numberOfChannels: 2 },
+      frames: audioFrames.length * MP3_FRAME_SAMPLES - 576 - 1000,
+      skipFrames: 576 + 529,
+      dataOffset: tag.length + info.length,
+    });
+
+    const frames = await readAll(blob, format!);
+    expect(frames.map(frame => frame.data)).toEqual(audioFrames);
+    expect(frames.map(frame => frame.timestamp)).toEqual(timestampsOf(audioFrames.length, MP3_FRAME_SAMPLES, MP3_SAMPLE_RATE));
+  });
+
+  it('counts the frames when there is no Info frame, stepping over junk between them', async () => {
+    const junk = new Uint8Array(50).fill(0x11);
+    const blob = new Blob([concat(junk, ...audioFrames.slice(0, 10), junk, ...audioFrames.slice(10), id3v1Tag())]);
+
+    const format = await readEncodedFormat(blob);
+    expect(format).toMatchObject({ frames: audioFrames.length * MP3_FRAME_SAMPLES, skipFrames: 0, dataOffset: junk.length });
+    expect((await readAll(blob, format!)).map(frame => frame.data)).toEqual(audioFrames);
+  });
+
+  it('ignores files with no run of frame headers', async () => {
+    expect(await readEncodedFormat(new Blob([randomBytes(4096, 3).map(byte => byte & 0x7f)]))).toBeNull();
+  });
+});
+
+describe('FLAC', () => {
+  // Random payloads, one of them holding a copy of a real frame header, so only the CRC-16 can tell where frames end.
+  const payloads = [0, 1, 2, 3, 4].map(n => randomBytes(3000 + n * 17, n + 1));
+  payloads[1].set(flacFrame(2, 4096, new Uint8Array(0)).subarray(0, 6), 500);
+  const frames = payloads.map((payload, n) => flacFrame(n, n < 4 ? 4096 : 1000, payload));
+  const totalSamples = 4 * 4096 + 1000;
+
+  it('reads STREAMINFO into the decoder description and splits the frames on their CRCs', async () => {
+    const file = flacFile(flacStreamInfo(4096, totalSamples), frames, [{ type: 1, body: new Uint8Array(64) }]);
+    const blob = new Blob([file]);
+
+    const format = await readEncodedFormat(blob);
+    expect(format).toMatchObject({ container: 'flac', sampleRate: FLAC_SAMPLE_RATE, channels: 2, frames: totalSamples, skipFrames: 0 });
+    const description = new Uint8Array(format!.config.description as ArrayBuffer);
+    expect(Array.from(description.subarray(0, 8))).toEqual([0x66, 0x4c, 0x61, 0x43, 0x80, 0, 0, 34]);
+    expect(description.subarray(8)).toEqual(flacStreamInfo(4096, totalSamples));
+
+    const read = await readAll(blob, format!);
+    expect(read.map(frame => frame.data)).toEqual(frames);
+    expect(read.map(frame => frame.timestamp)).toEqual(timestampsOf(5, 4096, FLAC_SAMPLE_RATE));
+  });
+
+  it('reads past an ID3 tag in front of the stream', async () => {
+    const file = concat(id3Tag('Tagged'), flacFile(flacStreamInfo(4096, totalSamples), frames));
+    const format = await readEncodedFormat(new Blob([file]));
+    expect(format?.frames).toBe(totalSamples);
+  });
+
+  it('gives up on streams that don\'t say how long they are', async () => {
+    expect(await readEncodedFormat(new Blob([flacFile(flacStreamInfo(4096, 0), frames)]))).toBeNull();
+  });
+});
+
+describe('MP4', () => {
+  const samples = Array.from({ length: 10 }, (_, i) => randomBytes(180 + i * 7, 20 + i));
+
+  it.each([{ co64: false }, { co64: true }])('finds the AAC samples through the sample tables (co64: $co64)', async ({ co64 }) => {
+    const blob = new Blob([mp4File(samples, { co64 })]);
+
+    const format = await readEncodedFormat(blob);
+    expect(format).toMatchObject({
+      container: 'mp4',
+      config: { codec: 'mp4a.40.2', sampleRate: 44100, numberOfChannels: 2 },
+      frames: samples.length * AAC_FRAME_SAMPLES - AAC_PRIMING,
+      skipFrames: AAC_PRIMING,
+    });
+    expect(Array.from(new Uint8Array(format!.config.description as ArrayBuffer))).toEqual([0x12, 0x10]);
+
+    const read = await readAll(blob, format!);
+    expect(read.map(frame => frame.data)).toEqual(samples);
+    expect(read.map(frame => frame.timestamp)).toEqual(timestampsOf(samples.length, AAC_FRAME_SAMPLES, 44100));
+  });
+
+  it('follows a sample-to-chunk table with one sample per chunk', async () => {
+    const blob = new Blob([mp4File(samples, { chunkLayout: [1, 1] })]);
+    const format = await readEncodedFormat(blob);
+    expect((await readAll(blob, format!)).map(frame => frame.data)).toEqual(samples);
+  });
+});
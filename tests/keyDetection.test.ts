@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { TARGET_SAMPLE_RATE } from '../services/bpmAnalysisEngine';
+import { detectKey } from '../services/keyDetection';
+import { addTones } from './syntheticAudio';
+
+const sampleRate = TARGET_SAMPLE_RATE;
+
+describe('detectKey', () => {
+  it.each([
+    { chord: 'A minor', frequencies: [220, 261.63, 329.63], camelot: '8A' },
+    { chord: 'C major', frequencies: [261.63, 329.63, 392], camelot: '8B' },
+    { chord: 'D minor', frequencies: [293.66, 349.23, 440], camelot: '7A' },
+    { chord: 'E major', frequencies: [329.63, 415.3, 493.88], camelot: '12B' },
+  ])('hears a held $chord triad as $chord ($camelot)', ({ chord, frequencies, camelot }) => {
+    const detection = detectKey(addTones(new Float32Array(20 * sampleRate), frequencies, 0.2), sampleRate)!;
+    expect(detection.key.name).toBe(chord);
+    expect(detection.key.camelot).toBe(camelot);
+    expect(detection.confidence).toBeGreaterThan(0.5);
+  });
+
+  it('gives no key for silence', () => {
+    expect(detectKey(new Float32Array(20 * sampleRate), sampleRate)).toBeNull();
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_ANALYSIS_OPTIONS, TARGET_SAMPLE_RATE, analyseChunk, normalize } from '../services/bpmAnalysisEngine';
+import {
+  combineBandFlux, computeBandFlux, createBandFluxStream, createEnvelopeOnsetStream, envelopeOnset, getFluxBandScales, getFluxFrames,
+} from '../services/onsetDetection';
+import { createLiveTempoTracker } from '../services/liveTempoTracker';
+import { createRandom } from './autocorrelationReference';
+import { createClickTrack } from './syntheticAudio';
+
+const sampleRate = TARGET_SAMPLE_RATE;
+
+/** Feeds `samples` to `push` in blocks of uneven size, as a capture worklet might. */
+const pushInBlocks = <T>(samples: Float32Array, push: (block: Float32Array) => T): T[] => {
+  const random = createRandom(samples.length);
+  const outputs: T[] = [];
+  for (let start = 0; start < samples.length;) {
+    const end = Math.min(samples.length, start + 1 + Math.floor(random() * 3000));
+    outputs.push(push(samples.slice(start, end)));
+    start = end;
+  }
+  return outputs;
+};
+
+const concat = (parts: Float32Array[]) => {
+  const joined = new Float32Array(parts.reduce((length, part) => length + part.length, 0));
+  let offset = 0;
+  parts.forEach(part => {
+    joined.set(part, offset);
+    offset += part.length;
+  });
+  return joined;
+};
+
+describe('onset streams', () => {
+  const { samples } = createClickTrack({ seconds: 8, bpm: 124 });
+
+  it('give the envelope onsets of the whole input, block by block', () => {
+    const outputs = pushInBlocks(samples, createEnvelopeOnsetStream(sampleRate));
+    const whole = envelopeOnset(samples, sampleRate);
+    expect(concat(outputs.map(output => output.peakSignal))).toEqual(whole.peakSignal);
+    expect(concat(outputs.map(output => output.onsetSignal))).toEqual(whole.onsetSignal);
+  });
+
+  it('give each band\'s spectral flux of the whole input, a frame behind', () => {
+    const outputs = pushInBlocks(samples, createBandFluxStream(sampleRate));
+    const bands = [0, 1, 2].map(band => concat(outputs.map(output => output[band])));
+    const bandFlux = computeBandFlux(samples, sampleRate, 0, getFluxFrames(samples.length).count);
+    const whole = combineBandFlux(bandFlux, samples.length);
+    const scales = getFluxBandScales(bandFlux);
+
+    expect(samples.length - bands[0].length).toBeLessThanOrEqual(512 + 64);
+    for (let i = 0; i < bands[0].length; i++) {
+      const combined = bands.reduce((sum, band, b) => sum + band[i] * scales[b], 0);
+      expect(Math.abs(combined - whole[i])).toBeLessThan(1e-6);
+    }
+  });
+});
+
+describe('createLiveTempoTracker', () => {
+  it('reads the window as a chunk analysis of it would', () => {
+    const windowSeconds = 10;
+    const { samples } = createClickTrack({ seconds: 16, bpm: 124, accentEvery: 4 });
+    const tracker = createLiveTempoTracker(DEFAULT_ANALYSIS_OPTIONS, windowSeconds);
+
+    let received = 0;
+    pushInBlocks(samples, (block) => {
+      tracker.push(block);
+      received += block.length;
+    });
+    const reading = tracker.read();
+    const chunk = analyseChunk(normalize(samples.slice(received - windowSeconds * sampleRate)), DEFAULT_ANALYSIS_OPTIONS);
+
+    expect(reading?.tempo).toBe(124);
+    expect(reading?.tempo).toBe(chunk?.tempo);
+    expect(reading?.alignment).toBeCloseTo(chunk?.alignment ?? 0, 6);
+  });
+
+  it('gives no reading before there is any input', () => {
+    expect(createLiveTempoTracker(DEFAULT_ANALYSIS_OPTIONS, 10).read()).toBeNull();
+  });
+});
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { analyseLoudness } from '../services/loudnessAnalysis';
+
+const sampleRate = 48000;
+
+/** A 1 kHz sine peaking at `dbfs`. */
+const sine = (dbfs: number, seconds = 20) => {
+  const amplitude = Math.pow(10, dbfs / 20);
+  return Float32Array.from({ length: seconds * sampleRate }, (_, i) => amplitude * Math.sin((2 * Math.PI * 1000 * i) / sampleRate));
+};
+
+describe('analyseLoudness', () => {
+  // EBU Tech 3341's first calibration case: -23 dBFS in both channels reads -23.0 LUFS.
+  it.each([
+    { dbfs: -23, channels: 2, lufs: -23 },
+    { dbfs: -20, channels: 2, lufs: -20 },
+    { dbfs: -20, channels: 1, lufs: -23 }, // one channel carries half the power
+  ])('reads a 1 kHz sine at $dbfs dBFS in $channels channel(s) as $lufs LUFS', ({ dbfs, channels, lufs }) => {
+    const signal = sine(dbfs);
+    const loudness = analyseLoudness(Array.from({ length: channels }, () => signal), sampleRate);
+
+    expect(Math.abs(loudness.integratedLufs! - lufs)).toBeLessThan(0.1);
+    expect(Math.abs(loudness.maxMomentaryLufs! - lufs)).toBeLessThan(0.1);
+    expect(loudness.loudnessRange).toBeCloseTo(0, 6);
+    expect(loudness.samplePeakDbfs).toBeCloseTo(dbfs, 3);
+    expect(Math.abs(loudness.truePeakDbtp - dbfs)).toBeLessThan(0.1);
+    expect(loudness.clippedSamples).toBe(0);
+  });
+
+  it('leaves silence ungated', () => {
+    const loudness = analyseLoudness([new Float32Array(10 * sampleRate)], sampleRate);
+    expect(loudness.integratedLufs).toBeNull();
+    expect(loudness.loudnessRange).toBeNull();
+  });
+});
@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { TARGET_SAMPLE_RATE, normalize } from '../services/bpmAnalysisEngine';
+import { envelopeOnset } from '../services/onsetDetection';
+import { detectMeter } from '../services/meterDetection';
+import { createClickTrack } from './syntheticAudio';
+
+const sampleRate = TARGET_SAMPLE_RATE;
+const bpm = 120;
+
+describe('detectMeter', () => {
+  it.each([
+    { accentEvery: 3, timeSignature: '3/4' },
+    { accentEvery: 4, timeSignature: '4/4' },
+  ])('counts $accentEvery beats to the bar of a click accented every $accentEvery', ({ accentEvery, timeSignature }) => {
+    const { samples, beats } = createClickTrack({ seconds: 30, bpm, accentEvery });
+    const onsets = envelopeOnset(normalize(samples), sampleRate);
+    const meter = detectMeter(onsets.onsetSignal, sampleRate, bpm)!;
+
+    expect(meter.beatsPerBar).toBe(accentEvery);
+    expect(meter.timeSignature).toBe(timeSignature);
+    // The downbeat is an accented click.
+    const bar = (60 / bpm) * accentEvery;
+    const downbeat = meter.firstDownbeat - onsets.onsetDelaySeconds;
+    const fromAccent = Math.abs(downbeat - beats[0] - Math.round((downbeat - beats[0]) / bar) * bar);
+    expect(fromAccent).toBeLessThan(0.03);
+  });
+
+  it('needs a few bars to judge', () => {
+    const { samples } = createClickTrack({ seconds: 2, bpm, accentEvery: 4 });
+    expect(detectMeter(envelopeOnset(normalize(samples), sampleRate).onsetSignal, sampleRate, bpm)).toBeNull();
+  });
+});
@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_ANALYSIS_OPTIONS, TARGET_SAMPLE_RATE, detectPeaks, normalize } from '../services/bpmAnalysisEngine';
+import { computeOnsetFunction } from '../services/onsetDetection';
+import type { OnsetMethod } from '../types';
+import { createClickTrack } from './syntheticAudio';
+
+const sampleRate = TARGET_SAMPLE_RATE;
+
+describe('computeOnsetFunction', () => {
+  // Spectral flux weighs the upper bands evenly with the low one, so the usual noise floor would bury a low thump.
+  const { samples, beats } = createClickTrack({ seconds: 20, bpm: 124, noiseLevel: 0.01 });
+  const normalized = normalize(samples);
+
+  it.each<OnsetMethod>(['envelope', 'spectralFlux'])('peaks on every click (%s)', (method) => {
+    const onsets = computeOnsetFunction(normalized, sampleRate, method);
+    expect(onsets.onsetSignal.length).toBe(normalized.length);
+
+    const peaks = detectPeaks(onsets.peakSignal, sampleRate, DEFAULT_ANALYSIS_OPTIONS.peakThreshold, 60 / DEFAULT_ANALYSIS_OPTIONS.maxBpm)
+      .map(index => index / sampleRate - onsets.onsetDelaySeconds);
+    // The first click starts the signal, so there is nothing before it to rise from.
+    beats.slice(1).forEach(beat => expect(Math.min(...peaks.map(peak => Math.abs(peak - beat)))).toBeLessThan(0.03));
+  });
+});
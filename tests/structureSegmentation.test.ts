@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { TARGET_SAMPLE_RATE, normalize, performFullAnalysis } from '../services/bpmAnalysisEngine';
+import { trackBeats } from '../services/beatTracker';
+import { detectMeter } from '../services/meterDetection';
+import { computeBarTimes, segmentStructure } from '../services/structureSegmentation';
+import { createRandom } from './autocorrelationReference';
+import { createClickTrack } from './syntheticAudio';
+
+const sampleRate = TARGET_SAMPLE_RATE;
+
+describe('segmentStructure', () => {
+  it('finds a quiet intro and outro around a full middle', () => {
+    // 64 bars of 4/4 at 120 BPM; bars 16-47 add a bass tone and noise over the click.
+    const { samples } = createClickTrack({ seconds: 128, bpm: 120, accentEvery: 4 });
+    const random = createRandom(9);
+    for (let i = 32 * sampleRate; i < 96 * sampleRate; i++) {
+      samples[i] += 0.3 * (random() * 2 - 1) + 0.3 * Math.sin((2 * Math.PI * 110 * i) / sampleRate);
+    }
+    const normalized = normalize(samples);
+    const analysis = performFullAnalysis(normalized, sampleRate);
+    const bpm = analysis.candidates[0].tempo;
+    const delay = analysis.onsetDelaySeconds;
+    const beats = trackBeats(analysis.onsetSignal, sampleRate, bpm).map(beat => beat - delay);
+    const meter = detectMeter(analysis.onsetSignal, sampleRate, bpm)!;
+
+    const sections = segmentStructure(normalized, sampleRate, computeBarTimes(beats, meter.beatsPerBar, meter.firstDownbeat - delay));
+    expect(sections.map(({ label, startBar, bars }) => ({ label, startBar, bars }))).toEqual([
+      { label: 'intro', startBar: 0, bars: 16 },
+      { label: 'main', startBar: 16, bars: 32 },
+      { label: 'outro', startBar: 48, bars: 16 },
+    ]);
+    expect(sections[1].start).toBeCloseTo(32, 1);
+    expect(sections[1].energy).toBeGreaterThan(0.9);
+    expect(Math.max(sections[0].energy, sections[2].energy)).toBeLessThan(0.1);
+  });
+
+  it('needs enough bars for two sections', () => {
+    expect(segmentStructure(new Float32Array(16 * sampleRate), sampleRate, [0, 2, 4, 6])).toEqual([]);
+  });
+});
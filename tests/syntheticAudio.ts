@@ -0,0 +1,45 @@
+/**
+ * Synthetic signals at the analysis rate for the engine tests: click tracks
+ * whose beat times are known exactly, and steady tones.
+ */
+import { TARGET_SAMPLE_RATE } from '../services/bpmAnalysisEngine';
+import { createRandom } from './autocorrelationReference';
+
+export interface ClickTrackOptions {
+  seconds: number;
+  /** A fixed tempo, or the tempo at each point of the track, in seconds. */
+  bpm: number | ((time: number) => number);
+  /** Every `accentEvery`-th click, from the first, is louder; 0 for no accents. */
+  accentEvery?: number;
+  noiseLevel?: number;
+  seed?: number;
+}
+
+/** A click track: a short low thump on every beat over a little noise. */
+export const createClickTrack = ({ seconds, bpm, accentEvery = 0, noiseLevel = 0.05, seed = 1 }: ClickTrackOptions) => {
+  const sampleRate = TARGET_SAMPLE_RATE;
+  const random = createRandom(seed);
+  const samples = new Float32Array(Math.floor(seconds * sampleRate));
+  for (let i = 0; i < samples.length; i++) samples[i] = noiseLevel * (random() * 2 - 1);
+
+  const tempoAt = typeof bpm === 'number' ? () => bpm : bpm;
+  const clickLength = Math.round(0.12 * sampleRate);
+  const beats: number[] = [];
+  for (let time = 0; time * sampleRate < samples.length; time += 60 / tempoAt(time)) {
+    const level = accentEvery > 0 && beats.length % accentEvery !== 0 ? 0.5 : 1;
+    const start = Math.round(time * sampleRate);
+    for (let i = 0; i < clickLength && start + i < samples.length; i++) {
+      samples[start + i] += level * Math.sin((2 * Math.PI * 60 * i) / sampleRate) * Math.exp(-i / (0.03 * sampleRate));
+    }
+    beats.push(start / sampleRate);
+  }
+  return { samples, beats };
+};
+
+/** Adds sines at `frequencies`, each at `amplitude`, to a signal in place. */
+export const addTones = (samples: Float32Array, frequencies: number[], amplitude: number, sampleRate = TARGET_SAMPLE_RATE) => {
+  for (let i = 0; i < samples.length; i++) {
+    for (const frequency of frequencies) samples[i] += amplitude * Math.sin((2 * Math.PI * frequency * i) / sampleRate);
+  }
+  return samples;
+};
@@ -0,0 +1,499 @@
+import { describe, expect, it } from 'vitest';
+import { detectTagContainer, writeTempoTags } from '../services/tagWriter';
+import { createGeobFrame, writeId3Frames } from '../services/id3Writer';
+import { writeFlacComments, writeOggComments } from '../services/vorbisCommentWriter';
+import { writeMp4Items } from '../services/mp4TagWriter';
+import { writeRiffInfo } from '../services/riffInfoWriter';
+import { readEncodedFormat, readEncodedFrames } from '../services/encodedAudioReader';
+import { describeKey } from '../services/keyDetection';
+import {
+  OGG_SERIAL, ascii, box, concat, flacFile, flacFrame, flacStreamInfo, id3ExtendedHeaderV3, id3ExtendedHeaderV4, id3Frame, id3Tag,
+  id3TextFrame, ilstItem,
+  infoList, mp3Frame, mp4File, oggCrc, oggFile, randomBytes, riffChunk, uint32, vorbisCommentList, wavFile, wavFormatChunk,
+} from './audioFixtures';
+
+const tags = { bpm: 124.5, key: describeKey(9, 'minor') };
+
+const bytesOf = async (blob: Blob) => new Uint8Array(await blob.arrayBuffer());
+const text = (bytes: Uint8Array) => new TextDecoder().decode(bytes);
+const latin1 = (bytes: Uint8Array) => String.fromCharCode(...bytes);
+
+// --- Readers, written from the specs rather than shared with the writers ---
+
+const readId3 = (bytes: Uint8Array) => {
+  const version = bytes[3];
+  const flags = bytes[5];
+  const syncsafe = (offset: number) => (bytes[offset] << 21) | (bytes[offset + 1] << 14) | (bytes[offset + 2] << 7) | bytes[offset + 3];
+  const uint32At = (offset: number) => new DataView(bytes.buffer, bytes.byteOffset).getUint32(offset);
+  const end = 10 + syncsafe(6);
+  let offset = 10;
+  let extendedHeader: Uint8Array | null = null;
+  if (flags & 0x40) {
+    const size = version === 4 ? syncsafe(offset) : 4 + uint32At(offset);
+    extendedHeader = bytes.subarray(offset, offset + size);
+    offset += size;
+  }
+  const frames: { id: string; raw: Uint8Array; body: Uint8Array }[] = [];
+  while (offset + 10 <= end && bytes[offset] !== 0) {
+    const size = version === 4 ? syncsafe(offset + 4) : uint32At(offset + 4);
+    frames.push({ id: text(bytes.subarray(offset, offset + 4)), raw: bytes.subarray(offset, offset + 10 + size), body: bytes.subarray(offset + 10, offset + 10 + size) });
+    offset += 10 + size;
+  }
+  const footer = flags & 0x10 ? bytes.subarray(end, end + 10) : null;
+  return { version, flags, extendedHeader, frames, padding: end - offset, footer, length: end + (footer ? 10 : 0) };
+};
+
+const readFlacBlocks = (bytes: Uint8Array) => {
+  const blocks: { type: number; last: boolean; body: Uint8Array }[] = [];
+  let offset = 4;
+  for (let last = false; !last;) {
+    last = (bytes[offset] & 0x80) !== 0;
+    const length = (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3];
+    blocks.push({ type: bytes[offset] & 0x7f, last, body: bytes.subarray(offset + 4, offset + 4 + length) });
+    offset += 4 + length;
+  }
+  return { blocks, audio: bytes.subarray(offset) };
+};
+
+const readCommentList = (bytes: Uint8Array) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const vendorLength = view.getUint32(0, true);
+  const vendor = text(bytes.subarray(4, 4 + vendorLength));
+  const comments: string[] = [];
+  let offset = 8 + vendorLength;
+  for (let count = view.getUint32(4 + vendorLength, true); count > 0; count--) {
+    const length = view.getUint32(offset, true);
+    comments.push(text(bytes.subarray(offset + 4, offset + 4 + length)));
+    offset += 4 + length;
+  }
+  return { vendor, comments, end: offset };
+};
+
+const readOggPages = (bytes: Uint8Array) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const pages = [];
+  for (let offset = 0; offset < bytes.length;) {
+    expect(text(bytes.subarray(offset, offset + 4))).toBe('OggS');
+    const segments = Array.from(bytes.subarray(offset + 27, offset + 27 + bytes[offset + 26]));
+    const length = 27 + segments.length + segments.reduce((sum, segment) => sum + segment, 0);
+    const page = bytes.slice(offset, offset + length);
+    const checksum = view.getUint32(offset + 22, true);
+    page.fill(0, 22, 26);
+    pages.push({
+      headerType: bytes[offset + 5],
+      granule: view.getBigUint64(offset + 6, true),
+      serial: view.getUint32(offset + 14, true),
+      sequence: view.getUint32(offset + 18, true),
+      checksumValid: checksum === oggCrc(page),
+      segments,
+      data: bytes.subarray(offset + 27 + segments.length, offset + length),
+    });
+    offset += length;
+  }
+  return pages;
+};
+
+type OggPage = ReturnType<typeof readOggPages>[number];
+
+const readOggPackets = (pages: OggPage[]) => {
+  const packets: Uint8Array[] = [];
+  let packet: Uint8Array[] = [];
+  for (const page of pages) {
+    let offset = 0;
+    for (const segment of page.segments) {
+      packet.push(page.data.subarray(offset, offset + segment));
+      offset += segment;
+      if (segment < 255) {
+        packets.push(concat(...packet));
+        packet = [];
+      }
+    }
+  }
+  return packets;
+};
+
+interface Mp4Box { type: string; start: number; end: number; body: number }
+
+const readBoxes = (bytes: Uint8Array, start: number, end: number): Mp4Box[] => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const boxes: Mp4Box[] = [];
+  for (let offset = start; offset + 8 <= end;) {
+    const size = view.getUint32(offset);
+    boxes.push({ type: latin1(bytes.subarray(offset + 4, offset + 8)), start: offset, end: offset + size, body: offset + 8 });
+    offset += size;
+  }
+  return boxes;
+};
+
+/** The box at `path` (e.g. "moov/udta"), where meta's children start after its version and flags. */
+const findBox = (bytes: Uint8Array, path: string): Mp4Box | undefined => {
+  let found: Mp4Box | undefined = { type: '', start: 0, end: bytes.length, body: 0 };
+  for (const type of path.split('/')) {
+    const childrenStart: number = found.type === 'meta' ? found.body + 4 : found.body;
+    found = readBoxes(bytes, childrenStart, found.end).find(child => child.type === type);
+    if (!found) return undefined;
+  }
+  return found;
+};
+
+const readChunkOffsets = (bytes: Uint8Array): number[] => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const stbl = 'moov/trak/mdia/minf/stbl';
+  const stco = findBox(bytes, `${stbl}/stco`);
+  const co64 = findBox(bytes, `${stbl}/co64`);
+  const table = (stco ?? co64)!;
+  return Array.from({ length: view.getUint32(table.body + 4) }, (_, i) =>
+    (stco ? view.getUint32(table.body + 8 + i * 4) : Number(view.getBigUint64(table.body + 8 + i * 8))));
+};
+
+/** Each ilst item's type (or, for freeform items, name) with the payload of its data box. */
+const readIlst = (bytes: Uint8Array) => {
+  const ilst = findBox(bytes, 'moov/udta/meta/ilst')!;
+  return readBoxes(bytes, ilst.body, ilst.end).map(item => {
+    const children = readBoxes(bytes, item.body, item.end);
+    const payload = (type: string) => {
+      const child = children.find(candidate => candidate.type === type)!;
+      return bytes.subarray(child.body + (type === 'data' ? 8 : 4), child.end);
+    };
+    return { name: item.type === '----' ? text(payload('name')) : item.type, raw: bytes.slice(item.start, item.end), data: payload('data') };
+  });
+};
+
+const readSamples = async (blob: Blob) => {
+  const format = await readEncodedFormat(blob);
+  const samples: Uint8Array[] = [];
+  await readEncodedFrames(blob, format!, ({ data }) => { samples.push(data.slice()); });
+  return samples;
+};
+
+const readRiffChunks = (bytes: Uint8Array) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: { id: string; raw: Uint8Array; body: Uint8Array }[] = [];
+  for (let offset = 12; offset + 8 <= bytes.length;) {
+    const size = view.getUint32(offset + 4, true);
+    const end = offset + 8 + size + (size % 2);
+    chunks.push({ id: text(bytes.subarray(offset, offset + 4)), raw: bytes.subarray(offset, end), body: bytes.subarray(offset + 8, offset + 8 + size) });
+    offset = end;
+  }
+  return { size: view.getUint32(4, true), chunks };
+};
+
+// --- MP3 ---
+
+describe('MP3 (ID3v2)', () => {
+  const audio = concat(...Array.from({ length: 6 }, (_, i) => mp3Frame(i + 1, i % 2 === 0)));
+  const geob = createGeobFrame('Serato BeatGrid', randomBytes(40, 7));
+
+  it.each([3, 4])('replaces TBPM, adds TKEY and keeps the other ID3v2.%i frames and the audio', async version => {
+    const others = [id3TextFrame('TIT2', 'Night Drive', version), id3Frame('GEOB', geob.body, version)];
+    const file = concat(id3Tag([others[0], id3TextFrame('TBPM', '90', version), others[1]], version, 64), audio);
+
+    const tagged = await bytesOf(await writeTempoTags(new Blob([file]), tags));
+    const tag = readId3(tagged);
+
+    expect(tag.version).toBe(version);
+    expect(tag.frames.map(frame => frame.id)).toEqual(['TIT2', 'GEOB', 'TBPM', 'TKEY']);
+    expect(tag.frames[0].raw).toEqual(others[0]);
+    expect(tag.frames[1].raw).toEqual(others[1]);
+    expect(text(tag.frames[2].body.subarray(1))).toBe('125');
+    expect(text(tag.frames[3].body.subarray(1))).toBe('Am');
+    expect(tagged.subarray(tag.length)).toEqual(audio);
+  });
+
+  it('keeps a 2.3 extended header, giving it the new padding size', async () => {
+    const title = id3TextFrame('TIT2', 'Night Drive');
+    const file = concat(id3Tag([title], 3, 32, { extendedHeader: id3ExtendedHeaderV3(32) }), audio);
+
+    const tagged = await bytesOf(await writeTempoTags(new Blob([file]), tags));
+    const tag = readId3(tagged);
+
+    expect(tag.flags).toBe(0x40);
+    expect(tag.extendedHeader).toEqual(id3ExtendedHeaderV3(tag.padding));
+    expect(tag.padding).toBeGreaterThan(0);
+    expect(tag.frames.map(frame => frame.id)).toEqual(['TIT2', 'TBPM', 'TKEY']);
+    expect(tag.frames[0].raw).toEqual(title);
+    expect(tagged.subarray(tag.length)).toEqual(audio);
+  });
+
+  it('keeps a 2.4 extended header and footer byte for byte', async () => {
+    const title = id3TextFrame('TIT2', 'Night Drive', 4);
+    const restrictions = id3ExtendedHeaderV4(0x10, [0b00100100]);
+    const file = concat(id3Tag([title], 4, 0, { flags: 0x10, extendedHeader: restrictions }), audio);
+
+    const tagged = await bytesOf(await writeTempoTags(new Blob([file]), tags));
+    const tag = readId3(tagged);
+
+    expect(tag.flags).toBe(0x50);
+    expect(tag.extendedHeader).toEqual(restrictions);
+    expect(tag.frames.map(frame => frame.id)).toEqual(['TIT2', 'TBPM', 'TKEY']);
+    // A footer rules out padding, and repeats the header.
+    expect(tag.padding).toBe(0);
+    expect(tag.footer).toEqual(concat(ascii('3DI'), tagged.subarray(3, 10)));
+    expect(tagged.subarray(tag.length)).toEqual(audio);
+  });
+
+  it.each([
+    { name: 'an unsynchronised tag', tag: id3Tag('Night Drive', 3, 0, { flags: 0x80 }), message: 'Unsynchronised' },
+    { name: 'a 2.3 tag with a CRC', tag: id3Tag('Night Drive', 3, 0, { extendedHeader: id3ExtendedHeaderV3(0, 0x1234) }), message: 'CRC' },
+    { name: 'a 2.4 tag with a CRC', tag: id3Tag('Night Drive', 4, 0, { extendedHeader: id3ExtendedHeaderV4(0x20, [0, 0, 0, 1, 2]) }), message: 'CRC' },
+  ])('refuses to rewrite $name', async ({ tag, message }) => {
+    await expect(writeTempoTags(new Blob([concat(tag, audio)]), tags)).rejects.toThrow(message);
+  });
+
+  it('puts a new ID3v2.4 tag in front of an untagged file', async () => {
+    const tagged = await bytesOf(await writeId3Frames(new Blob([audio]), [geob]));
+    const tag = readId3(tagged);
+
+    expect(tag.version).toBe(4);
+    expect(tag.frames.map(frame => ({ id: frame.id, body: frame.body }))).toEqual([{ id: 'GEOB', body: geob.body }]);
+    expect(tagged.subarray(tag.length)).toEqual(audio);
+  });
+});
+
+// --- FLAC ---
+
+describe('FLAC (Vorbis comments)', () => {
+  const streamInfo = flacStreamInfo(1152, 1152 * 4);
+  const frames = Array.from({ length: 4 }, (_, i) => flacFrame(i, 1152, randomBytes(300, i + 10)));
+  const seekTable = { type: 3, body: randomBytes(18, 20) };
+  const picture = { type: 6, body: randomBytes(500, 21) };
+  const comments = { type: 4, body: vorbisCommentList('reference libFLAC 1.4.3 20230623', ['TITLE=Night Drive', 'bpm=90', 'ARTIST=Somebody']) };
+
+  it('replaces BPM, adds INITIALKEY and keeps the vendor, other comments, blocks and frames', async () => {
+    const file = flacFile(streamInfo, frames, [seekTable, comments, picture]);
+
+    const tagged = await bytesOf(await writeTempoTags(new Blob([file]), tags));
+    const { blocks, audio } = readFlacBlocks(tagged);
+
+    expect(blocks.map(block => [block.type, block.last])).toEqual([[0, false], [3, false], [4, false], [6, true]]);
+    expect(blocks[0].body).toEqual(streamInfo);
+    expect(blocks[1].body).toEqual(seekTable.body);
+    expect(blocks[3].body).toEqual(picture.body);
+    expect(readCommentList(blocks[2].body)).toMatchObject({
+      vendor: 'reference libFLAC 1.4.3 20230623',
+      comments: ['TITLE=Night Drive', 'ARTIST=Somebody', 'BPM=124.50', 'INITIALKEY=Am'],
+    });
+    expect(audio).toEqual(concat(...frames));
+  });
+
+  it('adds a comment block after STREAMINFO when there is none, moving the last-block flag', async () => {
+    const file = flacFile(streamInfo, frames);
+
+    const tagged = await bytesOf(await writeFlacComments(new Blob([file]), { BPM: '128' }));
+    const { blocks, audio } = readFlacBlocks(tagged);
+
+    expect(blocks.map(block => [block.type, block.last])).toEqual([[0, false], [4, true]]);
+    expect(blocks[0].body).toEqual(streamInfo);
+    expect(readCommentList(blocks[1].body)).toMatchObject({ vendor: '', comments: ['BPM=128'] });
+    expect(audio).toEqual(concat(...frames));
+  });
+
+  it('keeps an ID3 tag in front of "fLaC"', async () => {
+    const id3 = id3Tag('Night Drive');
+    const file = concat(id3, flacFile(streamInfo, frames, [comments]));
+
+    const tagged = await bytesOf(await writeTempoTags(new Blob([file]), tags));
+
+    expect(tagged.subarray(0, id3.length)).toEqual(id3);
+    expect(readFlacBlocks(tagged.subarray(id3.length)).audio).toEqual(concat(...frames));
+  });
+});
+
+// --- Ogg ---
+
+describe('Ogg (Vorbis and Opus comments)', () => {
+  const audioPackets = Array.from({ length: 8 }, (_, i) => randomBytes(100 + i * 70, i + 30));
+
+  /** Checks the pages a tagged file is made of, and returns its header packets. */
+  const checkStream = (original: Uint8Array, tagged: Uint8Array, headerPackets: number) => {
+    const before = readOggPages(original);
+    const after = readOggPages(tagged);
+    const audioBefore = before.slice(before.length - audioPackets.length);
+    const audioAfter = after.slice(after.length - audioPackets.length);
+
+    after.forEach((page, i) => {
+      expect(page.serial).toBe(OGG_SERIAL);
+      expect(page.sequence).toBe(i);
+      expect(page.checksumValid).toBe(true);
+    });
+    expect(after[0]).toEqual(before[0]);
+    // The audio pages keep their data, lacing, flags and granule positions; only their numbers may move.
+    audioAfter.forEach((page, i) => {
+      const { sequence: _after, checksumValid: _valid, ...rest } = page;
+      const { sequence: _before, checksumValid: _was, ...expected } = audioBefore[i];
+      expect(rest).toEqual(expected);
+    });
+    expect(readOggPackets(audioAfter)).toEqual(audioPackets);
+    return { pageShift: after.length - before.length, headers: readOggPackets(after.slice(0, after.length - audioPackets.length)).slice(0, headerPackets) };
+  };
+
+  it('rewrites the Vorbis comments, keeps the setup header and renumbers the pages it frees', async () => {
+    const file = oggFile('vorbis', ['TITLE=Night Drive', 'BPM=90'], audioPackets);
+    const [, originalComments, setup] = readOggPackets(readOggPages(file)).slice(0, 3);
+
+    const tagged = await bytesOf(await writeTempoTags(new Blob([file]), tags));
+    const { pageShift, headers } = checkStream(file, tagged, 3);
+
+    // The fixture gives the comment and setup headers a page each; the writer puts them on one.
+    expect(pageShift).toBe(-1);
+    expect(headers[2]).toEqual(setup);
+    expect(text(headers[1].subarray(0, 7))).toBe('\x03vorbis');
+    const list = readCommentList(headers[1].subarray(7));
+    expect(list).toMatchObject({
+      vendor: readCommentList(originalComments.subarray(7)).vendor,
+      comments: ['TITLE=Night Drive', 'BPM=124.50', 'INITIALKEY=Am'],
+    });
+    expect(Array.from(headers[1].subarray(7 + list.end))).toEqual([1]); // the framing bit
+  });
+
+  it('leaves the audio pages byte for byte when the Opus headers keep their page count', async () => {
+    const file = oggFile('opus', ['TITLE=Night Drive'], audioPackets);
+
+    const tagged = await bytesOf(await writeTempoTags(new Blob([file]), tags));
+    const { pageShift, headers } = checkStream(file, tagged, 2);
+
+    expect(pageShift).toBe(0);
+    expect(readCommentList(headers[1].subarray(8)).comments).toEqual(['TITLE=Night Drive', 'BPM=124.50', 'INITIALKEY=Am']);
+    const audioBytes = (bytes: Uint8Array) => {
+      const pages = readOggPages(bytes);
+      return pages.slice(pages.length - audioPackets.length);
+    };
+    expect(audioBytes(tagged)).toEqual(audioBytes(file));
+  });
+
+  it('renumbers the later pages when the Opus comments grow onto another page', async () => {
+    // A comment header of 65020 bytes just fits in the 255 segments of one page; BPM pushes it over.
+    const file = oggFile('opus', [`COMMENT=${'x'.repeat(65020 - 33 - 8)}`], audioPackets);
+    expect(readOggPages(file).length).toBe(2 + audioPackets.length);
+
+    const tagged = await bytesOf(await writeOggComments(new Blob([file]), { BPM: '124.50' }));
+    const { pageShift, headers } = checkStream(file, tagged, 2);
+
+    expect(pageShift).toBe(1);
+    expect(headers[1].length).toBe(65020 + 4 + 'BPM=124.50'.length);
+    expect(readCommentList(headers[1].subarray(8)).comments[1]).toBe('BPM=124.50');
+  });
+});
+
+// --- MP4 ---
+
+describe('MP4 (iTunes metadata)', () => {
+  const samples = Array.from({ length: 9 }, (_, i) => randomBytes(200 + i * 13, i + 50));
+  const title = ilstItem('\xa9nam', 1, ascii('Night Drive'));
+  const ilst = concat(title, ilstItem('tmpo', 21, [0, 90]));
+
+  const mdatOf = (bytes: Uint8Array) => {
+    const mdat = findBox(bytes, 'mdat')!;
+    return bytes.subarray(mdat.start, mdat.end);
+  };
+
+  it.each([
+    { layout: 'stco, moov before mdat', co64: false, moovFirst: true },
+    { layout: 'co64, moov before mdat', co64: true, moovFirst: true },
+    { layout: 'stco, moov after mdat', co64: false, moovFirst: false },
+  ])('keeps the samples readable with $layout', async ({ co64, moovFirst }) => {
+    const file = mp4File(samples, { co64, moovFirst, ilst });
+    expect(await readSamples(new Blob([file]))).toEqual(samples);
+
+    const tagged = await bytesOf(await writeTempoTags(new Blob([file]), tags));
+    const growth = tagged.length - file.length;
+
+    expect(growth).toBeGreaterThan(0);
+    expect(findBox(tagged, `moov/trak/mdia/minf/stbl/${co64 ? 'co64' : 'stco'}`)).toBeDefined();
+    expect(readChunkOffsets(tagged)).toEqual(readChunkOffsets(file).map(offset => offset + (moovFirst ? growth : 0)));
+    expect(mdatOf(tagged)).toEqual(mdatOf(file));
+    expect(await readSamples(new Blob([tagged]))).toEqual(samples);
+  });
+
+  it('replaces tmpo, adds a freeform initialkey and keeps the other items', async () => {
+    const file = mp4File(samples, { moovFirst: true, ilst });
+
+    const tagged = await bytesOf(await writeTempoTags(new Blob([file]), tags));
+    const items = readIlst(tagged);
+
+    expect(items.map(item => item.name)).toEqual(['\xa9nam', 'tmpo', 'initialkey']);
+    expect(items[0].raw).toEqual(title);
+    expect(Array.from(items[1].data)).toEqual([0, 125]);
+    expect(text(items[2].data)).toBe('Am');
+  });
+
+  it('adds udta, meta and ilst to a file without them', async () => {
+    const file = mp4File(samples, { moovFirst: true });
+
+    const tagged = await bytesOf(await writeMp4Items(new Blob([file]), [{ kind: 'tmpo', bpm: 128 }]));
+
+    expect(readIlst(tagged).map(item => [item.name, Array.from(item.data)])).toEqual([['tmpo', [0, 128]]]);
+    expect(await readSamples(new Blob([tagged]))).toEqual(samples);
+  });
+
+  it('refuses to resize the metadata of a fragmented file', async () => {
+    const moof = box('moof', box('mfhd', uint32(0), uint32(1)));
+    const file = concat(mp4File(samples, { moovFirst: true }), moof);
+
+    await expect(writeMp4Items(new Blob([file]), [{ kind: 'tmpo', bpm: 128 }])).rejects.toThrow('fragmented');
+  });
+});
+
+// --- WAV ---
+
+describe('WAV (RIFF INFO)', () => {
+  const data = riffChunk('data', randomBytes(4 * 300, 60));
+  // An odd-sized chunk, to check the padding byte is kept.
+  const cue = riffChunk('cue ', randomBytes(25, 61));
+
+  it('replaces IBPM in the INFO list and keeps its other fields and the other chunks', async () => {
+    const file = wavFile([wavFormatChunk(), infoList([['INAM', 'Night Drive'], ['IBPM', '90']]), data, cue]);
+
+    const tagged = await bytesOf(await writeTempoTags(new Blob([file]), tags));
+    const { size, chunks } = readRiffChunks(tagged);
+
+    expect(size).toBe(tagged.length - 8);
+    expect(chunks.map(chunk => chunk.id)).toEqual(['fmt ', 'LIST', 'data', 'cue ']);
+    expect(chunks[0].raw).toEqual(wavFormatChunk());
+    expect(chunks[1].raw).toEqual(infoList([['INAM', 'Night Drive'], ['IBPM', '124.50']]));
+    expect(chunks[2].raw).toEqual(data);
+    expect(chunks[3].raw).toEqual(cue);
+  });
+
+  it('appends an INFO list to a file without one', async () => {
+    const file = wavFile([wavFormatChunk(), data, cue]);
+
+    const tagged = await bytesOf(await writeRiffInfo(new Blob([file]), { IBPM: '128' }));
+    const { size, chunks } = readRiffChunks(tagged);
+
+    expect(size).toBe(tagged.length - 8);
+    expect(tagged.subarray(0, file.length).subarray(8)).toEqual(file.subarray(8));
+    expect(chunks.map(chunk => chunk.id)).toEqual(['fmt ', 'data', 'cue ', 'LIST']);
+    expect(chunks[3].raw).toEqual(infoList([['IBPM', '128']]));
+  });
+});
+
+// --- Containers ---
+
+describe('detectTagContainer', () => {
+  const audio = concat(...Array.from({ length: 3 }, (_, i) => mp3Frame(i + 1)));
+
+  it.each([
+    { name: 'MP3', bytes: audio, container: 'mp3' },
+    { name: 'MP3 with an ID3 tag', bytes: concat(id3Tag('Night Drive'), audio), container: 'mp3' },
+    { name: 'FLAC', bytes: flacFile(flacStreamInfo(1152, 1152), []), container: 'flac' },
+    { name: 'FLAC with an ID3 tag', bytes: concat(id3Tag('Night Drive'), flacFile(flacStreamInfo(1152, 1152), [])), container: 'flac' },
+    { name: 'Ogg', bytes: oggFile('opus', [], [randomBytes(10, 1)]), container: 'ogg' },
+    { name: 'M4A', bytes: mp4File([randomBytes(10, 2)]), container: 'mp4' },
+    { name: 'WAV', bytes: wavFile([wavFormatChunk()]), container: 'wav' },
+    { name: 'ADTS AAC', bytes: concat([0xff, 0xf1, 0x50, 0x80], randomBytes(20, 3)), container: null },
+  ])('reads $name from its bytes', async ({ bytes, container }) => {
+    // A wrong name and type, to show only the bytes count.
+    expect(await detectTagContainer(new File([bytes], 'track.txt', { type: 'text/plain' }))).toBe(container);
+  });
+
+  it('tags an M4A whatever it is called', async () => {
+    const file = new File([mp4File([randomBytes(10, 2)])], 'track', { type: '' });
+    const tagged = await bytesOf(await writeTempoTags(file, tags));
+    expect(readIlst(tagged).map(item => item.name)).toEqual(['tmpo', 'initialkey']);
+  });
+
+  it('refuses a container no writer handles', async () => {
+    await expect(writeTempoTags(new Blob([randomBytes(64, 4)]), tags)).rejects.toThrow("Tags can't be written");
+  });
+});
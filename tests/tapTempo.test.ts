@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { estimateTapTempo } from '../utils/tapTempo';
+import type { Tap } from '../utils/tapTempo';
+
+/** Evenly spaced taps at `heardBpm`, with the track position advancing `rate` times as fast. */
+const tapsAlong = (heardBpm: number, rate: number | null, count = 8): Tap[] =>
+  Array.from({ length: count }, (_, i) => {
+    const at = 100 + (i * 60) / heardBpm;
+    return { at, songTime: rate === null ? null : 30 + (at - 100) * rate };
+  });
+
+describe('estimateTapTempo', () => {
+  it('reads the tapped tempo and anchors the beat at normal speed', () => {
+    const estimate = estimateTapTempo(tapsAlong(120, 1), 1);
+    expect(estimate?.bpm).toBeCloseTo(120, 6);
+    expect(estimate?.playbackRate).toBe(1);
+    expect(estimate?.anchor).toBeCloseTo(30 + 7 * 0.5, 6);
+  });
+
+  it.each([0.92, 1.08])('takes taps at %s× playback back to the track tempo and keeps the anchor', (rate) => {
+    // A 120 BPM track played at `rate` is heard, and tapped, at 120 × rate.
+    const estimate = estimateTapTempo(tapsAlong(120 * rate, rate), rate);
+    expect(estimate?.bpm).toBeCloseTo(120, 6);
+    expect(estimate?.playbackRate).toBe(rate);
+    expect(estimate?.anchor).toBeCloseTo(30 + 7 * 0.5, 6);
+  });
+
+  it('drops the anchor when song time doesn\'t advance at the playback rate', () => {
+    const estimate = estimateTapTempo(tapsAlong(150, 1), 1.25);
+    expect(estimate?.anchor).toBeNull();
+  });
+
+  it('leaves taps made without playback as tapped', () => {
+    const estimate = estimateTapTempo(tapsAlong(126, null), 1.1);
+    expect(estimate?.bpm).toBeCloseTo(126, 6);
+    expect(estimate?.playbackRate).toBe(1);
+    expect(estimate?.anchor).toBeNull();
+  });
+});
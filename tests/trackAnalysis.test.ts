@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_ANALYSIS_OPTIONS, TARGET_SAMPLE_RATE, analyseTrack, computeSpanLagSums, getTrackSpans, normalize, performFullAnalysis,
+} from '../services/bpmAnalysisEngine';
+import { getFrameStats, stitchBeatPaths, trackBeats } from '../services/beatTracker';
+import { detectMeter } from '../services/meterDetection';
+import { detectKey } from '../services/keyDetection';
+import { computeBarTimes, segmentStructure } from '../services/structureSegmentation';
+import { autocorrelation } from '../utils/fft';
+import type { OnsetMethod } from '../types';
+import { createOnsetSignal } from './autocorrelationReference';
+import { addTones, createClickTrack } from './syntheticAudio';
+
+const sampleRate = TARGET_SAMPLE_RATE;
+const beatFrame = 64 / sampleRate;
+
+describe('computeSpanLagSums', () => {
+  it('adds up over the spans to the whole signal\'s sums and frame totals', () => {
+    const onset = createOnsetSignal(30, sampleRate, 124);
+    const maxLag = 2000;
+    const edges = [0, 102400, 256000, onset.length];
+    const parts = edges.slice(0, -1).map((start, i) =>
+      computeSpanLagSums(onset.slice(start, Math.min(onset.length, edges[i + 1] + maxLag)), edges[i + 1] - start, maxLag));
+
+    const expected = autocorrelation(onset, maxLag);
+    parts.forEach(part => expect(part.sums.length).toBe(maxLag + 1));
+    expected.forEach((sum, lag) => {
+      const total = parts.reduce((acc, part) => acc + part.sums[lag], 0);
+      expect(Math.abs(total - sum) / expected[0]).toBeLessThan(1e-9);
+    });
+
+    const frames = getFrameStats(onset);
+    expect(parts.reduce((acc, part) => acc + part.frames.count, 0)).toBe(frames.count);
+    expect(parts.reduce((acc, part) => acc + part.frames.sum, 0)).toBeCloseTo(frames.sum, 6);
+    expect(parts.reduce((acc, part) => acc + part.frames.sumSquares, 0)).toBeCloseTo(frames.sumSquares, 6);
+  });
+});
+
+describe('stitchBeatPaths', () => {
+  it('hands over at the shared beat nearest the boundary', () => {
+    const stitched = stitchBeatPaths([
+      { frames: [10, 50, 90, 131, 170], scores: [1, 2, 3, 4, 5] },
+      { frames: [52, 91, 130, 170, 210], scores: [6, 7, 8, 9, 10] },
+    ], [128 * 64]);
+    expect(stitched.frames).toEqual([10, 50, 90, 130, 170, 210]);
+    expect(stitched.scores).toEqual([1, 2, 3, 8, 9, 10]);
+  });
+
+  it('cuts at the boundary when the paths share no beat', () => {
+    const stitched = stitchBeatPaths([
+      { frames: [10, 50, 90, 130], scores: [1, 2, 3, 4] },
+      { frames: [70, 110, 150], scores: [5, 6, 7] },
+    ], [100 * 64]);
+    expect(stitched.frames).toEqual([10, 50, 90, 110, 150]);
+    expect(stitched.scores).toEqual([1, 2, 3, 6, 7]);
+  });
+});
+
+describe('analyseTrack', () => {
+  // Four minutes drifting from 124 to 126 BPM over an A minor chord: three spans.
+  const { samples } = createClickTrack({ seconds: 240, bpm: time => 124 + time / 120, accentEvery: 4 });
+  const normalized = normalize(addTones(samples, [220, 261.63, 329.63], 0.05));
+
+  it.each<OnsetMethod>(['envelope', 'spectralFlux'])('gives the whole-signal stages\' results when split into spans (%s)', async (onsetMethod) => {
+    expect(getTrackSpans(normalized.length).length).toBe(3);
+    const options = { ...DEFAULT_ANALYSIS_OPTIONS, onsetMethod };
+    const track = await analyseTrack({ normalized, timelineOffset: 0 }, options);
+
+    const whole = performFullAnalysis(normalized, sampleRate, options);
+    expect(track.candidates.map(c => c.tempo)).toEqual(whole.candidates.map(c => c.tempo));
+    track.candidates.forEach((candidate, i) => expect(candidate.count).toBeCloseTo(whole.candidates[i].count, 6));
+    expect(track.peaks).toEqual(whole.peaks);
+
+    const delay = whole.onsetDelaySeconds;
+    const bpm = whole.candidates[0].tempo;
+    const beats = trackBeats(whole.onsetSignal, sampleRate, bpm);
+    const expectedBeats = beats.map(b => b - delay).filter(b => b >= 0);
+    expect(track.beats.length).toBe(expectedBeats.length);
+    track.beats.forEach((beat, i) => expect(Math.abs(beat - expectedBeats[i])).toBeLessThanOrEqual(beatFrame + 1e-9));
+
+    const meter = detectMeter(whole.onsetSignal, sampleRate, bpm)!;
+    expect(track.meter?.timeSignature).toBe(meter.timeSignature);
+    expect(track.meter?.firstDownbeat).toBeCloseTo(meter.firstDownbeat - delay, 6);
+
+    const key = detectKey(normalized, sampleRate)!;
+    expect(track.key?.key).toEqual(key.key);
+    expect(track.key?.confidence).toBeCloseTo(key.confidence, 9);
+
+    const sections = segmentStructure(normalized, sampleRate, computeBarTimes(beats, meter.beatsPerBar, meter.firstDownbeat));
+    expect(sections.length).toBeGreaterThan(0);
+    expect(track.sections.map(({ startBar, bars, label }) => ({ startBar, bars, label })))
+      .toEqual(sections.map(({ startBar, bars, label }) => ({ startBar, bars, label })));
+    track.sections.slice(1).forEach((section, i) =>
+      expect(Math.abs(section.start - (sections[i + 1].start - delay))).toBeLessThanOrEqual(beatFrame + 1e-9));
+  }, 60_000);
+});
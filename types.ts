@@ -9,7 +9,14 @@ export interface MusicalInsight {
 
 export interface BpmCandidate {
   tempo: number;
-  count: number;
+  count: number; // relative score; only meaningful within one track
+  alignment: number; // 0-1, how consistently onsets land on this tempo's grid
+}
+
+export interface OctaveAmbiguity {
+  alternativeTempo: number;
+  relation: 'half' | 'double';
+  strength: number; // 0-1, the alternative's score relative to the top pick
 }
 
 export interface TrackMetadata {
@@ -31,18 +38,72 @@ export interface SongFact {
   }[];
 }
 
+export interface LoudnessPoint {
+  time: number; // centre of the 3 s window, in seconds
+  lufs: number;
+}
+
+export interface LoudnessInfo {
+  integratedLufs: number | null; // null when the whole track is below the -70 LUFS gate
+  loudnessRange: number | null; // LU
+  maxMomentaryLufs: number | null;
+  maxShortTermLufs: number | null;
+  shortTerm: LoudnessPoint[]; // one value per second
+  truePeakDbtp: number;
+  samplePeakDbfs: number;
+  clippedSamples: number;
+  clippingEvents: number; // runs of consecutive clipped samples
+}
+
 export interface FileInfo {
   duration: number;
   sampleRate: number;
   channels: number;
   size: number;
   bitrate: number;
+  loudness?: LoudnessInfo | null; // undefined while it's being measured, null if that failed
+}
+
+export type OnsetMethod = 'envelope' | 'spectralFlux';
+
+export interface TempoSearchParameters {
+  minBpm: number; // tempos outside [minBpm, maxBpm] are folded in by octaves
+  maxBpm: number;
+  preferredMinBpm: number; // candidates in the preferred range get a score bonus
+  preferredMaxBpm: number;
+  visualWeight: number; // 0-1 weight of peak-interval evidence; autocorrelation gets the rest
+  peakThreshold: number; // onset peaks must exceed mean + peakThreshold * stdDev
+}
+
+export interface AnalysisOptions extends TempoSearchParameters {
+  onsetMethod: OnsetMethod;
+}
+
+export type AnalysisPresetId = 'default' | 'houseTechno' | 'dnb' | 'hipHop' | 'dub' | 'classical' | 'custom';
+
+export type ClickSound = 'beep' | 'woodblock' | 'clave' | 'hiHat';
+
+export type MetronomeSubdivision = 'none' | 'eighths' | 'sixteenths' | 'triplets';
+
+export interface MetronomeSettings {
+  enabled: boolean;
+  sound: ClickSound;
+  accentDownbeats: boolean;
+  beatsPerBar: number | null; // null follows the detected meter
+  subdivision: MetronomeSubdivision;
+  volume: number; // 0-1
+  balance: number; // 0 is music only, 1 is click only, 0.5 plays both at full level
+  countInBars: number; // bars of clicks before playback starts, 0 for none
 }
 
 export interface Settings {
   useGemini: boolean;
   debugMode: boolean;
   verboseLogging: boolean;
+  onsetMethod: OnsetMethod;
+  analysisPreset: AnalysisPresetId;
+  customTempoSearch: TempoSearchParameters;
+  metronome: MetronomeSettings;
 }
 
 export interface TempoVariability {
@@ -51,8 +112,104 @@ export interface TempoVariability {
   stdDev: number;
 }
 
+export interface TimeRange {
+  start: number; // seconds
+  end: number;
+}
+
+export interface TempoMapPoint {
+  time: number; // centre of the analysis window, in seconds
+  bpm: number;
+  confidence: number; // 0-1, how well the window's beats align to this tempo
+}
+
+export interface MeterInfo {
+  timeSignature: string; // e.g. "4/4", "3/4", "6/8"
+  beatsPerBar: number; // counted in detected beats (dotted quarters for compound meters)
+  firstDownbeat: number; // seconds
+  downbeats: number[]; // seconds
+  confidence: number; // 0-1
+}
+
+export interface BeatInfo {
+  phase: number;
+  interval: number;
+  firstBeat: number;
+  isUserDefined: boolean;
+  beatsPerBar: number; // in beats of `interval`; 0 when the meter is unknown
+  firstDownbeat: number;
+  beats: number[]; // explicit beat times in seconds; the source of truth for the grid
+}
+
+/**
+ * A warp marker: pins beat number `beat` of the grid to `time` in the track.
+ * Beats between two anchors are spaced evenly, so each pair of neighbouring
+ * anchors defines a segment with its own tempo.
+ */
+export interface GridAnchor {
+  id: string;
+  time: number; // seconds
+  beat: number; // beats from the grid's first downbeat; may be fractional after a half-time change
+  locked: boolean; // keeps the segment up to the next anchor at its tempo while others are dragged
+}
+
+/** A hand-edited beat grid. When present it replaces the detected grid everywhere. */
+export interface BeatGridEdit {
+  anchors: GridAnchor[]; // sorted by time, at least one
+  bpm: number; // tempo used either side of a lone anchor
+}
+
+export type KeyMode = 'major' | 'minor';
+
+export interface MusicalKey {
+  tonic: number; // pitch class, C = 0
+  mode: KeyMode;
+  name: string; // e.g. "A minor"
+  camelot: string; // e.g. "8A"
+}
+
+export interface KeyDetection {
+  key: MusicalKey;
+  runnerUp: MusicalKey;
+  confidence: number; // 0-1
+  chroma: number[]; // 12 pitch-class weights summing to 1, C first
+}
+
+export type SectionLabel = 'intro' | 'build' | 'drop' | 'breakdown' | 'main' | 'outro';
+
+export interface StructureSection {
+  start: number; // seconds
+  end: number;
+  startBar: number; // index of the first bar, counted from the first detected bar
+  bars: number;
+  label: SectionLabel;
+  energy: number; // 0-1 relative to the quietest and loudest bars of the track
+}
+
 export interface AnalysisResult {
   candidates: BpmCandidate[];
+  confidence: number; // 0-1, comparable between tracks
+  octaveAmbiguity: OctaveAmbiguity | null;
   peaks: number[];
   tempoVariability: TempoVariability | null;
+  tempoMap: TempoMapPoint[];
+  meter: MeterInfo | null;
+  beats: number[]; // tracked beat times in seconds, following local tempo
+  key: KeyDetection | null;
+  sections: StructureSection[];
+}
+
+export type AnalysisStage = 'decode' | 'onsets' | 'autocorrelation' | 'beats' | 'key' | 'structure' | 'chunks';
+
+export interface AnalysisProgress {
+  stage: AnalysisStage;
+  progress: number; // 0-1 across the whole job
+  chunk?: number; // 1-based, only during the 'chunks' stage
+  totalChunks?: number;
+}
+
+export interface LiveTempoEstimate {
+  bpm: number | null; // null until enough audio has been heard, or while it's quiet
+  confidence: number; // 0-1, beat alignment weighted by agreement between recent readings
+  level: number; // RMS of the analysis window in dBFS
 }
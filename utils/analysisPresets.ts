@@ -0,0 +1,85 @@
+import type { AnalysisOptions, AnalysisPresetId, Settings, TempoSearchParameters } from '../types';
+import { DEFAULT_TEMPO_SEARCH } from '../services/bpmAnalysisEngine';
+
+export interface AnalysisPreset {
+  id: Exclude<AnalysisPresetId, 'custom'>;
+  label: string;
+  description: string;
+  tempoSearch: TempoSearchParameters;
+}
+
+export const ANALYSIS_PRESETS: AnalysisPreset[] = [
+  {
+    id: 'default',
+    label: 'General',
+    description: 'Broad 60–200 BPM search that favours 95–180 BPM.',
+    tempoSearch: DEFAULT_TEMPO_SEARCH,
+  },
+  {
+    id: 'houseTechno',
+    label: 'House/Techno',
+    description: 'Four-to-the-floor around 118–135 BPM.',
+    tempoSearch: { minBpm: 90, maxBpm: 180, preferredMinBpm: 115, preferredMaxBpm: 140, visualWeight: 0.4, peakThreshold: 1.5 },
+  },
+  {
+    id: 'dnb',
+    label: 'DnB',
+    description: 'Drum & bass and jungle at 160–180 BPM rather than half time.',
+    tempoSearch: { minBpm: 100, maxBpm: 200, preferredMinBpm: 160, preferredMaxBpm: 185, visualWeight: 0.3, peakThreshold: 1.5 },
+  },
+  {
+    id: 'hipHop',
+    label: 'Hip-hop',
+    description: 'Boom-bap and half-time trap feels at 70–100 BPM.',
+    tempoSearch: { minBpm: 60, maxBpm: 130, preferredMinBpm: 70, preferredMaxBpm: 100, visualWeight: 0.35, peakThreshold: 1.5 },
+  },
+  {
+    id: 'dub',
+    label: 'Reggae/Dub',
+    description: 'Slow one-drop and steppers grooves at 60–80 BPM.',
+    tempoSearch: { minBpm: 55, maxBpm: 120, preferredMinBpm: 60, preferredMaxBpm: 85, visualWeight: 0.35, peakThreshold: 1.4 },
+  },
+  {
+    id: 'classical',
+    label: 'Classical',
+    description: 'Wide, slow range with a lower onset threshold for soft attacks and rubato.',
+    tempoSearch: { minBpm: 40, maxBpm: 180, preferredMinBpm: 60, preferredMaxBpm: 120, visualWeight: 0.2, peakThreshold: 1.0 },
+  },
+];
+
+const MIN_ALLOWED_BPM = 30;
+const MAX_ALLOWED_BPM = 300;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+/**
+ * Clamps user-entered parameters into a range the engine can work with and
+ * keeps each min/max pair in order.
+ */
+export const sanitiseTempoSearch = (params: TempoSearchParameters): TempoSearchParameters => {
+  const minBpm = clamp(params.minBpm || DEFAULT_TEMPO_SEARCH.minBpm, MIN_ALLOWED_BPM, MAX_ALLOWED_BPM - 1);
+  const maxBpm = clamp(params.maxBpm || DEFAULT_TEMPO_SEARCH.maxBpm, minBpm + 1, MAX_ALLOWED_BPM);
+  const preferredMinBpm = clamp(params.preferredMinBpm, minBpm, maxBpm);
+  const preferredMaxBpm = clamp(params.preferredMaxBpm, preferredMinBpm, maxBpm);
+  return {
+    minBpm,
+    maxBpm,
+    preferredMinBpm,
+    preferredMaxBpm,
+    visualWeight: clamp(params.visualWeight, 0, 1),
+    peakThreshold: clamp(params.peakThreshold, 0.5, 4),
+  };
+};
+
+export const getTempoSearch = (settings: Settings): TempoSearchParameters => {
+  if (settings.analysisPreset === 'custom') {
+    return sanitiseTempoSearch(settings.customTempoSearch);
+  }
+  const preset = ANALYSIS_PRESETS.find(p => p.id === settings.analysisPreset) || ANALYSIS_PRESETS[0];
+  return preset.tempoSearch;
+};
+
+export const resolveAnalysisOptions = (settings: Settings): AnalysisOptions => ({
+  onsetMethod: settings.onsetMethod,
+  ...getTempoSearch(settings),
+});
@@ -0,0 +1,249 @@
+import type { BeatGridEdit, BeatInfo, GridAnchor } from '../types';
+
+const OCTAVE_TOLERANCE = 0.01;
+
+/**
+ * Returns the index of the first beat at or after `time` (beats.length if none).
+ */
+export const findBeatIndexAtOrAfter = (beats: number[], time: number): number => {
+  let low = 0;
+  let high = beats.length;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    if (beats[mid] < time) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return low;
+};
+
+/** Returns the index of the beat closest to `time`, or -1 for an empty list. */
+export const findNearestBeatIndex = (beats: number[], time: number): number => {
+  if (beats.length === 0) return -1;
+  const after = findBeatIndexAtOrAfter(beats, time);
+  if (after === 0) return 0;
+  if (after === beats.length) return beats.length - 1;
+  return time - beats[after - 1] <= beats[after] - time ? after - 1 : after;
+};
+
+/** A fixed grid of beats every `interval` seconds from `phase` to `duration`. */
+export const buildFixedGrid = (phase: number, interval: number, duration: number): number[] => {
+  const beats: number[] = [];
+  if (interval <= 0) return beats;
+  for (let beatTime = phase; beatTime < duration; beatTime += interval) {
+    beats.push(beatTime);
+  }
+  return beats;
+};
+
+/**
+ * Converts tracked beats to a tempo that is a power-of-two multiple of the
+ * tracked one (e.g. half or double time), keeping `anchor` on the grid when
+ * beats are dropped.
+ * @param beats - Tracked beat times in seconds.
+ * @param ratio - Target tempo divided by tracked tempo.
+ * @param anchor - A time (usually the downbeat) that should remain a beat.
+ * @returns The resampled beats, or null if the ratio isn't a power of two.
+ */
+export const resampleBeats = (beats: number[], ratio: number, anchor: number): number[] | null => {
+  if (beats.length < 2 || ratio <= 0) return null;
+  const exponent = Math.round(Math.log2(ratio));
+  if (Math.abs(ratio / Math.pow(2, exponent) - 1) > OCTAVE_TOLERANCE) return null;
+
+  if (exponent === 0) return beats;
+
+  if (exponent > 0) {
+    const subdivisions = Math.pow(2, exponent);
+    const result: number[] = [];
+    for (let i = 0; i < beats.length - 1; i++) {
+      const step = (beats[i + 1] - beats[i]) / subdivisions;
+      for (let s = 0; s < subdivisions; s++) {
+        result.push(beats[i] + step * s);
+      }
+    }
+    result.push(beats[beats.length - 1]);
+    return result;
+  }
+
+  const stride = Math.pow(2, -exponent);
+  const anchorIndex = Math.max(0, findNearestBeatIndex(beats, anchor));
+  const result: number[] = [];
+  for (let i = anchorIndex % stride; i < beats.length; i += stride) {
+    result.push(beats[i]);
+  }
+  return result;
+};
+
+// --- Edited grids ---
+
+const MAX_SEGMENT_BPM = 400;
+
+const createAnchorId = () => Math.random().toString(36).slice(2, 10);
+
+/** Tempo of the segment from anchor `index` to the next one. */
+export const getSegmentTempo = (edit: BeatGridEdit, index: number): number => {
+  const { anchors } = edit;
+  if (index < 0 || index >= anchors.length - 1) {
+    // Past either end the nearest segment carries on.
+    if (anchors.length < 2) return edit.bpm;
+    return getSegmentTempo(edit, index < 0 ? 0 : anchors.length - 2);
+  }
+  const from = anchors[index];
+  const to = anchors[index + 1];
+  return (60 * (to.beat - from.beat)) / (to.time - from.time);
+};
+
+/** Index of the last anchor at or before `time`, or -1 if `time` is before the first. */
+const findSegmentAtTime = (edit: BeatGridEdit, time: number): number => {
+  let index = -1;
+  while (index + 1 < edit.anchors.length && edit.anchors[index + 1].time <= time) index++;
+  return index;
+};
+
+export const beatAtTime = (edit: BeatGridEdit, time: number): number => {
+  const index = findSegmentAtTime(edit, time);
+  const anchor = edit.anchors[Math.max(0, index)];
+  return anchor.beat + ((time - anchor.time) * getSegmentTempo(edit, index)) / 60;
+};
+
+export const timeAtBeat = (edit: BeatGridEdit, beat: number): number => {
+  const { anchors } = edit;
+  let index = -1;
+  while (index + 1 < anchors.length && anchors[index + 1].beat <= beat) index++;
+  const anchor = anchors[Math.max(0, index)];
+  return anchor.time + ((beat - anchor.beat) * 60) / getSegmentTempo(edit, index);
+};
+
+/** Every whole beat of an edited grid between 0 and `duration`. */
+export const buildEditedGrid = (edit: BeatGridEdit, duration: number): number[] => {
+  const beats: number[] = [];
+  const last = Math.floor(beatAtTime(edit, duration));
+  for (let beat = Math.ceil(beatAtTime(edit, 0)); beat <= last; beat++) {
+    const time = timeAtBeat(edit, beat);
+    if (time >= 0 && time < duration) beats.push(time);
+  }
+  return beats;
+};
+
+/** The BeatInfo for an edited grid, with bars counted from its beat 0. */
+export const getEditedBeatInfo = (edit: BeatGridEdit, duration: number, beatsPerBar: number): BeatInfo => {
+  const beats = buildEditedGrid(edit, duration);
+  const interval = 60 / getSegmentTempo(edit, 0);
+  const firstBeat = beats[0] ?? edit.anchors[0].time;
+  const firstDownbeat = beatsPerBar > 0
+    ? timeAtBeat(edit, Math.ceil(beatAtTime(edit, 0) / beatsPerBar - 1e-9) * beatsPerBar)
+    : firstBeat;
+  return { phase: firstBeat % interval, interval, firstBeat, isUserDefined: true, beatsPerBar, firstDownbeat, beats };
+};
+
+/**
+ * Starts an edited grid from the current one, with anchors on its first
+ * downbeat and its last beat so the overall tempo carries over.
+ */
+export const createGridEdit = (beats: number[], firstDownbeat: number): BeatGridEdit | null => {
+  if (beats.length < 2) return null;
+  const downbeatIndex = findNearestBeatIndex(beats, firstDownbeat);
+  const lastIndex = downbeatIndex === beats.length - 1 ? 0 : beats.length - 1;
+  const anchors: GridAnchor[] = [
+    { id: createAnchorId(), time: beats[downbeatIndex], beat: 0, locked: false },
+    { id: createAnchorId(), time: beats[lastIndex], beat: lastIndex - downbeatIndex, locked: false },
+  ].sort((a, b) => a.time - b.time);
+  return { anchors, bpm: (60 * (anchors[1].beat - anchors[0].beat)) / (anchors[1].time - anchors[0].time) };
+};
+
+/**
+ * Pins the whole beat nearest `time` where it currently falls. If that beat
+ * already has an anchor, the edit is returned unchanged with that anchor's id.
+ */
+export const addGridAnchor = (edit: BeatGridEdit, time: number): { edit: BeatGridEdit; id: string } => {
+  const beat = Math.round(beatAtTime(edit, time));
+  const existing = edit.anchors.find(anchor => Math.abs(anchor.beat - beat) < 1e-6);
+  if (existing) return { edit, id: existing.id };
+  const anchor: GridAnchor = { id: createAnchorId(), time: timeAtBeat(edit, beat), beat, locked: false };
+  const anchors = [...edit.anchors, anchor].sort((a, b) => a.time - b.time);
+  // An anchor inside a locked segment splits it into two locked halves.
+  const index = anchors.indexOf(anchor);
+  if (index > 0 && anchors[index - 1].locked) anchor.locked = true;
+  return { edit: { ...edit, anchors }, id: anchor.id };
+};
+
+/** Removes an anchor, or returns null when it was the last one and the edit is gone. */
+export const removeGridAnchor = (edit: BeatGridEdit, id: string): BeatGridEdit | null => {
+  const anchors = edit.anchors.filter(anchor => anchor.id !== id);
+  if (anchors.length === 0) return null;
+  // A lone anchor falls back to `bpm`, so keep the tempo the grid had.
+  const bpm = anchors.length === 1 ? getSegmentTempo(edit, 0) : edit.bpm;
+  return { anchors, bpm };
+};
+
+/** Shifts anchors `from`..`to` together, stopping short of their neighbours. */
+const shiftAnchors = (edit: BeatGridEdit, from: number, to: number, delta: number): BeatGridEdit => {
+  const { anchors } = edit;
+  const minGap = (beats: number) => (beats * 60) / MAX_SEGMENT_BPM;
+  const before = anchors[from - 1];
+  const after = anchors[to + 1];
+  const lowest = before ? before.time + minGap(anchors[from].beat - before.beat) : 0;
+  const highest = after ? after.time - minGap(after.beat - anchors[to].beat) : Infinity;
+  const clamped = Math.max(lowest - anchors[from].time, Math.min(highest - anchors[to].time, delta));
+  return {
+    ...edit,
+    anchors: anchors.map((anchor, i) => i >= from && i <= to ? { ...anchor, time: anchor.time + clamped } : anchor),
+  };
+};
+
+/**
+ * Moves an anchor to `time`. Locked segments on either side move with it
+ * rather than stretch, so their tempo holds.
+ */
+export const moveGridAnchor = (edit: BeatGridEdit, id: string, time: number): BeatGridEdit => {
+  const index = edit.anchors.findIndex(anchor => anchor.id === id);
+  if (index < 0) return edit;
+  let from = index;
+  let to = index;
+  while (from > 0 && edit.anchors[from - 1].locked) from--;
+  while (to < edit.anchors.length - 1 && edit.anchors[to].locked) to++;
+  return shiftAnchors(edit, from, to, time - edit.anchors[index].time);
+};
+
+/**
+ * Sets the tempo of the segment that starts at anchor `id` by moving the
+ * anchor that ends it, along with anything locked to that anchor's right.
+ */
+export const setSegmentTempo = (edit: BeatGridEdit, id: string, bpm: number): BeatGridEdit => {
+  const index = edit.anchors.findIndex(anchor => anchor.id === id);
+  if (index < 0 || bpm <= 0) return edit;
+  if (edit.anchors.length === 1) return { ...edit, bpm };
+  if (index === edit.anchors.length - 1) return edit;
+  const from = edit.anchors[index];
+  const next = edit.anchors[index + 1];
+  let to = index + 1;
+  while (to < edit.anchors.length - 1 && edit.anchors[to].locked) to++;
+  const target = from.time + ((next.beat - from.beat) * 60) / bpm;
+  return shiftAnchors(edit, index + 1, to, target - next.time);
+};
+
+/** Renumbers an edited grid's beats for half or double time (`ratio` 0.5 or 2), leaving the anchors where they are. */
+export const scaleGridEdit = (edit: BeatGridEdit, ratio: number): BeatGridEdit => ({
+  anchors: edit.anchors.map(anchor => ({ ...anchor, beat: anchor.beat * ratio })),
+  bpm: edit.bpm * ratio,
+});
+
+/**
+ * Changes an edited grid's tempo by `ratio` without renumbering its beats:
+ * anchors keep their beat and move towards or away from the first one.
+ */
+export const stretchGridEdit = (edit: BeatGridEdit, ratio: number): BeatGridEdit => {
+  const origin = edit.anchors[0].time;
+  return {
+    anchors: edit.anchors.map(anchor => ({ ...anchor, time: origin + (anchor.time - origin) / ratio })),
+    bpm: edit.bpm * ratio,
+  };
+};
+
+/** Moves a whole edited grid `seconds` later (or earlier, if negative). */
+export const shiftGridEdit = (edit: BeatGridEdit, seconds: number): BeatGridEdit => ({
+  ...edit,
+  anchors: edit.anchors.map(anchor => ({ ...anchor, time: anchor.time + seconds })),
+});
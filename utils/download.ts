@@ -0,0 +1,14 @@
+/** Offers `blob` to the user as a file download named `fileName`. */
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+/** A track's file name without its extension, for naming files derived from it. */
+export const getBaseName = (fileName: string): string => fileName.replace(/\.[^./\\]+$/, '') || 'track';
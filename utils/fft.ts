@@ -0,0 +1,270 @@
+interface FftTables {
+  reverse: Uint32Array;
+  cos: Float64Array;
+  sin: Float64Array;
+}
+
+const tableCache = new Map<number, FftTables>();
+
+const isPowerOfTwo = (n: number): boolean => n > 0 && (n & (n - 1)) === 0;
+
+/** Smallest power of two that is >= n. */
+export const nextPowerOfTwo = (n: number): number => {
+  let size = 1;
+  while (size < n) size <<= 1;
+  return size;
+};
+
+const getTables = (size: number): FftTables => {
+  let tables = tableCache.get(size);
+  if (tables) return tables;
+
+  const bits = Math.log2(size);
+  const reverse = new Uint32Array(size);
+  for (let i = 0; i < size; i++) {
+    let r = 0;
+    for (let b = 0; b < bits; b++) {
+      r = (r << 1) | ((i >>> b) & 1);
+    }
+    reverse[i] = r;
+  }
+
+  const cos = new Float64Array(size / 2);
+  const sin = new Float64Array(size / 2);
+  for (let i = 0; i < size / 2; i++) {
+    cos[i] = Math.cos((2 * Math.PI * i) / size);
+    sin[i] = Math.sin((2 * Math.PI * i) / size);
+  }
+
+  tables = { reverse, cos, sin };
+  tableCache.set(size, tables);
+  return tables;
+};
+
+/**
+ * In-place iterative radix-2 FFT. Twiddle and bit-reversal tables are cached
+ * per size, so repeated transforms of one size (e.g. STFT frames) are cheap.
+ * @param real - Real parts; length must be a power of two.
+ * @param imag - Imaginary parts; same length as `real`.
+ * @param inverse - Computes the inverse transform, scaled by 1/N.
+ */
+export const fft = (real: Float64Array, imag: Float64Array, inverse = false): void => {
+  const size = real.length;
+  if (!isPowerOfTwo(size) || imag.length !== size) {
+    throw new Error(`FFT size must be a power of two with matching arrays (got ${size}/${imag.length}).`);
+  }
+  const { reverse, cos, sin } = getTables(size);
+
+  for (let i = 0; i < size; i++) {
+    const j = reverse[i];
+    if (j > i) {
+      const tr = real[i]; real[i] = real[j]; real[j] = tr;
+      const ti = imag[i]; imag[i] = imag[j]; imag[j] = ti;
+    }
+  }
+
+  const direction = inverse ? 1 : -1;
+  for (let half = 1; half < size; half <<= 1) {
+    const tableStep = size / (half * 2);
+    for (let start = 0; start < size; start += half * 2) {
+      for (let k = 0; k < half; k++) {
+        const wr = cos[k * tableStep];
+        const wi = direction * sin[k * tableStep];
+        const a = start + k;
+        const b = a + half;
+        const br = real[b] * wr - imag[b] * wi;
+        const bi = real[b] * wi + imag[b] * wr;
+        real[b] = real[a] - br;
+        imag[b] = imag[a] - bi;
+        real[a] += br;
+        imag[a] += bi;
+      }
+    }
+  }
+
+  if (inverse) {
+    for (let i = 0; i < size; i++) {
+      real[i] /= size;
+      imag[i] /= size;
+    }
+  }
+};
+
+/** A Hann window of the given length. */
+export const hannWindow = (length: number): Float64Array => {
+  const window = new Float64Array(length);
+  for (let i = 0; i < length; i++) {
+    window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (length - 1));
+  }
+  return window;
+};
+
+/**
+ * Linear (non-circular) autocorrelation sums `r[lag] = Σ x[i]·x[i + lag]` for
+ * lags 0..maxLag, via the Wiener–Khinchin theorem. The signal is processed in
+ * blocks so memory stays proportional to `maxLag` rather than the signal
+ * length: each block's cross-spectrum with itself plus the following `maxLag`
+ * samples is accumulated, then a single inverse FFT yields the sums. Two real
+ * transforms are packed into one complex FFT per block.
+ */
+export const autocorrelation = (signal: ArrayLike<number>, maxLag: number): Float64Array => {
+  const length = signal.length;
+  const lags = Math.max(0, Math.min(maxLag, length - 1));
+  const size = Math.max(1024, nextPowerOfTwo(4 * (lags + 1)));
+  const blockLength = size - lags;
+
+  const real = new Float64Array(size);
+  const imag = new Float64Array(size);
+  const spectrumReal = new Float64Array(size);
+  const spectrumImag = new Float64Array(size);
+
+  for (let start = 0; start < length; start += blockLength) {
+    const blockEnd = Math.min(length, start + blockLength);
+    const segmentEnd = Math.min(length, start + blockLength + lags);
+    // Real part: the block alone. Imaginary part: the block plus the next `lags` samples.
+    for (let i = 0; i < size; i++) {
+      const index = start + i;
+      real[i] = index < blockEnd ? signal[index] : 0;
+      imag[i] = index < segmentEnd ? signal[index] : 0;
+    }
+    fft(real, imag);
+
+    for (let k = 0; k < size; k++) {
+      const mirror = (size - k) & (size - 1);
+      // Separate the two real transforms: X = (Z[k] + conj Z[-k]) / 2, Y = (Z[k] - conj Z[-k]) / 2i.
+      const xr = (real[k] + real[mirror]) / 2;
+      const xi = (imag[k] - imag[mirror]) / 2;
+      const yr = (imag[k] + imag[mirror]) / 2;
+      const yi = (real[mirror] - real[k]) / 2;
+      // Accumulate conj(X)·Y.
+      spectrumReal[k] += xr * yr + xi * yi;
+      spectrumImag[k] += xr * yi - xi * yr;
+    }
+  }
+
+  fft(spectrumReal, spectrumImag, true);
+  return spectrumReal.slice(0, lags + 1);
+};
+
+/**
+ * Autocorrelation sums, as `autocorrelation` gives them, over the last
+ * `windowLength` samples of a signal that arrives a block at a time. The
+ * signal is a weighted sum of component signals whose weights are only known
+ * when the sums are read, so the cross-spectrum of every pair of components
+ * is kept. Each hop adds the pairs of samples it completes and takes away
+ * the pairs whose earlier sample has left the window, with transforms about
+ * twice `maxLag` long, so the sums never need the whole window again.
+ */
+export const createSlidingAutocorrelation = (componentCount: number, maxLag: number, windowLength: number) => {
+  const size = Math.max(1024, nextPowerOfTwo(2 * (maxLag + 1)));
+  // A longer hop's pairs would wrap round the transform.
+  const hopLength = Math.max(1, Math.min(windowLength, size - maxLag));
+
+  const real = new Float64Array(size);
+  const imag = new Float64Array(size);
+  const transforms = Array.from({ length: componentCount }, () => ({
+    xr: new Float64Array(size), xi: new Float64Array(size), yr: new Float64Array(size), yi: new Float64Array(size),
+  }));
+  // spectra[b * componentCount + c]: Σ conj(X_b)·Y_c for component b's earlier and c's later samples.
+  const spectra = Array.from({ length: componentCount * componentCount }, () => ({
+    real: new Float64Array(size), imag: new Float64Array(size),
+  }));
+
+  let history = Array.from({ length: componentCount }, () => new Float32Array(windowLength + 2 * hopLength));
+  let historyStart = 0; // sample number of history[c][0]
+  let windowStart = 0;
+  let summedEnd = 0; // the sums cover windowStart..summedEnd - 1
+  let received = 0;
+
+  /**
+   * Adds `sign` times the pairs with the earlier sample in frameStart..earlierEnd - 1
+   * and the later one in laterStart..laterEnd - 1, all within `size` of frameStart.
+   */
+  const accumulate = (frameStart: number, earlierEnd: number, laterStart: number, laterEnd: number, sign: number) => {
+    transforms.forEach(({ xr, xi, yr, yi }, c) => {
+      const signal = history[c];
+      for (let i = 0; i < size; i++) {
+        const index = frameStart + i;
+        real[i] = index < earlierEnd ? signal[index - historyStart] : 0;
+        imag[i] = index >= laterStart && index < laterEnd ? signal[index - historyStart] : 0;
+      }
+      fft(real, imag);
+      for (let k = 0; k < size; k++) {
+        const mirror = (size - k) & (size - 1);
+        xr[k] = (real[k] + real[mirror]) / 2;
+        xi[k] = (imag[k] - imag[mirror]) / 2;
+        yr[k] = (imag[k] + imag[mirror]) / 2;
+        yi[k] = (real[mirror] - real[k]) / 2;
+      }
+    });
+    for (let b = 0; b < componentCount; b++) {
+      const x = transforms[b];
+      for (let c = 0; c < componentCount; c++) {
+        const y = transforms[c];
+        const spectrum = spectra[b * componentCount + c];
+        for (let k = 0; k < size; k++) {
+          spectrum.real[k] += sign * (x.xr[k] * y.yr[k] + x.xi[k] * y.yi[k]);
+          spectrum.imag[k] += sign * (x.xr[k] * y.yi[k] - x.xi[k] * y.yr[k]);
+        }
+      }
+    }
+  };
+
+  /** Moves the end of the window on by `hop` received samples. */
+  const advance = (hop: number) => {
+    const leaving = Math.max(0, summedEnd + hop - windowStart - windowLength);
+    if (leaving > 0) {
+      accumulate(windowStart, windowStart + leaving, windowStart, Math.min(summedEnd, windowStart + leaving + maxLag), -1);
+      windowStart += leaving;
+    }
+    accumulate(Math.max(windowStart, summedEnd - maxLag), summedEnd + hop, summedEnd, summedEnd + hop, 1);
+    summedEnd += hop;
+  };
+
+  const catchUp = () => {
+    while (summedEnd < received) advance(Math.min(hopLength, received - summedEnd));
+  };
+
+  /** Appends the next samples of every component; all the same length. */
+  const push = (components: Float32Array[]) => {
+    const count = components[0].length;
+    if (received + count - historyStart > history[0].length) {
+      // Drop what has left the window, growing only if the rest still doesn't fit.
+      const kept = received - windowStart;
+      history = history.map(signal => {
+        const moved = kept + count > signal.length ? new Float32Array(Math.max(2 * signal.length, kept + count)) : signal;
+        moved.set(signal.subarray(windowStart - historyStart, received - historyStart));
+        return moved;
+      });
+      historyStart = windowStart;
+    }
+    history.forEach((signal, c) => signal.set(components[c], received - historyStart));
+    received += count;
+    while (received - summedEnd >= hopLength) advance(hopLength);
+  };
+
+  /** Every component's samples in the current window. */
+  const getWindow = (): Float32Array[] => {
+    catchUp();
+    return history.map(signal => signal.slice(windowStart - historyStart, summedEnd - historyStart));
+  };
+
+  /** The sums for lags 0..maxLag of `Σ scales[c]·component[c]` over the current window. */
+  const getLagSums = (scales: number[]): Float64Array => {
+    catchUp();
+    real.fill(0);
+    imag.fill(0);
+    spectra.forEach((spectrum, pair) => {
+      const scale = scales[Math.floor(pair / componentCount)] * scales[pair % componentCount];
+      if (scale === 0) return;
+      for (let k = 0; k < size; k++) {
+        real[k] += scale * spectrum.real[k];
+        imag[k] += scale * spectrum.imag[k];
+      }
+    });
+    fft(real, imag, true);
+    return real.slice(0, Math.max(0, Math.min(maxLag, summedEnd - windowStart - 1)) + 1);
+  };
+
+  return { push, getWindow, getLagSums };
+};
@@ -23,3 +23,12 @@ export const formatSampleRate = (sampleRate: number): string => {
 export const formatBitrate = (bitrate: number): string => {
     return `${Math.round(bitrate / 1000)} kbps`;
 };
+
+export const formatLufs = (lufs: number | null): string => {
+    return lufs === null ? '—' : `${lufs.toFixed(1)} LUFS`;
+};
+
+export const formatDecibels = (db: number, unit: string): string => {
+    if (!isFinite(db)) return `-∞ ${unit}`;
+    return `${db > 0 ? '+' : ''}${db.toFixed(1)} ${unit}`;
+};
@@ -0,0 +1,3 @@
+/** True when a key press should go to a form field rather than a page-wide shortcut. */
+export const isEditableTarget = (target: EventTarget | null): boolean =>
+  target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
@@ -0,0 +1,55 @@
+import type { TimeRange } from '../types';
+import { findBeatIndexAtOrAfter, findNearestBeatIndex } from './beatGrid';
+
+/** Lengths offered as quick loops, in beats. */
+export const LOOP_LENGTHS = [1, 2, 4, 8, 16];
+
+// A playhead this close after a beat still counts as on it when a loop starts there.
+const ON_BEAT_TOLERANCE = 0.05;
+
+/** Time of beat `index`, carrying the grid on at its first or last interval beyond either end. */
+const beatTimeAt = (beats: number[], index: number): number => {
+  if (index < 0) return beats[0] + index * (beats[1] - beats[0]);
+  const last = beats.length - 1;
+  if (index > last) return beats[last] + (index - last) * (beats[last] - beats[last - 1]);
+  return beats[index];
+};
+
+/**
+ * A loop of `length` beats from the beat at or just before `time`.
+ * @returns null when there's no grid to snap to or the loop would be empty.
+ */
+export const createBeatLoop = (beats: number[], time: number, length: number, duration: number): TimeRange | null => {
+  if (beats.length < 2) return null;
+  const after = findBeatIndexAtOrAfter(beats, time - ON_BEAT_TOLERANCE);
+  const startIndex = after < beats.length && beats[after] <= time + ON_BEAT_TOLERANCE ? after : Math.max(0, after - 1);
+  const start = beats[startIndex];
+  const end = Math.min(duration, beatTimeAt(beats, startIndex + length));
+  return end > start ? { start, end } : null;
+};
+
+/** Snaps both ends of a range to their nearest beats, keeping it at least a beat long. */
+export const snapLoopToBeats = (beats: number[], range: TimeRange, duration: number): TimeRange | null => {
+  if (beats.length < 2) return null;
+  const startIndex = findNearestBeatIndex(beats, range.start);
+  const endIndex = Math.max(startIndex + 1, findNearestBeatIndex(beats, range.end));
+  const start = beats[startIndex];
+  const end = Math.min(duration, beatTimeAt(beats, endIndex));
+  return end > start ? { start, end } : null;
+};
+
+/** How many beats a loop spans, to the nearest beat. */
+export const countLoopBeats = (beats: number[], loop: TimeRange): number =>
+  beats.length < 2 ? 0 : findNearestBeatIndex(beats, loop.end) - findNearestBeatIndex(beats, loop.start);
+
+/**
+ * Folds a position on the unlooped timeline back into the loop. Playback
+ * runs on into the loop from before it, so anything short of its end is
+ * left alone; `pass` counts the times round.
+ */
+export const getLoopPosition = (time: number, loop: TimeRange | null): { time: number; pass: number } => {
+  if (!loop || time < loop.end) return { time, pass: 0 };
+  const length = loop.end - loop.start;
+  const pass = Math.floor((time - loop.start) / length);
+  return { time: time - pass * length, pass };
+};
@@ -0,0 +1,127 @@
+import type { BpmCandidate } from '../types';
+
+/** Taps further apart than this start a new run. */
+export const TAP_RESET_SECONDS = 2;
+/** The estimate only uses the most recent taps, so a drifting hand settles quickly. */
+export const MAX_TAPS = 16;
+export const MIN_TAPS = 4;
+/** How far the tapped tempo may be from a candidate (or its half or double) to count as a match. */
+export const TAP_MATCH_TOLERANCE = 0.04;
+// Playback time may lag the wall clock by a frame or so between taps.
+const PLAYBACK_SYNC_TOLERANCE = 0.05;
+
+export interface Tap {
+  /** Wall-clock time of the tap in seconds. */
+  at: number;
+  /** Position in the track when tapped, or null if nothing was playing. */
+  songTime: number | null;
+}
+
+export interface TapEstimate {
+  /** The track's own tempo: what was tapped, divided by `playbackRate`. */
+  bpm: number;
+  /** The rate the track played at throughout the run, or 1 if it wasn't playing for all of it. */
+  playbackRate: number;
+  /** 0-1, how evenly the taps were spaced. */
+  stability: number;
+  /** A beat position in the track implied by the taps, or null if they weren't made during playback. */
+  anchor: number | null;
+  tapCount: number;
+}
+
+export interface TapMatch {
+  candidate: BpmCandidate;
+  /** 0.5, 1 or 2: the multiple of the candidate that lies closest to the taps. */
+  factor: number;
+  /** candidate.tempo * factor */
+  tempo: number;
+  /** Signed relative difference of the tapped tempo from `tempo`. */
+  deviation: number;
+}
+
+/** Least-squares fit of `values` against their index. */
+const fitLine = (values: number[]): { slope: number; intercept: number; residual: number } => {
+  const n = values.length;
+  const meanIndex = (n - 1) / 2;
+  const meanValue = values.reduce((s, v) => s + v, 0) / n;
+  let covariance = 0;
+  let variance = 0;
+  for (let i = 0; i < n; i++) {
+    covariance += (i - meanIndex) * (values[i] - meanValue);
+    variance += (i - meanIndex) * (i - meanIndex);
+  }
+  const slope = covariance / variance;
+  const intercept = meanValue - slope * meanIndex;
+  let squared = 0;
+  for (let i = 0; i < n; i++) {
+    const error = values[i] - (intercept + slope * i);
+    squared += error * error;
+  }
+  return { slope, intercept, residual: Math.sqrt(squared / n) };
+};
+
+/**
+ * Adds a tap to a run, starting a new run after a long pause and keeping
+ * only the most recent MAX_TAPS.
+ */
+export const appendTap = (taps: Tap[], tap: Tap): Tap[] => {
+  const last = taps[taps.length - 1];
+  if (!last || tap.at - last.at > TAP_RESET_SECONDS) return [tap];
+  return [...taps, tap].slice(-MAX_TAPS);
+};
+
+/**
+ * Estimates the tempo of a run of taps. Fitting a line through the tap times,
+ * rather than averaging intervals, keeps one early or late tap from pulling
+ * both of its neighbouring intervals. Taps made along with playback at
+ * `playbackRate` follow the stretched tempo, so they're scaled back to the
+ * track's own.
+ * @returns The estimate, or null until there are MIN_TAPS taps.
+ */
+export const estimateTapTempo = (taps: Tap[], playbackRate = 1): TapEstimate | null => {
+  if (taps.length < MIN_TAPS) return null;
+  const wallClock = fitLine(taps.map(tap => tap.at));
+  if (wallClock.slope <= 0) return null;
+  const stability = Math.max(0, 1 - (wallClock.residual / wallClock.slope) * 4);
+
+  // Song time runs `rate` times as fast as the wall clock. Only trust the
+  // track positions if playback ran steadily through the whole run.
+  const rate = taps.every(tap => tap.songTime !== null) ? playbackRate : 1;
+  let anchor: number | null = null;
+  const isPlaying = taps.every((tap, i) => tap.songTime !== null && (i === 0
+    || Math.abs((tap.songTime - taps[i - 1].songTime!) - (tap.at - taps[i - 1].at) * rate) <= PLAYBACK_SYNC_TOLERANCE * rate));
+  if (isPlaying) {
+    const track = fitLine(taps.map(tap => tap.songTime!));
+    anchor = track.intercept + track.slope * (taps.length - 1);
+  }
+
+  return { bpm: 60 / wallClock.slope / rate, playbackRate: rate, stability, anchor, tapCount: taps.length };
+};
+
+/**
+ * Compares a tapped tempo with each detected candidate, also trying half and
+ * double the candidate since people often tap at a different octave than the
+ * detector reports.
+ */
+export const compareTapToCandidates = (bpm: number, candidates: BpmCandidate[]): TapMatch[] =>
+  candidates.map(candidate => {
+    let best: TapMatch | null = null;
+    for (const factor of [1, 0.5, 2]) {
+      const tempo = candidate.tempo * factor;
+      const deviation = (bpm - tempo) / tempo;
+      if (!best || Math.abs(deviation) < Math.abs(best.deviation)) {
+        best = { candidate, factor, tempo, deviation };
+      }
+    }
+    return best!;
+  });
+
+/** The closest match within TAP_MATCH_TOLERANCE, or null if the taps don't fit any candidate. */
+export const findBestTapMatch = (matches: TapMatch[]): TapMatch | null => {
+  let best: TapMatch | null = null;
+  for (const match of matches) {
+    if (Math.abs(match.deviation) > TAP_MATCH_TOLERANCE) continue;
+    if (!best || Math.abs(match.deviation) < Math.abs(best.deviation)) best = match;
+  }
+  return best;
+};